@@ -1,6 +1,8 @@
 // Argus Background Service Worker v2.6.1
 // Handles: WebSocket connection, API calls, context triggers, reminder flow, sidePanel, event CRUD
-// NOTE: All popups are shown via content.js overlay - NO Chrome notifications
+// NOTE: All popups are shown via content.js overlay - NO Chrome notifications,
+// except Web Push reminders, which arrive when the server has no WebSocket to send them to,
+// and the daily digest, which has no event to put an overlay on
 
 const API_BASE = 'http://localhost:3000';
 const WS_URL = 'ws://localhost:3000';
@@ -137,6 +139,8 @@ async function handleWebSocketMessage(data) {
       console.log('[Argus] Update confirm:', data.eventTitle, data.description);
       await sendToFirstAvailableTab({
         type: 'ARGUS_UPDATE_CONFIRM',
+        pendingActionId: data.pendingActionId,
+        action: data.action,
         eventId: data.eventId,
         eventTitle: data.eventTitle,
         changes: data.changes,
@@ -145,6 +149,31 @@ async function handleWebSocketMessage(data) {
       });
       break;
 
+    case 'action_choice':
+      console.log('[Argus] Action choice:', data.action, (data.choices || []).length, 'candidates');
+      await sendToFirstAvailableTab({
+        type: 'ARGUS_ACTION_CHOICE',
+        action: data.action,
+        question: data.question,
+        choices: data.choices,
+      });
+      break;
+
+    case 'badge':
+      console.log('[Argus] Badge:', data.kind, data.title);
+      await setBadgeCount((await getBadgeCount()) + 1);
+      chrome.action.setBadgeBackgroundColor({ color: '#e94560' });
+      break;
+
+    case 'digest':
+      console.log('[Argus] Digest:', (data.items || []).length, 'items');
+      await self.registration.showNotification(`Argus digest (${(data.items || []).length})`, {
+        body: (data.items || []).map(item => item.text).join('\n'),
+        icon: 'icons/icon128.png',
+        tag: 'argus-digest',
+      });
+      break;
+
     case 'event_updated':
       console.log('[Argus] Event updated:', data.eventId, data.fields);
       await sendToFirstAvailableTab({
@@ -158,6 +187,20 @@ async function handleWebSocketMessage(data) {
   }
 }
 
+// ============ BADGE ============
+
+// Notifications routed to the badge since the popup was last opened. Kept in session storage —
+// the service worker's globals are gone whenever Chrome idles it.
+async function getBadgeCount() {
+  const { badgeCount } = await chrome.storage.session.get('badgeCount');
+  return badgeCount || 0;
+}
+
+async function setBadgeCount(count) {
+  await chrome.storage.session.set({ badgeCount: count });
+  await chrome.action.setBadgeText({ text: count === 0 ? '' : count > 99 ? '99+' : String(count) });
+}
+
 // ============ TAB COMMUNICATION ============
 
 async function sendToFirstAvailableTab(message) {
@@ -369,6 +412,10 @@ chrome.runtime.onMessage.addListener(function(message, sender, sendResponse) {
           });
           return await updateRes.json();
           
+        case 'CLEAR_BADGE':
+          await setBadgeCount(0);
+          return { success: true };
+
         case 'OPEN_DASHBOARD':
           chrome.tabs.create({ url: 'http://localhost:3000' });
           return { success: true };
@@ -424,12 +471,67 @@ chrome.runtime.onMessage.addListener(function(message, sender, sendResponse) {
   }
 });
 
+// ============ WEB PUSH ============
+// The server pushes reminders when no WebSocket client is connected (Chrome was closed
+// or the worker was asleep) — shown as system notifications since no tab may be open
+
+function urlBase64ToUint8Array(base64) {
+  const padded = (base64 + '='.repeat((4 - base64.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, function(c) { return c.charCodeAt(0); });
+}
+
+async function subscribeToPush() {
+  try {
+    const response = await fetch(API_BASE + '/api/push/vapid-public-key');
+    if (!response.ok) return;
+    const { publicKey } = await response.json();
+    if (!publicKey) return;
+
+    let subscription = await self.registration.pushManager.getSubscription();
+    if (!subscription) {
+      subscription = await self.registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      });
+    }
+    await fetch(API_BASE + '/api/push/subscriptions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(subscription.toJSON()),
+    });
+    console.log('[Argus] Push subscription registered');
+  } catch (error) {
+    console.error('[Argus] Push subscription error:', error.message);
+  }
+}
+
+self.addEventListener('push', function(event) {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch (e) {}
+  event.waitUntil(self.registration.showNotification(data.title || 'Argus reminder', {
+    body: data.body || '',
+    icon: 'icons/icon128.png',
+    tag: data.tag,
+    data: { eventId: data.eventId },
+  }));
+});
+
+self.addEventListener('notificationclick', function(event) {
+  event.notification.close();
+  event.waitUntil(chrome.tabs.create({ url: API_BASE }));
+});
+
 // ============ STARTUP ============
 
 chrome.runtime.onInstalled.addListener(function() {
   console.log('[Argus] Extension installed');
   connectWebSocket();
+  subscribeToPush();
 });
 
 connectWebSocket();
+subscribeToPush();
 console.log('[Argus] Background v2.6.1 loaded');
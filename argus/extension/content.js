@@ -459,20 +459,36 @@
 
       case 'update_confirm': {
         const changeDesc = extraData.description || 'Some changes have been proposed for this event.';
+        const isModify = !extraData.action || extraData.action === 'modify';
         return {
-          icon: '📝',
+          icon: isModify ? '📝' : '⚠️',
           headerClass: 'conflict',
-          title: 'Update Event?',
-          subtitle: sender !== 'Someone' ? sender + ' mentioned changes' : 'A message suggests changes to this event',
+          title: isModify ? 'Update Event?' : 'Are you sure?',
+          subtitle: sender !== 'Someone' ? sender + (isModify ? ' mentioned changes' : ' mentioned this') : 'A message suggests changes to this event',
           question: changeDesc,
           buttons: [
-            { text: '✅ Yes, Update', action: 'confirm-update', style: 'primary' },
-            { text: '⏭️ Skip', action: 'dismiss', style: 'secondary' },
+            { text: isModify ? '✅ Yes, Update' : '✅ Yes, Do It', action: 'confirm-update', style: 'primary' },
+            { text: '⏭️ Skip', action: extraData.pendingActionId ? 'reject-pending' : 'dismiss', style: 'secondary' },
             { text: '🚫 Ignore', action: 'ignore', style: 'outline' },
           ]
         };
       }
 
+      case 'action_choice': {
+        // One button per candidate event — each is a pending action, picking one rejects the rest
+        const choices = extraData.choices || [];
+        return {
+          icon: '🤔',
+          headerClass: 'conflict',
+          title: 'Which one did you mean?',
+          subtitle: 'A message matches more than one event',
+          question: escapeHtml(extraData.question || 'Pick the event this was about.'),
+          buttons: choices.map(function(c) {
+            return { text: '👉 ' + escapeHtml(c.eventTitle), action: 'choose-pending:' + c.pendingActionId, style: 'primary' };
+          }).concat([{ text: '🚫 None of these', action: 'reject-choices', style: 'outline' }])
+        };
+      }
+
       case 'form_mismatch': {
         const remembered = extraData.remembered || 'a different value';
         const entered = extraData.entered || 'what you typed';
@@ -655,9 +671,9 @@
         html += '<button class="argus-btn argus-btn-' + btn.style + '" data-action="' + btn.action + '">' + btn.text + '</button>';
       });
       html += '</div>';
-      if (config.buttons.length > 2) {
-        html += '<button class="argus-btn argus-btn-' + config.buttons[2].style + '" data-action="' + config.buttons[2].action + '">' + config.buttons[2].text + '</button>';
-      }
+      config.buttons.slice(2).forEach(function(btn) {
+        html += '<button class="argus-btn argus-btn-' + btn.style + '" data-action="' + btn.action + '">' + btn.text + '</button>';
+      });
       html += '</div>';
     }
 
@@ -725,6 +741,26 @@
       handledEventIds.add(eventId);
     }
 
+    // Picked one event of an action_choice popup
+    if (action.indexOf('choose-pending:') === 0) {
+      var chosenId = action.slice('choose-pending:'.length);
+      console.log(`[Argus] 👉 User picked pending action #${chosenId}`);
+      fetch('http://localhost:3000/api/pending-actions/' + chosenId + '/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Argus-Source': 'extension' },
+      })
+      .then(function(res) { return res.json(); })
+      .then(function(data) {
+        showToast(data.success ? '✅ Done!' : '❌ Failed', data.success ? data.message : (data.error || 'Could not apply the action.'));
+      })
+      .catch(function(err) {
+        console.error('[Argus] Choose pending action error:', err);
+        showToast('❌ Error', 'Could not reach server.');
+      });
+      closeModal();
+      return;
+    }
+
     switch (action) {
       case 'set-reminder':
       case 'schedule':
@@ -812,15 +848,19 @@
       case 'confirm-update':
         console.log(`[Argus] ✅ User confirmed update for event #${eventId}`);
         var changes = extraData.changes || {};
-        fetch('http://localhost:3000/api/events/' + eventId + '/confirm-update', {
+        // Pending actions are confirmed by id; older servers only know confirm-update
+        var confirmUrl = extraData.pendingActionId
+          ? 'http://localhost:3000/api/pending-actions/' + extraData.pendingActionId + '/confirm'
+          : 'http://localhost:3000/api/events/' + eventId + '/confirm-update';
+        fetch(confirmUrl, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', 'X-Argus-Source': 'extension' },
           body: JSON.stringify({ changes: changes }),
         })
         .then(function(res) { return res.json(); })
         .then(function(data) {
-          if (data.ok) {
-            showToast('📝 Updated!', event.title + ' has been updated.');
+          if (data.success) {
+            showToast('📝 Done!', data.message || (event.title + ' has been updated.'));
           } else {
             showToast('❌ Update failed', data.error || 'Could not update event.');
           }
@@ -831,6 +871,28 @@
         });
         break;
 
+      case 'reject-pending':
+        console.log(`[Argus] ⏭️ User rejected pending action #${extraData.pendingActionId}`);
+        fetch('http://localhost:3000/api/pending-actions/' + extraData.pendingActionId + '/reject', {
+          method: 'POST',
+          headers: { 'X-Argus-Source': 'extension' },
+        }).catch(function(err) {
+          console.error('[Argus] Reject pending action error:', err);
+        });
+        break;
+
+      case 'reject-choices':
+        console.log(`[Argus] 🚫 User rejected all ${(extraData.choices || []).length} choices`);
+        (extraData.choices || []).forEach(function(c) {
+          fetch('http://localhost:3000/api/pending-actions/' + c.pendingActionId + '/reject', {
+            method: 'POST',
+            headers: { 'X-Argus-Source': 'extension' },
+          }).catch(function(err) {
+            console.error('[Argus] Reject choice error:', err);
+          });
+        });
+        break;
+
       case 'fix-form-field':
         console.log(`[Argus] ✏️ User wants to fix form field, remembered: ${extraData.remembered}`);
         // Find the input field on the page and fill it with the remembered value
@@ -1128,11 +1190,23 @@
         showModal(
           { id: message.eventId, title: message.eventTitle },
           'update_confirm',
-          { description: message.description, changes: message.changes, popup: message.popup }
+          { description: message.description, changes: message.changes, popup: message.popup, pendingActionId: message.pendingActionId, action: message.action }
         );
         sendResponse({ received: true });
         break;
 
+      case 'ARGUS_ACTION_CHOICE': {
+        console.log(`[Argus] 🤔 Action choice: ${message.action} on ${(message.choices || []).length} candidates`);
+        var choices = message.choices || [];
+        showModal(
+          { id: 'choice-' + choices.map(function(c) { return c.pendingActionId; }).join('-'), title: choices.map(function(c) { return c.eventTitle; }).join(' / ') },
+          'action_choice',
+          { action: message.action, question: message.question, choices: choices }
+        );
+        sendResponse({ received: true });
+        break;
+      }
+
       case 'ARGUS_FORM_MISMATCH':
         console.log(`[Argus] ⚠️ Form mismatch from server: entered="${message.entered}", remembered="${message.remembered}"`);
         showModal(
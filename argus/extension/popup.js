@@ -191,6 +191,7 @@ function escapeHtml(text) {
 
 // Initialize
 console.log('[Argus Popup] Initializing...');
+chrome.runtime.sendMessage({ type: 'CLEAR_BADGE' }); // Opening the popup counts as having seen them
 loadStats();
 loadEvents();
 
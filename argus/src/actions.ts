@@ -0,0 +1,327 @@
+/**
+ * Action Confirmation
+ * Actions detected in WhatsApp messages ("cancel it", "done", "move it to 5") are either
+ * applied straight away or held as a pending action until the user confirms them in the
+ * extension. The policy for each action decides: never ask, always ask, or ask below a
+ * confidence threshold — and, unless the action never asks, whenever the target event
+ * was guessed (the most recent active event) instead of matched by keywords.
+ * Policies are edited through /api/action-policies; missing actions use the defaults below.
+ *
+ * Target events are ranked from Gemini's scored candidates (picked from the numbered event
+ * list it was shown) and keyword matches, with a boost for events that came from the same
+ * chat or sender as the action message. When the best candidates are too close to call, every
+ * one of them becomes a pending action in one choice group and the user picks which they meant.
+ * "Cancel both meetings" acts on each matching candidate, with the policy checked per event.
+ */
+
+import {
+  getDb,
+  getEventById,
+  deleteEvent,
+  completeEvent,
+  ignoreEvent,
+  snoozeEvent,
+  updateEvent,
+  getActionPolicy,
+  insertPendingAction,
+  getPendingActionById,
+  resolvePendingAction,
+  rejectOtherPendingChoices,
+  findActiveEventsByKeywords,
+  getEventOrigins,
+  withChangeSource,
+} from './db.js';
+import type { ActionResult } from './gemini.js';
+import type { ActionPolicy, ChangeSource, Event, EventAction, PendingActionRecord, TargetResolution } from './types.js';
+
+// How long a proposed action waits for an answer
+export const PENDING_ACTION_TTL_SECONDS = 24 * 3600;
+
+export const DEFAULT_ACTION_POLICIES: Record<EventAction, Omit<ActionPolicy, 'action' | 'updated_at'>> = {
+  cancel: { confirm: 'below_threshold', threshold: 0.85, confirm_fallback: true },
+  delete: { confirm: 'below_threshold', threshold: 0.85, confirm_fallback: true },
+  ignore: { confirm: 'below_threshold', threshold: 0.85, confirm_fallback: true },
+  complete: { confirm: 'below_threshold', threshold: 0.75, confirm_fallback: true },
+  snooze: { confirm: 'never', threshold: 0.85, confirm_fallback: false },
+  postpone: { confirm: 'never', threshold: 0.85, confirm_fallback: false },
+  modify: { confirm: 'always', threshold: 0.85, confirm_fallback: true },
+};
+
+// Target ranking — Gemini's candidate score plus these, capped at 1
+const KEYWORD_MATCH_SCORE = 0.6; // found by keyword search only, scaled by the share of keywords matched
+const KEYWORD_BOOST = 0.1; // a Gemini candidate that keyword search found as well
+const SAME_CHAT_BOOST = 0.15;
+const SAME_SENDER_BOOST = 0.1; // event came from the same person in another chat
+export const AMBIGUITY_MARGIN = 0.1; // top candidates closer than this → ask which one
+export const MULTI_TARGET_MIN_SCORE = 0.5; // "cancel both" only acts on candidates at least this likely
+const MAX_CHOICES = 3;
+
+export interface RankedTarget {
+  event: Event;
+  score: number;
+  via: TargetResolution;
+}
+
+export type TargetSelection =
+  | { kind: 'targets'; targets: RankedTarget[] }
+  | { kind: 'ambiguous'; candidates: RankedTarget[] }
+  | { kind: 'none' };
+
+export type PendingActionOutcome =
+  | { ok: true; pendingAction: PendingActionRecord; message: string }
+  | { ok: false; error: 'not_found' | 'resolved' | 'expired' | 'event_missing'; pendingAction?: PendingActionRecord };
+
+export function getEffectiveActionPolicy(action: EventAction): ActionPolicy {
+  return getActionPolicy(action) ?? { action, ...DEFAULT_ACTION_POLICIES[action] };
+}
+
+// Why an action has to be confirmed first, or null when it can be applied right away
+export function getConfirmationReason(action: EventAction, confidence: number, resolvedVia: TargetResolution): string | null {
+  const policy = getEffectiveActionPolicy(action);
+  if (policy.confirm === 'never') return null;
+  if (policy.confirm === 'always') return `${action} always needs confirmation`;
+  if (confidence < policy.threshold) return `confidence ${confidence} is below ${policy.threshold}`;
+  if (policy.confirm_fallback && resolvedVia === 'fallback') return 'target event was guessed (most recent active event)';
+  return null;
+}
+
+export function formatSnoozeDuration(minutes: number): string {
+  return minutes >= 10080 ? 'next week' : minutes >= 1440 ? 'tomorrow' : minutes >= 60 ? `${Math.round(minutes / 60)} hours` : `${minutes} minutes`;
+}
+
+// One-line summary of what an action will do, for the confirmation popup
+export function describeAction(action: EventAction, title: string, changes: Record<string, unknown>): string {
+  switch (action) {
+    case 'cancel':
+    case 'delete':
+      return `Delete "${title}"`;
+    case 'complete':
+      return `Mark "${title}" as done`;
+    case 'ignore':
+      return `Ignore "${title}" — no more reminders`;
+    case 'snooze':
+    case 'postpone':
+      return `Snooze "${title}" (remind ${formatSnoozeDuration(Number(changes.snooze_minutes) || 30)})`;
+    case 'modify':
+      return `Update "${title}": ${Object.keys(changes).join(', ')}`;
+  }
+}
+
+// Apply an action to an event and return the user-facing summary
+export function applyEventAction(
+  eventId: number,
+  action: EventAction,
+  changes: Record<string, unknown>,
+  source: ChangeSource
+): string {
+  const title = getEventById(eventId)?.title ?? `#${eventId}`;
+
+  return withChangeSource(source, () => {
+    switch (action) {
+      case 'cancel':
+      case 'delete':
+        deleteEvent(eventId);
+        console.log(`🗑️ [ACTION] Deleted event #${eventId}: "${title}"`);
+        return `Deleted: "${title}" (undo available)`;
+
+      case 'complete':
+        completeEvent(eventId);
+        console.log(`✅ [ACTION] Completed event #${eventId}: "${title}"`);
+        return `Completed: "${title}"`;
+
+      case 'ignore':
+        ignoreEvent(eventId);
+        console.log(`🚫 [ACTION] Ignored event #${eventId}: "${title}"`);
+        return `Ignored: "${title}" - won't remind again`;
+
+      case 'snooze':
+      case 'postpone': {
+        const minutes = Number(changes.snooze_minutes) || 30;
+        snoozeEvent(eventId, minutes);
+        console.log(`💤 [ACTION] Snoozed event #${eventId} for ${minutes} min: "${title}"`);
+        return `Snoozed: "${title}" → will remind ${formatSnoozeDuration(minutes)}`;
+      }
+
+      case 'modify':
+        updateEvent(eventId, changes as Parameters<typeof updateEvent>[1]);
+        console.log(`📝 [ACTION] Updated event #${eventId}: "${title}" [${Object.keys(changes).join(', ')}]`);
+        return `Updated "${title}": changed ${Object.keys(changes).join(', ')}`;
+    }
+  });
+}
+
+// Where the action message came from, for the same-chat/sender boost
+interface ActionOrigin {
+  chatId: string;
+  sender: string;
+}
+
+// Boost per event for coming from the action's chat, or else from the same sender.
+// Own messages all have sender 'self', so only the chat counts for them.
+function getOriginBoosts(eventIds: number[], origin: ActionOrigin): Map<number, number> {
+  const boosts = new Map<number, number>();
+  for (const row of getEventOrigins(eventIds)) {
+    const boost = row.chat_id === origin.chatId ? SAME_CHAT_BOOST
+      : origin.sender !== 'self' && row.sender === origin.sender ? SAME_SENDER_BOOST
+      : 0;
+    boosts.set(row.event_id, Math.max(boosts.get(row.event_id) ?? 0, boost));
+  }
+  return boosts;
+}
+
+function keywordShare(event: Event, keywords: string[]): number {
+  const text = [event.keywords, event.title, event.description, event.location].join(' ').toLowerCase();
+  return keywords.filter(kw => text.includes(kw.toLowerCase())).length / keywords.length;
+}
+
+// Every event the action may refer to, best first
+export function rankActionTargets(
+  detected: Pick<ActionResult, 'candidates' | 'targetKeywords'>,
+  activeEvents: Event[],
+  origin: ActionOrigin
+): RankedTarget[] {
+  const active = new Map(activeEvents.map(e => [e.id!, e]));
+  const ranked = new Map<number, RankedTarget>();
+
+  // Candidates outside the list Gemini was shown (stale or made-up ids) are dropped
+  for (const candidate of detected.candidates) {
+    const event = active.get(candidate.eventId);
+    if (event && !ranked.has(candidate.eventId)) ranked.set(candidate.eventId, { event, score: candidate.score, via: 'candidates' });
+  }
+
+  const keywords = detected.targetKeywords.filter(kw => kw.trim().length > 0);
+  if (keywords.length > 0) {
+    for (const event of findActiveEventsByKeywords(keywords)) {
+      const existing = ranked.get(event.id!);
+      if (existing) existing.score += KEYWORD_BOOST;
+      else ranked.set(event.id!, { event, score: KEYWORD_MATCH_SCORE * keywordShare(event, keywords), via: 'keywords' });
+    }
+  }
+
+  const boosts = getOriginBoosts([...ranked.keys()], origin);
+  return [...ranked.values()]
+    .map(t => ({ ...t, score: Math.min(1, Math.round((t.score + (boosts.get(t.event.id!) ?? 0)) * 100) / 100) }))
+    .sort((a, b) => b.score - a.score || b.event.id! - a.event.id!);
+}
+
+// Scores are rounded to 2 decimals — compare in hundredths to stay clear of float noise
+function tooCloseToCall(best: number, other: number): boolean {
+  return Math.round((best - other) * 100) < Math.round(AMBIGUITY_MARGIN * 100);
+}
+
+// Decide which event(s) an action applies to, or that the user has to be asked
+export function selectActionTargets(
+  detected: Pick<ActionResult, 'candidates' | 'targetKeywords' | 'multiTarget'>,
+  activeEvents: Event[],
+  origin: ActionOrigin
+): TargetSelection {
+  const ranked = rankActionTargets(detected, activeEvents, origin);
+
+  if (ranked.length === 0) {
+    // Nothing named — guess the most recent active event, preferring one from this chat
+    if (activeEvents.length === 0) return { kind: 'none' };
+    const boosts = getOriginBoosts(activeEvents.map(e => e.id!), origin);
+    const guess = activeEvents.find(e => boosts.get(e.id!) === SAME_CHAT_BOOST) ?? activeEvents[0];
+    return { kind: 'targets', targets: [{ event: guess, score: 0, via: 'fallback' }] };
+  }
+
+  if (detected.multiTarget) {
+    const targets = ranked.filter(t => t.score >= MULTI_TARGET_MIN_SCORE);
+    if (targets.length > 0) return { kind: 'targets', targets };
+  }
+
+  const close = ranked.filter(t => tooCloseToCall(ranked[0].score, t.score)).slice(0, MAX_CHOICES);
+  return close.length > 1 ? { kind: 'ambiguous', candidates: close } : { kind: 'targets', targets: [ranked[0]] };
+}
+
+// Hold an action until the user answers
+export function proposeEventAction(proposal: {
+  eventId: number;
+  action: EventAction;
+  changes: Record<string, unknown>;
+  description: string;
+  confidence: number;
+  resolvedVia: TargetResolution;
+  reason: string;
+  messageId: string | null;
+  choiceGroup?: string;
+}): PendingActionRecord {
+  const id = insertPendingAction({
+    event_id: proposal.eventId,
+    action: proposal.action,
+    changes: proposal.changes,
+    description: proposal.description,
+    confidence: proposal.confidence,
+    resolved_via: proposal.resolvedVia,
+    reason: proposal.reason,
+    message_id: proposal.messageId,
+    choice_group: proposal.choiceGroup ?? null,
+    expires_at: Math.floor(Date.now() / 1000) + PENDING_ACTION_TTL_SECONDS,
+  });
+  console.log(`📋 [ACTION] Pending #${id}: ${proposal.description} — ${proposal.reason}`);
+  return getPendingActionById(id)!;
+}
+
+// Ask which event was meant: one pending action per candidate, sharing a choice group
+export function proposeActionChoice(proposal: {
+  candidates: RankedTarget[];
+  action: EventAction;
+  changes: Record<string, unknown>;
+  describe: (event: Event) => string;
+  confidence: number;
+  messageId: string;
+}): PendingActionRecord[] {
+  const choiceGroup = `choice:${proposal.messageId}`;
+  const titles = proposal.candidates.map(c => `"${c.event.title}"`).join(' or ');
+  return proposal.candidates.map(candidate => proposeEventAction({
+    eventId: candidate.event.id!,
+    action: proposal.action,
+    changes: proposal.changes,
+    description: proposal.describe(candidate.event),
+    confidence: proposal.confidence,
+    resolvedVia: candidate.via,
+    reason: `several events match (${titles}) — which one did you mean?`,
+    messageId: proposal.messageId,
+    choiceGroup,
+  }));
+}
+
+// Check a pending action can still be answered; expires it on the way when it timed out
+function checkAnswerable(id: number): PendingActionOutcome | PendingActionRecord {
+  const pendingAction = getPendingActionById(id);
+  if (!pendingAction) return { ok: false, error: 'not_found' };
+  if (pendingAction.status !== 'pending') return { ok: false, error: 'resolved', pendingAction };
+  if (pendingAction.expires_at <= Math.floor(Date.now() / 1000)) {
+    resolvePendingAction(id, 'expired');
+    return { ok: false, error: 'expired', pendingAction: getPendingActionById(id) };
+  }
+  return pendingAction;
+}
+
+// The user said yes — apply the action (atomically with resolving it)
+export function confirmPendingAction(id: number, source: ChangeSource): PendingActionOutcome {
+  const checked = checkAnswerable(id);
+  if ('ok' in checked) return checked;
+
+  const event = getEventById(checked.event_id);
+  if (!event || event.status === 'deleted') {
+    resolvePendingAction(id, 'rejected');
+    return { ok: false, error: 'event_missing', pendingAction: getPendingActionById(id) };
+  }
+
+  const message = getDb().transaction(() => {
+    resolvePendingAction(id, 'confirmed');
+    if (checked.choice_group) rejectOtherPendingChoices(checked.choice_group, id);
+    return applyEventAction(checked.event_id, checked.action, checked.changes, source);
+  })();
+  return { ok: true, pendingAction: getPendingActionById(id)!, message };
+}
+
+export function rejectPendingAction(id: number): PendingActionOutcome {
+  const checked = checkAnswerable(id);
+  if ('ok' in checked) return checked;
+
+  resolvePendingAction(id, 'rejected');
+  console.log(`⏭️ [ACTION] Pending #${id} rejected: ${checked.description}`);
+  return { ok: true, pendingAction: getPendingActionById(id)!, message: `Kept as is: ${checked.description}` };
+}
@@ -0,0 +1,225 @@
+/**
+ * History Backfill
+ * Reads messages that were sent before Argus was installed from the Evolution database,
+ * oldest first, and runs them through the normal ingestion pipeline (chat policies,
+ * media extraction, event extraction) so months of plans become events. They are
+ * historical: commands, replies and reactions in them don't act on today's events.
+ *
+ * Backfills are stored in backfill_jobs and run one at a time. After every message the
+ * checkpoint (timestamp + Evolution row ID) is saved, so a paused, failed or interrupted
+ * backfill resumes where it stopped. Message IDs Argus already has are skipped, which
+ * makes re-running a range (or overlapping the live webhook) safe. Analysis is rate
+ * limited to messagesPerMinute so a large history doesn't exhaust the LLM quota.
+ * Backfilled events are stored quietly — only progress is reported, no popups.
+ */
+
+import {
+  insertBackfillJob,
+  getBackfillJobById,
+  getNextQueuedBackfill,
+  updateBackfillJob,
+  transitionBackfillJob,
+  requeueRunningBackfills,
+  getMessageById,
+} from './db.js';
+import { getEvolutionMessagesAfter, countEvolutionMessages } from './evolution-db.js';
+import type { EvolutionRawMessage, EvolutionHistoryQuery } from './evolution-db.js';
+import { processWebhook } from './ingestion.js';
+import type { WebhookOptions } from './ingestion.js';
+import { WhatsAppWebhookSchema } from './types.js';
+import type { BackfillJob, BackfillRequest } from './types.js';
+
+const PAGE_SIZE = 100;
+
+// Where historical messages come from — the Evolution database unless a test swaps it
+export interface BackfillSource {
+  count(query: EvolutionHistoryQuery): Promise<number>;
+  fetchAfter(query: EvolutionHistoryQuery & { after: { timestamp: number; rowId: string } | null; limit: number }): Promise<EvolutionRawMessage[]>;
+}
+
+interface BackfillRunnerOptions {
+  webhookOptions: WebhookOptions;
+  messagesPerMinute: number; // 0 = unlimited
+  instanceId?: string;
+  instanceName?: string;
+  source?: BackfillSource;
+  onProgress?: (job: BackfillJob) => void;
+}
+
+let runner: (BackfillRunnerOptions & { source: BackfillSource }) | null = null;
+let running: Promise<void> | null = null;
+const pauseRequests = new Set<number>();
+
+export function startBackfillRunner(opts: BackfillRunnerOptions): void {
+  runner = {
+    source: {
+      count: (query) => countEvolutionMessages({ ...query, instanceId: opts.instanceId }),
+      fetchAfter: (query) => getEvolutionMessagesAfter({ ...query, instanceId: opts.instanceId }),
+    },
+    ...opts,
+  };
+
+  const requeued = requeueRunningBackfills();
+  if (requeued > 0) {
+    console.log(`♻️ [BACKFILL] Resuming ${requeued} backfill(s) interrupted by a restart`);
+  }
+  drainBackfills();
+}
+
+// Stop after the message in flight — a running backfill goes back to 'queued' and resumes on the next start
+export async function stopBackfillRunner(): Promise<void> {
+  runner = null;
+  await running;
+}
+
+// Resolves once the runner has nothing left to do
+export async function waitForBackfills(): Promise<void> {
+  while (running) await running;
+}
+
+export function startBackfill(request: BackfillRequest): BackfillJob {
+  const job = insertBackfillJob(request);
+  console.log(`📚 [BACKFILL] #${job.id} queued (${request.chatIds.length || 'all'} chat(s))`);
+  notify(job.id);
+  drainBackfills();
+  return job;
+}
+
+// Queued backfills pause right away, a running one after the message in flight
+export function pauseBackfill(id: number): boolean {
+  if (transitionBackfillJob(id, ['queued'], 'paused')) {
+    notify(id);
+    return true;
+  }
+  if (getBackfillJobById(id)?.status !== 'running') return false;
+  pauseRequests.add(id);
+  return true;
+}
+
+// Continue a paused or failed backfill from its checkpoint
+export function resumeBackfill(id: number): boolean {
+  if (!transitionBackfillJob(id, ['paused', 'failed'], 'queued')) return false;
+  updateBackfillJob(id, { last_error: null });
+  notify(id);
+  drainBackfills();
+  return true;
+}
+
+function notify(id: number): void {
+  const job = getBackfillJobById(id);
+  if (job) runner?.onProgress?.(job);
+}
+
+function drainBackfills(): void {
+  if (!runner || running) return;
+  running = (async () => {
+    let job: BackfillJob | undefined;
+    while (runner && (job = getNextQueuedBackfill())) {
+      await runBackfill(job);
+    }
+  })().finally(() => {
+    running = null;
+    // Started while the last run was finishing up
+    if (runner && getNextQueuedBackfill()) drainBackfills();
+  });
+}
+
+async function runBackfill(job: BackfillJob): Promise<void> {
+  if (!runner || !transitionBackfillJob(job.id, ['queued'], 'running')) return;
+  const { source, webhookOptions, messagesPerMinute } = runner;
+  const query: EvolutionHistoryQuery = { chatIds: JSON.parse(job.chat_ids) as string[], since: job.since, until: job.until };
+  const delayMs = messagesPerMinute > 0 ? Math.ceil(60000 / messagesPerMinute) : 0;
+
+  const progress = {
+    scanned: job.scanned,
+    processed: job.processed,
+    already_stored: job.already_stored,
+    events_created: job.events_created,
+  };
+  let after = job.checkpoint_ts !== null && job.checkpoint_id !== null
+    ? { timestamp: job.checkpoint_ts, rowId: job.checkpoint_id }
+    : null;
+  // Stored but maybe not analyzed when the last run stopped — the one message not skipped as a duplicate
+  const unfinishedId = job.current_message_id;
+
+  try {
+    if (job.total === null) updateBackfillJob(job.id, { total: await source.count(query) });
+    console.log(`📚 [BACKFILL] #${job.id} ${after ? 'resuming' : 'started'}`);
+    notify(job.id);
+
+    for (;;) {
+      const page = await source.fetchAfter({ ...query, after, limit: PAGE_SIZE });
+      if (page.length === 0) break;
+
+      for (const row of page) {
+        if (!runner) {
+          transitionBackfillJob(job.id, ['running'], 'queued');
+          return;
+        }
+        if (pauseRequests.delete(job.id)) {
+          transitionBackfillJob(job.id, ['running'], 'paused');
+          console.log(`⏸️ [BACKFILL] #${job.id} paused after ${progress.scanned} message(s)`);
+          notify(job.id);
+          return;
+        }
+
+        const analyzed = await backfillMessage(job.id, row, unfinishedId, progress, webhookOptions);
+        after = { timestamp: row.messageTimestamp, rowId: row.rowId };
+        updateBackfillJob(job.id, { ...progress, checkpoint_ts: after.timestamp, checkpoint_id: after.rowId, current_message_id: null });
+
+        if (analyzed) {
+          notify(job.id);
+          if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+      }
+      notify(job.id);
+    }
+
+    updateBackfillJob(job.id, { status: 'done', finished_at: Math.floor(Date.now() / 1000) });
+    console.log(`✅ [BACKFILL] #${job.id} done: ${progress.scanned} read, ${progress.processed} ingested, ${progress.events_created} event(s)`);
+  } catch (error) {
+    // The checkpoint stays before the failing message, so resuming retries it
+    const message = error instanceof Error ? error.message : String(error);
+    updateBackfillJob(job.id, { status: 'failed', last_error: message });
+    console.error(`❌ [BACKFILL] #${job.id} failed: ${message}`);
+  } finally {
+    pauseRequests.delete(job.id);
+  }
+  notify(job.id);
+}
+
+// Ingest one historical message — returns whether it went to the LLM (and counts against the rate limit)
+async function backfillMessage(
+  jobId: number,
+  row: EvolutionRawMessage,
+  unfinishedId: string | null,
+  progress: { scanned: number; processed: number; already_stored: number; events_created: number },
+  webhookOptions: WebhookOptions
+): Promise<boolean> {
+  progress.scanned++;
+
+  // Evolution rows have the webhook's shape, but store missing fields as null
+  const parsed = WhatsAppWebhookSchema.safeParse({
+    event: 'messages.upsert',
+    instance: runner?.instanceName || 'backfill',
+    data: {
+      key: { ...row.key, participant: row.key.participant || undefined },
+      pushName: row.pushName || undefined,
+      message: row.message || undefined,
+      messageTimestamp: row.messageTimestamp,
+    },
+  });
+  if (!parsed.success) return false;
+
+  const messageId = parsed.data.data.key.id;
+  if (messageId !== unfinishedId && getMessageById(messageId)) {
+    progress.already_stored++;
+    return false;
+  }
+
+  updateBackfillJob(jobId, { current_message_id: messageId });
+  const result = await processWebhook(parsed.data, { ...webhookOptions, historical: true });
+  progress.processed++;
+  progress.events_created += result.eventsCreated;
+  return !result.skipped;
+}
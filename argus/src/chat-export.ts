@@ -0,0 +1,359 @@
+/**
+ * WhatsApp "Export chat" Import
+ * Parses the text file WhatsApp writes when a chat is exported (alone or inside the
+ * .zip it shares) and queues every message for the webhook ingestion pipeline.
+ *
+ * Both layouts are understood:
+ *   Android: 2/2/26, 9:46 PM - Priya: dinner thursday?
+ *   iOS:     [02/02/2026, 21:46:12] Priya: dinner thursday?
+ * Day/month order isn't marked in the file, so it's inferred from the dates themselves
+ * (a day above 12, else whichever order keeps the messages chronological). Lines without
+ * a header continue the previous message. System lines (encryption notice, "X added Y")
+ * are counted and dropped, as are "<Media omitted>" placeholders and deleted messages.
+ *
+ * Times are wall-clock times of the exporting phone and are read in the owner's timezone.
+ * Message IDs are derived from the chat, author, time and text, so importing the same
+ * export again (or a later export of the same chat) only ingests what's new, or what an
+ * earlier import didn't get through.
+ */
+
+import { inflateRawSync } from 'zlib';
+import { getMessageById, resolveContactIdByName, countOpenJobs } from './db.js';
+import { processWebhook, getImportMessageId, EXPORT_CHAT_SUFFIX } from './ingestion.js';
+import type { WebhookOptions } from './ingestion.js';
+import { enqueueJobSequence } from './queue.js';
+import { getUserTimezone, zonedTimeToUnix } from './timezone.js';
+import type { MediaType, WhatsAppMessage, WhatsAppWebhook } from './types.js';
+
+export type DateOrder = 'dmy' | 'mdy';
+
+// Years of text chat come to a few MB; anything inflating past this is not an export
+export const MAX_CHAT_TEXT_BYTES = 50 * 1024 * 1024;
+
+export interface ExportedMessage {
+  timestamp: number;
+  author: string;            // Name or phone number as shown in the export
+  text: string | null;       // Message text, or an attachment's caption
+  attachment: string | null; // File name when the export includes media
+  mediaType: MediaType | null;
+}
+
+export interface ParsedChatExport {
+  format: 'android' | 'ios';
+  dateOrder: DateOrder;
+  isGroup: boolean;
+  authors: string[];
+  messages: ExportedMessage[];
+  systemMessages: number;
+  mediaOmitted: number;
+  deleted: number;
+}
+
+// Optional U+200E marks, date, time with optional seconds and AM/PM (plain, narrow or no-break space)
+const DATE = String.raw`(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})`;
+const TIME = String.raw`(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:[\s\u202f\u00a0]?([ap])\.?\s?m\.?)?`;
+const ANDROID_HEADER = new RegExp(String.raw`^\u200e?${DATE},?\s${TIME}\s[-\u2013]\s([\s\S]*)$`, 'i');
+const IOS_HEADER = new RegExp(String.raw`^\u200e?\[${DATE},?\s${TIME}\]\s([\s\S]*)$`, 'i');
+
+const OMITTED_MEDIA = /^\u200e?(<Media omitted>|(image|video|audio|document|sticker|GIF|Contact card) omitted)$/i;
+const DELETED = /^\u200e?(This message was deleted|You deleted this message)\.?$/i;
+const EDITED_SUFFIX = /\s*\u200e?<This message was edited>$/;
+const IOS_ATTACHMENT = /^\u200e?<attached: ([^>]+)>\s*([\s\S]*)$/;
+const ANDROID_ATTACHMENT = /^\u200e?(\S[^\n]*?\.\w{2,5}) \(file attached\)\s*([\s\S]*)$/;
+const GROUP_EVENTS = /\b(created group|created this group|added|changed the group|changed the subject)\b/i;
+
+const MEDIA_EXTENSIONS: Record<string, MediaType> = {
+  jpg: 'image', jpeg: 'image', png: 'image', webp: 'image', heic: 'image', gif: 'image',
+  mp4: 'video', mov: 'video', '3gp': 'video',
+  opus: 'audio', ogg: 'audio', m4a: 'audio', mp3: 'audio', aac: 'audio',
+};
+
+interface RawEntry {
+  date: [number, number, number];
+  time: [number, number, number];
+  meridiem: string | undefined;
+  body: string;
+}
+
+export function parseChatExport(text: string, options: { dateOrder?: DateOrder; timezone?: string } = {}): ParsedChatExport {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const iosLines = lines.filter(line => IOS_HEADER.test(line)).length;
+  const androidLines = lines.filter(line => ANDROID_HEADER.test(line)).length;
+  const format = iosLines > androidLines ? 'ios' : 'android';
+  const header = format === 'ios' ? IOS_HEADER : ANDROID_HEADER;
+
+  // Pass 1: split into entries — lines without a header belong to the previous message
+  const entries: RawEntry[] = [];
+  for (const line of lines) {
+    const match = line.match(header);
+    if (match) {
+      const [, a, b, y, h, m, s, meridiem, body] = match;
+      entries.push({ date: [+a, +b, +y], time: [+h, +m, s ? +s : 0], meridiem, body });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].body += `\n${line}`;
+    }
+  }
+
+  // Pass 2: timestamps, once the day/month order is known
+  const timezone = options.timezone || getUserTimezone();
+  const dateOrder = options.dateOrder || detectDateOrder(entries, timezone);
+  const result: ParsedChatExport = {
+    format, dateOrder, isGroup: false, authors: [], messages: [], systemMessages: 0, mediaOmitted: 0, deleted: 0,
+  };
+  const authors = new Set<string>();
+
+  for (const entry of entries) {
+    const body = entry.body.replace(/\n+$/, '');
+    const split = body.indexOf(': ');
+    // iOS writes system lines as "Group name: \u200eMessages and calls are end-to-end encrypted."
+    const isSystem = split < 0 || (format === 'ios' && body[split + 2] === '\u200e' && !isMediaBody(body.slice(split + 2)));
+    if (isSystem) {
+      result.systemMessages++;
+      if (GROUP_EVENTS.test(body)) result.isGroup = true;
+      continue;
+    }
+
+    const author = body.slice(0, split).replace(/^\u200e|\u200e$/g, '').trim();
+    const content = body.slice(split + 2).replace(EDITED_SUFFIX, '');
+    if (OMITTED_MEDIA.test(content.trim())) {
+      result.mediaOmitted++;
+      continue;
+    }
+    if (DELETED.test(content.trim())) {
+      result.deleted++;
+      continue;
+    }
+
+    authors.add(author);
+    result.messages.push({ timestamp: toUnix(entry, dateOrder, timezone), author, ...parseAttachment(content) });
+  }
+
+  result.authors = [...authors];
+  if (authors.size > 2) result.isGroup = true;
+  return result;
+}
+
+function isMediaBody(content: string): boolean {
+  return OMITTED_MEDIA.test(content.trim()) || IOS_ATTACHMENT.test(content);
+}
+
+function parseAttachment(content: string): Pick<ExportedMessage, 'text' | 'attachment' | 'mediaType'> {
+  const match = content.match(IOS_ATTACHMENT) || content.match(ANDROID_ATTACHMENT);
+  if (!match) return { text: content.replace(/^\u200e/, ''), attachment: null, mediaType: null };
+
+  const fileName = match[1].trim();
+  const extension = fileName.split('.').pop()!.toLowerCase();
+  return { text: match[2].trim() || null, attachment: fileName, mediaType: MEDIA_EXTENSIONS[extension] || 'document' };
+}
+
+function toUnix(entry: RawEntry, order: DateOrder, timezone: string): number {
+  const [a, b, y] = entry.date;
+  const [hour, minute, second] = entry.time;
+  const meridiem = entry.meridiem?.toLowerCase();
+  return zonedTimeToUnix({
+    year: y < 100 ? 2000 + y : y,
+    month: order === 'dmy' ? b : a,
+    day: order === 'dmy' ? a : b,
+    hour: meridiem ? (hour % 12) + (meridiem === 'p' ? 12 : 0) : hour,
+    minute,
+    second,
+  }, timezone);
+}
+
+// A day above 12 settles it; otherwise pick the order that keeps messages in sequence.
+// Still a tie (every date reads both ways): 12h clocks are mostly US-style month-first.
+function detectDateOrder(entries: RawEntry[], timezone: string): DateOrder {
+  if (entries.some(e => e.date[0] > 12)) return 'dmy';
+  if (entries.some(e => e.date[1] > 12)) return 'mdy';
+
+  const backwards = (order: DateOrder) => {
+    let count = 0;
+    for (let i = 1; i < entries.length; i++) {
+      if (toUnix(entries[i], order, timezone) < toUnix(entries[i - 1], order, timezone)) count++;
+    }
+    return count;
+  };
+  const dmy = backwards('dmy');
+  const mdy = backwards('mdy');
+  if (dmy !== mdy) return dmy < mdy ? 'dmy' : 'mdy';
+  return entries.some(e => e.meridiem) ? 'mdy' : 'dmy';
+}
+
+// ============ Zip Archives ============
+// WhatsApp shares exports as a zip holding the .txt (and media when included).
+// Only the chat text is read: stored or deflated entries, no zip64.
+
+export function isZipArchive(data: Buffer): boolean {
+  return data.length >= 4 && data.readUInt32LE(0) === 0x04034b50;
+}
+
+export function extractChatText(zip: Buffer, maxTextBytes = MAX_CHAT_TEXT_BYTES): { fileName: string; text: string } {
+  // End of central directory record: the last 22 bytes, plus a comment of up to 64 KB
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid zip archive');
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const fileName = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!fileName.toLowerCase().endsWith('.txt') || fileName.startsWith('__MACOSX/')) continue;
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    if (method !== 0 && method !== 8) throw new Error(`Unsupported zip compression method ${method}`);
+    const text = (method === 8 ? inflate(data, maxTextBytes) : data).toString('utf8');
+    return { fileName: fileName.split('/').pop()!, text };
+  }
+  throw new Error('No chat .txt file found in the archive');
+}
+
+function inflate(data: Buffer, maxOutputLength: number): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength });
+  } catch (error) {
+    if (error instanceof RangeError) throw new Error('Chat text in the archive is too large to import');
+    throw error;
+  }
+}
+
+// "WhatsApp Chat with Argus.txt" / "WhatsApp Chat - Argus.zip" → "Argus"; iOS names every export _chat.txt
+export function chatNameFromFileName(fileName: string | undefined): string | null {
+  const base = fileName?.split(/[/\\]/).pop()?.replace(/\.(txt|zip)$/i, '');
+  if (!base || base === '_chat') return null;
+  return base.replace(/^WhatsApp Chat (with|-)\s*/i, '').trim() || null;
+}
+
+// ============ Import ============
+// Every message becomes a job on the durable ingestion queue, in an ordered group of its own
+// (so live messages of the chat don't wait behind it). An import survives a restart, and a
+// message whose extraction fails is retried with backoff, then dead-lettered like any job.
+
+export const CHAT_IMPORT_JOB = 'chat_export_message';
+
+interface ChatImportOptions {
+  chatName: string;
+  chatId?: string;         // Attach to an existing chat, e.g. the group's real JID
+  ownerName?: string;      // How the owner appears in the export — their messages become 'self'
+  messagesPerMinute?: number; // 0/undefined = unlimited
+}
+
+export interface ChatImportSummary {
+  chatId: string;
+  total: number;
+  queued: number;          // Sent to the ingestion queue
+  alreadyStored: number;   // Skipped — ingested by an earlier import
+}
+
+export interface ChatImportProgress {
+  chatId: string;
+  messageId: string;
+  eventsCreated: number;
+  remaining: number;       // Messages of the import still queued
+}
+
+const slugify = (value: string) =>
+  value.normalize('NFKD').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'chat';
+
+export function getExportChatId(chatName: string): string {
+  return `${slugify(chatName)}${EXPORT_CHAT_SUFFIX}`;
+}
+
+export function getImportGroupKey(chatId: string): string {
+  return `import:${chatId}`;
+}
+
+// Contact ID for an export author: a phone number's digits, a unique contact with that
+// name, or a stable "export-<name>" ID for people Argus hasn't seen on WhatsApp yet
+export function resolveExportSender(author: string): string {
+  const digits = author.replace(/[\s()+-]/g, '');
+  if (/^\d{7,15}$/.test(digits)) return digits;
+  return resolveContactIdByName(author.replace(/^~\s*/, '')) ?? `export-${slugify(author)}`;
+}
+
+// "export-" senders have no WhatsApp account — their JID says so instead of passing for a phone number
+function getExportSenderJid(sender: string): string {
+  return sender.startsWith('export-') ? `${sender}${EXPORT_CHAT_SUFFIX}` : `${sender}@s.whatsapp.net`;
+}
+
+function toWhatsAppMessage(message: ExportedMessage): WhatsAppMessage {
+  const caption = message.text ?? undefined;
+  switch (message.mediaType) {
+    case null:
+      return { conversation: message.text ?? '' };
+    case 'document':
+      return { mediaUrl: message.attachment!, documentMessage: { fileName: message.attachment!, caption } };
+    case 'audio':
+      return { mediaUrl: message.attachment!, audioMessage: {} };
+    default:
+      return { mediaUrl: message.attachment!, [`${message.mediaType}Message`]: { caption } };
+  }
+}
+
+// Queue the export's messages, oldest first. Messages already processed are skipped; ones
+// stored but never finished (an import cut short, a failed extraction) are queued again.
+export function importChatExport(parsed: ParsedChatExport, options: ChatImportOptions): ChatImportSummary {
+  const chatId = options.chatId || getExportChatId(options.chatName);
+  const ownerName = options.ownerName?.trim().toLowerCase();
+  const payloads: WhatsAppWebhook[] = [];
+  let alreadyStored = 0;
+  // Identical messages from one author in the same minute ("ok", "ok") need distinct IDs
+  const seen = new Map<string, number>();
+
+  for (const message of parsed.messages) {
+    const fromMe = !!ownerName && message.author.toLowerCase() === ownerName;
+    const sender = fromMe ? 'self' : resolveExportSender(message.author);
+    const fingerprint = JSON.stringify([sender, message.timestamp, message.text, message.attachment]);
+    const occurrence = seen.get(fingerprint) ?? 0;
+    seen.set(fingerprint, occurrence + 1);
+
+    const id = getImportMessageId({
+      chatId, sender, timestamp: message.timestamp, content: message.text ?? message.attachment ?? '', occurrence,
+    });
+    if (getMessageById(id)?.processed_at) {
+      alreadyStored++;
+      continue;
+    }
+
+    payloads.push({
+      event: 'messages.upsert',
+      instance: 'export',
+      data: {
+        key: { remoteJid: chatId, fromMe, id, participant: fromMe ? undefined : getExportSenderJid(sender) },
+        pushName: fromMe ? undefined : message.author,
+        message: toWhatsAppMessage(message),
+        messageTimestamp: message.timestamp,
+      },
+    });
+  }
+
+  const spacingSeconds = options.messagesPerMinute ? 60 / options.messagesPerMinute : 0;
+  enqueueJobSequence(CHAT_IMPORT_JOB, getImportGroupKey(chatId), payloads, spacingSeconds);
+  return { chatId, total: parsed.messages.length, queued: payloads.length, alreadyStored };
+}
+
+// Queue worker for one imported message. Failures throw, so the queue retries the message.
+export async function processChatImportJob(payload: WhatsAppWebhook, webhookOptions: WebhookOptions): Promise<ChatImportProgress> {
+  const result = await processWebhook(payload, { ...webhookOptions, historical: true });
+  const chatId = payload.data.key.remoteJid;
+  return {
+    chatId,
+    messageId: payload.data.key.id,
+    eventsCreated: result.eventsCreated,
+    remaining: countOpenJobs(getImportGroupKey(chatId)) - 1,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * WhatsApp Commands
+ * Our own messages in the control chat (WHATSAPP_CONTROL_CHAT — usually "Message yourself")
+ * talk to Argus instead of being read for plans. "help" and "list subscriptions" are
+ * answered from the database. Ingestion tries everything else as an action on existing
+ * events ("snooze the dentist thing to Friday"), then as a new plan ("pay rent on the 5th");
+ * what's neither is a question for chatWithContext ("what's on tomorrow?").
+ *
+ * Answers go back to the same chat through Evolution. They are recorded like reminders
+ * (outbound_messages), so their echo isn't taken for the next command.
+ */
+
+import { getActiveEvents, getAllEvents, getEventAttendance } from './db.js';
+import { chatWithContext } from './gemini.js';
+import { formatEventTime } from './timezone.js';
+import { sendWhatsAppText } from './whatsapp.js';
+import type { IngestionResult } from './ingestion.js';
+import type { Event, EventType } from './types.js';
+
+export type CommandKind = 'help' | 'list' | 'action' | 'event' | 'chat';
+
+export interface CommandResult {
+  kind: CommandKind;
+  reply: string;
+  replied: boolean; // False when the answer couldn't be sent back
+}
+
+// Words "list ..." understands — anything else goes to chat
+const LIST_TYPES: Record<string, EventType | 'all'> = {
+  events: 'all', plans: 'all', everything: 'all', all: 'all',
+  meetings: 'meeting', deadlines: 'deadline', reminders: 'reminder', trips: 'travel', travel: 'travel',
+  tasks: 'task', todos: 'task', subscriptions: 'subscription', recommendations: 'recommendation',
+};
+const LIST_LIMIT = 15;
+
+const TYPE_LABELS: Record<EventType, string> = {
+  meeting: '📅 Meetings', deadline: '⏳ Deadlines', reminder: '⏰ Reminders', travel: '✈️ Trips',
+  task: '📝 Tasks', subscription: '💳 Subscriptions', recommendation: '💡 Recommendations', other: '📌 Other',
+};
+
+const HELP = [
+  '*Argus* — ask me anything about your plans, or tell me what to do:',
+  '• _what\'s on tomorrow?_',
+  '• _snooze the dentist thing to Friday_',
+  '• _mark the electricity bill done_',
+  '• _list subscriptions_ (or meetings, tasks, trips, reminders, events)',
+].join('\n');
+
+// Commands answered without the LLM — null when the text isn't one
+export function answerDirectCommand(text: string): { kind: CommandKind; reply: string } | null {
+  const normalized = text.trim().toLowerCase().replace(/[.!?]+$/, '');
+  if (normalized === 'help' || normalized === 'commands') return { kind: 'help', reply: HELP };
+
+  const list = normalized.match(/^(?:list|show)\s+(?:my\s+|all\s+)?(\w+)$/);
+  const type = list && LIST_TYPES[list[1]];
+  if (!type) return null;
+  return { kind: 'list', reply: listEvents(type) };
+}
+
+function listEvents(type: EventType | 'all'): string {
+  const events = getActiveEvents(200)
+    .filter(e => type === 'all' || e.event_type === type)
+    .sort((a, b) => (a.event_time ?? Infinity) - (b.event_time ?? Infinity));
+  const label = type === 'all' ? '📋 Events' : TYPE_LABELS[type];
+  if (events.length === 0) return `${label}: nothing active.`;
+
+  const lines = events.slice(0, LIST_LIMIT).map(e => `• ${describeEvent(e)}`);
+  if (events.length > LIST_LIMIT) lines.push(`…and ${events.length - LIST_LIMIT} more`);
+  return `*${label}* (${events.length})\n${lines.join('\n')}`;
+}
+
+function describeEvent(event: Pick<Event, 'title' | 'event_time' | 'location'>): string {
+  const details = [event.event_time ? formatEventTime(event.event_time) : null, event.location].filter(Boolean);
+  return details.length > 0 ? `${event.title} — ${details.join(', ')}` : event.title;
+}
+
+// What an action command did, was held for, or couldn't decide
+export function describeActionOutcome(result: IngestionResult): string {
+  if (result.ambiguousAction) {
+    const choices = result.ambiguousAction.choices.map((c, i) => `${i + 1}. ${c.eventTitle}`);
+    return `🤔 ${result.ambiguousAction.question}\n${choices.join('\n')}\nPick one in the Argus extension.`;
+  }
+  const lines = [
+    ...(result.actionsPerformed ?? []).map(a => `✅ ${a.message}`),
+    ...(result.pendingActions ?? []).map(p => `⏸️ ${p.description} — confirm in the Argus extension (${p.reason})`),
+  ];
+  return lines.length > 0 ? lines.join('\n') : '🤷 Couldn\'t do that.';
+}
+
+export function describeCreatedEvents(events: NonNullable<IngestionResult['events']>): string {
+  return events.map(e => `📌 Saved: ${describeEvent(e)}`).join('\n');
+}
+
+// Events as chatWithContext reads them — shared with /api/chat
+export function buildChatContext(events: Event[]): Parameters<typeof chatWithContext>[1] {
+  const attendance = getEventAttendance(events.map(e => e.id!));
+  return events.map(e => ({
+    id: e.id!,
+    title: e.title,
+    description: e.description,
+    event_type: e.event_type,
+    event_time: e.event_time,
+    location: e.location,
+    status: e.status ?? 'discovered',
+    keywords: e.keywords,
+    sender_name: e.sender_name,
+    context_url: e.context_url,
+    attendance: attendance.get(e.id!) ?? null,
+  }));
+}
+
+export async function answerQuestion(question: string): Promise<string> {
+  const { response } = await chatWithContext(question, buildChatContext(getAllEvents({ limit: 100, offset: 0, status: 'all' })));
+  return toWhatsAppText(response);
+}
+
+// Send the answer back — a failed send is logged, the command itself already happened
+export async function sendCommandReply(chatId: string, reply: string): Promise<boolean> {
+  try {
+    await sendWhatsAppText(chatId, reply, 'reply');
+    return true;
+  } catch (error) {
+    console.warn(`⚠️ [COMMAND] Couldn't reply in ${chatId}: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+}
+
+// Chat answers are written for the sidepanel's markdown; WhatsApp has its own
+function toWhatsAppText(markdown: string): string {
+  return markdown
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/^#{1,6}\s+(.+)$/gm, '*$1*')
+    .replace(/^\s*[-*]\s+/gm, '• ');
+}
@@ -0,0 +1,171 @@
+/**
+ * Context URL Rules
+ * One table drives both directions of context matching:
+ * - ingestion: a new event's text/type/recipient → the URL patterns where it should resurface
+ * - browsing: a visited URL → activity + keywords for the matcher (see extractContextFromUrl)
+ * The defaults below used to be hardcoded lists in ingestion.ts and matcher.ts; they are
+ * seeded into an empty table and can then be edited through /api/context-rules.
+ */
+
+import { z } from 'zod';
+import { getContextRules, insertContextRule, countContextRules } from './db.js';
+import { ContextRuleSchema } from './types.js';
+import type { ContextRule, EventType } from './types.js';
+
+type ContextRuleInput = z.input<typeof ContextRuleSchema>;
+
+// ============ DEFAULT RULES ============
+
+const INGESTION_DEFAULTS: ContextRuleInput[] = [
+  {
+    name: 'Travel destinations',
+    keywords: [
+      'goa', 'mumbai', 'delhi', 'bangalore', 'chennai', 'kolkata', 'hyderabad',
+      'jaipur', 'udaipur', 'kerala', 'manali', 'shimla', 'ladakh', 'kashmir',
+      'thailand', 'bali', 'singapore', 'dubai', 'maldives', 'europe',
+    ],
+    event_types: ['travel', 'recommendation'],
+    url_patterns: ['{keyword}', 'makemytrip.com', 'goibibo.com', 'airbnb.*', 'booking.com'],
+    applies_to: 'ingestion',
+    priority: 300,
+  },
+  {
+    name: 'Streaming, services and subscriptions',
+    keywords: [
+      'netflix', 'hotstar', 'amazon', 'prime', 'disney', 'spotify',
+      'youtube', 'hulu', 'hbo', 'zee5', 'sonyliv', 'jiocinema',
+      'canva', 'figma', 'notion', 'slack', 'zoom',
+      'gym', 'domain', 'hosting', 'hostinger', 'aws', 'azure', 'vercel', 'heroku',
+    ],
+    url_patterns: ['{keyword}'],
+    applies_to: 'ingestion',
+    priority: 200,
+  },
+  {
+    name: 'Beauty gifts',
+    keywords: ['makeup', 'beauty', 'cosmetic', 'skincare', 'lipstick', 'foundation', 'perfume', 'fragrance', 'nykaa'],
+    event_types: ['recommendation'],
+    url_patterns: ['nykaa.com', 'myntra.com', 'amazon.*', 'sephora.*'],
+    applies_to: 'ingestion',
+    priority: 130,
+  },
+  {
+    name: 'Fashion gifts',
+    keywords: ['sneakers', 'shoes', 'clothes', 'dress', 'fashion', 'shirt', 'jeans', 'kurta', 'saree', 'myntra', 'nike', 'adidas', 'puma'],
+    event_types: ['recommendation'],
+    url_patterns: ['myntra.com', 'ajio.com', 'amazon.*'],
+    applies_to: 'ingestion',
+    priority: 120,
+  },
+  {
+    name: 'General gifts',
+    keywords: ['gift', 'birthday', 'anniversary', 'present'],
+    event_types: ['recommendation'],
+    url_patterns: ['amazon.*', 'flipkart.com'],
+    applies_to: 'ingestion',
+    priority: 110,
+  },
+  {
+    name: 'Major cities',
+    keywords: ['goa', 'mumbai', 'delhi', 'bangalore', 'chennai', 'kolkata'],
+    url_patterns: ['{keyword}'],
+    applies_to: 'ingestion',
+    priority: 100,
+  },
+];
+
+// Specific pages (searches, product pages) outrank the site-wide rule for the same domain
+const BROWSING_DEFAULTS: ContextRuleInput[] = [
+  // Travel
+  { name: 'MakeMyTrip', url_patterns: ['makemytrip.com/flight*', 'makemytrip.com/hotel*', 'makemytrip.com/train*'], activity: 'travel_booking' },
+  { name: 'Goibibo', url_patterns: ['goibibo.com/flight*', 'goibibo.com/hotel*'], activity: 'travel_booking' },
+  { name: 'Booking.com', url_patterns: ['booking.com'], activity: 'hotel_booking' },
+  { name: 'Airbnb', url_patterns: ['airbnb.com', 'airbnb.co.in'], activity: 'accommodation' },
+  { name: 'Skyscanner', url_patterns: ['skyscanner.com', 'skyscanner.co.in'], activity: 'flight_search' },
+  { name: 'Tripadvisor', url_patterns: ['tripadvisor.com', 'tripadvisor.in'], activity: 'travel_research' },
+
+  // Shopping
+  { name: 'Amazon search', url_patterns: ['amazon.com/s', 'amazon.in/s'], query_param: 'k', activity: 'shopping_search', priority: 20 },
+  { name: 'Amazon product', url_patterns: ['amazon.com/dp/*', 'amazon.in/dp/*', 'amazon.com/*/dp/*', 'amazon.in/*/dp/*'], activity: 'shopping_product', priority: 20 },
+  { name: 'Amazon', url_patterns: ['amazon.com', 'amazon.in'], activity: 'shopping', keywords: ['amazon', 'shopping', 'gift', 'buy'] },
+  { name: 'Flipkart search', url_patterns: ['flipkart.com/search'], query_param: 'q', activity: 'shopping_search', priority: 20 },
+  { name: 'Flipkart', url_patterns: ['flipkart.com'], activity: 'shopping', keywords: ['flipkart', 'shopping', 'gift', 'buy'] },
+  { name: 'Myntra', url_patterns: ['myntra.com'], activity: 'fashion_shopping', keywords: ['myntra', 'fashion', 'shoes', 'sneakers', 'clothes', 'gift'] },
+  { name: 'Nykaa', url_patterns: ['nykaa.com'], activity: 'beauty_shopping', keywords: ['nykaa', 'beauty', 'makeup', 'cosmetics', 'skincare', 'gift'] },
+  { name: 'Ajio', url_patterns: ['ajio.com'], activity: 'fashion_shopping', keywords: ['ajio', 'fashion', 'clothes', 'shoes', 'gift'] },
+  { name: 'Tata CLiQ', url_patterns: ['tatacliq.com'], activity: 'shopping', keywords: ['tatacliq', 'shopping', 'electronics', 'fashion', 'gift'] },
+
+  // Subscriptions
+  { name: 'Netflix', url_patterns: ['netflix.com'], activity: 'streaming', keywords: ['netflix', 'subscription', 'streaming'] },
+  { name: 'Spotify', url_patterns: ['spotify.com'], activity: 'music', keywords: ['spotify', 'subscription', 'music'] },
+  { name: 'Prime Video', url_patterns: ['primevideo.com'], activity: 'streaming', keywords: ['prime', 'amazon', 'subscription'] },
+  { name: 'Hotstar', url_patterns: ['hotstar.com'], activity: 'streaming', keywords: ['hotstar', 'disney', 'subscription'] },
+  { name: 'Canva', url_patterns: ['canva.com'], activity: 'design', keywords: ['canva', 'design', 'subscription'] },
+
+  // Finance
+  { name: 'Policybazaar', url_patterns: ['policybazaar.com/car*', 'policybazaar.com/bike*', 'policybazaar.com/health*', 'policybazaar.com/life*'], activity: 'insurance', keywords: ['insurance'] },
+  { name: 'BankBazaar', url_patterns: ['bankbazaar.com'], activity: 'finance', keywords: ['loan', 'credit', 'bank'] },
+
+  // Calendar/Productivity
+  { name: 'Google Calendar', url_patterns: ['calendar.google.com'], activity: 'calendar', keywords: ['meeting', 'event', 'schedule'] },
+  { name: 'Outlook', url_patterns: ['outlook.com', 'outlook.office.com', 'outlook.office365.com'], activity: 'email', keywords: ['email', 'meeting'] },
+];
+
+export const DEFAULT_CONTEXT_RULES: Array<Omit<ContextRule, 'id' | 'created_at' | 'updated_at'>> = [
+  ...INGESTION_DEFAULTS,
+  ...BROWSING_DEFAULTS.map(rule => ({ applies_to: 'browsing' as const, priority: 10, ...rule })),
+].map(rule => ContextRuleSchema.parse(rule));
+
+// Seed the defaults into an empty table — returns how many rules were inserted.
+// Disable rules rather than deleting all of them: an empty table is re-seeded on restart.
+export function seedContextRules(): number {
+  if (countContextRules() > 0) return 0;
+  for (const rule of DEFAULT_CONTEXT_RULES) insertContextRule(rule);
+  console.log(`🧭 Seeded ${DEFAULT_CONTEXT_RULES.length} default context rules`);
+  return DEFAULT_CONTEXT_RULES.length;
+}
+
+// ============ INGESTION ============
+
+interface RuleSubject {
+  type: EventType;
+  title: string;
+  description: string | null;
+  location: string | null;
+  keywords: string[];
+  participants?: string[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Find the highest-priority ingestion rule for an extracted event and expand its URL
+// patterns ("{keyword}" becomes the keyword that matched). Keywords match as substrings
+// of the event text, like the old lists did; recipients must match a whole word so
+// "sis" doesn't fire on "analysis".
+export function resolveContextUrls(subject: RuleSubject): { rule: ContextRule; urls: string[] } | null {
+  const text = `${subject.location || ''} ${subject.keywords.join(' ')} ${subject.title} ${subject.description || ''}`.toLowerCase();
+  const peopleText = `${text} ${(subject.participants || []).join(' ')}`;
+
+  for (const rule of getContextRules({ appliesTo: 'ingestion', enabledOnly: true })) {
+    if (rule.event_types.length > 0 && !rule.event_types.includes(subject.type)) continue;
+
+    const keyword = rule.keywords.find(kw => text.includes(kw.toLowerCase()));
+    if (rule.keywords.length > 0 && !keyword) continue;
+
+    if (rule.recipients.length > 0 &&
+        !rule.recipients.some(r => new RegExp(`\\b${escapeRegExp(r)}\\b`, 'i').test(peopleText))) continue;
+
+    const urls = rule.url_patterns
+      .map(pattern => pattern.includes('{keyword}')
+        ? (keyword ? pattern.replace('{keyword}', keyword.toLowerCase()) : null)
+        : pattern)
+      .filter((url): url is string => url !== null);
+    if (urls.length === 0) continue;
+
+    return { rule, urls };
+  }
+
+  return null;
+}
@@ -1,7 +1,8 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
-import type { Message, Event, Trigger, Contact, TriggerType } from './types.js';
+import { matchUrlPattern } from './url-patterns.js';
+import type { Message, Event, Trigger, Contact, IngestionJob, JobStatus, ContextRule, ContextRuleScope, EventOccurrence, OccurrenceStatus, ReminderPolicy, EventType, ChangeSource, HistoryAction, EventHistoryEntry, EventParticipant, EventRsvp, EventAttendance, EventAction, ActionPolicy, ConfirmMode, ChatPolicy, ChatMode, PendingActionRecord, PendingActionStatus, BackfillJob, BackfillStatus, MaintenanceRun, PushSubscriptionRecord, OutboundMessage, OutboundKind, NotificationRule, ConnectionCondition, NotificationKind, DigestItem } from './types.js';
 
 let db: Database.Database | null = null;
 
@@ -26,6 +27,7 @@ export function initDb(dbPath: string): Database.Database {
   db.pragma('temp_store = MEMORY');
 
   // Migration: Add missing columns to existing tables
+  let backfillEventLinks = false;
   try {
     // Check if reminder_time column exists in events table
     const tableInfo = db.prepare("PRAGMA table_info(events)").all() as Array<{ name: string }>;
@@ -33,6 +35,25 @@ export function initDb(dbPath: string): Database.Database {
     const hasContextUrl = tableInfo.some(col => col.name === 'context_url');
     const hasDismissCount = tableInfo.some(col => col.name === 'dismiss_count');
     const hasSenderName = tableInfo.some(col => col.name === 'sender_name');
+    const hasRecurrence = tableInfo.some(col => col.name === 'recurrence');
+    const hasReminderOffsets = tableInfo.some(col => col.name === 'reminder_offsets');
+    const hasDeletedAt = tableInfo.some(col => col.name === 'deleted_at');
+    const triggerInfo = db.prepare("PRAGMA table_info(triggers)").all() as Array<{ name: string }>;
+    const hasOffsetMinutes = triggerInfo.some(col => col.name === 'offset_minutes');
+    const messageInfo = db.prepare("PRAGMA table_info(messages)").all() as Array<{ name: string }>;
+    const hasMediaType = messageInfo.some(col => col.name === 'media_type');
+    const hasEditedAt = messageInfo.some(col => col.name === 'edited_at');
+    const hasSenderJid = messageInfo.some(col => col.name === 'sender_jid');
+    const hasProcessedAt = messageInfo.some(col => col.name === 'processed_at');
+    const contactInfo = db.prepare("PRAGMA table_info(contacts)").all() as Array<{ name: string }>;
+    const hasContactTimezone = contactInfo.some(col => col.name === 'timezone');
+    const jobInfo = db.prepare("PRAGMA table_info(ingestion_jobs)").all() as Array<{ name: string }>;
+    const hasGroupKey = jobInfo.some(col => col.name === 'group_key');
+    const hasChatId = tableInfo.some(col => col.name === 'chat_id');
+    const pendingActionInfo = db.prepare("PRAGMA table_info(pending_actions)").all() as Array<{ name: string }>;
+    const hasChoiceGroup = pendingActionInfo.some(col => col.name === 'choice_group');
+    const pushInfo = db.prepare("PRAGMA table_info(push_subscriptions)").all() as Array<{ name: string }>;
+    const hasFailureCount = pushInfo.some(col => col.name === 'failure_count');
     
     if (tableInfo.length > 0) { // Table exists
       if (!hasReminderTime) {
@@ -51,8 +72,71 @@ export function initDb(dbPath: string): Database.Database {
         console.log('⚙️  Adding sender_name column to events table...');
         db.exec('ALTER TABLE events ADD COLUMN sender_name TEXT');
       }
+      if (!hasRecurrence) {
+        console.log('⚙️  Adding recurrence columns to events table...');
+        db.exec('ALTER TABLE events ADD COLUMN recurrence TEXT');
+        db.exec('ALTER TABLE events ADD COLUMN recurrence_start INTEGER');
+        db.exec('ALTER TABLE events ADD COLUMN recurrence_tz TEXT');
+      }
+      if (!hasReminderOffsets) {
+        console.log('⚙️  Adding reminder_offsets column to events table...');
+        db.exec('ALTER TABLE events ADD COLUMN reminder_offsets TEXT');
+      }
+      if (!hasDeletedAt) {
+        console.log('⚙️  Adding deleted_at column to events table...');
+        db.exec('ALTER TABLE events ADD COLUMN deleted_at INTEGER');
+      }
+      if (!hasChatId) {
+        console.log('⚙️  Adding chat_id/sender_jid columns to events table...');
+        db.exec('ALTER TABLE events ADD COLUMN chat_id TEXT');
+        db.exec('ALTER TABLE events ADD COLUMN sender_jid TEXT');
+        backfillEventLinks = true;
+      }
+    }
+    if (triggerInfo.length > 0 && !hasOffsetMinutes) {
+      console.log('⚙️  Adding offset_minutes column to triggers table...');
+      db.exec('ALTER TABLE triggers ADD COLUMN offset_minutes INTEGER');
+    }
+    if (messageInfo.length > 0 && !hasMediaType) {
+      console.log('⚙️  Adding media_type/media_ref columns to messages table...');
+      db.exec('ALTER TABLE messages ADD COLUMN media_type TEXT');
+      db.exec('ALTER TABLE messages ADD COLUMN media_ref TEXT');
+    }
+    if (messageInfo.length > 0 && !hasEditedAt) {
+      console.log('⚙️  Adding edited_at/deleted_at columns to messages table...');
+      db.exec('ALTER TABLE messages ADD COLUMN edited_at INTEGER');
+      db.exec('ALTER TABLE messages ADD COLUMN deleted_at INTEGER');
+    }
+    if (messageInfo.length > 0 && !hasSenderJid) {
+      console.log('⚙️  Adding sender_jid column to messages table...');
+      db.exec('ALTER TABLE messages ADD COLUMN sender_jid TEXT');
     }
-  } catch (err) {
+    if (messageInfo.length > 0 && !hasProcessedAt) {
+      console.log('⚙️  Adding processed_at column to messages table...');
+      db.exec('ALTER TABLE messages ADD COLUMN processed_at INTEGER');
+      // Everything stored so far went through ingestion when it arrived
+      db.exec('UPDATE messages SET processed_at = created_at');
+    }
+    if (contactInfo.length > 0 && !hasContactTimezone) {
+      console.log('⚙️  Adding timezone column to contacts table...');
+      db.exec('ALTER TABLE contacts ADD COLUMN timezone TEXT');
+    }
+    if (jobInfo.length > 0 && !hasGroupKey) {
+      console.log('⚙️  Adding group_key column to ingestion_jobs table...');
+      db.exec('ALTER TABLE ingestion_jobs ADD COLUMN group_key TEXT');
+    }
+    if (pendingActionInfo.length > 0 && !hasChoiceGroup) {
+      console.log('⚙️  Adding choice_group column to pending_actions table...');
+      db.exec('ALTER TABLE pending_actions ADD COLUMN choice_group TEXT');
+    }
+    if (pushInfo.length > 0 && !hasFailureCount) {
+      console.log('⚙️  Adding delivery columns to push_subscriptions table...');
+      db.exec('ALTER TABLE push_subscriptions ADD COLUMN failure_count INTEGER NOT NULL DEFAULT 0');
+      db.exec('ALTER TABLE push_subscriptions ADD COLUMN last_error TEXT');
+      db.exec('ALTER TABLE push_subscriptions ADD COLUMN last_failure_at INTEGER');
+      db.exec('ALTER TABLE push_subscriptions ADD COLUMN last_success_at INTEGER');
+    }
+  } catch {
     // Table doesn't exist yet, will be created below
   }
 
@@ -63,8 +147,14 @@ export function initDb(dbPath: string): Database.Database {
       id TEXT PRIMARY KEY,
       chat_id TEXT NOT NULL,
       sender TEXT NOT NULL,
+      sender_jid TEXT,
       content TEXT NOT NULL,
       timestamp INTEGER NOT NULL,
+      media_type TEXT,
+      media_ref TEXT,
+      edited_at INTEGER,
+      deleted_at INTEGER,
+      processed_at INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
     CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
@@ -88,6 +178,13 @@ export function initDb(dbPath: string): Database.Database {
       context_url TEXT,
       dismiss_count INTEGER DEFAULT 0,
       sender_name TEXT,
+      recurrence TEXT,
+      recurrence_start INTEGER,
+      recurrence_tz TEXT,
+      reminder_offsets TEXT,
+      deleted_at INTEGER,
+      chat_id TEXT,
+      sender_jid TEXT,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       FOREIGN KEY (message_id) REFERENCES messages(id)
     );
@@ -97,6 +194,31 @@ export function initDb(dbPath: string): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_events_created ON events(created_at);
     CREATE INDEX IF NOT EXISTS idx_events_reminder ON events(reminder_time);
     CREATE INDEX IF NOT EXISTS idx_events_context_url ON events(context_url);
+    CREATE INDEX IF NOT EXISTS idx_events_chat ON events(chat_id, created_at DESC);
+
+    -- Event participants (sender + mentioned names; contact_id set when a name resolves to one contact)
+    CREATE TABLE IF NOT EXISTS event_participants (
+      event_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      contact_id TEXT,
+      role TEXT NOT NULL,
+      PRIMARY KEY (event_id, role, name),
+      FOREIGN KEY (event_id) REFERENCES events(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_event_participants_contact ON event_participants(contact_id);
+
+    -- Event RSVPs (replies and reactions to an event's source message; one answer per person)
+    CREATE TABLE IF NOT EXISTS event_rsvps (
+      event_id INTEGER NOT NULL,
+      responder TEXT NOT NULL,
+      name TEXT,
+      response TEXT NOT NULL,
+      via TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (event_id, responder),
+      FOREIGN KEY (event_id) REFERENCES events(id)
+    );
 
     -- Contacts table
     CREATE TABLE IF NOT EXISTS contacts (
@@ -104,7 +226,15 @@ export function initDb(dbPath: string): Database.Database {
       name TEXT,
       first_seen INTEGER,
       last_seen INTEGER,
-      message_count INTEGER DEFAULT 0
+      message_count INTEGER DEFAULT 0,
+      timezone TEXT
+    );
+
+    -- Settings table (owner preferences, e.g. timezone)
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
 
     -- Triggers table
@@ -115,20 +245,167 @@ export function initDb(dbPath: string): Database.Database {
       trigger_value TEXT,
       is_fired INTEGER DEFAULT 0,
       fire_count INTEGER DEFAULT 0,
+      offset_minutes INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       FOREIGN KEY (event_id) REFERENCES events(id)
     );
     CREATE INDEX IF NOT EXISTS idx_triggers_unfired ON triggers(is_fired, trigger_type);
     CREATE INDEX IF NOT EXISTS idx_triggers_value ON triggers(trigger_value);
 
-    -- Push subscriptions table
+    -- Ingestion jobs table (durable webhook queue with retries)
+    CREATE TABLE IF NOT EXISTS ingestion_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL,
+      group_key TEXT,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER DEFAULT 0,
+      max_attempts INTEGER DEFAULT 5,
+      run_at INTEGER NOT NULL,
+      last_error TEXT,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_claim ON ingestion_jobs(status, run_at);
+    CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_group ON ingestion_jobs(group_key, status);
+
+    -- Backfill jobs (historical Evolution messages read oldest first, resumable from the checkpoint)
+    CREATE TABLE IF NOT EXISTS backfill_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      status TEXT NOT NULL DEFAULT 'queued',
+      chat_ids TEXT NOT NULL DEFAULT '[]',
+      since INTEGER,
+      until INTEGER,
+      total INTEGER,
+      scanned INTEGER NOT NULL DEFAULT 0,
+      processed INTEGER NOT NULL DEFAULT 0,
+      already_stored INTEGER NOT NULL DEFAULT 0,
+      events_created INTEGER NOT NULL DEFAULT 0,
+      checkpoint_ts INTEGER,
+      checkpoint_id TEXT,
+      current_message_id TEXT,
+      last_error TEXT,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+      finished_at INTEGER
+    );
+
+    -- Maintenance runs (daily expiry, retention purge and search index optimization)
+    CREATE TABLE IF NOT EXISTS maintenance_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER NOT NULL,
+      expired_events INTEGER NOT NULL DEFAULT 0,
+      purged_events INTEGER NOT NULL DEFAULT 0,
+      purged_messages INTEGER NOT NULL DEFAULT 0,
+      index_optimized INTEGER NOT NULL DEFAULT 0,
+      error TEXT
+    );
+
+    -- Event ↔ message links (every message of a coalesced burst that produced the event)
+    CREATE TABLE IF NOT EXISTS event_messages (
+      event_id INTEGER NOT NULL,
+      message_id TEXT NOT NULL,
+      PRIMARY KEY (event_id, message_id),
+      FOREIGN KEY (event_id) REFERENCES events(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_event_messages_message ON event_messages(message_id);
+
+    -- Reminder policies (minutes-before offsets per event type; missing types use the built-in defaults)
+    CREATE TABLE IF NOT EXISTS reminder_policies (
+      event_type TEXT PRIMARY KEY,
+      offsets TEXT NOT NULL,
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+
+    -- Recurring event exceptions (a single occurrence skipped or completed)
+    CREATE TABLE IF NOT EXISTS event_occurrences (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id INTEGER NOT NULL,
+      occurrence_time INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      UNIQUE (event_id, occurrence_time),
+      FOREIGN KEY (event_id) REFERENCES events(id)
+    );
+
+    -- Event history (every mutation with its source and the values it replaced, for audit and undo)
+    CREATE TABLE IF NOT EXISTS event_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      source TEXT NOT NULL,
+      before_values TEXT,
+      after_values TEXT,
+      undone_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (event_id) REFERENCES events(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_event_history_event ON event_history(event_id, id);
+
+    -- Action confirmation policies (per detected action; missing actions use the built-in defaults)
+    CREATE TABLE IF NOT EXISTS action_policies (
+      action TEXT PRIMARY KEY,
+      confirm TEXT NOT NULL,
+      threshold REAL NOT NULL DEFAULT 0.85,
+      confirm_fallback INTEGER NOT NULL DEFAULT 1,
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+
+    -- Pending actions (detected actions held until the user confirms or rejects them)
+    CREATE TABLE IF NOT EXISTS pending_actions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      changes TEXT NOT NULL DEFAULT '{}',
+      description TEXT NOT NULL,
+      confidence REAL NOT NULL,
+      resolved_via TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      message_id TEXT,
+      choice_group TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      expires_at INTEGER NOT NULL,
+      resolved_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (event_id) REFERENCES events(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_pending_actions_status ON pending_actions(status, expires_at);
+
+    -- Chat policies (which messages of a chat are read; missing chats use the global default)
+    CREATE TABLE IF NOT EXISTS chat_policies (
+      chat_id TEXT PRIMARY KEY,
+      mode TEXT NOT NULL,
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+
+    -- Push subscriptions table (Web Push endpoints; failure_count counts failures since the last delivery)
     CREATE TABLE IF NOT EXISTS push_subscriptions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       endpoint TEXT UNIQUE NOT NULL,
       keys TEXT NOT NULL,
+      failure_count INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      last_failure_at INTEGER,
+      last_success_at INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
 
+    -- Outbound messages (sent through Evolution; matched against incoming own messages so they aren't ingested)
+    CREATE TABLE IF NOT EXISTS outbound_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT,
+      chat_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      event_id INTEGER,
+      status TEXT NOT NULL DEFAULT 'pending',
+      error TEXT,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_outbound_messages_message ON outbound_messages(message_id);
+    CREATE INDEX IF NOT EXISTS idx_outbound_messages_chat ON outbound_messages(chat_id, created_at);
+
     -- Context dismissals table (tracks dismissed context reminders per URL pattern)
     CREATE TABLE IF NOT EXISTS context_dismissals (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -139,6 +416,61 @@ export function initDb(dbPath: string): Database.Database {
       FOREIGN KEY (event_id) REFERENCES events(id)
     );
     CREATE INDEX IF NOT EXISTS idx_context_dismissals_url ON context_dismissals(url_pattern);
+
+    -- Event context URLs (every URL/domain pattern an event resurfaces on; events.context_url mirrors the first)
+    CREATE TABLE IF NOT EXISTS event_context_urls (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id INTEGER NOT NULL,
+      pattern TEXT NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      UNIQUE (event_id, pattern),
+      FOREIGN KEY (event_id) REFERENCES events(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_event_context_urls_event ON event_context_urls(event_id);
+
+    -- Context rules table (event → URL patterns for ingestion, URL → activity/keywords for browsing)
+    CREATE TABLE IF NOT EXISTS context_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      keywords TEXT NOT NULL DEFAULT '[]',
+      event_types TEXT NOT NULL DEFAULT '[]',
+      recipients TEXT NOT NULL DEFAULT '[]',
+      url_patterns TEXT NOT NULL,
+      activity TEXT,
+      query_param TEXT,
+      applies_to TEXT NOT NULL DEFAULT 'both',
+      priority INTEGER DEFAULT 0,
+      enabled INTEGER DEFAULT 1,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_context_rules_scope ON context_rules(applies_to, enabled, priority);
+
+    -- Notification rules (which channels a notification goes to, by kind/event type/urgency/connection)
+    CREATE TABLE IF NOT EXISTS notification_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      kinds TEXT NOT NULL DEFAULT '[]',
+      event_types TEXT NOT NULL DEFAULT '[]',
+      urgencies TEXT NOT NULL DEFAULT '[]',
+      when_connected TEXT NOT NULL DEFAULT 'any',
+      channels TEXT NOT NULL DEFAULT '[]',
+      priority INTEGER DEFAULT 0,
+      enabled INTEGER DEFAULT 1,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+
+    -- Digest items (notifications routed to, or held back for, the daily digest; sent_at once it went out)
+    CREATE TABLE IF NOT EXISTS notification_digest (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL,
+      event_id INTEGER,
+      text TEXT NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      sent_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_notification_digest_pending ON notification_digest(sent_at, id);
   `);
 
   // Create FTS5 virtual table for full-text search
@@ -172,23 +504,238 @@ export function initDb(dbPath: string): Database.Database {
     END;
   `);
 
+  // Migration: single events.context_url values become the event's first context URL pattern
+  db.exec(`
+    INSERT OR IGNORE INTO event_context_urls (event_id, pattern)
+    SELECT id, LOWER(context_url) FROM events
+    WHERE context_url IS NOT NULL AND context_url != ''
+  `);
+
+  // Migration: events from before chat_id/sender_jid get them from their source message
+  // (in a 1:1 chat the other person's JID is the chat), then their participant rows
+  if (backfillEventLinks) {
+    db.exec(`
+      UPDATE events SET
+        chat_id = (SELECT m.chat_id FROM messages m WHERE m.id = events.message_id),
+        sender_jid = (
+          SELECT m.chat_id FROM messages m
+          WHERE m.id = events.message_id AND m.sender != 'self' AND m.chat_id NOT LIKE '%@g.us'
+        )
+      WHERE message_id IS NOT NULL
+    `);
+    const ids = db.prepare('SELECT id FROM events').all() as Array<{ id: number }>;
+    for (const { id } of ids) syncEventParticipants(id);
+    console.log(`⚙️  Linked ${ids.length} event(s) to their chats and participants`);
+  }
+
   console.log('✅ Database initialized:', dbPath);
   return db;
 }
 
+// ============ Event Change Notifications ============
+// Mutations that change an event's time, status or existence run in a transaction,
+// record an event_history entry and notify listeners inside it, so dependent rows
+// (triggers, history) change atomically with the event — a throwing listener rolls
+// the whole change back.
+
+export interface EventChange {
+  eventId: number;
+  fields: string[];                 // Columns that were written ('status', 'event_time', ...)
+  previous: Event;                  // Row before the change
+  source: ChangeSource;
+}
+
+type EventChangeListener = (change: EventChange) => void;
+
+const eventChangeListeners: EventChangeListener[] = [];
+
+// Returns an unsubscribe function
+export function onEventChange(listener: EventChangeListener): () => void {
+  eventChangeListeners.push(listener);
+  return () => {
+    const index = eventChangeListeners.indexOf(listener);
+    if (index >= 0) eventChangeListeners.splice(index, 1);
+  };
+}
+
+// Who is changing events right now — recorded in event_history. Mutations are synchronous,
+// so a source set around a call covers everything that call writes.
+let changeSource: ChangeSource = 'system';
+
+export function withChangeSource<T>(source: ChangeSource, fn: () => T): T {
+  const outer = changeSource;
+  changeSource = source;
+  try {
+    return fn();
+  } finally {
+    changeSource = outer;
+  }
+}
+
+function pickColumns(row: Event, fields: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) picked[field] = (row as Record<string, unknown>)[field] ?? null;
+  return picked;
+}
+
+function recordHistory(
+  eventId: number,
+  action: HistoryAction,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): void {
+  getDb().prepare(`
+    INSERT INTO event_history (event_id, action, source, before_values, after_values)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(eventId, action, changeSource, before ? JSON.stringify(before) : null, after ? JSON.stringify(after) : null);
+}
+
+function historyAction(previous: Event, current: Event): HistoryAction {
+  if (previous.status === current.status) return 'update';
+  if (current.status === 'deleted') return 'delete';
+  if (previous.status === 'deleted') return 'restore';
+  return 'status';
+}
+
+function withEventChange<T>(eventId: number, fields: string[], mutate: () => T, action?: HistoryAction): T {
+  const conn = getDb();
+  return conn.transaction(() => {
+    const previous = conn.prepare('SELECT * FROM events WHERE id = ?').get(eventId) as Event | undefined;
+    const result = mutate();
+    if (previous) {
+      const current = conn.prepare('SELECT * FROM events WHERE id = ?').get(eventId) as Event;
+      const before = pickColumns(previous, fields);
+      const after = pickColumns(current, fields);
+      // No-op writes (re-snoozing to the same time, saving unchanged fields) aren't history
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        recordHistory(eventId, action ?? historyAction(previous, current), before, after);
+        if (fields.some(f => PARTICIPANT_FIELDS.includes(f))) syncEventParticipants(eventId);
+      }
+      for (const listener of eventChangeListeners) listener({ eventId, fields, previous, source: changeSource });
+    }
+    return result;
+  })();
+}
+
+// ============ Event Participant Operations ============
+
+// Columns event_participants is derived from
+const PARTICIPANT_FIELDS = ['participants', 'sender_name', 'sender_jid'];
+
+function parseParticipantNames(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const names = JSON.parse(json) as unknown;
+    return Array.isArray(names) ? [...new Set(names.filter((n): n is string => typeof n === 'string' && n.trim() !== '').map(n => n.trim()))] : [];
+  } catch {
+    return [];
+  }
+}
+
+// Contact a mentioned name refers to — a full-name match, else a first-name match, and only
+// when exactly one contact fits ("Priya" with two Priyas in the contacts stays unlinked)
+export function resolveContactIdByName(name: string): string | null {
+  const exact = getDb().prepare(`
+    SELECT id FROM contacts WHERE LOWER(name) = LOWER(?) AND id != 'self'
+  `).all(name) as Array<{ id: string }>;
+  if (exact.length === 1) return exact[0].id;
+  if (exact.length > 1) return null;
+
+  const byFirstName = getDb().prepare(`
+    SELECT id FROM contacts WHERE LOWER(name) LIKE LOWER(?) || ' %' AND id != 'self'
+  `).all(name) as Array<{ id: string }>;
+  return byFirstName.length === 1 ? byFirstName[0].id : null;
+}
+
+// Rebuild an event's participant rows from its sender and participants JSON
+function syncEventParticipants(eventId: number): void {
+  const event = getDb().prepare('SELECT * FROM events WHERE id = ?').get(eventId) as Event | undefined;
+  if (!event) return;
+
+  getDb().prepare('DELETE FROM event_participants WHERE event_id = ?').run(eventId);
+  const insert = getDb().prepare(`
+    INSERT OR IGNORE INTO event_participants (event_id, name, contact_id, role) VALUES (?, ?, ?, ?)
+  `);
+  if (event.sender_jid) {
+    // contacts are keyed by the JID's user part, like messages.sender
+    const contactId = event.sender_jid.split('@')[0];
+    insert.run(eventId, event.sender_name || getContactById(contactId)?.name || contactId, contactId, 'sender');
+  }
+  for (const name of parseParticipantNames(event.participants)) {
+    insert.run(eventId, name, resolveContactIdByName(name), 'mentioned');
+  }
+}
+
+export function getEventParticipants(eventId: number): EventParticipant[] {
+  return getDb().prepare(`
+    SELECT * FROM event_participants WHERE event_id = ? ORDER BY role DESC, name
+  `).all(eventId) as EventParticipant[];
+}
+
+// ============ Event RSVP Operations ============
+export function upsertEventRsvp(rsvp: Omit<EventRsvp, 'updated_at'>): void {
+  getDb().prepare(`
+    INSERT INTO event_rsvps (event_id, responder, name, response, via, message_id)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(event_id, responder) DO UPDATE SET
+      name = COALESCE(excluded.name, name),
+      response = excluded.response,
+      via = excluded.via,
+      message_id = excluded.message_id,
+      updated_at = strftime('%s', 'now')
+  `).run(rsvp.event_id, rsvp.responder, rsvp.name, rsvp.response, rsvp.via, rsvp.message_id);
+}
+
+// A reaction was taken back — drop the answer it gave (a later reply is kept)
+export function deleteReactionRsvp(eventId: number, responder: string): boolean {
+  const result = getDb().prepare(`
+    DELETE FROM event_rsvps WHERE event_id = ? AND responder = ? AND via = 'reaction'
+  `).run(eventId, responder);
+  return result.changes > 0;
+}
+
+export function getEventRsvps(eventId: number): EventRsvp[] {
+  return getDb().prepare(`
+    SELECT * FROM event_rsvps WHERE event_id = ? ORDER BY updated_at, responder
+  `).all(eventId) as EventRsvp[];
+}
+
+// Who's coming, grouped by answer — the owner is 'you', everyone else goes by the name they
+// answered with. Events nobody has answered are left out.
+export function getEventAttendance(eventIds: number[]): Map<number, EventAttendance> {
+  const attendance = new Map<number, EventAttendance>();
+  if (eventIds.length === 0) return attendance;
+
+  const rsvps = getDb().prepare(`
+    SELECT * FROM event_rsvps WHERE event_id IN (${eventIds.map(() => '?').join(', ')})
+    ORDER BY updated_at, responder
+  `).all(...eventIds) as EventRsvp[];
+  for (const rsvp of rsvps) {
+    const entry = attendance.get(rsvp.event_id) ?? { accepted: [], declined: [], tentative: [] };
+    entry[rsvp.response].push(rsvp.responder === 'self' ? 'you' : rsvp.name || rsvp.responder);
+    attendance.set(rsvp.event_id, entry);
+  }
+  return attendance;
+}
+
 // ============ Message Operations ============
+// Storing a message again keeps what happened to it since (edited, deleted, processed)
 export function insertMessage(msg: Message): void {
   const stmt = getDb().prepare(`
-    INSERT OR REPLACE INTO messages (id, chat_id, sender, content, timestamp)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO messages (id, chat_id, sender, sender_jid, content, timestamp, media_type, media_ref)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      chat_id = excluded.chat_id, sender = excluded.sender, sender_jid = excluded.sender_jid, content = excluded.content,
+      timestamp = excluded.timestamp, media_type = excluded.media_type, media_ref = excluded.media_ref
   `);
-  stmt.run(msg.id, msg.chat_id, msg.sender, msg.content, msg.timestamp);
+  stmt.run(msg.id, msg.chat_id, msg.sender, msg.sender_jid || null, msg.content, msg.timestamp, msg.media_type || null, msg.media_ref || null);
 }
 
+// Context for Gemini — messages deleted for everyone are left out
 export function getRecentMessages(chatId: string, limit = 5): Message[] {
   const stmt = getDb().prepare(`
     SELECT * FROM messages
-    WHERE chat_id = ?
+    WHERE chat_id = ? AND deleted_at IS NULL
     ORDER BY timestamp DESC
     LIMIT ?
   `);
@@ -200,6 +747,69 @@ export function getMessageById(id: string): Message | undefined {
   return stmt.get(id) as Message | undefined;
 }
 
+// The sender edited a message — keep the new text (media type and reference don't change)
+export function updateMessageContent(id: string, content: string): boolean {
+  const result = getDb().prepare(`
+    UPDATE messages SET content = ?, edited_at = strftime('%s', 'now') WHERE id = ?
+  `).run(content, id);
+  return result.changes > 0;
+}
+
+// Ingestion is done with these messages: their events are extracted and their actions applied
+export function markMessagesProcessed(ids: string[]): void {
+  const stmt = getDb().prepare(`
+    UPDATE messages SET processed_at = strftime('%s', 'now') WHERE id = ? AND processed_at IS NULL
+  `);
+  for (const id of ids) stmt.run(id);
+}
+
+// The sender deleted a message for everyone — false when it was already marked
+export function markMessageDeleted(id: string): boolean {
+  const result = getDb().prepare(`
+    UPDATE messages SET deleted_at = strftime('%s', 'now') WHERE id = ? AND deleted_at IS NULL
+  `).run(id);
+  return result.changes > 0;
+}
+
+// Record which messages an event was extracted from (a burst can be several messages)
+export function linkEventMessages(eventId: number, messageIds: string[]): void {
+  const stmt = getDb().prepare('INSERT OR IGNORE INTO event_messages (event_id, message_id) VALUES (?, ?)');
+  for (const messageId of messageIds) stmt.run(eventId, messageId);
+}
+
+export function getEventMessageIds(eventId: number): string[] {
+  const rows = getDb().prepare(`
+    SELECT message_id FROM event_messages WHERE event_id = ?
+  `).all(eventId) as Array<{ message_id: string }>;
+  return rows.map(r => r.message_id);
+}
+
+// Chats and senders of the messages each event came from (its own message plus linked burst messages)
+export function getEventOrigins(eventIds: number[]): Array<{ event_id: number; chat_id: string; sender: string }> {
+  if (eventIds.length === 0) return [];
+  const placeholders = eventIds.map(() => '?').join(', ');
+  return getDb().prepare(`
+    SELECT e.id AS event_id, m.chat_id, m.sender FROM events e
+    JOIN messages m ON m.id = e.message_id
+    WHERE e.id IN (${placeholders})
+    UNION
+    SELECT em.event_id, m.chat_id, m.sender FROM event_messages em
+    JOIN messages m ON m.id = em.message_id
+    WHERE em.event_id IN (${placeholders})
+  `).all(...eventIds, ...eventIds) as Array<{ event_id: number; chat_id: string; sender: string }>;
+}
+
+// Events still in play that were extracted from a message (as its anchor or part of its burst).
+// Finished ones (completed, expired, ...) stay as they are.
+export function getActiveEventsForMessage(messageId: string): Event[] {
+  return getDb().prepare(`
+    SELECT * FROM events
+    WHERE (message_id = ? OR id IN (SELECT event_id FROM event_messages WHERE message_id = ?))
+      AND status NOT IN ('completed', 'expired', 'ignored', 'dismissed', 'deleted')
+    ORDER BY id
+  `).all(messageId, messageId) as Event[];
+}
+
 // ============ Event Operations ============
 
 /**
@@ -214,7 +824,7 @@ export function findDuplicateEvent(title: string, hoursWindow: number = 48): Eve
   // Exact title match (case-insensitive)
   const exactMatch = getDb().prepare(`
     SELECT * FROM events
-    WHERE LOWER(TRIM(title)) = ? AND created_at > ? AND status NOT IN ('completed', 'expired', 'ignored')
+    WHERE LOWER(TRIM(title)) = ? AND created_at > ? AND status NOT IN ('completed', 'expired', 'ignored', 'deleted')
     LIMIT 1
   `).get(normalizedTitle, cutoff) as Event | undefined;
   
@@ -224,7 +834,7 @@ export function findDuplicateEvent(title: string, hoursWindow: number = 48): Eve
   // This catches cases like "Try cashews at Zantyes" vs "Try cashews at Zantye's"
   const recentEvents = getDb().prepare(`
     SELECT * FROM events
-    WHERE created_at > ? AND status NOT IN ('completed', 'expired', 'ignored')
+    WHERE created_at > ? AND status NOT IN ('completed', 'expired', 'ignored', 'deleted')
     ORDER BY created_at DESC
     LIMIT 100
   `).all(cutoff) as Event[];
@@ -265,8 +875,8 @@ export function findDuplicateEvent(title: string, hoursWindow: number = 48): Eve
 
 export function insertEvent(event: Omit<Event, 'id' | 'created_at'>): number {
   const stmt = getDb().prepare(`
-    INSERT INTO events (message_id, event_type, title, description, event_time, location, participants, keywords, confidence, status, context_url, sender_name)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO events (message_id, event_type, title, description, event_time, location, participants, keywords, confidence, status, context_url, sender_name, recurrence, recurrence_start, recurrence_tz, chat_id, sender_jid)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   const result = stmt.run(
     event.message_id,
@@ -280,9 +890,18 @@ export function insertEvent(event: Omit<Event, 'id' | 'created_at'>): number {
     event.confidence,
     event.status || 'pending',
     event.context_url || null,
-    event.sender_name || null
+    event.sender_name || null,
+    event.recurrence || null,
+    event.recurrence ? (event.recurrence_start ?? event.event_time) : null,
+    event.recurrence ? (event.recurrence_tz || null) : null,
+    event.chat_id || null,
+    event.sender_jid || null
   );
-  return result.lastInsertRowid as number;
+  const eventId = result.lastInsertRowid as number;
+  if (event.context_url) addEventContextUrls(eventId, [event.context_url]);
+  syncEventParticipants(eventId);
+  recordHistory(eventId, 'create', null, { title: event.title, event_time: event.event_time, status: event.status || 'pending' });
+  return eventId;
 }
 
 export function getEventById(id: number): Event | undefined {
@@ -313,7 +932,7 @@ export function getRecentEvents(days = 90, limit = 100): Event[] {
 
 export function updateEventStatus(id: number, status: EventStatus): void {
   const stmt = getDb().prepare('UPDATE events SET status = ? WHERE id = ?');
-  stmt.run(status, id);
+  withEventChange(id, ['status'], () => stmt.run(status, id));
   console.log(`📝 [DB] Event ${id} status → ${status}`);
 }
 
@@ -366,10 +985,10 @@ export function searchEventsByKeywords(keywords: string[], days = 90, limit = 10
 // ============ Trigger Operations ============
 export function insertTrigger(trigger: Omit<Trigger, 'id' | 'created_at'>): number {
   const stmt = getDb().prepare(`
-    INSERT INTO triggers (event_id, trigger_type, trigger_value, is_fired)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO triggers (event_id, trigger_type, trigger_value, is_fired, offset_minutes)
+    VALUES (?, ?, ?, ?, ?)
   `);
-  const result = stmt.run(trigger.event_id, trigger.trigger_type, trigger.trigger_value, trigger.is_fired ? 1 : 0);
+  const result = stmt.run(trigger.event_id, trigger.trigger_type, trigger.trigger_value, trigger.is_fired ? 1 : 0, trigger.offset_minutes ?? null);
   return result.lastInsertRowid as number;
 }
 
@@ -407,6 +1026,574 @@ export function upsertContact(contact: Contact): void {
   stmt.run(contact.id, contact.name, contact.first_seen, contact.last_seen, contact.message_count);
 }
 
+export function getContactById(id: string): Contact | undefined {
+  return getDb().prepare('SELECT * FROM contacts WHERE id = ?').get(id) as Contact | undefined;
+}
+
+// null clears the override (contact's times are read in the owner's timezone)
+export function setContactTimezone(id: string, timezone: string | null): boolean {
+  const result = getDb().prepare('UPDATE contacts SET timezone = ? WHERE id = ?').run(timezone, id);
+  return result.changes > 0;
+}
+
+// ============ Settings Operations ============
+export function getSetting(key: string): string | null {
+  const row = getDb().prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row ? row.value : null;
+}
+
+export function setSetting(key: string, value: string): void {
+  getDb().prepare(`
+    INSERT INTO settings (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = strftime('%s', 'now')
+  `).run(key, value);
+}
+
+export function getAllSettings(): Record<string, string> {
+  const rows = getDb().prepare('SELECT key, value FROM settings').all() as Array<{ key: string; value: string }>;
+  return Object.fromEntries(rows.map(r => [r.key, r.value]));
+}
+
+// ============ Ingestion Job Operations ============
+export function insertJob(kind: string, payload: unknown, maxAttempts = 5, runAt?: number): number {
+  const now = Math.floor(Date.now() / 1000);
+  const stmt = getDb().prepare(`
+    INSERT INTO ingestion_jobs (kind, payload, max_attempts, run_at)
+    VALUES (?, ?, ?, ?)
+  `);
+  const result = stmt.run(kind, JSON.stringify(payload), maxAttempts, runAt ?? now);
+  return result.lastInsertRowid as number;
+}
+
+// Atomically take the oldest due job and mark it running (counts as an attempt).
+// Jobs sharing a group_key run one at a time, oldest first — a job is only claimable once
+// every earlier job of its group has finished — including one waiting out its backoff, since
+// later edits, deletes and reactions may refer to its message. A dead job unblocks the group.
+export function claimNextJob(): IngestionJob | null {
+  const db = getDb();
+  const claim = db.transaction((): IngestionJob | null => {
+    const now = Math.floor(Date.now() / 1000);
+    const job = db.prepare(`
+      SELECT * FROM ingestion_jobs j
+      WHERE j.status = 'pending' AND j.run_at <= ?
+        AND (j.group_key IS NULL OR NOT EXISTS (
+          SELECT 1 FROM ingestion_jobs earlier
+          WHERE earlier.group_key = j.group_key
+            AND earlier.id < j.id
+            AND earlier.status IN ('pending', 'running')
+        ))
+      ORDER BY j.run_at ASC, j.id ASC
+      LIMIT 1
+    `).get(now) as IngestionJob | undefined;
+    if (!job) return null;
+
+    db.prepare(`
+      UPDATE ingestion_jobs SET status = 'running', attempts = attempts + 1, updated_at = ? WHERE id = ?
+    `).run(now, job.id);
+    return { ...job, status: 'running', attempts: job.attempts + 1, updated_at: now };
+  });
+  return claim();
+}
+
+// Debounced enqueue for a group (chat): while the group's newest job hasn't started yet,
+// new payloads are appended to it and its run_at slides forward by debounceSeconds —
+// but never past created_at + maxWaitSeconds, so a chatty group still gets processed.
+// The payload column of grouped jobs holds a JSON array, oldest payload first.
+export function enqueueGroupedJob(
+  kind: string,
+  groupKey: string,
+  payload: unknown,
+  options: { maxAttempts: number; debounceSeconds: number; maxWaitSeconds: number }
+): { id: number; coalesced: boolean } {
+  const db = getDb();
+  const enqueue = db.transaction(() => {
+    const now = Math.floor(Date.now() / 1000);
+    const open = db.prepare(`
+      SELECT * FROM ingestion_jobs
+      WHERE kind = ? AND group_key = ?
+      ORDER BY id DESC
+      LIMIT 1
+    `).get(kind, groupKey) as IngestionJob | undefined;
+
+    if (open && open.status === 'pending' && open.attempts === 0) {
+      const payloads = JSON.parse(open.payload) as unknown[];
+      payloads.push(payload);
+      const runAt = Math.min(now + options.debounceSeconds, open.created_at + options.maxWaitSeconds);
+      db.prepare(`
+        UPDATE ingestion_jobs SET payload = ?, run_at = ?, updated_at = ? WHERE id = ?
+      `).run(JSON.stringify(payloads), Math.max(open.run_at, runAt), now, open.id);
+      return { id: open.id, coalesced: true };
+    }
+
+    const result = db.prepare(`
+      INSERT INTO ingestion_jobs (kind, group_key, payload, max_attempts, run_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(kind, groupKey, JSON.stringify([payload]), options.maxAttempts, now + options.debounceSeconds, now, now);
+    return { id: result.lastInsertRowid as number, coalesced: false };
+  });
+  return enqueue();
+}
+
+// A run of jobs for an ordered group, one payload each, stored together. The i-th is due
+// spacingSeconds * i from now, which paces a long run without holding a worker.
+export function insertGroupJobs(
+  kind: string,
+  groupKey: string,
+  payloads: unknown[],
+  options: { maxAttempts: number; spacingSeconds: number }
+): number[] {
+  const db = getDb();
+  const insert = db.transaction(() => {
+    const now = Math.floor(Date.now() / 1000);
+    const stmt = db.prepare(`
+      INSERT INTO ingestion_jobs (kind, group_key, payload, max_attempts, run_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    return payloads.map((payload, i) => {
+      const runAt = now + Math.floor(i * options.spacingSeconds);
+      return stmt.run(kind, groupKey, JSON.stringify(payload), options.maxAttempts, runAt, now, now).lastInsertRowid as number;
+    });
+  });
+  return insert();
+}
+
+// Jobs of a group still to run, counting one that's running now
+export function countOpenJobs(groupKey: string): number {
+  const row = getDb().prepare(`
+    SELECT COUNT(*) as count FROM ingestion_jobs WHERE group_key = ? AND status IN ('pending', 'running')
+  `).get(groupKey) as { count: number };
+  return row.count;
+}
+
+export function markJobDone(id: number): void {
+  getDb().prepare(`
+    UPDATE ingestion_jobs SET status = 'done', last_error = NULL, updated_at = strftime('%s', 'now') WHERE id = ?
+  `).run(id);
+}
+
+// Failed attempt: either schedule a retry at retryAt, or dead-letter the job (retryAt = null)
+export function markJobFailed(id: number, error: string, retryAt: number | null): void {
+  if (retryAt === null) {
+    getDb().prepare(`
+      UPDATE ingestion_jobs SET status = 'dead', last_error = ?, updated_at = strftime('%s', 'now') WHERE id = ?
+    `).run(error, id);
+    return;
+  }
+  getDb().prepare(`
+    UPDATE ingestion_jobs SET status = 'pending', last_error = ?, run_at = ?, updated_at = strftime('%s', 'now') WHERE id = ?
+  `).run(error, retryAt, id);
+}
+
+// Jobs left 'running' by a crashed/restarted process go back to the queue
+export function requeueStaleJobs(): number {
+  const result = getDb().prepare(`
+    UPDATE ingestion_jobs SET status = 'pending', updated_at = strftime('%s', 'now') WHERE status = 'running'
+  `).run();
+  return result.changes;
+}
+
+export function getJobById(id: number): IngestionJob | undefined {
+  return getDb().prepare('SELECT * FROM ingestion_jobs WHERE id = ?').get(id) as IngestionJob | undefined;
+}
+
+export function getJobs(options: { status?: JobStatus; limit?: number; offset?: number }): IngestionJob[] {
+  const { status, limit = 50, offset = 0 } = options;
+  if (status) {
+    return getDb().prepare(`
+      SELECT * FROM ingestion_jobs WHERE status = ? ORDER BY updated_at DESC, id DESC LIMIT ? OFFSET ?
+    `).all(status, limit, offset) as IngestionJob[];
+  }
+  return getDb().prepare(`
+    SELECT * FROM ingestion_jobs ORDER BY updated_at DESC, id DESC LIMIT ? OFFSET ?
+  `).all(limit, offset) as IngestionJob[];
+}
+
+// Put a dead job back in the queue with a fresh attempt budget
+// Dead jobs start over; failed jobs waiting out their backoff run now. Done jobs can't be
+// retried — processing a webhook twice would insert its events twice.
+export function retryJob(id: number): boolean {
+  const result = getDb().prepare(`
+    UPDATE ingestion_jobs
+    SET attempts = CASE WHEN status = 'dead' THEN 0 ELSE attempts END,
+        last_error = CASE WHEN status = 'dead' THEN NULL ELSE last_error END,
+        status = 'pending', run_at = strftime('%s', 'now'), updated_at = strftime('%s', 'now')
+    WHERE id = ? AND (status = 'dead' OR (status = 'pending' AND last_error IS NOT NULL))
+  `).run(id);
+  return result.changes > 0;
+}
+
+export function retryDeadJobs(): number {
+  const result = getDb().prepare(`
+    UPDATE ingestion_jobs
+    SET status = 'pending', attempts = 0, last_error = NULL, run_at = strftime('%s', 'now'), updated_at = strftime('%s', 'now')
+    WHERE status = 'dead'
+  `).run();
+  return result.changes;
+}
+
+export function purgeJobs(status: 'dead' | 'done', olderThan?: number): number {
+  const result = getDb().prepare(`
+    DELETE FROM ingestion_jobs WHERE status = ? AND updated_at <= ?
+  `).run(status, olderThan ?? Math.floor(Date.now() / 1000));
+  return result.changes;
+}
+
+export function getJobStats(): Record<JobStatus, number> {
+  const rows = getDb().prepare(`
+    SELECT status, COUNT(*) as count FROM ingestion_jobs GROUP BY status
+  `).all() as Array<{ status: JobStatus; count: number }>;
+  const stats: Record<JobStatus, number> = { pending: 0, running: 0, done: 0, dead: 0 };
+  for (const row of rows) stats[row.status] = row.count;
+  return stats;
+}
+
+// ============ Backfill Operations ============
+export function insertBackfillJob(job: { chatIds: string[]; since: number | null; until: number | null }): BackfillJob {
+  const result = getDb().prepare(`
+    INSERT INTO backfill_jobs (chat_ids, since, until) VALUES (?, ?, ?)
+  `).run(JSON.stringify(job.chatIds), job.since, job.until);
+  return getBackfillJobById(result.lastInsertRowid as number)!;
+}
+
+export function getBackfillJobById(id: number): BackfillJob | undefined {
+  return getDb().prepare('SELECT * FROM backfill_jobs WHERE id = ?').get(id) as BackfillJob | undefined;
+}
+
+export function getBackfillJobs(limit = 20): BackfillJob[] {
+  return getDb().prepare('SELECT * FROM backfill_jobs ORDER BY id DESC LIMIT ?').all(limit) as BackfillJob[];
+}
+
+// Oldest queued backfill — they run one at a time in the order they were started
+export function getNextQueuedBackfill(): BackfillJob | undefined {
+  return getDb().prepare(`
+    SELECT * FROM backfill_jobs WHERE status = 'queued' ORDER BY id ASC LIMIT 1
+  `).get() as BackfillJob | undefined;
+}
+
+type BackfillProgress = Partial<Pick<BackfillJob,
+  'status' | 'total' | 'scanned' | 'processed' | 'already_stored' | 'events_created' |
+  'checkpoint_ts' | 'checkpoint_id' | 'current_message_id' | 'last_error' | 'finished_at'>>;
+
+// Save counters, checkpoint and/or status in one write
+export function updateBackfillJob(id: number, progress: BackfillProgress): void {
+  const entries = Object.entries(progress);
+  if (entries.length === 0) return;
+  const sets = entries.map(([key]) => `${key} = ?`).join(', ');
+  getDb().prepare(`
+    UPDATE backfill_jobs SET ${sets}, updated_at = strftime('%s', 'now') WHERE id = ?
+  `).run(...entries.map(([, value]) => value), id);
+}
+
+// Move a backfill between states, only from one of the given ones — returns whether it moved
+export function transitionBackfillJob(id: number, from: BackfillStatus[], to: BackfillStatus): boolean {
+  const result = getDb().prepare(`
+    UPDATE backfill_jobs SET status = ?, updated_at = strftime('%s', 'now')
+    WHERE id = ? AND status IN (${from.map(() => '?').join(', ')})
+  `).run(to, id, ...from);
+  return result.changes > 0;
+}
+
+// Backfills left 'running' by a crashed/restarted process continue from their checkpoint
+export function requeueRunningBackfills(): number {
+  const result = getDb().prepare(`
+    UPDATE backfill_jobs SET status = 'queued', updated_at = strftime('%s', 'now') WHERE status = 'running'
+  `).run();
+  return result.changes;
+}
+
+// ============ Maintenance Operations ============
+
+// Finished events whose retention can run out — everything else is still in use
+const FINISHED_EVENT_STATUSES = ['completed', 'expired', 'ignored', 'dismissed', 'deleted'];
+
+// Tables that hang off an event, cleared before the event row itself
+const EVENT_CHILD_TABLES = [
+  'triggers', 'event_participants', 'event_rsvps', 'event_messages', 'event_occurrences',
+  'event_history', 'pending_actions', 'context_dismissals', 'event_context_urls',
+];
+
+// One-off timed events whose time was before `cutoff` and that nobody finished — recurring
+// events move on to their next occurrence instead (see checkRecurringEvents)
+export function getEventsToExpire(cutoff: number): Event[] {
+  return getDb().prepare(`
+    SELECT * FROM events
+    WHERE event_time IS NOT NULL AND event_time <= ? AND recurrence IS NULL
+      AND status IN ('pending', 'discovered', 'scheduled', 'reminded')
+    ORDER BY event_time
+  `).all(cutoff) as Event[];
+}
+
+// Delete finished events last touched (created, due or changed) before `cutoff`, with
+// everything recorded about them. Purged events are gone for good — no undo.
+export function purgeFinishedEvents(cutoff: number): number {
+  const db = getDb();
+  const statuses = FINISHED_EVENT_STATUSES.map(() => '?').join(', ');
+  const ids = (db.prepare(`
+    SELECT e.id FROM events e
+    WHERE e.status IN (${statuses})
+      AND MAX(e.created_at, COALESCE(e.event_time, 0),
+              COALESCE((SELECT MAX(h.created_at) FROM event_history h WHERE h.event_id = e.id), 0)) < ?
+  `).all(...FINISHED_EVENT_STATUSES, cutoff) as Array<{ id: number }>).map(row => row.id);
+  if (ids.length === 0) return 0;
+
+  const purge = db.transaction((eventIds: number[]) => {
+    for (const table of EVENT_CHILD_TABLES) {
+      const stmt = db.prepare(`DELETE FROM ${table} WHERE event_id = ?`);
+      for (const id of eventIds) stmt.run(id);
+    }
+    const deleteEvent = db.prepare('DELETE FROM events WHERE id = ?');
+    for (const id of eventIds) deleteEvent.run(id);
+  });
+  purge(ids);
+  return ids.length;
+}
+
+// Delete messages from before `cutoff` that no remaining event came from
+export function purgeOldMessages(cutoff: number): number {
+  const result = getDb().prepare(`
+    DELETE FROM messages
+    WHERE timestamp < ?
+      AND id NOT IN (SELECT message_id FROM events WHERE message_id IS NOT NULL)
+      AND id NOT IN (SELECT message_id FROM event_messages)
+  `).run(cutoff);
+  return result.changes;
+}
+
+// Merge the full-text index's segments and refresh the query planner's statistics
+export function optimizeSearchIndex(): void {
+  const db = getDb();
+  db.exec(`INSERT INTO events_fts(events_fts) VALUES ('optimize')`);
+  db.pragma('optimize');
+}
+
+export function insertMaintenanceRun(run: Omit<MaintenanceRun, 'id'>): MaintenanceRun {
+  const result = getDb().prepare(`
+    INSERT INTO maintenance_runs (started_at, finished_at, expired_events, purged_events, purged_messages, index_optimized, error)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(run.started_at, run.finished_at, run.expired_events, run.purged_events, run.purged_messages, run.index_optimized ? 1 : 0, run.error);
+  return { id: result.lastInsertRowid as number, ...run };
+}
+
+export function getLastMaintenanceRun(): MaintenanceRun | null {
+  const row = getDb().prepare('SELECT * FROM maintenance_runs ORDER BY id DESC LIMIT 1').get() as
+    (Omit<MaintenanceRun, 'index_optimized'> & { index_optimized: number }) | undefined;
+  return row ? { ...row, index_optimized: row.index_optimized === 1 } : null;
+}
+
+// ============ Context Rule Operations ============
+// List columns are stored as JSON arrays
+interface ContextRuleRow {
+  id: number;
+  name: string;
+  keywords: string;
+  event_types: string;
+  recipients: string;
+  url_patterns: string;
+  activity: string | null;
+  query_param: string | null;
+  applies_to: ContextRuleScope;
+  priority: number;
+  enabled: number;
+  created_at: number;
+  updated_at: number;
+}
+
+function rowToContextRule(row: ContextRuleRow): ContextRule {
+  return {
+    ...row,
+    keywords: JSON.parse(row.keywords),
+    event_types: JSON.parse(row.event_types),
+    recipients: JSON.parse(row.recipients),
+    url_patterns: JSON.parse(row.url_patterns),
+    enabled: row.enabled === 1,
+  };
+}
+
+export function insertContextRule(rule: Omit<ContextRule, 'id' | 'created_at' | 'updated_at'>): number {
+  const stmt = getDb().prepare(`
+    INSERT INTO context_rules (name, keywords, event_types, recipients, url_patterns, activity, query_param, applies_to, priority, enabled)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    rule.name,
+    JSON.stringify(rule.keywords),
+    JSON.stringify(rule.event_types),
+    JSON.stringify(rule.recipients),
+    JSON.stringify(rule.url_patterns),
+    rule.activity,
+    rule.query_param,
+    rule.applies_to,
+    rule.priority,
+    rule.enabled ? 1 : 0
+  );
+  return result.lastInsertRowid as number;
+}
+
+export function getContextRuleById(id: number): ContextRule | undefined {
+  const row = getDb().prepare('SELECT * FROM context_rules WHERE id = ?').get(id) as ContextRuleRow | undefined;
+  return row ? rowToContextRule(row) : undefined;
+}
+
+// Rules for one side ('both' rules are included), highest priority first
+export function getContextRules(options: { appliesTo?: 'ingestion' | 'browsing'; enabledOnly?: boolean } = {}): ContextRule[] {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (options.appliesTo) {
+    conditions.push(`applies_to IN (?, 'both')`);
+    params.push(options.appliesTo);
+  }
+  if (options.enabledOnly) conditions.push('enabled = 1');
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = getDb().prepare(`
+    SELECT * FROM context_rules ${where} ORDER BY priority DESC, id ASC
+  `).all(...params) as ContextRuleRow[];
+  return rows.map(rowToContextRule);
+}
+
+const CONTEXT_RULE_COLUMNS = [
+  'name', 'keywords', 'event_types', 'recipients', 'url_patterns',
+  'activity', 'query_param', 'applies_to', 'priority', 'enabled',
+] as const;
+
+export function updateContextRule(id: number, fields: Partial<Omit<ContextRule, 'id' | 'created_at' | 'updated_at'>>): boolean {
+  const updates: string[] = [];
+  const values: Array<string | number | null> = [];
+
+  for (const column of CONTEXT_RULE_COLUMNS) {
+    const value = fields[column];
+    if (value === undefined) continue;
+    updates.push(`${column} = ?`);
+    if (Array.isArray(value)) values.push(JSON.stringify(value));
+    else if (typeof value === 'boolean') values.push(value ? 1 : 0);
+    else values.push(value);
+  }
+  if (updates.length === 0) return false;
+
+  updates.push(`updated_at = strftime('%s', 'now')`);
+  values.push(id);
+  const result = getDb().prepare(`UPDATE context_rules SET ${updates.join(', ')} WHERE id = ?`).run(...values);
+  return result.changes > 0;
+}
+
+export function deleteContextRule(id: number): boolean {
+  return getDb().prepare('DELETE FROM context_rules WHERE id = ?').run(id).changes > 0;
+}
+
+export function countContextRules(): number {
+  const row = getDb().prepare('SELECT COUNT(*) as count FROM context_rules').get() as { count: number };
+  return row.count;
+}
+
+// ============ Notification Rule Operations ============
+interface NotificationRuleRow {
+  id: number;
+  name: string;
+  kinds: string;
+  event_types: string;
+  urgencies: string;
+  when_connected: ConnectionCondition;
+  channels: string;
+  priority: number;
+  enabled: number;
+  created_at: number;
+  updated_at: number;
+}
+
+function rowToNotificationRule(row: NotificationRuleRow): NotificationRule {
+  return {
+    ...row,
+    kinds: JSON.parse(row.kinds),
+    event_types: JSON.parse(row.event_types),
+    urgencies: JSON.parse(row.urgencies),
+    channels: JSON.parse(row.channels),
+    enabled: row.enabled === 1,
+  };
+}
+
+export function insertNotificationRule(rule: Omit<NotificationRule, 'id' | 'created_at' | 'updated_at'>): number {
+  const result = getDb().prepare(`
+    INSERT INTO notification_rules (name, kinds, event_types, urgencies, when_connected, channels, priority, enabled)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    rule.name,
+    JSON.stringify(rule.kinds),
+    JSON.stringify(rule.event_types),
+    JSON.stringify(rule.urgencies),
+    rule.when_connected,
+    JSON.stringify(rule.channels),
+    rule.priority,
+    rule.enabled ? 1 : 0
+  );
+  return result.lastInsertRowid as number;
+}
+
+export function getNotificationRuleById(id: number): NotificationRule | undefined {
+  const row = getDb().prepare('SELECT * FROM notification_rules WHERE id = ?').get(id) as NotificationRuleRow | undefined;
+  return row ? rowToNotificationRule(row) : undefined;
+}
+
+// Highest priority first
+export function getNotificationRules(options: { enabledOnly?: boolean } = {}): NotificationRule[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM notification_rules ${options.enabledOnly ? 'WHERE enabled = 1' : ''} ORDER BY priority DESC, id ASC
+  `).all() as NotificationRuleRow[];
+  return rows.map(rowToNotificationRule);
+}
+
+const NOTIFICATION_RULE_COLUMNS = [
+  'name', 'kinds', 'event_types', 'urgencies', 'when_connected', 'channels', 'priority', 'enabled',
+] as const;
+
+export function updateNotificationRule(id: number, fields: Partial<Omit<NotificationRule, 'id' | 'created_at' | 'updated_at'>>): boolean {
+  const updates: string[] = [];
+  const values: Array<string | number> = [];
+
+  for (const column of NOTIFICATION_RULE_COLUMNS) {
+    const value = fields[column];
+    if (value === undefined) continue;
+    updates.push(`${column} = ?`);
+    if (Array.isArray(value)) values.push(JSON.stringify(value));
+    else if (typeof value === 'boolean') values.push(value ? 1 : 0);
+    else values.push(value);
+  }
+  if (updates.length === 0) return false;
+
+  updates.push(`updated_at = strftime('%s', 'now')`);
+  values.push(id);
+  const result = getDb().prepare(`UPDATE notification_rules SET ${updates.join(', ')} WHERE id = ?`).run(...values);
+  return result.changes > 0;
+}
+
+export function deleteNotificationRule(id: number): boolean {
+  return getDb().prepare('DELETE FROM notification_rules WHERE id = ?').run(id).changes > 0;
+}
+
+export function countNotificationRules(): number {
+  const row = getDb().prepare('SELECT COUNT(*) as count FROM notification_rules').get() as { count: number };
+  return row.count;
+}
+
+// ============ Digest Operations ============
+export function insertDigestItem(kind: NotificationKind, eventId: number | null, text: string): number {
+  const result = getDb().prepare(`
+    INSERT INTO notification_digest (kind, event_id, text) VALUES (?, ?, ?)
+  `).run(kind, eventId, text);
+  return result.lastInsertRowid as number;
+}
+
+// Items waiting for the next digest, oldest first
+export function getPendingDigestItems(): DigestItem[] {
+  return getDb().prepare('SELECT * FROM notification_digest WHERE sent_at IS NULL ORDER BY id').all() as DigestItem[];
+}
+
+export function markDigestItemsSent(ids: number[], sentAt: number): void {
+  if (ids.length === 0) return;
+  getDb().prepare(`
+    UPDATE notification_digest SET sent_at = ? WHERE id IN (${ids.map(() => '?').join(',')})
+  `).run(sentAt, ...ids);
+}
+
 // ============ Stats ============
 // Event Status Types (proper lifecycle)
 // discovered → User hasn't acted yet (new from WhatsApp)
@@ -416,7 +1603,8 @@ export function upsertContact(contact: Contact): void {
 // reminded → 1-hour before reminder was shown
 // completed → User marked as done
 // expired → Event time passed without action
-export type EventStatus = 'discovered' | 'scheduled' | 'snoozed' | 'ignored' | 'reminded' | 'completed' | 'expired';
+// deleted → Soft-deleted, restorable via undo (not counted)
+export type EventStatus = 'discovered' | 'scheduled' | 'snoozed' | 'ignored' | 'reminded' | 'completed' | 'expired' | 'deleted';
 
 export function getStats(): { 
   messages: number; 
@@ -435,7 +1623,7 @@ export function getStats(): {
 } {
   const db = getDb();
   const messages = (db.prepare('SELECT COUNT(*) as count FROM messages').get() as { count: number }).count;
-  const events = (db.prepare('SELECT COUNT(*) as count FROM events').get() as { count: number }).count;
+  const events = (db.prepare("SELECT COUNT(*) as count FROM events WHERE status != 'deleted'").get() as { count: number }).count;
   const triggers = (db.prepare('SELECT COUNT(*) as count FROM triggers').get() as { count: number }).count;
   
   // New status counts
@@ -483,7 +1671,7 @@ export function getAllMessages(options: {
 export function getAllEvents(options: {
   limit?: number;
   offset?: number;
-  status?: EventStatus | 'all' | 'active'; // 'active' = discovered + scheduled + snoozed
+  status?: EventStatus | 'all' | 'active'; // 'active' = discovered + scheduled + snoozed; 'all' leaves out deleted
 }): (Event & { source_message?: string; source_sender?: string })[] {
   const { limit = 50, offset = 0, status = 'all' } = options;
   
@@ -516,12 +1704,47 @@ export function getAllEvents(options: {
     SELECT e.*, m.content as source_message, m.sender as source_sender
     FROM events e
     LEFT JOIN messages m ON e.message_id = m.id
+    WHERE e.status != 'deleted'
     ORDER BY e.created_at DESC
     LIMIT ? OFFSET ?
   `);
   return stmt.all(limit, offset) as (Event & { source_message?: string; source_sender?: string })[];
 }
 
+// Events that came from one chat, newest first ('all' leaves out deleted)
+export function getEventsByChat(chatId: string, options: { status?: 'all' | 'active'; limit?: number; offset?: number } = {}): Event[] {
+  const { status = 'all', limit = 50, offset = 0 } = options;
+  const statusFilter = status === 'active'
+    ? "status IN ('discovered', 'scheduled', 'snoozed', 'reminded')"
+    : "status != 'deleted'";
+  return getDb().prepare(`
+    SELECT * FROM events
+    WHERE chat_id = ? AND ${statusFilter}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ? OFFSET ?
+  `).all(chatId, limit, offset) as Event[];
+}
+
+// Events a contact sent or is mentioned in, with how they're involved ("sender,mentioned")
+export function getEventsByContact(
+  contactId: string,
+  options: { status?: 'all' | 'active'; limit?: number; offset?: number } = {}
+): (Event & { participant_roles: string })[] {
+  const { status = 'all', limit = 50, offset = 0 } = options;
+  const statusFilter = status === 'active'
+    ? "e.status IN ('discovered', 'scheduled', 'snoozed', 'reminded')"
+    : "e.status != 'deleted'";
+  return getDb().prepare(`
+    SELECT e.*, GROUP_CONCAT(p.role) AS participant_roles
+    FROM events e
+    JOIN event_participants p ON p.event_id = e.id
+    WHERE p.contact_id = ? AND ${statusFilter}
+    GROUP BY e.id
+    ORDER BY e.created_at DESC, e.id DESC
+    LIMIT ? OFFSET ?
+  `).all(contactId, limit, offset) as (Event & { participant_roles: string })[];
+}
+
 // Find pending events matching keywords (for updates/cancellations)
 export function findPendingEventsByKeywords(keywords: string[]): Event[] {
   if (keywords.length === 0) return [];
@@ -554,7 +1777,7 @@ export function findActiveEventsByKeywords(keywords: string[]): Event[] {
   
   const stmt = getDb().prepare(`
     SELECT * FROM events
-    WHERE status NOT IN ('completed', 'expired', 'ignored') AND (${conditions})
+    WHERE status NOT IN ('completed', 'expired', 'ignored', 'deleted') AND (${conditions})
     ORDER BY created_at DESC
     LIMIT 10
   `);
@@ -566,7 +1789,7 @@ export function findActiveEventsByKeywords(keywords: string[]): Event[] {
 export function getActiveEvents(limit = 20): Event[] {
   const stmt = getDb().prepare(`
     SELECT * FROM events
-    WHERE status NOT IN ('completed', 'expired', 'ignored', 'dismissed')
+    WHERE status NOT IN ('completed', 'expired', 'ignored', 'dismissed', 'deleted')
     ORDER BY created_at DESC
     LIMIT ?
   `);
@@ -578,7 +1801,7 @@ export function updateEventTime(eventId: number, newTime: number): void {
   const stmt = getDb().prepare(`
     UPDATE events SET event_time = ? WHERE id = ?
   `);
-  stmt.run(newTime, eventId);
+  withEventChange(eventId, ['event_time'], () => stmt.run(newTime, eventId));
   console.log(`📝 [DB] Event ${eventId} time updated to ${new Date(newTime * 1000).toISOString()}`);
 }
 
@@ -595,6 +1818,10 @@ export function updateEvent(eventId: number, fields: {
   participants?: string;
   status?: string;
   sender_name?: string | null;
+  recurrence?: string | null;
+  recurrence_start?: number | null;
+  recurrence_tz?: string | null;
+  reminder_offsets?: string | null;
 }): boolean {
   const event = getEventById(eventId);
   if (!event) {
@@ -615,6 +1842,10 @@ export function updateEvent(eventId: number, fields: {
   if (fields.participants !== undefined) { updates.push('participants = ?'); values.push(fields.participants); }
   if (fields.status !== undefined) { updates.push('status = ?'); values.push(fields.status); }
   if (fields.sender_name !== undefined) { updates.push('sender_name = ?'); values.push(fields.sender_name); }
+  if (fields.recurrence !== undefined) { updates.push('recurrence = ?'); values.push(fields.recurrence); }
+  if (fields.recurrence_start !== undefined) { updates.push('recurrence_start = ?'); values.push(fields.recurrence_start); }
+  if (fields.recurrence_tz !== undefined) { updates.push('recurrence_tz = ?'); values.push(fields.recurrence_tz); }
+  if (fields.reminder_offsets !== undefined) { updates.push('reminder_offsets = ?'); values.push(fields.reminder_offsets); }
 
   if (updates.length === 0) {
     console.log(`⏭️ [DB] updateEvent: No fields to update for event ${eventId}`);
@@ -623,73 +1854,55 @@ export function updateEvent(eventId: number, fields: {
 
   values.push(eventId);
   const sql = `UPDATE events SET ${updates.join(', ')} WHERE id = ?`;
-  getDb().prepare(sql).run(...values);
+  const changedFields = Object.entries(fields).filter(([, value]) => value !== undefined).map(([field]) => field);
+
+  withEventChange(eventId, changedFields, () => {
+    getDb().prepare(sql).run(...values);
+
+    // Setting context_url directly replaces the event's whole pattern list
+    if (fields.context_url !== undefined) {
+      getDb().prepare('DELETE FROM event_context_urls WHERE event_id = ?').run(eventId);
+      if (fields.context_url) addEventContextUrls(eventId, [fields.context_url]);
+    }
+  });
 
-  const changedFields = Object.keys(fields).filter(k => (fields as any)[k] !== undefined).join(', ');
-  console.log(`📝 [DB] Event ${eventId} updated: [${changedFields}]`);
+  console.log(`📝 [DB] Event ${eventId} updated: [${changedFields.join(', ')}]`);
   return true;
 }
 
+// Soft delete: the row (with its messages, context URLs and occurrences) stays so the
+// delete can be undone. Trigger maintenance cancels the pending triggers.
 export function deleteEvent(id: number): void {
-  // Delete associated triggers FIRST (foreign key constraint)
-  const triggerStmt = getDb().prepare('DELETE FROM triggers WHERE event_id = ?');
-  triggerStmt.run(id);
-  // Delete context dismissals
-  const dismissStmt = getDb().prepare('DELETE FROM context_dismissals WHERE event_id = ?');
-  dismissStmt.run(id);
-  // Then delete the event
-  const stmt = getDb().prepare('DELETE FROM events WHERE id = ?');
-  stmt.run(id);
+  const stmt = getDb().prepare(`
+    UPDATE events SET status = 'deleted', deleted_at = strftime('%s', 'now') WHERE id = ? AND status != 'deleted'
+  `);
+  withEventChange(id, ['status', 'deleted_at'], () => stmt.run(id));
+  console.log(`🗑️ [DB] Event ${id} deleted`);
 }
 
 // ============ Enhanced Event Operations ============
 
-// Schedule reminders for an event at multiple intervals (24h, 1h, 15min before)
-export function scheduleEventReminder(eventId: number): void {
+// Approve an event for reminders: status → scheduled, reminder_time → the earliest
+// reminder still in the future. Trigger maintenance rebuilds the time triggers.
+export function scheduleEventReminder(eventId: number, offsetsMinutes: number[]): void {
   const event = getEventById(eventId);
-  if (!event) {
-    const stmt = getDb().prepare(`UPDATE events SET status = 'scheduled' WHERE id = ?`);
-    stmt.run(eventId);
-    return;
-  }
-
-  if (!event.event_time) {
-    // No event_time — mark as scheduled (URL/context-based events)
-    const stmt = getDb().prepare(`UPDATE events SET status = 'scheduled' WHERE id = ?`);
-    stmt.run(eventId);
-    return;
-  }
-
   const now = Math.floor(Date.now() / 1000);
-  const intervals: Array<{ type: TriggerType; offset: number }> = [
-    { type: 'reminder_24h', offset: 24 * 60 * 60 },
-    { type: 'reminder_1hr', offset: 60 * 60 },
-    { type: 'reminder_15m', offset: 15 * 60 },
-  ];
-
-  // Set the earliest future reminder as the primary reminder_time
-  let primaryReminderTime: number | null = null;
-  for (const { type, offset } of intervals) {
-    const triggerTime = event.event_time - offset;
-    if (triggerTime > now) {
-      if (!primaryReminderTime) primaryReminderTime = triggerTime;
-      insertTrigger({
-        event_id: eventId,
-        trigger_type: type,
-        trigger_value: triggerTime.toString(),
-        is_fired: false,
-      });
-    }
-  }
 
-  if (primaryReminderTime) {
-    const stmt = getDb().prepare(`UPDATE events SET status = 'scheduled', reminder_time = ? WHERE id = ?`);
-    stmt.run(primaryReminderTime, eventId);
-  } else {
-    // All intervals already passed, just mark as scheduled
-    const stmt = getDb().prepare(`UPDATE events SET status = 'scheduled' WHERE id = ?`);
-    stmt.run(eventId);
-  }
+  // No event_time → URL/context-based event, just mark it scheduled
+  const reminderTimes = event?.event_time
+    ? offsetsMinutes.map(offset => event.event_time! - offset * 60).filter(time => time > now)
+    : [];
+  const primaryReminderTime = reminderTimes.length > 0 ? Math.min(...reminderTimes) : null;
+
+  withEventChange(eventId, ['status', 'reminder_time'], () => {
+    if (primaryReminderTime) {
+      const stmt = getDb().prepare(`UPDATE events SET status = 'scheduled', reminder_time = ? WHERE id = ?`);
+      stmt.run(primaryReminderTime, eventId);
+    } else {
+      const stmt = getDb().prepare(`UPDATE events SET status = 'scheduled' WHERE id = ?`);
+      stmt.run(eventId);
+    }
+  });
 }
 
 // Get events due for reminder (reminder_time has passed)
@@ -708,32 +1921,46 @@ export function markEventReminded(eventId: number): void {
   const stmt = getDb().prepare(`
     UPDATE events SET status = 'reminded' WHERE id = ?
   `);
-  stmt.run(eventId);
+  withEventChange(eventId, ['status'], () => stmt.run(eventId));
 }
 
-// Get events with context URL that match a given URL
-// Matches if URL contains the context_url keyword (case-insensitive)
-// Also matches by location field when context_url is null (e.g., canva events)
+// Get scheduled events with a context URL pattern that matches a given URL
+// Patterns are host/path globs ("nykaa.com", "makemytrip.com/flight*") or bare keywords
+// matched as substrings ("netflix"). Events without any pattern fall back to their
+// location field (e.g., canva events). matched_pattern is the pattern that fired.
 // Only returns SCHEDULED events (user must have approved them first)
-export function getContextEventsForUrl(url: string): Event[] {
+export function getContextEventsForUrl(url: string): Array<Event & { matched_pattern: string }> {
   const urlLower = url.toLowerCase();
   console.log(`🔎 [DB] getContextEventsForUrl: url="${url}"`);
-  
-  // Match by context_url OR by location field
-  const stmt = getDb().prepare(`
-    SELECT * FROM events
+
+  const patternRows = getDb().prepare(`
+    SELECT e.*, ecu.pattern AS matched_pattern FROM events e
+    JOIN event_context_urls ecu ON ecu.event_id = e.id
+    WHERE e.status = 'scheduled'
+    ORDER BY e.id ASC, ecu.id ASC
+  `).all() as Array<Event & { matched_pattern: string }>;
+
+  const results: Array<Event & { matched_pattern: string }> = [];
+  const seen = new Set<number>();
+  for (const row of patternRows) {
+    if (seen.has(row.id!) || !matchUrlPattern(row.matched_pattern, url)) continue;
+    seen.add(row.id!);
+    results.push(row);
+  }
+
+  const locationRows = getDb().prepare(`
+    SELECT *, location AS matched_pattern FROM events
     WHERE status = 'scheduled'
-    AND (
-      (context_url IS NOT NULL AND context_url != '' AND LOWER(?) LIKE '%' || LOWER(context_url) || '%')
-      OR
-      (location IS NOT NULL AND location != '' AND (context_url IS NULL OR context_url = '') AND LOWER(?) LIKE '%' || LOWER(location) || '%')
-    )
-  `);
-  const results = stmt.all(urlLower, urlLower) as Event[];
+    AND location IS NOT NULL AND location != ''
+    AND NOT EXISTS (SELECT 1 FROM event_context_urls ecu WHERE ecu.event_id = events.id)
+    AND ? LIKE '%' || LOWER(location) || '%'
+  `).all(urlLower) as Array<Event & { matched_pattern: string }>;
+  results.push(...locationRows);
+
   console.log(`📊 [DB] Query returned ${results.length} event(s) with status='scheduled'`);
   if (results.length > 0) {
     results.forEach(e => {
-      console.log(`   └─ Event #${e.id}: "${e.title}" (status: ${e.status}, context_url: ${e.context_url}, location: ${e.location})`);
+      console.log(`   └─ Event #${e.id}: "${e.title}" (status: ${e.status}, matched: ${e.matched_pattern}, location: ${e.location})`);
     });
   }
   return results;
@@ -750,7 +1977,7 @@ export function getEventsForDay(dayTimestamp: number): Event[] {
     SELECT * FROM events
     WHERE event_time IS NOT NULL
     AND event_time BETWEEN ? AND ?
-    AND status NOT IN ('ignored', 'expired')
+    AND status NOT IN ('ignored', 'expired', 'deleted')
     ORDER BY event_time ASC
   `);
   return stmt.all(startOfDay, endOfDay) as Event[];
@@ -766,7 +1993,7 @@ export function checkEventConflicts(eventTime: number, durationMinutes = 60): Ev
     SELECT * FROM events
     WHERE event_time IS NOT NULL
     AND event_time BETWEEN ? AND ?
-    AND status NOT IN ('completed', 'expired')
+    AND status NOT IN ('completed', 'expired', 'deleted')
     ORDER BY event_time ASC
   `);
   return stmt.all(startWindow, endWindow) as Event[];
@@ -804,20 +2031,443 @@ export function dismissContextEvent(eventId: number, urlPattern: string, permane
   }
 }
 
-// Set context URL for an event (for URL-based triggers like Netflix)
-export function setEventContextUrl(eventId: number, contextUrl: string): void {
-  const stmt = getDb().prepare(`
-    UPDATE events SET context_url = ? WHERE id = ?
-  `);
-  stmt.run(contextUrl, eventId);
-  
-  // Also create a URL trigger
-  insertTrigger({
-    event_id: eventId,
-    trigger_type: 'url',
-    trigger_value: contextUrl,
-    is_fired: false,
+// ============ Event Context URL Operations ============
+
+// Keep events.context_url (shown in popups/quicksave) pointing at the first pattern
+function syncPrimaryContextUrl(eventId: number): void {
+  const first = getDb().prepare(`
+    SELECT pattern FROM event_context_urls WHERE event_id = ? ORDER BY id ASC LIMIT 1
+  `).get(eventId) as { pattern: string } | undefined;
+  getDb().prepare('UPDATE events SET context_url = ? WHERE id = ?').run(first?.pattern ?? null, eventId);
+}
+
+// Add URL patterns to an event — returns the patterns that were new
+export function addEventContextUrls(eventId: number, patterns: string[]): string[] {
+  const stmt = getDb().prepare('INSERT OR IGNORE INTO event_context_urls (event_id, pattern) VALUES (?, ?)');
+  const added: string[] = [];
+  for (const pattern of patterns) {
+    const normalized = pattern.trim().toLowerCase();
+    if (normalized && stmt.run(eventId, normalized).changes > 0) added.push(normalized);
+  }
+  if (added.length > 0) syncPrimaryContextUrl(eventId);
+  return added;
+}
+
+// Also drops the url trigger setEventContextUrl created for the pattern
+export function removeEventContextUrl(eventId: number, pattern: string): boolean {
+  const db = getDb();
+  const normalized = pattern.trim().toLowerCase();
+  const remove = db.transaction(() => {
+    const result = db.prepare(`
+      DELETE FROM event_context_urls WHERE event_id = ? AND pattern = ?
+    `).run(eventId, normalized);
+    if (result.changes === 0) return false;
+    db.prepare(`
+      DELETE FROM triggers WHERE event_id = ? AND trigger_type = 'url' AND LOWER(TRIM(trigger_value)) = ?
+    `).run(eventId, normalized);
+    syncPrimaryContextUrl(eventId);
+    return true;
   });
+  return remove();
+}
+
+export function getEventContextUrls(eventId: number): string[] {
+  const rows = getDb().prepare(`
+    SELECT pattern FROM event_context_urls WHERE event_id = ? ORDER BY id ASC
+  `).all(eventId) as Array<{ pattern: string }>;
+  return rows.map(r => r.pattern);
+}
+
+// Add context URL(s) to an event (for URL-based triggers like Netflix) — returns the new ones
+export function setEventContextUrl(eventId: number, contextUrl: string | string[]): string[] {
+  const added = addEventContextUrls(eventId, Array.isArray(contextUrl) ? contextUrl : [contextUrl]);
+
+  // Also create a URL trigger per new pattern
+  for (const pattern of added) {
+    insertTrigger({
+      event_id: eventId,
+      trigger_type: 'url',
+      trigger_value: pattern,
+      is_fired: false,
+    });
+  }
+  return added;
+}
+
+// ============ Recurring Event Operations ============
+
+// Recurring events whose current occurrence has passed and still need advancing
+export function getDueRecurringEvents(now = Math.floor(Date.now() / 1000)): Event[] {
+  return getDb().prepare(`
+    SELECT * FROM events
+    WHERE recurrence IS NOT NULL AND event_time IS NOT NULL AND event_time <= ?
+      AND status IN ('discovered', 'scheduled', 'reminded')
+    ORDER BY event_time ASC
+  `).all(now) as Event[];
+}
+
+// Move a recurring event to its next occurrence. reminder_time keeps its offset from
+// event_time, and an occurrence that was already reminded is scheduled again.
+// Not a change notification — the caller (advanceRecurringEvent) rebuilds triggers itself.
+export function moveToNextOccurrence(eventId: number, nextTime: number): void {
+  getDb().prepare(`
+    UPDATE events
+    SET reminder_time = CASE WHEN reminder_time IS NULL THEN NULL ELSE ? - (event_time - reminder_time) END,
+        event_time = ?,
+        status = CASE WHEN status = 'reminded' THEN 'scheduled' ELSE status END
+    WHERE id = ?
+  `).run(nextTime, nextTime, eventId);
+}
+
+// Record a single occurrence as skipped/completed (the latest status wins)
+export function setOccurrenceStatus(eventId: number, occurrenceTime: number, status: OccurrenceStatus): void {
+  getDb().prepare(`
+    INSERT INTO event_occurrences (event_id, occurrence_time, status) VALUES (?, ?, ?)
+    ON CONFLICT(event_id, occurrence_time) DO UPDATE SET status = excluded.status
+  `).run(eventId, occurrenceTime, status);
+}
+
+export function getEventOccurrences(eventId: number): EventOccurrence[] {
+  return getDb().prepare(`
+    SELECT * FROM event_occurrences WHERE event_id = ? ORDER BY occurrence_time ASC
+  `).all(eventId) as EventOccurrence[];
+}
+
+// Cancel everything still pending for an event (completed/ignored/expired/deleted events)
+export function deleteUnfiredTriggers(eventId: number): number {
+  return getDb().prepare('DELETE FROM triggers WHERE event_id = ? AND is_fired = 0').run(eventId).changes;
+}
+
+// Time-based triggers that haven't fired yet belong to the current occurrence
+export function deleteUnfiredTimeTriggers(eventId: number): number {
+  const result = getDb().prepare(`
+    DELETE FROM triggers
+    WHERE event_id = ? AND is_fired = 0 AND trigger_type IN ('time', 'time_24h', 'time_1h', 'time_15m', 'reminder_24h', 'reminder_1hr', 'reminder_15m')
+  `).run(eventId);
+  return result.changes;
+}
+
+// ============ Reminder Policy Operations ============
+export function getReminderPolicies(): ReminderPolicy[] {
+  const rows = getDb().prepare('SELECT * FROM reminder_policies ORDER BY event_type').all() as Array<{ event_type: EventType; offsets: string; updated_at: number }>;
+  return rows.map(row => ({ ...row, offsets: JSON.parse(row.offsets) as number[] }));
+}
+
+// Configured offsets for an event type, or null when the built-in default applies
+export function getReminderPolicy(eventType: string): number[] | null {
+  const row = getDb().prepare('SELECT offsets FROM reminder_policies WHERE event_type = ?').get(eventType) as { offsets: string } | undefined;
+  return row ? JSON.parse(row.offsets) as number[] : null;
+}
+
+export function setReminderPolicy(eventType: EventType, offsets: number[]): void {
+  getDb().prepare(`
+    INSERT INTO reminder_policies (event_type, offsets, updated_at) VALUES (?, ?, strftime('%s', 'now'))
+    ON CONFLICT(event_type) DO UPDATE SET offsets = excluded.offsets, updated_at = excluded.updated_at
+  `).run(eventType, JSON.stringify(offsets));
+}
+
+export function deleteReminderPolicy(eventType: string): boolean {
+  return getDb().prepare('DELETE FROM reminder_policies WHERE event_type = ?').run(eventType).changes > 0;
+}
+
+// Events whose time triggers are still ahead — the ones a policy change has to resync
+export function getUpcomingTimedEvents(eventType?: string): Event[] {
+  const now = Math.floor(Date.now() / 1000);
+  const typeFilter = eventType ? 'AND event_type = ?' : '';
+  const params: Array<string | number> = eventType ? [now, eventType] : [now];
+  return getDb().prepare(`
+    SELECT * FROM events
+    WHERE event_time IS NOT NULL AND event_time > ?
+      AND status IN ('discovered', 'scheduled', 'reminded', 'snoozed', 'pending') ${typeFilter}
+    ORDER BY event_time ASC
+  `).all(...params) as Event[];
+}
+
+export function getTriggersForEvent(eventId: number): Trigger[] {
+  return getDb().prepare('SELECT * FROM triggers WHERE event_id = ? ORDER BY id ASC').all(eventId) as Trigger[];
+}
+
+// ============ Event History Operations ============
+
+// Columns an undo may write back — everything updateEvent and the status actions touch
+const UNDOABLE_COLUMNS = [
+  'title', 'description', 'event_time', 'location', 'keywords', 'context_url', 'event_type', 'participants',
+  'status', 'sender_name', 'recurrence', 'recurrence_start', 'recurrence_tz', 'reminder_offsets',
+  'reminder_time', 'deleted_at',
+];
+
+interface EventHistoryRow {
+  id: number;
+  event_id: number;
+  action: HistoryAction;
+  source: ChangeSource;
+  before_values: string | null;
+  after_values: string | null;
+  undone_at: number | null;
+  created_at: number;
+}
+
+function rowToHistoryEntry(row: EventHistoryRow): EventHistoryEntry {
+  return {
+    id: row.id,
+    event_id: row.event_id,
+    action: row.action,
+    source: row.source,
+    before: row.before_values ? JSON.parse(row.before_values) : null,
+    after: row.after_values ? JSON.parse(row.after_values) : null,
+    undone_at: row.undone_at,
+    created_at: row.created_at,
+  };
+}
+
+// Newest first
+export function getEventHistory(eventId: number, limit = 50): EventHistoryEntry[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM event_history WHERE event_id = ? ORDER BY id DESC LIMIT ?
+  `).all(eventId, limit) as EventHistoryRow[];
+  return rows.map(rowToHistoryEntry);
+}
+
+// Revert the newest change to an event that hasn't been undone yet (undos themselves
+// aren't undoable — repeated undos walk further back). Undoing the creation deletes
+// the event. Returns the reverted entry, or null when there is nothing left to undo.
+export function undoLastEventChange(eventId: number): EventHistoryEntry | null {
+  const conn = getDb();
+  return conn.transaction(() => {
+    const row = conn.prepare(`
+      SELECT * FROM event_history
+      WHERE event_id = ? AND undone_at IS NULL AND action != 'undo'
+      ORDER BY id DESC LIMIT 1
+    `).get(eventId) as EventHistoryRow | undefined;
+    if (!row || !getEventById(eventId)) return null;
+
+    const entry = rowToHistoryEntry(row);
+    const restore: Record<string, unknown> = entry.action === 'create'
+      ? { status: 'deleted', deleted_at: Math.floor(Date.now() / 1000) }
+      : Object.fromEntries(Object.entries(entry.before ?? {}).filter(([column]) => UNDOABLE_COLUMNS.includes(column)));
+    const columns = Object.keys(restore);
+
+    if (columns.length > 0) {
+      withEventChange(eventId, columns, () => {
+        const values = columns.map(column => restore[column]);
+        conn.prepare(`UPDATE events SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE id = ?`).run(...values, eventId);
+
+        // Same as updateEvent: context_url stands for the event's whole pattern list
+        if (columns.includes('context_url')) {
+          conn.prepare('DELETE FROM event_context_urls WHERE event_id = ?').run(eventId);
+          if (restore.context_url) addEventContextUrls(eventId, [restore.context_url as string]);
+        }
+      }, 'undo');
+    }
+    conn.prepare(`UPDATE event_history SET undone_at = strftime('%s', 'now') WHERE id = ?`).run(entry.id);
+    console.log(`↩️ [DB] Event ${eventId}: undid ${entry.action} #${entry.id} (${entry.source})`);
+    return { ...entry, undone_at: Math.floor(Date.now() / 1000) };
+  })();
+}
+
+// ============ Action Policy Operations ============
+interface ActionPolicyRow {
+  action: EventAction;
+  confirm: ConfirmMode;
+  threshold: number;
+  confirm_fallback: number;
+  updated_at: number;
+}
+
+function rowToActionPolicy(row: ActionPolicyRow): ActionPolicy {
+  return { ...row, confirm_fallback: row.confirm_fallback === 1 };
+}
+
+export function getActionPolicies(): ActionPolicy[] {
+  const rows = getDb().prepare('SELECT * FROM action_policies ORDER BY action').all() as ActionPolicyRow[];
+  return rows.map(rowToActionPolicy);
+}
+
+// Configured policy for an action, or undefined when the built-in default applies
+export function getActionPolicy(action: string): ActionPolicy | undefined {
+  const row = getDb().prepare('SELECT * FROM action_policies WHERE action = ?').get(action) as ActionPolicyRow | undefined;
+  return row ? rowToActionPolicy(row) : undefined;
+}
+
+export function setActionPolicy(policy: Omit<ActionPolicy, 'updated_at'>): void {
+  getDb().prepare(`
+    INSERT INTO action_policies (action, confirm, threshold, confirm_fallback, updated_at)
+    VALUES (?, ?, ?, ?, strftime('%s', 'now'))
+    ON CONFLICT(action) DO UPDATE SET
+      confirm = excluded.confirm, threshold = excluded.threshold,
+      confirm_fallback = excluded.confirm_fallback, updated_at = excluded.updated_at
+  `).run(policy.action, policy.confirm, policy.threshold, policy.confirm_fallback ? 1 : 0);
+}
+
+export function deleteActionPolicy(action: string): boolean {
+  return getDb().prepare('DELETE FROM action_policies WHERE action = ?').run(action).changes > 0;
+}
+
+// ============ Push Subscription Operations ============
+// Subscribing again with the same endpoint refreshes its keys and clears its failures
+export function upsertPushSubscription(endpoint: string, keys: { p256dh: string; auth: string }): PushSubscriptionRecord {
+  getDb().prepare(`
+    INSERT INTO push_subscriptions (endpoint, keys) VALUES (?, ?)
+    ON CONFLICT(endpoint) DO UPDATE SET keys = excluded.keys, failure_count = 0, last_error = NULL
+  `).run(endpoint, JSON.stringify(keys));
+  return getDb().prepare('SELECT * FROM push_subscriptions WHERE endpoint = ?').get(endpoint) as PushSubscriptionRecord;
+}
+
+export function getPushSubscriptions(): PushSubscriptionRecord[] {
+  return getDb().prepare('SELECT * FROM push_subscriptions ORDER BY id').all() as PushSubscriptionRecord[];
+}
+
+export function deletePushSubscription(endpoint: string): boolean {
+  return getDb().prepare('DELETE FROM push_subscriptions WHERE endpoint = ?').run(endpoint).changes > 0;
+}
+
+export function recordPushSuccess(id: number): void {
+  getDb().prepare(`
+    UPDATE push_subscriptions SET failure_count = 0, last_error = NULL, last_success_at = strftime('%s', 'now') WHERE id = ?
+  `).run(id);
+}
+
+export function recordPushFailure(id: number, error: string): void {
+  getDb().prepare(`
+    UPDATE push_subscriptions
+    SET failure_count = failure_count + 1, last_error = ?, last_failure_at = strftime('%s', 'now')
+    WHERE id = ?
+  `).run(error, id);
+}
+
+// ============ Outbound Message Operations ============
+// Recorded before the send, so an echo that beats Evolution's response is still recognized
+export function insertOutboundMessage(chatId: string, content: string, kind: OutboundKind, eventId: number | null = null): number {
+  const result = getDb().prepare(`
+    INSERT INTO outbound_messages (chat_id, content, kind, event_id) VALUES (?, ?, ?, ?)
+  `).run(chatId, content, kind, eventId);
+  return result.lastInsertRowid as number;
+}
+
+export function markOutboundSent(id: number, messageId: string | null): void {
+  getDb().prepare(`UPDATE outbound_messages SET status = 'sent', message_id = ? WHERE id = ?`).run(messageId, id);
+}
+
+export function markOutboundFailed(id: number, error: string): void {
+  getDb().prepare(`UPDATE outbound_messages SET status = 'failed', error = ? WHERE id = ?`).run(error, id);
+}
+
+// Whether an own message arriving through the webhook is one Argus sent — by WhatsApp ID,
+// or by chat and text for sends Evolution hadn't answered yet (or answered without an ID)
+export function isOutboundMessage(messageId: string, chatId: string, content: string, since: number): boolean {
+  const row = getDb().prepare(`
+    SELECT 1 FROM outbound_messages
+    WHERE message_id = ?
+       OR (chat_id = ? AND content = ? AND status != 'failed' AND created_at >= ?)
+    LIMIT 1
+  `).get(messageId, chatId, content, since);
+  return row !== undefined;
+}
+
+// Sent or in-flight messages of a kind to a chat since a time — for rate limits
+export function countOutboundMessages(chatId: string, kind: OutboundKind, since: number): number {
+  const row = getDb().prepare(`
+    SELECT COUNT(*) as count FROM outbound_messages
+    WHERE chat_id = ? AND kind = ? AND status != 'failed' AND created_at >= ?
+  `).get(chatId, kind, since) as { count: number };
+  return row.count;
+}
+
+export function getOutboundMessages(limit = 50): OutboundMessage[] {
+  return getDb().prepare('SELECT * FROM outbound_messages ORDER BY id DESC LIMIT ?').all(limit) as OutboundMessage[];
+}
+
+// ============ Chat Policy Operations ============
+export function getChatPolicies(): ChatPolicy[] {
+  return getDb().prepare('SELECT * FROM chat_policies ORDER BY chat_id').all() as ChatPolicy[];
+}
+
+// Configured policy for a chat, or undefined when the global default applies
+export function getChatPolicy(chatId: string): ChatPolicy | undefined {
+  return getDb().prepare('SELECT * FROM chat_policies WHERE chat_id = ?').get(chatId) as ChatPolicy | undefined;
+}
+
+export function setChatPolicy(chatId: string, mode: ChatMode): void {
+  getDb().prepare(`
+    INSERT INTO chat_policies (chat_id, mode, updated_at) VALUES (?, ?, strftime('%s', 'now'))
+    ON CONFLICT(chat_id) DO UPDATE SET mode = excluded.mode, updated_at = excluded.updated_at
+  `).run(chatId, mode);
+}
+
+export function deleteChatPolicy(chatId: string): boolean {
+  return getDb().prepare('DELETE FROM chat_policies WHERE chat_id = ?').run(chatId).changes > 0;
+}
+
+// ============ Pending Action Operations ============
+type PendingActionRow = Omit<PendingActionRecord, 'changes'> & { changes: string };
+
+function rowToPendingAction(row: PendingActionRow): PendingActionRecord {
+  return { ...row, changes: JSON.parse(row.changes) as Record<string, unknown> };
+}
+
+export function insertPendingAction(
+  action: Omit<PendingActionRecord, 'id' | 'status' | 'resolved_at' | 'created_at'>
+): number {
+  const result = getDb().prepare(`
+    INSERT INTO pending_actions (event_id, action, changes, description, confidence, resolved_via, reason, message_id, choice_group, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    action.event_id,
+    action.action,
+    JSON.stringify(action.changes),
+    action.description,
+    action.confidence,
+    action.resolved_via,
+    action.reason,
+    action.message_id,
+    action.choice_group,
+    action.expires_at
+  );
+  return result.lastInsertRowid as number;
+}
+
+export function getPendingActionById(id: number): PendingActionRecord | undefined {
+  const row = getDb().prepare('SELECT * FROM pending_actions WHERE id = ?').get(id) as PendingActionRow | undefined;
+  return row ? rowToPendingAction(row) : undefined;
+}
+
+export function getPendingActions(options: { status?: PendingActionStatus; eventId?: number; limit?: number } = {}): PendingActionRecord[] {
+  const { status, eventId, limit = 50 } = options;
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  if (status) { conditions.push('status = ?'); params.push(status); }
+  if (eventId !== undefined) { conditions.push('event_id = ?'); params.push(eventId); }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = getDb().prepare(`
+    SELECT * FROM pending_actions ${where} ORDER BY created_at DESC, id DESC LIMIT ?
+  `).all(...params, limit) as PendingActionRow[];
+  return rows.map(rowToPendingAction);
+}
+
+// Move a pending action to its final status — false when it was already resolved
+export function resolvePendingAction(id: number, status: Exclude<PendingActionStatus, 'pending'>): boolean {
+  const result = getDb().prepare(`
+    UPDATE pending_actions SET status = ?, resolved_at = strftime('%s', 'now')
+    WHERE id = ? AND status = 'pending'
+  `).run(status, id);
+  return result.changes > 0;
+}
+
+// Once one option of a "which event?" question is picked, the others are rejected
+export function rejectOtherPendingChoices(choiceGroup: string, chosenId: number): number {
+  const result = getDb().prepare(`
+    UPDATE pending_actions SET status = 'rejected', resolved_at = strftime('%s', 'now')
+    WHERE choice_group = ? AND id != ? AND status = 'pending'
+  `).run(choiceGroup, chosenId);
+  return result.changes;
+}
+
+export function expirePendingActions(now = Math.floor(Date.now() / 1000)): number {
+  const result = getDb().prepare(`
+    UPDATE pending_actions SET status = 'expired', resolved_at = ?
+    WHERE status = 'pending' AND expires_at <= ?
+  `).run(now, now);
+  return result.changes;
 }
 
 // ============ Event Status Actions ============
@@ -828,7 +2478,7 @@ export function snoozeEvent(eventId: number, snoozeMinutes = 30): void {
   const stmt = getDb().prepare(`
     UPDATE events SET status = 'snoozed', reminder_time = ? WHERE id = ?
   `);
-  stmt.run(snoozeUntil, eventId);
+  withEventChange(eventId, ['status', 'reminder_time'], () => stmt.run(snoozeUntil, eventId));
   console.log(`💤 [DB] Event ${eventId} snoozed until ${new Date(snoozeUntil * 1000).toLocaleTimeString()}`);
 }
 
@@ -837,7 +2487,7 @@ export function ignoreEvent(eventId: number): void {
   const stmt = getDb().prepare(`
     UPDATE events SET status = 'ignored' WHERE id = ?
   `);
-  stmt.run(eventId);
+  withEventChange(eventId, ['status'], () => stmt.run(eventId));
   console.log(`🚫 [DB] Event ${eventId} ignored`);
 }
 
@@ -846,7 +2496,7 @@ export function completeEvent(eventId: number): void {
   const stmt = getDb().prepare(`
     UPDATE events SET status = 'completed' WHERE id = ?
   `);
-  stmt.run(eventId);
+  withEventChange(eventId, ['status'], () => stmt.run(eventId));
   console.log(`✅ [DB] Event ${eventId} completed`);
 }
 
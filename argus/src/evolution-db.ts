@@ -230,6 +230,81 @@ export async function getEvolutionMessages(options: {
   }
 }
 
+/**
+ * Raw message rows for backfills, oldest first.
+ * Keyset-paged on (messageTimestamp, id) so a checkpoint stays valid while new messages arrive.
+ * key and message come back as stored — the same shape as a messages.upsert webhook.
+ */
+export interface EvolutionRawMessage {
+  rowId: string;
+  key: { remoteJid?: string; fromMe?: boolean; id?: string; participant?: string | null };
+  pushName: string | null;
+  message: unknown;
+  messageTimestamp: number;
+}
+
+export interface EvolutionHistoryQuery {
+  instanceId?: string;
+  chatIds?: string[];   // Empty/missing = every chat
+  since?: number | null; // Unix timestamp, inclusive
+  until?: number | null; // Unix timestamp, exclusive
+}
+
+function buildHistoryFilter(query: EvolutionHistoryQuery, params: (string | number | string[])[]): string {
+  let where = 'WHERE 1=1';
+  if (query.instanceId) {
+    params.push(query.instanceId);
+    where += ` AND m."instanceId" = $${params.length}`;
+  }
+  if (query.chatIds && query.chatIds.length > 0) {
+    params.push(query.chatIds);
+    where += ` AND m.key->>'remoteJid' = ANY($${params.length})`;
+  }
+  if (query.since != null) {
+    params.push(query.since);
+    where += ` AND m."messageTimestamp" >= $${params.length}`;
+  }
+  if (query.until != null) {
+    params.push(query.until);
+    where += ` AND m."messageTimestamp" < $${params.length}`;
+  }
+  return where;
+}
+
+export async function getEvolutionMessagesAfter(
+  query: EvolutionHistoryQuery & { after?: { timestamp: number; rowId: string } | null; limit?: number }
+): Promise<EvolutionRawMessage[]> {
+  if (!pool) return [];
+  if (!(await ensureTablesExist())) return [];
+
+  const params: (string | number | string[])[] = [];
+  let where = buildHistoryFilter(query, params);
+  if (query.after) {
+    params.push(query.after.timestamp, query.after.rowId);
+    where += ` AND (m."messageTimestamp", m.id) > ($${params.length - 1}, $${params.length})`;
+  }
+  params.push(query.limit ?? 100);
+
+  // Errors propagate — a backfill must not mistake a failed read for the end of history
+  const result = await pool.query(`
+    SELECT m.id as "rowId", m.key, m."pushName", m.message, m."messageTimestamp"
+    FROM "Message" m
+    ${where}
+    ORDER BY m."messageTimestamp" ASC, m.id ASC
+    LIMIT $${params.length}
+  `, params);
+
+  return result.rows.map(row => ({ ...row, messageTimestamp: Number(row.messageTimestamp) }));
+}
+
+export async function countEvolutionMessages(query: EvolutionHistoryQuery): Promise<number> {
+  if (!pool) return 0;
+  if (!(await ensureTablesExist())) return 0;
+  const params: (string | number | string[])[] = [];
+  const result = await pool.query(`SELECT COUNT(*) as count FROM "Message" m ${buildHistoryFilter(query, params)}`, params);
+  return parseInt(result.rows[0].count);
+}
+
 /**
  * Get message count from Evolution
  */
@@ -322,6 +397,31 @@ export async function getEvolutionChats(instanceId?: string, limit = 50): Promis
   }
 }
 
+/**
+ * Get a chat's display name (group subject or saved contact name) from Evolution
+ */
+export async function getEvolutionChatName(remoteJid: string, instanceId?: string): Promise<string | null> {
+  if (!pool) return null;
+  if (!(await ensureTablesExist())) return null;
+  try {
+    let query = 'SELECT name FROM "Chat" WHERE "remoteJid" = $1';
+    const params: string[] = [remoteJid];
+
+    if (instanceId) {
+      query += ' AND "instanceId" = $2';
+      params.push(instanceId);
+    }
+
+    query += ' ORDER BY "updatedAt" DESC LIMIT 1';
+
+    const result = await pool.query(query, params);
+    return result.rows[0]?.name || null;
+  } catch (err) {
+    console.error('Failed to get chat name:', err);
+    return null;
+  }
+}
+
 /**
  * Search messages in Evolution DB
  */
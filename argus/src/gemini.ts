@@ -1,24 +1,34 @@
-import type { GeminiExtraction, GeminiValidation, Event } from './types.js';
+import { RsvpResponseEnum } from './types.js';
+import type { GeminiExtraction, GeminiValidation, Event, TimeReference, RsvpResponse, EventAttendance } from './types.js';
 import { compressEventsForPrompt, compressChatHistory, compressEventsLight } from './quicksave.js';
+import { createOpenAICompatibleProvider } from './llm.js';
+import { getUserTimezone, getZonedParts, getOffsetMinutes, formatZoned, formatEventTime } from './timezone.js';
+import type { LLMProvider, LLMTask } from './llm.js';
 
 interface GeminiConfig {
   apiKey: string;
   model: string;
   apiUrl: string;
+  provider?: LLMProvider; // Defaults to the OpenAI-compatible Gemini endpoint
 }
 
-let config: GeminiConfig | null = null;
+let provider: LLMProvider | null = null;
 
 export function initGemini(cfg: GeminiConfig): void {
-  config = cfg;
-  console.log('✅ Gemini initialized:', cfg.model);
+  provider = cfg.provider || createOpenAICompatibleProvider(cfg);
+  console.log('✅ Gemini initialized:', provider.name);
 }
 
-function getConfig(): GeminiConfig {
-  if (!config) {
+// Swap the provider at runtime (tests inject a fixture provider this way)
+export function setLLMProvider(next: LLMProvider): void {
+  provider = next;
+}
+
+function getProvider(): LLMProvider {
+  if (!provider) {
     throw new Error('Gemini not initialized. Call initGemini() first.');
   }
-  return config;
+  return provider;
 }
 
 const SYSTEM_PROMPT = `You are the AI brain of Argus, a proactive WhatsApp memory assistant. Your job is to intelligently extract, classify, and match events from casual WhatsApp conversations.
@@ -39,52 +49,55 @@ CRITICAL RULES:
 // Builds a rich, unambiguous date/time block for Gemini prompts.
 // Tells Gemini what day of the week "today" is, the message send time,
 // and pre-resolves every day name to a specific calendar date so Gemini
-// never has to guess which "Thursday" we mean.
+// never has to guess which "Thursday" we mean. All dates are calendar dates
+// in the sender's timezone, not the server's.
 
-function formatDateContext(messageTimestamp?: number): string {
-  const now = new Date();
-  const msgDate = messageTimestamp ? new Date(messageTimestamp * 1000) : now;
+function formatDateContext(messageTimestamp?: number, timezone: string = getUserTimezone()): string {
+  const nowUnix = Math.floor(Date.now() / 1000);
+  const msgUnix = messageTimestamp ?? nowUnix;
+  const msg = getZonedParts(new Date(msgUnix * 1000), timezone);
 
   const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const fmtDate = (d: Date) =>
-    `${dayNames[d.getDay()]}, ${d.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`;
-  const fmtTime = (d: Date) =>
-    d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+  // Calendar date N days from the message day — plain UTC date math on the zoned Y/M/D
+  const dayOffset = (n: number) => new Date(Date.UTC(msg.year, msg.month - 1, msg.day + n));
+  const fmtDay = (d: Date) =>
+    `${dayNames[d.getUTCDay()]}, ${d.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })} (${d.toISOString().slice(0, 10)})`;
+  const fmtInstant = (unix: number) =>
+    `${formatZoned(unix, timezone, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}, ${formatZoned(unix, timezone, { hour: 'numeric', minute: '2-digit', hour12: true })}`;
+
+  const offset = getOffsetMinutes(new Date(msgUnix * 1000), timezone);
+  const offsetLabel = `UTC${offset >= 0 ? '+' : '-'}${String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0')}:${String(Math.abs(offset) % 60).padStart(2, '0')}`;
 
-  // Pre-resolve next 7 days from the message date
+  // Pre-resolve next 7 days and previous 7 days from the message date
   const nextDayLines: string[] = [];
+  const lastDayLines: string[] = [];
   for (let i = 1; i <= 7; i++) {
-    const d = new Date(msgDate);
-    d.setDate(d.getDate() + i);
-    nextDayLines.push(`- "${dayNames[d.getDay()]}" → ${fmtDate(d)}`);
+    const next = dayOffset(i);
+    nextDayLines.push(`- "${dayNames[next.getUTCDay()]}" → ${fmtDay(next)}`);
+    const last = dayOffset(-i);
+    lastDayLines.push(`- "last ${dayNames[last.getUTCDay()]}" → ${fmtDay(last)}`);
   }
 
-  const tomorrow = new Date(msgDate);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  const dayAfter = new Date(msgDate);
-  dayAfter.setDate(dayAfter.getDate() + 2);
-
-  const endOfWeek = new Date(msgDate);
-  endOfWeek.setDate(endOfWeek.getDate() + (7 - endOfWeek.getDay()));
-
-  const endOfMonth = new Date(msgDate.getFullYear(), msgDate.getMonth() + 1, 0);
-
-  const nextWeekStart = new Date(msgDate);
-  nextWeekStart.setDate(nextWeekStart.getDate() + (8 - nextWeekStart.getDay()));
+  const endOfWeek = dayOffset(7 - msg.weekday);
+  const endOfMonth = new Date(Date.UTC(msg.year, msg.month, 0));
+  const nextWeekStart = dayOffset(8 - msg.weekday);
 
   return `=== DATE/TIME CONTEXT (use this to resolve ALL relative dates) ===
-Right now      : ${fmtDate(now)}, ${fmtTime(now)}
-Message sent at: ${fmtDate(msgDate)}, ${fmtTime(msgDate)}
-Today is       : ${dayNames[now.getDay()]}
+Timezone       : ${timezone} (${offsetLabel}) — all times below and all times you return are local to this zone
+Right now      : ${fmtInstant(nowUnix)}
+Message sent at: ${fmtInstant(msgUnix)}
+Today is       : ${dayNames[msg.weekday]}
 
 Pre-resolved day-name look-up (ALWAYS use these exact dates):
-- "today" / "aaj"       → ${fmtDate(msgDate)}
-- "tomorrow" / "kal"    → ${fmtDate(tomorrow)}
-- "day after" / "parso" → ${fmtDate(dayAfter)}
+- "today" / "aaj"       → ${fmtDay(dayOffset(0))}
+- "tomorrow" / "kal"    → ${fmtDay(dayOffset(1))}
+- "day after" / "parso" → ${fmtDay(dayOffset(2))}
+- "yesterday"           → ${fmtDay(dayOffset(-1))}
 ${nextDayLines.join('\n')}
-- "this week" / "end of week"   → ${fmtDate(endOfWeek)}
-- "this month" / "end of month" → ${fmtDate(endOfMonth)}
-- "next week"                   → week starting ${fmtDate(nextWeekStart)}
+${lastDayLines.join('\n')}
+- "this week" / "end of week"   → ${fmtDay(endOfWeek)}
+- "this month" / "end of month" → ${fmtDay(endOfMonth)}
+- "next week"                   → week starting ${fmtDay(nextWeekStart)}
 ===`;
 }
 
@@ -93,12 +106,16 @@ ${nextDayLines.join('\n')}
 // Gemini handles ALL classification and extraction — no brittle keyword heuristics.
 // Now also receives existing events so Gemini can detect updates/modifications.
 
+// The name Gemini gives the message's author in attendance ("I'm in")
+export const ATTENDANCE_SENDER = 'SENDER';
+
 export async function analyzeMessage(
   message: string,
   context: string[] = [],
   _currentDate: string = new Date().toISOString(),
   existingEvents: Array<{ id: number; title: string; event_type: string; keywords: string; event_time: number | null; location: string | null; description: string | null; sender_name?: string | null }> = [],
-  messageTimestamp?: number
+  messageTimestamp?: number,
+  timezone: string = getUserTimezone()
 ): Promise<GeminiExtraction> {
   const contextBlock = context.length > 0 
     ? `\nPrevious messages in this chat (for context):\n${context.map((m, i) => `${i + 1}. "${m}"`).join('\n')}\n`
@@ -113,7 +130,7 @@ export async function analyzeMessage(
 
 IMPORTANT: If the message refers to or UPDATES an existing event (listed below), set "event_action" and "target_event_id" instead of creating a duplicate.
 
-${formatDateContext(messageTimestamp)}
+${formatDateContext(messageTimestamp, timezone)}
 ${contextBlock}${existingEventsBlock}
 Message to analyze:
 "${message}"
@@ -125,13 +142,17 @@ Return JSON with this exact schema:
       "type": "meeting" | "deadline" | "reminder" | "travel" | "task" | "subscription" | "recommendation" | "other",
       "title": "short title",
       "description": "full details or null",
-      "event_time": "ISO datetime or null",
+      "event_time": "local date-time WITHOUT timezone offset, e.g. 2026-03-12T17:00 — or null",
+      "time_reference": "absolute" | "relative" | "weekday" | "time_only" | "date_without_year" | null,
+      "is_past": true/false,
+      "recurrence": "RRULE for repeating events, e.g. FREQ=WEEKLY;BYDAY=MO,TH — or null",
       "location": "place name (goa, mumbai) or service name (netflix, hotstar, amazon)",
       "participants": ["names mentioned"],
       "keywords": ["searchable", "keywords", "include place names and service names"],
       "confidence": 0.0 to 1.0,
       "event_action": "create" | "update" | "merge" | null,
-      "target_event_id": null or ID number of the existing event being updated
+      "target_event_id": null or ID number of the existing event being updated,
+      "attendance": [{"name": "who answered", "response": "accepted" | "declined" | "tentative"}] or null
     }
   ]
 }
@@ -146,12 +167,21 @@ EVENT ACTION RULES:
   - Example: "add Rahul to dinner" → event_action="update", target_event_id=<dinner ID>, participants=["Rahul"]
 - "merge": This message adds info to an existing event (same event, new details)
   - Example: "also bring chips for the dinner" → event_action="merge", target_event_id=<dinner ID>
+  - Example: "Rahul's in, Priya can't come" (about an existing dinner) → event_action="merge", target_event_id=<dinner ID>, attendance=[...]
+
+ATTENDANCE (meeting and travel events only — who said they're coming):
+- "Rahul's in, Priya can't come" → attendance=[{"name":"Rahul","response":"accepted"},{"name":"Priya","response":"declined"}]
+- "Neha might join", "Arjun will try" → "tentative"
+- The sender answering for themselves ("I'm in", "count me in", "main nahi aa paunga") → name="${ATTENDANCE_SENDER}"
+- Only people whose answer is stated in THIS message; attendance=null when nobody says whether they're coming
 
 CRITICAL: Only set event_action="update" or "merge" when the message CLEARLY references an existing event.
 If uncertain, treat as "create" — false creates are better than wrong updates.
 
 Rules:
 - Understand informal/broken English and Hinglish (Hindi+English mix)
+- Media messages arrive with a marker: "[Image] caption", "[Video] caption", "[Document: file name] caption", "[Voice note] transcript"
+  - Treat the caption/transcript as what the sender said; a document name like "Flight_BLR_GOI_12Feb.pdf" is a strong hint (tickets, invites, bills)
 - Handle typos: "cancle" = "cancel", "tomoro" = "tomorrow", "goa" = "goa"
 - "kal" = tomorrow, "aaj" = today, "parso" = day after tomorrow
 - "this week" = within 7 days, use end of week as event_time
@@ -163,10 +193,25 @@ ABSOLUTE DATE RESOLUTION RULES (CRITICAL — READ CAREFULLY):
 - Use the pre-resolved dates from the DATE/TIME CONTEXT section above — do NOT calculate dates yourself
 - "Thursday" = the NEXT Thursday shown in the look-up table, NOT a past Thursday
 - If two messages in the SAME conversation say "Thursday 8pm" and "Thursday 8:30pm" → they mean the SAME Thursday, just different times
-- event_time MUST be in the FUTURE (after the "Message sent at" time) unless the message explicitly uses past tense
-- If your resolved date falls BEFORE "Message sent at", add 7 days to get the next occurrence
+- "last Friday", "yesterday", "on Monday we met" → use the "last ..." / "yesterday" entries and set is_past=true
+- is_past=true ONLY when the message explicitly talks about something that already happened; otherwise is_past=false
+- event_time is wall-clock time in the timezone shown above — NEVER convert to UTC and NEVER append "Z" or an offset
 - NEVER guess or fabricate dates — if no time reference exists, event_time MUST be null
 
+TIME REFERENCE (how the message expressed the time — Argus uses it to correct dates that land before the message):
+- "absolute": full date given ("15 March 2026", "12/03")  |  "relative": "tomorrow", "in 2 hours", "next week", "kal"
+- "weekday": a day name ("Thursday", "this Friday")        |  "time_only": only a time ("at 5pm", "shaam ko")
+- "date_without_year": day + month but no year ("15th March", "on the 20th")
+- null when event_time is null
+
+RECURRENCE (only when the message says the event REPEATS):
+- Use an iCalendar RRULE with FREQ=DAILY|WEEKLY|MONTHLY|YEARLY and optionally INTERVAL, BYDAY (not with YEARLY), BYMONTHDAY (MONTHLY/YEARLY only), BYMONTH, COUNT, UNTIL
+- event_time = the FIRST upcoming occurrence (same time-of-day as every occurrence)
+- "gym every Monday and Thursday 7am" → recurrence="FREQ=WEEKLY;BYDAY=MO,TH", event_time = next Monday/Thursday 07:00
+- "pay rent on the 1st" → recurrence="FREQ=MONTHLY;BYMONTHDAY=1"  |  "standup daily at 10" → recurrence="FREQ=DAILY"
+- "every other week" → INTERVAL=2  |  "first Monday of the month" → "FREQ=MONTHLY;BYDAY=1MO"  |  "last day of the month" → BYMONTHDAY=-1
+- One-off events ("meeting on Monday") → recurrence=null
+
 CRITICAL DATE/TIME RULE:
 - ONLY set event_time if the message EXPLICITLY mentions a date, time, or relative time reference
 - "meeting tomorrow at 5pm" → event_time = tomorrow 5pm ✅
@@ -255,7 +300,7 @@ ONLY extract events that have CLEAR, SPECIFIC, ACTIONABLE intent:
 - ❌ "Upgrade vibe coding game" — casual chat, not actionable
 - ❌ "Share design" — work chat, not a schedulable event`;
 
-  const response = await callGemini(prompt);
+  const response = await callGemini('analyze', prompt);
   
   try {
     const parsed = JSON.parse(response);
@@ -320,57 +365,49 @@ function repairJSON(raw: string): any | null {
   }
 }
 
-async function callGemini(prompt: string, jsonMode = true): Promise<string> {
-  const cfg = getConfig();
-  
-  const response = await fetch(`${cfg.apiUrl}/chat/completions`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${cfg.apiKey}`,
-    },
-    body: JSON.stringify({
-      model: cfg.model,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0.1,
-      max_tokens: 4096,
-      ...(jsonMode && { response_format: { type: 'json_object' } }),
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Gemini API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json() as { choices: Array<{ message?: { content?: string } }> };
-  return data.choices[0]?.message?.content || '';
+async function callGemini(task: LLMTask, prompt: string, jsonMode = true): Promise<string> {
+  return getProvider().complete({ task, system: SYSTEM_PROMPT, prompt, jsonMode });
 }
 
 // ============ ACTION DETECTION ============
 // Detects if a WhatsApp message is an ACTION on an existing event (cancel, done, postpone, etc.)
 
+export interface ActionCandidate {
+  eventId: number;
+  score: number; // 0.0–1.0, how likely the message refers to this event
+}
+
 export interface ActionResult {
   isAction: boolean;
   action: 'cancel' | 'complete' | 'postpone' | 'snooze' | 'ignore' | 'delete' | 'modify' | 'none';
   targetKeywords: string[];  // keywords to find the target event
   targetDescription: string; // what the user is referring to
+  candidates: ActionCandidate[]; // events from the numbered list it may refer to, best first
+  multiTarget: boolean;      // "cancel both meetings" — act on every matching candidate
   snoozeMinutes?: number;    // for postpone actions
-  newTime?: string;          // for reschedule actions
+  newTime?: string;          // for reschedule actions — local wall-clock time
+  newTimeReference?: TimeReference;
   newTitle?: string;         // for title update
   newLocation?: string;      // for location update
   newDescription?: string;   // for description update
   confidence: number;
 }
 
+// Keep well-formed candidates only ("#12" and "12" both accepted), best first
+function parseActionCandidates(raw: unknown): ActionCandidate[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(c => ({ eventId: parseInt(String(c?.eventId ?? '').replace('#', ''), 10), score: Number(c?.score) }))
+    .filter(c => Number.isInteger(c.eventId) && c.score >= 0 && c.score <= 1)
+    .sort((a, b) => b.score - a.score);
+}
+
 export async function detectAction(
   message: string,
   context: string[] = [],
   existingEvents: Array<{ id: number; title: string; event_type: string; keywords: string }> = [],
-  messageTimestamp?: number
+  messageTimestamp?: number,
+  timezone: string = getUserTimezone()
 ): Promise<ActionResult> {
   // QuickSave: compressed event list for action detection
   const eventsBlock = existingEvents.length > 0
@@ -383,7 +420,7 @@ export async function detectAction(
 
   const prompt = `Analyze this WhatsApp message. Is the user trying to PERFORM AN ACTION on a previously stored event/reminder/task? Or is this a NEW event?
 
-${formatDateContext(messageTimestamp)}
+${formatDateContext(messageTimestamp, timezone)}
 ${contextBlock}${eventsBlock}
 Message: "${message}"
 
@@ -393,8 +430,11 @@ Return JSON:
   "action": "cancel" | "complete" | "postpone" | "snooze" | "ignore" | "delete" | "modify" | "none",
   "targetKeywords": ["keywords", "to", "find", "target", "event"],
   "targetDescription": "what the user is referring to",
+  "candidates": [{"eventId": <#id from the list>, "score": 0.0 to 1.0}] (every listed event the message could refer to, best first),
+  "multiTarget": true/false (true only when the user means several events at once, e.g. "cancel both meetings"),
   "snoozeMinutes": null or number (for postpone: 30, 60, 1440 for tomorrow, 10080 for next week),
-  "newTime": null or "ISO datetime" (for reschedule),
+  "newTime": null or local date-time WITHOUT timezone offset, e.g. "2026-03-12T17:00" (for reschedule),
+  "newTimeReference": null or "absolute" | "relative" | "weekday" | "time_only" | "date_without_year" (how newTime was expressed),
   "newTitle": null or "new title" (for title change),
   "newLocation": null or "new location" (for location change),
   "newDescription": null or "new description" (for description change),
@@ -419,10 +459,11 @@ RULES - Detect these as ACTIONS (isAction=true):
 - "skip it" / "chhod do" / "leave it" → action=ignore
 
 CRITICAL: If it matches an existing event from the list, use that event's keywords in targetKeywords.
+Use the #id numbers (not the [index]) for candidates. Score each candidate on its own — if two events fit equally well, give them equal scores instead of picking one.
 For MODIFY actions: set the specific new* field (newTime, newTitle, newLocation, newDescription) with the updated value.
-If it's a new event/task/recommendation (NOT an action), return: {"isAction": false, "action": "none", "targetKeywords": [], "targetDescription": "", "confidence": 0}`;
+If it's a new event/task/recommendation (NOT an action), return: {"isAction": false, "action": "none", "targetKeywords": [], "targetDescription": "", "candidates": [], "multiTarget": false, "confidence": 0}`;
 
-  const response = await callGemini(prompt);
+  const response = await callGemini('action', prompt);
   
   try {
     const parsed = JSON.parse(response);
@@ -431,8 +472,11 @@ If it's a new event/task/recommendation (NOT an action), return: {"isAction": fa
       action: parsed.action || 'none',
       targetKeywords: parsed.targetKeywords || [],
       targetDescription: parsed.targetDescription || '',
+      candidates: parseActionCandidates(parsed.candidates),
+      multiTarget: parsed.multiTarget === true,
       snoozeMinutes: parsed.snoozeMinutes || undefined,
       newTime: parsed.newTime || undefined,
+      newTimeReference: parsed.newTimeReference || undefined,
       newTitle: parsed.newTitle || undefined,
       newLocation: parsed.newLocation || undefined,
       newDescription: parsed.newDescription || undefined,
@@ -447,8 +491,11 @@ If it's a new event/task/recommendation (NOT an action), return: {"isAction": fa
         action: repaired.action || 'none',
         targetKeywords: repaired.targetKeywords || [],
         targetDescription: repaired.targetDescription || '',
+        candidates: parseActionCandidates(repaired.candidates),
+        multiTarget: repaired.multiTarget === true,
         snoozeMinutes: repaired.snoozeMinutes || undefined,
         newTime: repaired.newTime || undefined,
+        newTimeReference: repaired.newTimeReference || undefined,
         newTitle: repaired.newTitle || undefined,
         newLocation: repaired.newLocation || undefined,
         newDescription: repaired.newDescription || undefined,
@@ -456,7 +503,51 @@ If it's a new event/task/recommendation (NOT an action), return: {"isAction": fa
       };
     }
     console.error('Failed to parse action detection response:', response);
-    return { isAction: false, action: 'none', targetKeywords: [], targetDescription: '', confidence: 0 };
+    return { isAction: false, action: 'none', targetKeywords: [], targetDescription: '', candidates: [], multiTarget: false, confidence: 0 };
+  }
+}
+
+// ============ REPLY RSVP ============
+// A reply to the message a plan came from — does it answer the plan?
+
+export interface ReplyRsvp {
+  response: RsvpResponse | 'none';
+  confidence: number;
+}
+
+export async function classifyReply(
+  reply: string,
+  quoted: string,
+  eventTitles: string[]
+): Promise<ReplyRsvp> {
+  const prompt = `A WhatsApp user replied to (quoted) a message that proposed a plan. Is the reply an answer to the plan — accepting, declining or maybe?
+
+Quoted message: "${quoted}"
+Plans from it: ${eventTitles.map(t => `"${t}"`).join(', ')}
+
+Reply: "${reply}"
+
+Return JSON:
+{
+  "response": "accepted" | "declined" | "tentative" | "none",
+  "confidence": 0.0 to 1.0
+}
+
+RULES:
+- "yes" / "done deal" / "I'm in" / "see you there" / "pakka" / "haan" → accepted
+- "can't make it" / "I'm out" / "not this time" / "nahi ho payega" / "skip me" → declined
+- "maybe" / "will try" / "let me check" / "depends" → tentative
+- Questions, new details ("make it 9pm", "which place?") or anything else → none`;
+
+  const response = await callGemini('rsvp', prompt);
+
+  try {
+    const parsed = JSON.parse(response);
+    const answer = RsvpResponseEnum.safeParse(parsed.response);
+    return { response: answer.success ? answer.data : 'none', confidence: Number(parsed.confidence) || 0 };
+  } catch {
+    console.error('Failed to parse reply RSVP response:', response);
+    return { response: 'none', confidence: 0 };
   }
 }
 
@@ -498,7 +589,7 @@ Rules:
 - Be conservative - fewer false positives is better
 - If nothing relevant, return: {"relevant": [], "confidence": 0}`;
 
-  const response = await callGemini(prompt);
+  const response = await callGemini('validate', prompt);
   
   try {
     const parsed = JSON.parse(response);
@@ -527,7 +618,7 @@ export interface ChatResponse {
 
 export async function chatWithContext(
   query: string,
-  events: Array<{ id: number; title: string; description: string | null; event_type: string; event_time: number | null; location: string | null; status: string; keywords: string; sender_name?: string | null; context_url?: string | null }>,
+  events: Array<{ id: number; title: string; description: string | null; event_type: string; event_time: number | null; location: string | null; status: string; keywords: string; sender_name?: string | null; context_url?: string | null; attendance?: EventAttendance | null }>,
   history: Array<{ role: string; content: string }> = []
 ): Promise<ChatResponse> {
   const dateContext = formatDateContext();
@@ -547,7 +638,7 @@ export async function chatWithContext(
 
 ${dateContext}
 ${memoryPacket ? `\n=== PRIOR CONTEXT (compressed) ===\n${memoryPacket}\n` : ''}
-=== USER'S EVENTS/TASKS (compressed format: #ID|TYPE|STATUS|"Title"|time|location|sender|keywords) ===
+=== USER'S EVENTS/TASKS (compressed format: #ID|TYPE|STATUS|"Title"|time|location|sender|keywords|attendance — attendance only when someone answered) ===
 ${eventsBlock}
 
 ${historyBlock ? `=== RECENT CONVERSATION ===\n${historyBlock}\n` : ''}
@@ -562,6 +653,7 @@ INSTRUCTIONS:
 - If user asks about recommendations or gifts, search through event descriptions and types
 - If user asks about a specific person (e.g., "what did Rahul say?"), filter by sender_name
 - If user asks about subscriptions, filter by event_type = "subscription"
+- If user asks who's coming (e.g., "who's coming Thursday?"), use the attendance field: "in:" said yes, "out:" can't come, "maybe:" unsure — "you" is the user
 - If no relevant events found, say so honestly and offer to help with something else
 - Keep responses concise but informative (2-5 sentences usually)
 - Use emoji sparingly for readability
@@ -574,7 +666,7 @@ Return JSON:
   "relevantEventIds": [1, 5, 12]
 }`;
 
-  const response = await callGemini(prompt);
+  const response = await callGemini('chat', prompt);
 
   try {
     const parsed = JSON.parse(response);
@@ -640,7 +732,7 @@ export async function generatePopupBlueprint(
   const conflictBlock = triggerContext.conflictingEvents && triggerContext.conflictingEvents.length > 0
     ? `\nConflicting events: ${triggerContext.conflictingEvents.map(e => {
         let t = `"${e.title}"`;
-        if (e.event_time) t += ` at ${new Date(e.event_time * 1000).toLocaleString()}`;
+        if (e.event_time) t += ` at ${formatEventTime(e.event_time)}`;
         return t;
       }).join(', ')}`
     : '';
@@ -653,7 +745,7 @@ Type: ${event.event_type || 'other'}
 Location: ${event.location || 'none'}
 Original sender: ${event.sender_name || 'unknown'}
 Keywords: ${event.keywords || ''}
-Event time: ${event.event_time ? new Date(event.event_time * 1000).toLocaleString() : 'none'}
+Event time: ${event.event_time ? formatEventTime(event.event_time) : 'none'}
 Popup type: ${popupType}
 Current URL: ${triggerContext.url || 'none'}
 Page title: ${triggerContext.pageTitle || 'none'}${conflictBlock}
@@ -711,7 +803,7 @@ EXAMPLES:
 Be SPECIFIC — use actual names, places, services from the event. Never be generic.`;
 
   try {
-    const response = await callGemini(prompt);
+    const response = await callGemini('popup', prompt);
     const parsed = JSON.parse(response);
     return {
       icon: parsed.icon || '📅',
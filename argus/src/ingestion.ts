@@ -1,6 +1,17 @@
-import { insertMessage, insertEvent, insertTrigger, getRecentMessages, upsertContact, checkEventConflicts, findActiveEventsByKeywords, getActiveEvents, ignoreEvent, completeEvent as dbCompleteEvent, snoozeEvent, deleteEvent, updateEvent, findDuplicateEvent } from './db.js';
-import { extractEvents, shouldSkipMessage, detectAction } from './gemini.js';
-import type { Message, WhatsAppWebhook, TriggerType } from './types.js';
+import { createHash } from 'crypto';
+import { insertMessage, getMessageById, insertEvent, insertTrigger, getRecentMessages, upsertContact, checkEventConflicts, getActiveEvents, getChatPolicy, updateEvent, findDuplicateEvent, linkEventMessages, addEventContextUrls, getContactById, withChangeSource, updateMessageContent, markMessageDeleted, markMessagesProcessed, getActiveEventsForMessage, upsertEventRsvp, deleteReactionRsvp, getEventById, resolveContactIdByName } from './db.js';
+import { extractEvents, shouldSkipMessage, detectAction, classifyReply, ATTENDANCE_SENDER } from './gemini.js';
+import type { ActionResult as DetectedAction } from './gemini.js';
+import { resolveContextUrls } from './context-rules.js';
+import { getUserTimezone, resolveEventTime, formatEventTime, getZonedParts, zonedTimeToUnix } from './timezone.js';
+import { isValidRRule, normalizeRRule, getNextOccurrence, describeRRule } from './recurrence.js';
+import { syncTimeTriggers } from './triggers.js';
+import { isArgusMessage } from './whatsapp.js';
+import { answerDirectCommand, describeActionOutcome, describeCreatedEvents, answerQuestion, sendCommandReply } from './commands.js';
+import type { CommandResult } from './commands.js';
+import { applyEventAction, describeAction, getConfirmationReason, proposeEventAction, proposeActionChoice, selectActionTargets } from './actions.js';
+import { EventActionEnum, RsvpResponseEnum, WhatsAppWebhookSchema, WhatsAppMessageUpdateSchema, WhatsAppMessageDeleteSchema, WhatsAppMessageEditedSchema } from './types.js';
+import type { Event, Message, WhatsAppWebhook, WhatsAppMessage, WhatsAppProtocolMessage, WhatsAppContextInfo, MediaType, EventAction, ChatMode, TargetResolution, GeminiExtraction, RsvpResponse, RsvpVia, EventType } from './types.js';
 
 interface ConflictInfo {
   id: number;
@@ -19,7 +30,9 @@ interface CreatedEvent {
   keywords: string;
   confidence: number;
   context_url?: string | null;
+  context_urls?: string[];
   sender_name?: string | null;
+  recurrence?: string | null;
   conflicts?: ConflictInfo[];
 }
 
@@ -31,48 +44,303 @@ interface ActionResult {
 }
 
 interface PendingAction {
-  action: string;
+  id: number; // pending_actions row — answered via /api/pending-actions/:id/confirm|reject
+  action: EventAction;
   targetEventId: number;
   targetEventTitle: string;
-  changes: Record<string, any>;
+  changes: Record<string, unknown>;
   description: string; // human-readable summary of what will change
+  reason: string; // why the action wasn't applied right away
+}
+
+interface AmbiguousAction {
+  action: EventAction;
+  question: string;
+  choices: Array<{
+    pendingActionId: number; // confirming one rejects the other choices
+    eventId: number;
+    eventTitle: string;
+    score: number;
+    description: string;
+  }>;
+}
+
+interface RsvpResult {
+  responder: string; // Contact ID, 'self' for the owner
+  responderName: string | null;
+  response: RsvpResponse;
+  via: RsvpVia;
+  events: Array<{ eventId: number; eventTitle: string }>;
 }
 
-interface IngestionResult {
+interface AttendanceResult {
+  eventId: number;
+  eventTitle: string;
+  answers: Array<{ responder: string; name: string | null; response: RsvpResponse }>;
+}
+
+export interface IngestionResult {
   messageId: string;
+  messageIds?: string[]; // Every message of a coalesced burst, oldest first
   eventsCreated: number;
   triggersCreated: number;
   skipped: boolean;
   skipReason?: string;
   events?: CreatedEvent[];
   conflicts?: Array<{ eventId: number; conflictsWith: ConflictInfo[] }>;
-  // Action results (for when user sends "cancel it", "done", etc.)
+  // Action results (for when user sends "cancel it", "done", etc.) — the first target,
+  // and every target in the plural fields ("cancel both meetings")
   actionPerformed?: ActionResult;
-  // Pending confirmation (for modify actions — user must approve)
+  actionsPerformed?: ActionResult[];
+  // Pending confirmation (modify, and destructive actions the action policy holds back)
   pendingAction?: PendingAction;
+  pendingActions?: PendingAction[];
+  // Several events fit equally well — nothing was changed, the user picks one of the choices
+  ambiguousAction?: AmbiguousAction;
+  // A reply or reaction answered the events of the message it was on
+  rsvp?: RsvpResult;
+  // Who's coming, as read from the message ("Rahul's in, Priya can't come")
+  attendance?: AttendanceResult[];
+  // An own message in the control chat, and what Argus answered
+  command?: CommandResult;
 }
 
-export async function processWebhook(
-  payload: WhatsAppWebhook,
-  options: { processOwnMessages: boolean; skipGroupMessages: boolean }
-): Promise<IngestionResult> {
+interface ExtractedContent {
+  content: string | null;       // Text to analyze (caption, file name, transcript) — null if nothing readable
+  mediaType: MediaType | null;
+  mediaRef: string | null;
+}
+
+const MEDIA_LABELS: Record<MediaType, string> = {
+  image: 'Image',
+  video: 'Video',
+  document: 'Document',
+  audio: 'Voice note',
+};
+
+// Pull analyzable text out of a WhatsApp message, including media messages.
+// Mirrors parseMessageContent() in evolution-db.ts, but keeps the media type and a
+// reference to the media so the messages table can point back at the original file.
+// Media text is prefixed with a marker ("[Image] ...", "[Document: ticket.pdf] ...")
+// so Gemini knows it's reading a caption/file name rather than a typed message.
+export function extractMessageContent(message: WhatsAppMessage | undefined): ExtractedContent {
+  if (!message) return { content: null, mediaType: null, mediaRef: null };
+
+  const text = message.conversation || message.extendedTextMessage?.text;
+  if (text) return { content: text, mediaType: null, mediaRef: null };
+
+  const document = message.documentMessage || message.documentWithCaptionMessage?.message?.documentMessage;
+  const media: Array<[MediaType, typeof document]> = [
+    ['image', message.imageMessage],
+    ['video', message.videoMessage],
+    ['document', document],
+    ['audio', message.audioMessage],
+  ];
+
+  for (const [mediaType, m] of media) {
+    if (!m) continue;
+
+    const mediaRef = message.mediaUrl || m.url || m.directPath || null;
+    let content: string | null = null;
+
+    if (mediaType === 'document') {
+      const fileName = m.fileName || m.title;
+      if (fileName || m.caption) {
+        const label = fileName ? `[${MEDIA_LABELS.document}: ${fileName}]` : `[${MEDIA_LABELS.document}]`;
+        content = m.caption ? `${label} ${m.caption}` : label;
+      }
+    } else if (mediaType === 'audio') {
+      // Evolution already prefixes transcripts with "[audio]" — strip it for a consistent marker
+      const transcript = message.speechToText?.replace(/^\[audio\]\s*/i, '').trim();
+      if (transcript) content = `[${MEDIA_LABELS.audio}] ${transcript}`;
+    } else if (m.caption) {
+      content = `[${MEDIA_LABELS[mediaType]}] ${m.caption}`;
+    }
+
+    return { content, mediaType, mediaRef };
+  }
+
+  return { content: null, mediaType: null, mediaRef: null };
+}
+
+export interface WebhookOptions {
+  processOwnMessages: boolean;
+  skipGroupMessages: boolean; // Default for groups without a chat policy
+  ownerJid?: string;          // Fallback when the webhook payload doesn't carry the owner's JID
+  controlChat?: string;       // Own messages here are commands for Argus (live webhooks only — never backfills)
+  historical?: boolean;       // Backfilled/imported messages: extract events only. A months-old "cancel it",
+                              // reply or reaction must not act on today's events.
+}
+
+// Effective mode for a chat: its policy, else enabled (muted for groups when skipGroupMessages is set)
+export function getChatMode(chatId: string, skipGroupMessages: boolean): { mode: ChatMode; source: 'policy' | 'default' } {
+  const policy = getChatPolicy(chatId);
+  if (policy) return { mode: policy.mode, source: 'policy' };
+  return { mode: skipGroupMessages && chatId.includes('@g.us') ? 'muted' : 'enabled', source: 'default' };
+}
+
+// JIDs compare by user part — "919876543210:12@s.whatsapp.net" (a linked device) is the same account
+function isSameAccount(a: string | undefined, b: string | undefined): boolean {
+  const user = (jid: string) => jid.split('@')[0].split(':')[0];
+  return !!a && !!b && user(a) === user(b);
+}
+
+// Every place a message's mentions and quoted message can be — Evolution v2 copies them to data.contextInfo
+function getContextInfos(payload: WhatsAppWebhook): Array<WhatsAppContextInfo | null | undefined> {
   const { data } = payload;
-  
-  // Extract message content
-  const content = data.message?.conversation || data.message?.extendedTextMessage?.text;
-  if (!content) {
+  const message = data.message;
+  return [
+    data.contextInfo,
+    message?.extendedTextMessage?.contextInfo,
+    message?.imageMessage?.contextInfo,
+    message?.videoMessage?.contextInfo,
+    message?.documentMessage?.contextInfo,
+    message?.documentWithCaptionMessage?.message?.documentMessage?.contextInfo,
+    message?.audioMessage?.contextInfo,
+  ];
+}
+
+// ID of the message a reply quotes, null when it isn't a reply
+function getQuotedMessageId(payload: WhatsAppWebhook): string | null {
+  return getContextInfos(payload).find(info => info?.stanzaId)?.stanzaId ?? null;
+}
+
+// Does a message mention the owner or reply to one of the owner's messages?
+function addressesOwner(payload: WhatsAppWebhook, ownerJid: string | undefined): boolean {
+  if (!ownerJid) return false;
+  return getContextInfos(payload).some(info => info && (
+    info.mentionedJid?.some(jid => isSameAccount(jid, ownerJid)) || isSameAccount(info.participant, ownerJid)
+  ));
+}
+
+// Why the chat's policy keeps a message out, or null when it's read
+function getChatPolicySkipReason(payload: WhatsAppWebhook, options: WebhookOptions): string | null {
+  const { key } = payload.data;
+  const { mode, source } = getChatMode(key.remoteJid, options.skipGroupMessages);
+  switch (mode) {
+    case 'enabled':
+      return null;
+    case 'muted':
+      return source === 'default' ? 'group_message' : 'chat_muted';
+    case 'own_only':
+      return key.fromMe ? null : 'not_own_message';
+    case 'mention_only':
+      return key.fromMe || addressesOwner(payload, payload.sender || options.ownerJid) ? null : 'not_mentioned';
+  }
+}
+
+interface StoredMessage {
+  message: Message;
+  content: string;              // Analyzable text (never the bare "[Image]" placeholder)
+  senderName: string | null;
+  quotedId: string | null;      // Message this one replies to
+}
+
+// Messages are stored under the sender's user part — 'self' for the owner's own
+function getSender(key: WhatsAppWebhook['data']['key']): string {
+  // In groups remoteJid is the group — the sender is key.participant
+  return key.fromMe ? 'self' : (key.participant || key.remoteJid).split('@')[0];
+}
+
+export async function processWebhook(payload: WhatsAppWebhook, options: WebhookOptions): Promise<IngestionResult> {
+  if (payload.data.message?.reactionMessage) return processReaction(payload, options);
+  return processWebhookBurst([payload], options);
+}
+
+// Process consecutive messages from one chat as a single unit ("dinner thursday?" / "8pm" / "at Toit").
+// Every message is stored on its own; the analyzable ones are joined in order and go through
+// detectAction/extractEvents once, so a plan split across messages becomes one event.
+// Once that's done the messages are marked processed: when the job is retried (announcing the
+// result failed, say) or the webhook delivered again, they aren't extracted or acted on twice.
+export async function processWebhookBurst(payloads: WhatsAppWebhook[], options: WebhookOptions): Promise<IngestionResult> {
+  const result = await ingestBurst(payloads, options);
+  markMessagesProcessed(payloads.map(p => p.data.key.id));
+  return result;
+}
+
+async function ingestBurst(payloads: WhatsAppWebhook[], options: WebhookOptions): Promise<IngestionResult> {
+  const stored: StoredMessage[] = [];
+  let lastSkip: IngestionResult | null = null;
+
+  for (const payload of payloads) {
+    const outcome = storeWebhookMessage(payload, options);
+    if ('message' in outcome) stored.push(outcome);
+    else lastSkip = outcome;
+  }
+
+  const messageIds = payloads.map(p => p.data.key.id);
+  if (stored.length === 0) {
+    return { ...lastSkip!, messageIds };
+  }
+
+  // The newest message anchors the burst (events.message_id); all of them get linked to the event
+  const { message: anchor, senderName } = stored[stored.length - 1];
+  const burstIds = stored.map(s => s.message.id);
+  const multipleSenders = new Set(stored.map(s => s.message.sender)).size > 1;
+  const content = stored
+    .map(s => multipleSenders ? `${s.senderName || s.message.sender}: ${s.content}` : s.content)
+    .join('\n');
+
+  if (stored.length > 1) {
+    console.log(`🧵 [INGEST] Coalesced ${stored.length} messages from ${anchor.chat_id} into one extraction`);
+  }
+
+  // Get context from recent messages (excluding the burst itself)
+  const recentMessages = getRecentMessages(anchor.chat_id, 5 + burstIds.length);
+  const context = recentMessages
+    .filter(m => !burstIds.includes(m.id))
+    .slice(0, 5)
+    .map(m => m.content);
+
+  // Our own messages in the control chat talk to Argus
+  if (stored.every(s => isCommandMessage(s.message, options))) {
+    const result = await processCommand({ ...anchor, content }, context, burstIds);
+    return { ...result, messageIds };
+  }
+
+  // A reply to a message that produced events may answer them ("can't make it") — those events
+  // are the target, nothing to guess. Replies that aren't answers are analyzed as usual.
+  const reply = [...stored].reverse().find(s => s.quotedId);
+  if (reply && !options.historical) {
+    const answered = await processReply({ ...anchor, content }, reply.quotedId!, senderName);
+    if (answered) return { ...answered, messageIds };
+  }
+
+  const result = options.historical
+    ? await processMessage({ ...anchor, content }, context, senderName, [], burstIds)
+    : await analyzeMessage({ ...anchor, content }, context, senderName, burstIds);
+  return { ...result, messageIds };
+}
+
+// Validate, store and pre-filter a single webhook message.
+// Returns the stored message when it has text worth analyzing, otherwise a skip result.
+function storeWebhookMessage(payload: WhatsAppWebhook, options: WebhookOptions): StoredMessage | IngestionResult {
+  const { data } = payload;
+
+  if (getMessageById(data.key.id)?.processed_at) {
+    return { messageId: data.key.id, eventsCreated: 0, triggersCreated: 0, skipped: true, skipReason: 'already_processed' };
+  }
+
+  // Extract message content (text, media caption, document name or voice transcript)
+  const { content, mediaType, mediaRef } = extractMessageContent(data.message);
+  if (!content && !mediaType) {
     return { messageId: data.key.id, eventsCreated: 0, triggersCreated: 0, skipped: true, skipReason: 'no_content' };
   }
 
+  // Reminders Argus sent over WhatsApp come back as our own messages
+  if (data.key.fromMe && content && isArgusMessage(data.key.id, data.key.remoteJid, content)) {
+    return { messageId: data.key.id, eventsCreated: 0, triggersCreated: 0, skipped: true, skipReason: 'argus_message' };
+  }
+
   // Check if from self
-  if (data.key.fromMe && !options.processOwnMessages) {
+  if (data.key.fromMe && !options.processOwnMessages && !isControlChat(data.key.remoteJid, options)) {
     return { messageId: data.key.id, eventsCreated: 0, triggersCreated: 0, skipped: true, skipReason: 'own_message' };
   }
 
-  // Check if group
-  const isGroup = data.key.remoteJid.includes('@g.us');
-  if (isGroup && options.skipGroupMessages) {
-    return { messageId: data.key.id, eventsCreated: 0, triggersCreated: 0, skipped: true, skipReason: 'group_message' };
+  // Check the chat's policy (muted groups, mention-only groups, ...)
+  const policySkip = getChatPolicySkipReason(payload, options);
+  if (policySkip) {
+    return { messageId: data.key.id, eventsCreated: 0, triggersCreated: 0, skipped: true, skipReason: policySkip };
   }
 
   // Create message object
@@ -85,9 +353,12 @@ export async function processWebhook(
   const message: Message = {
     id: data.key.id,
     chat_id: data.key.remoteJid,
-    sender: data.key.fromMe ? 'self' : data.key.remoteJid.split('@')[0],
-    content,
+    sender: getSender(data.key),
+    sender_jid: data.key.fromMe ? null : data.key.participant || data.key.remoteJid,
+    content: content || `[${MEDIA_LABELS[mediaType!]}]`,
     timestamp,
+    media_type: mediaType,
+    media_ref: mediaRef,
   };
 
   // Store message
@@ -102,160 +373,277 @@ export async function processWebhook(
     message_count: 1,
   });
 
+  // Media without a caption/file name/transcript is stored for reference but has nothing to analyze
+  if (!content) {
+    return { messageId: message.id, eventsCreated: 0, triggersCreated: 0, skipped: true, skipReason: 'media_without_text' };
+  }
+
   // Trivial pre-filter — skip pure noise (empty, emoji, "ok", "lol", etc.)
   // Everything else goes to Gemini — no more brittle keyword heuristics
   if (shouldSkipMessage(content)) {
     return { messageId: message.id, eventsCreated: 0, triggersCreated: 0, skipped: true, skipReason: 'trivial_message' };
   }
 
-  // Get context from recent messages
-  const recentMessages = getRecentMessages(message.chat_id, 5);
-  const context = recentMessages
-    .filter(m => m.id !== message.id)
-    .map(m => m.content);
+  return { message, content, senderName, quotedId: getQuotedMessageId(payload) };
+}
 
-  // ============ STEP 1: Check if this is an ACTION on existing event ============
-  const activeEvents = getActiveEvents(20);
+// ============ Control chat commands ============
+// Own messages there are answered instead of read for plans — see commands.ts.
+// Commands are read even with PROCESS_OWN_MESSAGES=false.
+function isControlChat(chatId: string, options: WebhookOptions): boolean {
+  return isSameAccount(chatId, options.controlChat);
+}
+
+function isCommandMessage(message: Message, options: WebhookOptions): boolean {
+  return message.sender === 'self' && isControlChat(message.chat_id, options);
+}
+
+// "help"/"list ..." directly, else an action on existing events, else a new plan, else a question
+async function processCommand(message: Message, context: string[], sourceMessageIds: string[]): Promise<IngestionResult> {
+  console.log(`💬 [COMMAND] "${message.content}"`);
+  let result: IngestionResult = { messageId: message.id, eventsCreated: 0, triggersCreated: 0, skipped: false };
+  let answer = answerDirectCommand(message.content);
+
+  if (!answer) {
+    const activeEvents = getActiveEvents(20);
+    const acted = await applyMessageAction(message, context, activeEvents, getMessageTimezone(message));
+    if (acted) {
+      result = acted;
+      answer = { kind: 'action', reply: describeActionOutcome(acted) };
+    } else {
+      const extracted = await processMessage(message, context, null, activeEvents, sourceMessageIds);
+      if (extracted.eventsCreated > 0 && extracted.events) {
+        result = extracted;
+        answer = { kind: 'event', reply: describeCreatedEvents(extracted.events) };
+      } else {
+        answer = { kind: 'chat', reply: await answerQuestion(message.content) };
+      }
+    }
+  }
+
+  const replied = await sendCommandReply(message.chat_id, answer.reply);
+  return { ...result, command: { ...answer, replied } };
+}
+
+// Times in a message are read in the sender's timezone when the contact has one,
+// otherwise in the owner's (own messages are stored with sender 'self')
+function getMessageTimezone(message: Message): string {
+  return getContactById(message.sender)?.timezone || getUserTimezone();
+}
+
+// Chat IDs of imported "Export chat" archives end with this — they have no WhatsApp JID
+export const EXPORT_CHAT_SUFFIX = '@export';
+
+// JID of whoever wrote a message, null for the owner's own — as WhatsApp sent it (key.participant
+// in groups, which may be an @lid). Messages stored before sender_jid existed only have the
+// user part; in a 1:1 chat that's the chat itself, elsewhere assume a phone number JID.
+function getSenderJid(message: Message): string | null {
+  if (message.sender === 'self') return null;
+  if (message.sender_jid) return message.sender_jid;
+  const perSender = message.chat_id.endsWith('@g.us') || message.chat_id.endsWith(EXPORT_CHAT_SUFFIX);
+  return perSender ? `${message.sender}@s.whatsapp.net` : message.chat_id;
+}
+
+function actionSummary(action: string, event: Event, message: string): ActionResult {
+  return { action, targetEventId: event.id!, targetEventTitle: event.title, message };
+}
+
+// The first applied/held action also goes in the single fields, for clients that only read those
+function actionOutcome(messageId: string, performed: ActionResult[], pending: PendingAction[] = []): IngestionResult {
+  return {
+    messageId,
+    eventsCreated: 0,
+    triggersCreated: 0,
+    skipped: false,
+    ...(performed.length > 0 && { actionPerformed: performed[0], actionsPerformed: performed }),
+    ...(pending.length > 0 && { pendingAction: pending[0], pendingActions: pending }),
+  };
+}
+
+// Store an action as a pending action the user has to confirm
+function holdAction(
+  event: Event,
+  action: EventAction,
+  changes: Record<string, unknown>,
+  description: string,
+  proposal: { confidence: number; resolvedVia: TargetResolution; reason: string; messageId: string }
+): PendingAction {
+  const proposed = proposeEventAction({ eventId: event.id!, action, changes, description, ...proposal });
+  return {
+    id: proposed.id,
+    action,
+    targetEventId: event.id!,
+    targetEventTitle: event.title,
+    changes,
+    description,
+    reason: proposal.reason,
+  };
+}
+
+// Changes an action carries — null when a modify names nothing to change
+function buildActionChanges(
+  action: EventAction,
+  detected: DetectedAction,
+  timezone: string,
+  referenceTime: number
+): Record<string, unknown> | null {
+  const changes: Record<string, unknown> = {};
+
+  if (action === 'snooze' || action === 'postpone') {
+    changes.snooze_minutes = detected.snoozeMinutes || 30;
+  }
+
+  if (action === 'modify') {
+    if (detected.newTime) {
+      const resolved = resolveEventTime(detected.newTime, {
+        timezone,
+        referenceTime,
+        timeReference: detected.newTimeReference,
+      });
+      if (resolved) {
+        if (resolved.adjustment) {
+          console.log(`⏩ [Date Fix] Action newTime: ${resolved.adjustment} (${formatEventTime(resolved.time, timezone)})`);
+        }
+        changes.event_time = resolved.time;
+      } else {
+        console.log(`⚠️ [ACTION] Invalid newTime from Gemini: "${detected.newTime}" → NaN`);
+      }
+    }
+    if (detected.newTitle) changes.title = detected.newTitle;
+    if (detected.newLocation) changes.location = detected.newLocation;
+    if (detected.newDescription) changes.description = detected.newDescription;
+
+    if (Object.keys(changes).length === 0) return null;
+  }
+
+  return changes;
+}
+
+// Human-readable description of what an action will change
+function describeActionChanges(action: EventAction, title: string, changes: Record<string, unknown>, timezone: string): string {
+  if (action !== 'modify') return describeAction(action, title, changes);
+
+  const parts: string[] = [];
+  if (changes.title) parts.push(`title → "${changes.title}"`);
+  if (changes.event_time) {
+    parts.push(`time → ${formatEventTime(changes.event_time as number, timezone)}`);
+  }
+  if (changes.location) parts.push(`location → "${changes.location}"`);
+  if (changes.description) parts.push(`description updated`);
+  return parts.join(', ');
+}
+
+// Apply (or hold for confirmation) the action a message asks for on existing events.
+// Null when the message isn't an action or none of the events fit.
+async function applyMessageAction(
+  message: Message,
+  context: string[],
+  activeEvents: Event[],
+  timezone: string
+): Promise<IngestionResult | null> {
+  const { content, timestamp } = message;
   const actionResult = await detectAction(content, context, activeEvents.map(e => ({
     id: e.id!,
     title: e.title,
     event_type: e.event_type,
     keywords: e.keywords,
-  })), timestamp);
+  })), timestamp, timezone);
 
   if (actionResult.isAction && actionResult.confidence >= 0.6 && actionResult.action !== 'none') {
     console.log(`🎯 [ACTION] Detected action: "${actionResult.action}" on "${actionResult.targetDescription}" (confidence: ${actionResult.confidence})`);
-    
-    // Find the target event
-    let targetEvent = null;
-    
-    // Try to find by keywords
-    if (actionResult.targetKeywords.length > 0) {
-      const matches = findActiveEventsByKeywords(actionResult.targetKeywords);
-      if (matches.length > 0) {
-        targetEvent = matches[0]; // Best match
+
+    // Rank the events the message may refer to (same chat/sender first) and pick the target(s)
+    const selection = selectActionTargets(actionResult, activeEvents, { chatId: message.chat_id, sender: message.sender });
+
+    if (selection.kind !== 'none') {
+      const first = selection.kind === 'targets' ? selection.targets[0].event : selection.candidates[0].event;
+
+      const parsedAction = EventActionEnum.safeParse(actionResult.action);
+      if (!parsedAction.success) {
+        return actionOutcome(message.id, [actionSummary(actionResult.action, first, `Unknown action: ${actionResult.action}`)]);
       }
-    }
-    
-    // Fallback: use most recent active event
-    if (!targetEvent && activeEvents.length > 0) {
-      targetEvent = activeEvents[0];
-    }
+      const action = parsedAction.data;
 
-    if (targetEvent && targetEvent.id) {
-      const eventId = targetEvent.id;
-      let actionMessage = '';
-
-      switch (actionResult.action) {
-        case 'cancel':
-        case 'delete':
-          deleteEvent(eventId);
-          actionMessage = `Deleted: "${targetEvent.title}"`;
-          console.log(`🗑️ [ACTION] Deleted event #${eventId}: "${targetEvent.title}"`);
-          break;
-
-        case 'complete':
-          dbCompleteEvent(eventId);
-          actionMessage = `Completed: "${targetEvent.title}"`;
-          console.log(`✅ [ACTION] Completed event #${eventId}: "${targetEvent.title}"`);
-          break;
-
-        case 'ignore':
-          ignoreEvent(eventId);
-          actionMessage = `Ignored: "${targetEvent.title}" - won't remind again`;
-          console.log(`🚫 [ACTION] Ignored event #${eventId}: "${targetEvent.title}"`);
-          break;
-
-        case 'snooze':
-        case 'postpone':
-          const minutes = actionResult.snoozeMinutes || 30;
-          snoozeEvent(eventId, minutes);
-          const durationText = minutes >= 10080 ? 'next week' : minutes >= 1440 ? 'tomorrow' : minutes >= 60 ? `${Math.round(minutes / 60)} hours` : `${minutes} minutes`;
-          actionMessage = `Snoozed: "${targetEvent.title}" → will remind ${durationText}`;
-          console.log(`💤 [ACTION] Snoozed event #${eventId} for ${minutes} min: "${targetEvent.title}"`);
-          break;
-
-        case 'modify': {
-          // Build the proposed changes — but DON'T apply them yet.
-          // Return as pendingAction so the user gets a confirmation popup.
-          const proposedChanges: Record<string, any> = {};
-          
-          if (actionResult.newTime) {
-            try {
-              let parsedTime = Math.floor(new Date(actionResult.newTime).getTime() / 1000);
-              if (!isNaN(parsedTime) && parsedTime > 0) {
-                const nowUnix = Math.floor(Date.now() / 1000);
-                if (parsedTime < nowUnix - 3600) {
-                  const weekSec = 7 * 24 * 3600;
-                  while (parsedTime < nowUnix) parsedTime += weekSec;
-                  console.log(`⏩ [Date Fix] Action newTime was past, moved to ${new Date(parsedTime * 1000).toISOString()}`);
-                }
-                proposedChanges.event_time = parsedTime;
-              } else {
-                console.log(`⚠️ [ACTION] Invalid newTime from Gemini: "${actionResult.newTime}" → NaN`);
-              }
-            } catch {
-              // invalid time, skip
-            }
-          }
-          if (actionResult.newTitle) proposedChanges.title = actionResult.newTitle;
-          if (actionResult.newLocation) proposedChanges.location = actionResult.newLocation;
-          if (actionResult.newDescription) proposedChanges.description = actionResult.newDescription;
-
-          if (Object.keys(proposedChanges).length > 0) {
-            // Build human-readable description of changes
-            const parts: string[] = [];
-            if (proposedChanges.title) parts.push(`title → "${proposedChanges.title}"`);
-            if (proposedChanges.event_time) {
-              const d = new Date(proposedChanges.event_time * 1000);
-              const dayNames = ['Sunday','Monday','Tuesday','Wednesday','Thursday','Friday','Saturday'];
-              parts.push(`time → ${dayNames[d.getDay()]}, ${d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} ${d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`);
-            }
-            if (proposedChanges.location) parts.push(`location → "${proposedChanges.location}"`);
-            if (proposedChanges.description) parts.push(`description updated`);
-            const changeDesc = parts.join(', ');
-
-            console.log(`📋 [ACTION] Modify proposed for event #${eventId} "${targetEvent.title}": ${changeDesc} — waiting for user confirmation`);
-
-            return {
-              messageId: message.id,
-              eventsCreated: 0,
-              triggersCreated: 0,
-              skipped: false,
-              pendingAction: {
-                action: 'modify',
-                targetEventId: eventId,
-                targetEventTitle: targetEvent.title,
-                changes: proposedChanges,
-                description: changeDesc,
-              },
-            };
-          }
-          actionMessage = `Modify requested but no changes specified`;
-          break;
-        }
+      const changes = buildActionChanges(action, actionResult, timezone, timestamp);
+      if (!changes) {
+        return actionOutcome(message.id, [actionSummary(action, first, `Modify requested but no changes specified`)]);
+      }
+      const describe = (event: Event) => describeActionChanges(action, event.title, changes, timezone);
+
+      if (selection.kind === 'ambiguous') {
+        const options = proposeActionChoice({
+          candidates: selection.candidates,
+          action,
+          changes,
+          describe,
+          confidence: actionResult.confidence,
+          messageId: message.id,
+        });
+        console.log(`🤔 [ACTION] ${options.length} events match about equally well — asking which one`);
 
-        default:
-          actionMessage = `Unknown action: ${actionResult.action}`;
+        return {
+          messageId: message.id,
+          eventsCreated: 0,
+          triggersCreated: 0,
+          skipped: false,
+          ambiguousAction: {
+            action,
+            question: options[0].reason,
+            choices: options.map((option, i) => ({
+              pendingActionId: option.id,
+              eventId: option.event_id,
+              eventTitle: selection.candidates[i].event.title,
+              score: selection.candidates[i].score,
+              description: option.description,
+            })),
+          },
+        };
       }
 
-      return {
-        messageId: message.id,
-        eventsCreated: 0,
-        triggersCreated: 0,
-        skipped: false,
-        actionPerformed: {
-          action: actionResult.action,
-          targetEventId: eventId,
-          targetEventTitle: targetEvent.title,
-          message: actionMessage,
-        },
-      };
+      // Each target is checked against the policy on its own — "cancel both" may apply one and hold the other
+      const performed: ActionResult[] = [];
+      const pending: PendingAction[] = [];
+      for (const target of selection.targets) {
+        const eventId = target.event.id!;
+        const description = describe(target.event);
+
+        // Destructive or low-confidence actions wait for the user's confirmation
+        const reason = getConfirmationReason(action, actionResult.confidence, target.via);
+        if (reason) {
+          pending.push(holdAction(target.event, action, changes, description, {
+            confidence: actionResult.confidence,
+            resolvedVia: target.via,
+            reason,
+            messageId: message.id,
+          }));
+        } else {
+          performed.push(actionSummary(action, target.event, applyEventAction(eventId, action, changes, 'webhook')));
+        }
+      }
+
+      return actionOutcome(message.id, performed, pending);
     }
   }
 
+  return null;
+}
+
+// STEP 1 action detection, then STEP 2 event extraction — once per (possibly coalesced) message
+async function analyzeMessage(
+  message: Message,
+  context: string[],
+  senderName: string | null,
+  sourceMessageIds: string[]
+): Promise<IngestionResult> {
+  const timezone = getMessageTimezone(message);
+
+  // ============ STEP 1: Check if this is an ACTION on existing event ============
+  const activeEvents = getActiveEvents(20);
+  const acted = await applyMessageAction(message, context, activeEvents, timezone);
+  if (acted) return acted;
+
   // ============ STEP 2: Not an action → extract NEW events (or updates to existing) ============
-  const result = await processMessage(message, context, senderName, activeEvents);
+  const result = await processMessage(message, context, senderName, activeEvents, sourceMessageIds);
   
   return result;
 }
@@ -264,11 +652,14 @@ export async function processMessage(
   message: Message,
   context: string[] = [],
   senderName: string | null = null,
-  existingEvents: Array<{ id?: number; title: string; event_type: string; keywords: string; event_time: number | null; location: string | null; description: string | null; sender_name?: string | null }> = []
+  existingEvents: Array<{ id?: number; title: string; event_type: string; keywords: string; event_time: number | null; location: string | null; description: string | null; sender_name?: string | null }> = [],
+  sourceMessageIds: string[] = [message.id]
 ): Promise<IngestionResult> {
   let eventsCreated = 0;
   let triggersCreated = 0;
   const createdEvents: CreatedEvent[] = [];
+  const attendance: AttendanceResult[] = [];
+  const timezone = getMessageTimezone(message);
 
   try {
     // Extract events using Gemini — now with existing events context for CRUD
@@ -282,7 +673,7 @@ export async function processMessage(
       description: e.description,
       sender_name: e.sender_name,
     }));
-    const extraction = await extractEvents(message.content, context, new Date().toISOString(), eventsForGemini, message.timestamp);
+    const extraction = await extractEvents(message.content, context, new Date().toISOString(), eventsForGemini, message.timestamp, timezone);
 
     for (const event of extraction.events) {
       if (event.confidence < 0.65) {
@@ -305,22 +696,26 @@ export async function processMessage(
           if (event.description) updateFields.description = event.description;
           if (event.location) updateFields.location = event.location;
           if (event.event_time) {
-            try {
-              let parsedTime = Math.floor(new Date(event.event_time).getTime() / 1000);
-              if (!isNaN(parsedTime) && parsedTime > 0) {
-                // Guard: push past dates forward
-                const nowUnix = Math.floor(Date.now() / 1000);
-                if (parsedTime < nowUnix - 3600) {
-                  const weekSec = 7 * 24 * 3600;
-                  while (parsedTime < nowUnix) parsedTime += weekSec;
-                  console.log(`\u23e9 [Date Fix] CRUD update had past date, moved to ${new Date(parsedTime * 1000).toISOString()}`);
-                }
-                updateFields.event_time = parsedTime;
+            const resolved = resolveEventTime(event.event_time, {
+              timezone,
+              referenceTime: message.timestamp,
+              timeReference: event.time_reference,
+              isPast: event.is_past,
+            });
+            if (resolved) {
+              if (resolved.adjustment) {
+                console.log(`\u23e9 [Date Fix] CRUD update: ${resolved.adjustment} (${formatEventTime(resolved.time, timezone)})`);
               }
-            } catch { /* skip invalid time */ }
+              updateFields.event_time = resolved.time;
+            }
           }
           if (event.keywords && event.keywords.length > 0) updateFields.keywords = event.keywords.join(',');
           if (event.participants && event.participants.length > 0) updateFields.participants = JSON.stringify(event.participants);
+          if (event.recurrence && isValidRRule(event.recurrence)) {
+            updateFields.recurrence = normalizeRRule(event.recurrence);
+            updateFields.recurrence_tz = timezone;
+            if (updateFields.event_time) updateFields.recurrence_start = updateFields.event_time;
+          }
         } else if (eventAction === 'merge') {
           // Merge: append to description
           if (event.description) {
@@ -340,9 +735,14 @@ export async function processMessage(
           }
         }
 
+        // A merge may only say who's coming — recorded even when no field changes
+        const answered = recordAttendance(targetEventId, event.attendance, message, senderName);
+        if (answered) attendance.push(answered);
+
         if (Object.keys(updateFields).length > 0) {
-          const updated = updateEvent(targetEventId, updateFields);
+          const updated = withChangeSource('webhook', () => updateEvent(targetEventId, updateFields));
           if (updated) {
+            linkEventMessages(targetEventId, sourceMessageIds);
             const changedStr = Object.keys(updateFields).join(', ');
             console.log(`✅ [CRUD] Event #${targetEventId} updated: [${changedStr}]`);
             
@@ -361,6 +761,8 @@ export async function processMessage(
             });
             eventsCreated++; // Count as an "event processed"
           }
+        } else if (answered) {
+          linkEventMessages(targetEventId, sourceMessageIds);
         }
         continue; // Skip normal insert — we updated instead
       }
@@ -372,113 +774,60 @@ export async function processMessage(
         continue;
       }
 
-      // Parse event time
+      // Parse event time — wall-clock time in the sender's timezone, resolved against the message time
       let eventTime: number | null = null;
+      let isPastEvent = false;
       if (event.event_time) {
-        try {
-          eventTime = Math.floor(new Date(event.event_time).getTime() / 1000);
-          if (isNaN(eventTime)) {
-            console.log(`\u26a0\ufe0f [Date] Invalid event_time from Gemini: "${event.event_time}" \u2192 NaN`);
-            eventTime = null;
-          } else {
-            // Guard: if Gemini returned a date in the past, push forward by weeks
-            const nowUnix = Math.floor(Date.now() / 1000);
-            if (eventTime < nowUnix - 3600) { // more than 1 hour in the past
-              const weekSec = 7 * 24 * 3600;
-              while (eventTime < nowUnix) eventTime += weekSec;
-              console.log(`\u23e9 [Date Fix] Gemini returned past date for "${event.title}", moved forward to ${new Date(eventTime * 1000).toISOString()}`);
-            }
+        const resolved = resolveEventTime(event.event_time, {
+          timezone,
+          referenceTime: message.timestamp,
+          timeReference: event.time_reference,
+          isPast: event.is_past,
+        });
+        if (!resolved) {
+          console.log(`\u26a0\ufe0f [Date] Invalid event_time from Gemini: "${event.event_time}" \u2192 NaN`);
+        } else {
+          eventTime = resolved.time;
+          isPastEvent = resolved.isPast;
+          if (resolved.adjustment) {
+            console.log(`\u23e9 [Date Fix] "${event.title}": ${resolved.adjustment} (${formatEventTime(eventTime, timezone)})`);
+          } else if (isPastEvent) {
+            console.log(`\u23ea [Date] "${event.title}" happened in the past (${formatEventTime(eventTime, timezone)}) — recorded as expired`);
           }
-        } catch {
-          eventTime = null;
         }
       }
 
-      // Determine context_url based on event type
-      let contextUrl: string | null = null;
-      
-      // Known streaming/service keywords that should trigger context reminders
-      const serviceKeywords = [
-        'netflix', 'hotstar', 'amazon', 'prime', 'disney', 'spotify', 
-        'youtube', 'hulu', 'hbo', 'zee5', 'sonyliv', 'jiocinema',
-        'canva', 'figma', 'notion', 'slack', 'zoom',
-        'gym', 'domain', 'hosting', 'hostinger', 'aws', 'azure', 'vercel', 'heroku'
-      ];
-      
-      // Build search text from all fields
-      const searchText = `${event.location || ''} ${event.keywords.join(' ')} ${event.title} ${event.description || ''}`.toLowerCase();
-      
-      // Check for service keywords in ANY event type
-      for (const service of serviceKeywords) {
-        if (searchText.includes(service)) {
-          contextUrl = service;
-          console.log(`[Ingestion] Found context keyword "${service}" in event "${event.title}"`);
-          break;
-        }
-      }
-      
-      // For travel: extract location keywords (goa, mumbai, delhi, etc.)
-      if (event.type === 'travel' || event.type === 'recommendation') {
-        const travelKeywords = [
-          'goa', 'mumbai', 'delhi', 'bangalore', 'chennai', 'kolkata', 'hyderabad',
-          'jaipur', 'udaipur', 'kerala', 'manali', 'shimla', 'ladakh', 'kashmir',
-          'thailand', 'bali', 'singapore', 'dubai', 'maldives', 'europe'
-        ];
-        
-        const travelSearchText = `${event.location || ''} ${event.keywords.join(' ')} ${event.title} ${event.description || ''}`.toLowerCase();
-        
-        for (const place of travelKeywords) {
-          if (travelSearchText.includes(place)) {
-            contextUrl = place;
-            break;
-          }
-        }
-      }
-      
-      // For gifts/shopping: map product categories to shopping site keywords
-      // so that visiting nykaa/myntra/amazon triggers the reminder
-      if (!contextUrl && event.type === 'recommendation') {
-        const shoppingText = `${event.keywords.join(' ')} ${event.title} ${event.description || ''}`.toLowerCase();
-        
-        // Beauty/makeup → nykaa
-        const beautyKeywords = ['makeup', 'beauty', 'cosmetic', 'skincare', 'lipstick', 'foundation', 'perfume', 'fragrance', 'nykaa'];
-        const fashionKeywords = ['sneakers', 'shoes', 'clothes', 'dress', 'fashion', 'shirt', 'jeans', 'kurta', 'saree', 'myntra', 'nike', 'adidas', 'puma'];
-        const giftKeywords = ['gift', 'birthday', 'anniversary', 'present'];
-        
-        const isBeauty = beautyKeywords.some(k => shoppingText.includes(k));
-        const isFashion = fashionKeywords.some(k => shoppingText.includes(k));
-        const isGift = giftKeywords.some(k => shoppingText.includes(k));
-        
-        if (isBeauty) {
-          contextUrl = 'nykaa';
-          console.log(`[Ingestion] Gift/beauty intent → context_url="nykaa" for "${event.title}"`);
-        } else if (isFashion) {
-          contextUrl = 'myntra';
-          console.log(`[Ingestion] Gift/fashion intent → context_url="myntra" for "${event.title}"`);
-        } else if (isGift) {
-          // General gift → amazon (broadest match)
-          contextUrl = 'amazon';
-          console.log(`[Ingestion] Gift/general intent → context_url="amazon" for "${event.title}"`);
+      // Recurring events: event_time becomes the first occurrence after the message,
+      // recurrence_start anchors the series (9am on the message day when no time was given)
+      let recurrence: string | null = null;
+      let recurrenceStart: number | null = null;
+      if (event.recurrence) {
+        if (!isValidRRule(event.recurrence)) {
+          console.log(`\u26a0\ufe0f [Recur] Ignoring unsupported recurrence "${event.recurrence}" for "${event.title}"`);
+        } else {
+          recurrence = normalizeRRule(event.recurrence);
+          const day = getZonedParts(new Date(message.timestamp * 1000), timezone);
+          recurrenceStart = eventTime ?? zonedTimeToUnix({ year: day.year, month: day.month, day: day.day, hour: 9 }, timezone);
+          eventTime = getNextOccurrence(recurrence, recurrenceStart, message.timestamp - 1, timezone);
+          isPastEvent = eventTime === null;
+          console.log(`🔁 [Recur] "${event.title}" repeats ${describeRRule(recurrence)}${eventTime ? ` — next ${formatEventTime(eventTime, timezone)}` : ' — no upcoming occurrences'}`);
         }
       }
 
-      // For any event mentioning a location, also try to set context_url
-      if (!contextUrl && event.location) {
-        const locationLower = event.location.toLowerCase();
-        // Check for travel destinations in location
-        const places = ['goa', 'mumbai', 'delhi', 'bangalore', 'chennai', 'kolkata'];
-        for (const place of places) {
-          if (locationLower.includes(place)) {
-            contextUrl = place;
-            break;
-          }
-        }
+      // Determine context URLs from the context rules (keywords / event type / recipient → URL patterns)
+      // context_url keeps the first pattern; the full list goes to event_context_urls below
+      const contextUrls = resolveContextUrls(event);
+      const contextUrl = contextUrls ? contextUrls.urls[0] : null;
+      if (contextUrls) {
+        console.log(`[Ingestion] Context rule "${contextUrls.rule.name}" → ${contextUrls.urls.join(', ')} for "${event.title}"`);
       }
 
       // Events start as 'discovered' — user must approve/acknowledge them
       // Context/URL-based events (recommendations, subscriptions) go to 'scheduled' since they trigger on URL visits
+      // Events that already happened are kept for recall but never reminded
       const isContextEvent = contextUrl !== null;
-      const initialStatus = isContextEvent ? 'scheduled' as const : 'discovered' as const;
+      const initialStatus = isPastEvent ? 'expired' as const
+        : isContextEvent ? 'scheduled' as const : 'discovered' as const;
 
       // Insert event
       const eventData = {
@@ -494,9 +843,18 @@ export async function processMessage(
         status: initialStatus,
         context_url: contextUrl,
         sender_name: senderName,
+        recurrence,
+        recurrence_start: recurrenceStart,
+        recurrence_tz: recurrence ? timezone : null,
+        chat_id: message.chat_id,
+        sender_jid: getSenderJid(message),
       };
-      const eventId = insertEvent(eventData);
+      const eventId = withChangeSource('webhook', () => insertEvent(eventData));
+      linkEventMessages(eventId, sourceMessageIds);
+      if (contextUrls) addEventContextUrls(eventId, contextUrls.urls);
       eventsCreated++;
+      const answered = recordAttendance(eventId, event.attendance, message, senderName);
+      if (answered) attendance.push(answered);
       
       // Track for return
       createdEvents.push({
@@ -510,7 +868,9 @@ export async function processMessage(
         keywords: event.keywords.join(','),
         confidence: event.confidence,
         context_url: contextUrl,
+        context_urls: contextUrls?.urls ?? [],
         sender_name: senderName,
+        recurrence,
       });
 
       // Check for calendar conflicts
@@ -529,26 +889,10 @@ export async function processMessage(
       }
 
       // Create triggers
-      // Time-based triggers at 3 intervals: 24h, 1h, 15min before event
+      // Time-based triggers at the reminder offsets for the event type (next occurrence for recurring
+      // ones — the scheduler creates the following occurrence's triggers when this one has passed)
       if (eventTime) {
-        const intervals: Array<{ type: TriggerType; offset: number }> = [
-          { type: 'time_24h', offset: 24 * 60 * 60 },
-          { type: 'time_1h', offset: 60 * 60 },
-          { type: 'time_15m', offset: 15 * 60 },
-        ];
-        const now = Math.floor(Date.now() / 1000);
-        for (const { type, offset } of intervals) {
-          const triggerTime = eventTime - offset;
-          if (triggerTime > now) {
-            insertTrigger({
-              event_id: eventId,
-              trigger_type: type,
-              trigger_value: new Date(triggerTime * 1000).toISOString(),
-              is_fired: false,
-            });
-            triggersCreated++;
-          }
-        }
+        triggersCreated += syncTimeTriggers(eventId);
       }
 
       // Location/URL triggers
@@ -580,22 +924,393 @@ export async function processMessage(
     console.log(`📥 Processed message ${message.id}: ${eventsCreated} events, ${triggersCreated} triggers`);
     
   } catch (error) {
+    // Rethrow so the ingestion queue can retry with backoff instead of losing the extraction
     console.error(`❌ Failed to process message ${message.id}:`, error);
+    throw error;
+  }
+
+  return {
+    messageId: message.id,
+    eventsCreated,
+    triggersCreated,
+    skipped: false,
+    events: createdEvents,
+    ...(attendance.length > 0 && { attendance }),
+  };
+}
+
+// ============ RSVPs: replies and reactions ============
+// A reply or reaction answers the plan of the message it's on. Everyone's answer is recorded
+// per event; the owner's answer also moves the event, and so does the other person's in a 1:1
+// chat (the plan is between the two of them). Accepting approves a discovered event, the owner
+// declining ignores it (no more reminders) and the other person declining cancels it — through
+// the action policies like any other action. In groups only the owner's answer moves events.
+
+// Reactions that answer a plan — anything else (😂, 😮, ...) is just a reaction
+const REACTION_RESPONSES: Record<string, RsvpResponse> = {
+  '👍': 'accepted', '✅': 'accepted', '👌': 'accepted', '❤️': 'accepted', '🙌': 'accepted', '💯': 'accepted',
+  '👎': 'declined', '❌': 'declined', '🚫': 'declined',
+  '🤔': 'tentative',
+};
+
+export function getReactionResponse(emoji: string): RsvpResponse | null {
+  // 👍🏽 counts as 👍 — skin tones are dropped, and ❤ is matched with or without its variation selector
+  const base = emoji.replace(/[\u{1F3FB}-\u{1F3FF}]/gu, '').trim();
+  return REACTION_RESPONSES[base] ?? REACTION_RESPONSES[`${base}\uFE0F`] ?? null;
+}
+
+// Record an answer on each event and move the events it decides
+function answerEvents(
+  events: Event[],
+  answer: { chatId: string; responder: string; responderName: string | null; response: RsvpResponse; via: RsvpVia; messageId: string; confidence: number }
+): IngestionResult {
+  const isGroup = answer.chatId.endsWith('@g.us') || answer.chatId.endsWith(EXPORT_CHAT_SUFFIX);
+  const movesEvents = answer.responder === 'self' || !isGroup;
+  const performed: ActionResult[] = [];
+  const pending: PendingAction[] = [];
+
+  for (const event of events) {
+    upsertEventRsvp({
+      event_id: event.id!,
+      responder: answer.responder,
+      name: answer.responderName,
+      response: answer.response,
+      via: answer.via,
+      message_id: answer.messageId,
+    });
+    if (!movesEvents) continue;
+
+    if (answer.response === 'accepted' && event.status === 'discovered') {
+      withChangeSource('webhook', () => updateEvent(event.id!, { status: 'scheduled' }));
+      performed.push(actionSummary('accept', event, `Accepted: "${event.title}"`));
+    } else if (answer.response === 'declined') {
+      const action: EventAction = answer.responder === 'self' ? 'ignore' : 'cancel';
+      const reason = getConfirmationReason(action, answer.confidence, 'message');
+      if (reason) {
+        pending.push(holdAction(event, action, {}, describeAction(action, event.title, {}), {
+          confidence: answer.confidence,
+          resolvedVia: 'message',
+          reason: `${answer.responderName || answer.responder} declined (${reason})`,
+          messageId: answer.messageId,
+        }));
+      } else {
+        performed.push(actionSummary(action, event, applyEventAction(event.id!, action, {}, 'webhook')));
+      }
+    }
   }
 
-  return { messageId: message.id, eventsCreated, triggersCreated, skipped: false, events: createdEvents };
+  console.log(`📨 [RSVP] ${answer.responderName || answer.responder} ${answer.response} ${events.map(e => `"${e.title}"`).join(', ')} (${answer.via})`);
+  return {
+    ...actionOutcome(answer.messageId, performed, pending),
+    rsvp: {
+      responder: answer.responder,
+      responderName: answer.responderName,
+      response: answer.response,
+      via: answer.via,
+      events: events.map(e => ({ eventId: e.id!, eventTitle: e.title })),
+    },
+  };
 }
 
-// Batch import for initial data load
+// A reply to a message with events — null when it doesn't answer them
+async function processReply(message: Message, quotedId: string, senderName: string | null): Promise<IngestionResult | null> {
+  const events = getActiveEventsForMessage(quotedId);
+  if (events.length === 0) return null;
+
+  const quoted = getMessageById(quotedId)?.content ?? '';
+  const reply = await classifyReply(message.content, quoted, events.map(e => e.title));
+  if (reply.response === 'none' || reply.confidence < 0.6) return null;
+
+  return answerEvents(events, {
+    chatId: message.chat_id,
+    responder: message.sender,
+    responderName: senderName,
+    response: reply.response,
+    via: 'reply',
+    messageId: message.id,
+    confidence: reply.confidence,
+  });
+}
+
+// A reaction isn't stored as a message — it only counts when it's on a message with events.
+// It follows the chat's policy like a message would.
+function processReaction(payload: WhatsAppWebhook, options: WebhookOptions): IngestionResult {
+  const { key, pushName } = payload.data;
+  const reaction = payload.data.message!.reactionMessage!;
+
+  if (options.historical) return skippedResult(key.id, 'historical_reaction');
+  if (key.fromMe && !options.processOwnMessages) return skippedResult(key.id, 'own_message');
+  const policySkip = getChatPolicySkipReason(payload, options);
+  if (policySkip) return skippedResult(key.id, policySkip);
+
+  const events = getActiveEventsForMessage(reaction.key.id);
+  if (events.length === 0) return skippedResult(key.id, 'no_events');
+
+  const responder = getSender(key);
+  if (!reaction.text) {
+    for (const event of events) deleteReactionRsvp(event.id!, responder);
+    return skippedResult(key.id, 'reaction_removed');
+  }
+
+  const response = getReactionResponse(reaction.text);
+  if (!response) return skippedResult(key.id, 'not_an_answer');
+
+  return answerEvents(events, {
+    chatId: key.remoteJid,
+    responder,
+    responderName: pushName || null,
+    response,
+    via: 'reaction',
+    messageId: key.id,
+    confidence: 1,
+  });
+}
+
+// ============ Attendance read from the chat ============
+// For meetings and trips Gemini also reads who said they're coming out of the conversation
+// ("Rahul's in, Priya can't come") — recorded as RSVPs alongside replies and reactions, but
+// never moving the event. Names resolve to contacts when they can; 'SENDER' is the author.
+
+const ATTENDANCE_EVENT_TYPES: EventType[] = ['meeting', 'travel'];
+
+function recordAttendance(
+  eventId: number,
+  answers: GeminiExtraction['events'][number]['attendance'],
+  message: Message,
+  senderName: string | null
+): AttendanceResult | null {
+  if (!answers?.length) return null;
+  const event = getEventById(eventId);
+  if (!event || !ATTENDANCE_EVENT_TYPES.includes(event.event_type)) return null;
+
+  const recorded: AttendanceResult['answers'] = [];
+  for (const entry of answers) {
+    // Gemini's output isn't validated upstream — skip answers that aren't one
+    const response = RsvpResponseEnum.safeParse(entry.response);
+    const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+    if (!response.success || !name) continue;
+
+    const isSender = name.toUpperCase() === ATTENDANCE_SENDER;
+    const responder = isSender ? message.sender : resolveContactIdByName(name) ?? name.toLowerCase();
+    const answer = { responder, name: isSender ? senderName : name, response: response.data };
+    upsertEventRsvp({ event_id: eventId, ...answer, via: 'mention', message_id: message.id });
+    recorded.push(answer);
+  }
+  if (recorded.length === 0) return null;
+
+  console.log(`📋 [Attendance] "${event.title}": ${recorded.map(a => `${a.name || a.responder} ${a.response}`).join(', ')}`);
+  return { eventId, eventTitle: event.title, answers: recorded };
+}
+
+// A sender edited a message or deleted it for everyone
+export type MessageChange =
+  | { kind: 'edit'; messageId: string; chatId: string | null; message: WhatsAppMessage }
+  | { kind: 'revoke'; messageId: string; chatId: string | null };
+
+const REVOKE_TYPES: Array<string | number> = [0, 'REVOKE'];
+
+function getProtocolMessage(message: WhatsAppMessage): WhatsAppProtocolMessage | undefined {
+  return message.protocolMessage ?? message.editedMessage?.message?.protocolMessage;
+}
+
+function fromProtocolMessage(protocol: WhatsAppProtocolMessage): MessageChange | null {
+  const { id, remoteJid } = protocol.key;
+  if (protocol.type !== undefined && REVOKE_TYPES.includes(protocol.type)) {
+    return { kind: 'revoke', messageId: id, chatId: remoteJid ?? null };
+  }
+  if (protocol.editedMessage) {
+    return { kind: 'edit', messageId: id, chatId: remoteJid ?? null, message: protocol.editedMessage };
+  }
+  return null; // Disappearing-message settings, history sync notices, ...
+}
+
+// Read an edit or delete out of a webhook body — null for anything else (new messages, read receipts).
+// Evolution reports an edit as messages.edited and messages.update, and a delete as messages.delete
+// (plus messages.edited with a REVOKE), so the same change can arrive twice.
+export function getMessageChange(body: unknown): MessageChange | null {
+  switch ((body as { event?: unknown } | null)?.event) {
+    case 'messages.delete': {
+      const parsed = WhatsAppMessageDeleteSchema.safeParse(body);
+      if (!parsed.success) return null;
+      return { kind: 'revoke', messageId: parsed.data.data.id, chatId: parsed.data.data.remoteJid };
+    }
+    case 'messages.edited': {
+      const parsed = WhatsAppMessageEditedSchema.safeParse(body);
+      return parsed.success ? fromProtocolMessage(parsed.data.data) : null;
+    }
+    case 'messages.update': {
+      const parsed = WhatsAppMessageUpdateSchema.safeParse(body);
+      const message = parsed.success ? parsed.data.data.message : null;
+      if (!parsed.success || !message) return null; // Delivery and read receipts
+      const protocol = getProtocolMessage(message);
+      if (protocol) return fromProtocolMessage(protocol);
+      const { keyId, remoteJid } = parsed.data.data;
+      return { kind: 'edit', messageId: keyId, chatId: remoteJid, message: message.editedMessage?.message ?? message };
+    }
+    case 'messages.upsert': {
+      const parsed = WhatsAppWebhookSchema.safeParse(body);
+      const protocol = parsed.success && parsed.data.data.message ? getProtocolMessage(parsed.data.data.message) : undefined;
+      return protocol ? fromProtocolMessage(protocol) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function skippedResult(messageId: string, skipReason: string): IngestionResult {
+  return { messageId, eventsCreated: 0, triggersCreated: 0, skipped: true, skipReason };
+}
+
+// Apply an edit or delete to the stored message and to the events extracted from it
+export async function processMessageChange(change: MessageChange): Promise<IngestionResult> {
+  // Messages Argus never stored (muted chats, skipped own messages, ...) have nothing to update
+  const message = getMessageById(change.messageId);
+  if (!message) return skippedResult(change.messageId, 'message_not_found');
+  if (message.deleted_at) return skippedResult(message.id, 'message_deleted');
+
+  return change.kind === 'revoke'
+    ? retractMessageEvents(message)
+    : reanalyzeEditedMessage(message, change.message);
+}
+
+// Deleted for everyone: its events get the "delete" action — removed (with undo), or held
+// for confirmation when the delete action policy asks
+function retractMessageEvents(message: Message): IngestionResult {
+  if (!markMessageDeleted(message.id)) return skippedResult(message.id, 'message_deleted');
+
+  const performed: ActionResult[] = [];
+  const pending: PendingAction[] = [];
+  for (const event of getActiveEventsForMessage(message.id)) {
+    const reason = getConfirmationReason('delete', 1, 'message');
+    if (reason) {
+      pending.push(holdAction(event, 'delete', {}, describeAction('delete', event.title, {}), {
+        confidence: 1,
+        resolvedVia: 'message',
+        reason: `the message it came from was deleted (${reason})`,
+        messageId: message.id,
+      }));
+    } else {
+      performed.push(actionSummary('delete', event, applyEventAction(event.id!, 'delete', {}, 'webhook')));
+    }
+  }
+
+  console.log(`🗑️ [INGEST] Message ${message.id} was deleted — ${performed.length} event(s) retracted, ${pending.length} held for confirmation`);
+  return actionOutcome(message.id, performed, pending);
+}
+
+// Fields an edited message's extraction disagrees with. Descriptions are left alone —
+// Gemini rewords them on every run, which would turn each edit into a change.
+function diffExtractedEvent(
+  event: Event,
+  extracted: GeminiExtraction['events'][number],
+  timezone: string,
+  referenceTime: number
+): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  if (extracted.title.trim() && extracted.title.toLowerCase() !== event.title.toLowerCase()) changes.title = extracted.title;
+  if (extracted.event_time) {
+    const resolved = resolveEventTime(extracted.event_time, {
+      timezone,
+      referenceTime,
+      timeReference: extracted.time_reference,
+      isPast: extracted.is_past,
+    });
+    if (resolved && resolved.time !== event.event_time) changes.event_time = resolved.time;
+  }
+  if (extracted.location && extracted.location !== event.location) changes.location = extracted.location;
+  return changes;
+}
+
+// Edited: extraction runs again on the new text with the message's events as the existing ones,
+// and every difference is proposed as a modify (or a delete when the event is gone from the text).
+// Nothing is applied without confirmation. A message that produced no events is analyzed afresh.
+async function reanalyzeEditedMessage(message: Message, edited: WhatsAppMessage): Promise<IngestionResult> {
+  const { content } = extractMessageContent(edited);
+  if (!content) return skippedResult(message.id, 'no_content');
+  if (content === message.content) return skippedResult(message.id, 'unchanged');
+
+  updateMessageContent(message.id, content);
+  const updated: Message = { ...message, content };
+  const timezone = getMessageTimezone(message);
+  const context = getRecentMessages(message.chat_id, 6)
+    .filter(m => m.id !== message.id)
+    .slice(0, 5)
+    .map(m => m.content);
+  console.log(`✏️ [INGEST] Message ${message.id} was edited — re-checking its events`);
+
+  const events = getActiveEventsForMessage(message.id);
+  if (events.length === 0) {
+    if (shouldSkipMessage(content)) return skippedResult(message.id, 'trivial_message');
+    return processMessage(updated, context, getContactById(message.sender)?.name ?? null, getActiveEvents(20));
+  }
+
+  const extraction = await extractEvents(content, context, new Date().toISOString(), events.map(e => ({
+    id: e.id!,
+    title: e.title,
+    event_type: e.event_type,
+    keywords: e.keywords,
+    event_time: e.event_time,
+    location: e.location,
+    description: e.description,
+    sender_name: e.sender_name,
+  })), message.timestamp, timezone);
+  const found = extraction.events.filter(e => e.confidence >= 0.65);
+
+  const pending: PendingAction[] = [];
+  for (const event of events) {
+    const match = found.find(e => e.target_event_id === event.id)
+      ?? found.find(e => e.title.toLowerCase() === event.title.toLowerCase())
+      ?? (events.length === 1 ? found[0] : undefined);
+
+    if (!match) {
+      pending.push(holdAction(event, 'delete', {}, describeAction('delete', event.title, {}), {
+        confidence: 1,
+        resolvedVia: 'message',
+        reason: 'the edited message no longer mentions it',
+        messageId: message.id,
+      }));
+      continue;
+    }
+
+    const changes = diffExtractedEvent(event, match, timezone, message.timestamp);
+    if (Object.keys(changes).length === 0) continue;
+    pending.push(holdAction(event, 'modify', changes, describeActionChanges('modify', event.title, changes, timezone), {
+      confidence: match.confidence,
+      resolvedVia: 'message',
+      reason: 'the message it came from was edited',
+      messageId: message.id,
+    }));
+  }
+
+  return actionOutcome(message.id, [], pending);
+}
+
+// Stable ID for an imported message without one, so importing the same history twice is a no-op.
+// occurrence tells apart identical messages (same sender, time and text) within one import.
+export function getImportMessageId(msg: { content: string; sender: string; chatId: string; timestamp: number; occurrence?: number }): string {
+  const parts: unknown[] = [msg.chatId, msg.sender, msg.timestamp, msg.content];
+  if (msg.occurrence) parts.push(msg.occurrence);
+  const digest = createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  return `import_${digest.slice(0, 24)}`;
+}
+
+// Batch import for initial data load — messages Argus already has are skipped
 export async function batchImportMessages(
-  messages: Array<{ content: string; sender: string; chatId: string; timestamp: number }>
-): Promise<{ total: number; processed: number; events: number }> {
+  messages: Array<{ id?: string; content: string; sender: string; chatId: string; timestamp: number }>
+): Promise<{ total: number; processed: number; events: number; duplicates: number }> {
   let processed = 0;
   let totalEvents = 0;
+  let duplicates = 0;
 
   for (const msg of messages) {
+    const id = msg.id || getImportMessageId(msg);
+    if (getMessageById(id)) {
+      duplicates++;
+      continue;
+    }
+
     const message: Message = {
-      id: `import_${Date.now()}_${Math.random().toString(36).slice(2)}`,
+      id,
       chat_id: msg.chatId,
       sender: msg.sender,
       content: msg.content,
@@ -606,11 +1321,15 @@ export async function batchImportMessages(
 
     // Trivial pre-filter only — Gemini decides the rest
     if (!shouldSkipMessage(msg.content)) {
-      const result = await processMessage(message);
-      totalEvents += result.eventsCreated;
-      processed++;
+      try {
+        const result = await processMessage(message);
+        totalEvents += result.eventsCreated;
+        processed++;
+      } catch {
+        // Already logged by processMessage — keep importing the rest of the batch
+      }
     }
   }
 
-  return { total: messages.length, processed, events: totalEvents };
+  return { total: messages.length, processed, events: totalEvents, duplicates };
 }
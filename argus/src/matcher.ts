@@ -1,45 +1,8 @@
-import { searchEventsByKeywords, searchEventsByLocation } from './db.js';
+import { searchEventsByKeywords, searchEventsByLocation, getContextRules } from './db.js';
 import { validateRelevance } from './gemini.js';
+import { matchUrlPattern } from './url-patterns.js';
 import type { Event, ContextCheckResponse } from './types.js';
 
-// Common URL patterns to extract context
-const URL_PATTERNS: Array<{ pattern: RegExp; activity: string; keywords: (match: RegExpMatchArray) => string[] }> = [
-  // Travel
-  { pattern: /makemytrip\.com.*\/(flights?|hotels?|trains?)\/?(.*)$/i, activity: 'travel_booking', keywords: m => extractUrlKeywords(m[2]) },
-  { pattern: /goibibo\.com.*\/(flights?|hotels?)\/?(.*)$/i, activity: 'travel_booking', keywords: m => extractUrlKeywords(m[2]) },
-  { pattern: /booking\.com.*\/(.*)$/i, activity: 'hotel_booking', keywords: m => extractUrlKeywords(m[1]) },
-  { pattern: /airbnb\.(com|co\.in).*\/(.*)$/i, activity: 'accommodation', keywords: m => extractUrlKeywords(m[2]) },
-  { pattern: /skyscanner\.(com|co\.in).*\/(.*)$/i, activity: 'flight_search', keywords: m => extractUrlKeywords(m[2]) },
-  { pattern: /tripadvisor\.(com|in).*\/(.*)$/i, activity: 'travel_research', keywords: m => extractUrlKeywords(m[2]) },
-  
-  // Shopping
-  { pattern: /amazon\.(com|in).*\/s\?.*k=([^&]+)/i, activity: 'shopping_search', keywords: m => [decodeURIComponent(m[2]).replace(/\+/g, ' ')] },
-  { pattern: /amazon\.(com|in).*\/dp\/\w+/i, activity: 'shopping_product', keywords: () => [] },
-  { pattern: /amazon\.(com|in)/i, activity: 'shopping', keywords: () => ['amazon', 'shopping', 'gift', 'buy'] },
-  { pattern: /flipkart\.com.*\/search\?q=([^&]+)/i, activity: 'shopping_search', keywords: m => [decodeURIComponent(m[1])] },
-  { pattern: /flipkart\.com/i, activity: 'shopping', keywords: () => ['flipkart', 'shopping', 'gift', 'buy'] },
-  { pattern: /myntra\.com.*\/(.*)$/i, activity: 'fashion_shopping', keywords: m => extractUrlKeywords(m[1]) },
-  { pattern: /myntra\.com/i, activity: 'fashion_shopping', keywords: () => ['myntra', 'fashion', 'shoes', 'sneakers', 'clothes', 'gift'] },
-  { pattern: /nykaa\.com/i, activity: 'beauty_shopping', keywords: () => ['nykaa', 'beauty', 'makeup', 'cosmetics', 'skincare', 'gift'] },
-  { pattern: /ajio\.com/i, activity: 'fashion_shopping', keywords: () => ['ajio', 'fashion', 'clothes', 'shoes', 'gift'] },
-  { pattern: /tatacliq\.com/i, activity: 'shopping', keywords: () => ['tatacliq', 'shopping', 'electronics', 'fashion', 'gift'] },
-  
-  // Subscriptions
-  { pattern: /netflix\.com/i, activity: 'streaming', keywords: () => ['netflix', 'subscription', 'streaming'] },
-  { pattern: /spotify\.com/i, activity: 'music', keywords: () => ['spotify', 'subscription', 'music'] },
-  { pattern: /primevideo\.com/i, activity: 'streaming', keywords: () => ['prime', 'amazon', 'subscription'] },
-  { pattern: /hotstar\.com|disney\+/i, activity: 'streaming', keywords: () => ['hotstar', 'disney', 'subscription'] },
-  { pattern: /canva\.com/i, activity: 'design', keywords: () => ['canva', 'design', 'subscription'] },
-  
-  // Finance
-  { pattern: /policybazaar\.com.*\/(car|bike|health|life)/i, activity: 'insurance', keywords: m => [m[1], 'insurance'] },
-  { pattern: /bankbazaar\.com/i, activity: 'finance', keywords: () => ['loan', 'credit', 'bank'] },
-  
-  // Calendar/Productivity
-  { pattern: /calendar\.google\.com/i, activity: 'calendar', keywords: () => ['meeting', 'event', 'schedule'] },
-  { pattern: /outlook\.(com|office)/i, activity: 'email', keywords: () => ['email', 'meeting'] },
-];
-
 function extractUrlKeywords(path: string): string[] {
   if (!path) return [];
   return path
@@ -50,24 +13,28 @@ function extractUrlKeywords(path: string): string[] {
 }
 
 export function extractContextFromUrl(url: string, title?: string): { activity: string; keywords: string[] } {
-  // Try URL patterns
-  for (const { pattern, activity, keywords } of URL_PATTERNS) {
-    const match = url.match(pattern);
-    if (match) {
-      const kws = keywords(match);
-      // Also extract from URL path
-      const urlObj = new URL(url);
-      const pathKeywords = extractUrlKeywords(urlObj.pathname);
-      return { 
-        activity, 
-        keywords: [...new Set([...kws, ...pathKeywords])].filter(Boolean),
-      };
+  const urlObj = new URL(url);
+  const pathKeywords = extractUrlKeywords(urlObj.pathname);
+
+  // Try browsing context rules (highest priority first)
+  for (const rule of getContextRules({ appliesTo: 'browsing', enabledOnly: true })) {
+    if (!rule.url_patterns.some(pattern => !pattern.includes('{keyword}') && matchUrlPattern(pattern, urlObj))) continue;
+
+    const kws = [...rule.keywords];
+    if (rule.query_param) {
+      // Search rules only apply to actual searches
+      const searchTerm = urlObj.searchParams.get(rule.query_param);
+      if (!searchTerm) continue;
+      kws.unshift(searchTerm);
     }
+
+    return {
+      activity: rule.activity || 'browsing',
+      keywords: [...new Set([...kws, ...pathKeywords])].filter(Boolean),
+    };
   }
 
   // Fallback: extract from URL and title
-  const urlObj = new URL(url);
-  const pathKeywords = extractUrlKeywords(urlObj.pathname);
   const titleKeywords = title 
     ? title.toLowerCase().split(/\s+/).filter(w => w.length > 3).slice(0, 5)
     : [];
@@ -0,0 +1,329 @@
+/**
+ * Notification Routing
+ * Every notification used to be broadcast to every WebSocket client, with Web Push and
+ * WhatsApp bolted onto the scheduler's reminders. Now each one is routed: the first enabled
+ * rule (notification_rules, highest priority first) matching its kind, event type, urgency
+ * and whether an extension is connected picks the channels —
+ * - overlay: the popup on the page (WebSocket broadcast)
+ * - badge: the count on the extension icon
+ * - push: Web Push (PUSH_DELIVERY still decides whether it goes out next to the overlay)
+ * - whatsapp: a message to WHATSAPP_NOTIFY_JIDS
+ * - digest: saved for the daily digest
+ * Quiet hours move everything but high-urgency notifications to the digest (WhatsApp quiet
+ * hours hold back just WhatsApp), do-not-disturb moves everything; the badge keeps counting
+ * either way, and the digest itself waits until they're over. Rules are seeded into an empty
+ * table and edited through /api/notification-rules, settings through /api/notification-settings.
+ */
+
+import { z } from 'zod';
+import {
+  getNotificationRules, insertNotificationRule, countNotificationRules,
+  insertDigestItem, getPendingDigestItems, markDigestItemsSent, getSetting, setSetting,
+} from './db.js';
+import { deliverPush, reminderPushPayload } from './push.js';
+import type { PushResult } from './push.js';
+import { notifyWhatsApp, reminderWhatsAppText } from './whatsapp.js';
+import type { WhatsAppResult } from './whatsapp.js';
+import { formatEventTime, getUserTimezone, getZonedParts } from './timezone.js';
+import { NotificationRuleSchema, NotificationSettingsSchema } from './types.js';
+import type {
+  NotificationRule, NotificationChannel, NotificationKind, NotificationUrgency, NotificationSettings, EventType,
+} from './types.js';
+
+type NotificationRuleInput = z.input<typeof NotificationRuleSchema>;
+
+// ============ DEFAULT RULES ============
+
+// What the server did before rules existed, except that discoveries nobody is around to see
+// wait for the digest instead of being broadcast into the void
+const DEFAULTS: NotificationRuleInput[] = [
+  { name: 'Reminders', kinds: ['reminder'], when_connected: 'connected', channels: ['overlay', 'push'], priority: 300 },
+  { name: 'Reminders while away', kinds: ['reminder'], when_connected: 'disconnected', channels: ['push', 'whatsapp'], priority: 300 },
+  { name: 'Snoozed events come back', kinds: ['snoozed'], channels: ['overlay', 'push'], priority: 300 },
+  { name: 'Discoveries while away', kinds: ['discovery'], when_connected: 'disconnected', channels: ['digest'], priority: 200 },
+  { name: 'Discoveries, conflicts and confirmations', kinds: ['discovery', 'conflict', 'confirmation'], channels: ['overlay', 'badge'], priority: 100 },
+];
+
+export const DEFAULT_NOTIFICATION_RULES: Array<Omit<NotificationRule, 'id' | 'created_at' | 'updated_at'>> =
+  DEFAULTS.map(rule => NotificationRuleSchema.parse(rule));
+
+// When no rule matches
+const FALLBACK_CHANNELS: NotificationChannel[] = ['overlay'];
+
+// Returns how many rules were inserted — only an empty table gets the defaults
+export function seedNotificationRules(): number {
+  if (countNotificationRules() > 0) return 0;
+  for (const rule of DEFAULT_NOTIFICATION_RULES) insertNotificationRule(rule);
+  console.log(`🔀 Seeded ${DEFAULT_NOTIFICATION_RULES.length} default notification rules`);
+  return DEFAULT_NOTIFICATION_RULES.length;
+}
+
+// ============ SETTINGS ============
+
+const QUIET_HOURS_SETTING = 'notification_quiet_hours';
+const WHATSAPP_QUIET_HOURS_SETTING = 'notification_whatsapp_quiet_hours';
+const DND_UNTIL_SETTING = 'notification_dnd_until';
+const DIGEST_TIME_SETTING = 'notification_digest_time';
+const DIGEST_SENT_ON_SETTING = 'notification_digest_sent_on';
+const DEFAULT_DIGEST_TIME = '08:00';
+
+export function getNotificationSettings(): NotificationSettings {
+  const dndUntil = getSetting(DND_UNTIL_SETTING);
+  return {
+    quiet_hours: getSetting(QUIET_HOURS_SETTING) || null,
+    whatsapp_quiet_hours: getSetting(WHATSAPP_QUIET_HOURS_SETTING) || null,
+    dnd_until: dndUntil ? Number(dndUntil) : null,
+    digest_time: getSetting(DIGEST_TIME_SETTING) || DEFAULT_DIGEST_TIME,
+  };
+}
+
+// Fields left out stay as they are; null clears quiet hours or do-not-disturb
+export function setNotificationSettings(fields: Partial<NotificationSettings>): NotificationSettings {
+  const settings = NotificationSettingsSchema.parse({ ...getNotificationSettings(), ...fields });
+  setSetting(QUIET_HOURS_SETTING, settings.quiet_hours ?? '');
+  setSetting(WHATSAPP_QUIET_HOURS_SETTING, settings.whatsapp_quiet_hours ?? '');
+  setSetting(DND_UNTIL_SETTING, settings.dnd_until === null ? '' : String(settings.dnd_until));
+  setSetting(DIGEST_TIME_SETTING, settings.digest_time);
+  return settings;
+}
+
+// WHATSAPP_QUIET_HOURS predates these settings: it becomes whatsapp_quiet_hours once, unless
+// those were ever set here — cleared ones included. Returns whether it was copied over.
+export function migrateWhatsAppQuietHours(quietHours: string | undefined): boolean {
+  if (!quietHours || getSetting(WHATSAPP_QUIET_HOURS_SETTING) !== null) return false;
+  setNotificationSettings({ whatsapp_quiet_hours: quietHours });
+  console.log(`🌙 WHATSAPP_QUIET_HOURS ${quietHours} moved to the notification settings (whatsapp_quiet_hours)`);
+  return true;
+}
+
+// ============ ROUTING ============
+
+export interface NotificationSubject {
+  kind: NotificationKind;
+  eventType?: EventType | string | null;
+  urgency: NotificationUrgency;
+}
+
+export interface RouteDecision {
+  channels: NotificationChannel[];
+  held: NotificationChannel[];             // Channels moved to the digest
+  heldBy: 'quiet_hours' | 'dnd' | null;
+  rule: { id: number; name: string } | null; // null = no rule matched, overlay only
+}
+
+// Channels do-not-disturb and quiet hours hold back — the badge is silent, so it stays
+const INTERRUPTING: NotificationChannel[] = ['overlay', 'push', 'whatsapp'];
+
+export function matchNotificationRule(subject: NotificationSubject, connected: boolean): NotificationRule | null {
+  return getNotificationRules({ enabledOnly: true }).find(rule =>
+    (rule.kinds.length === 0 || rule.kinds.includes(subject.kind)) &&
+    (rule.event_types.length === 0 || (!!subject.eventType && (rule.event_types as string[]).includes(subject.eventType))) &&
+    (rule.urgencies.length === 0 || rule.urgencies.includes(subject.urgency)) &&
+    (rule.when_connected === 'any' || (rule.when_connected === 'connected') === connected)
+  ) ?? null;
+}
+
+export function routeNotification(subject: NotificationSubject, connected: boolean, now = Date.now()): RouteDecision {
+  const rule = matchNotificationRule(subject, connected);
+  const channels = rule ? rule.channels : FALLBACK_CHANNELS;
+  const hold = currentHold(subject.urgency, now);
+
+  const held = channels.filter(c => hold.channels.includes(c));
+  const routed = channels.filter(c => !held.includes(c));
+  // Held back from everywhere that interrupts — the digest is where it'll be seen
+  if (held.length > 0 && !routed.some(c => INTERRUPTING.includes(c)) && !routed.includes('digest')) routed.push('digest');
+
+  return {
+    channels: routed,
+    held,
+    heldBy: held.length > 0 ? hold.heldBy : null,
+    rule: rule ? { id: rule.id!, name: rule.name } : null,
+  };
+}
+
+// What do-not-disturb and quiet hours hold back right now. High urgency gets through quiet
+// hours (WhatsApp's included), nothing gets through do-not-disturb.
+function currentHold(urgency: NotificationUrgency, now: number): { channels: NotificationChannel[]; heldBy: RouteDecision['heldBy'] } {
+  const settings = getNotificationSettings();
+  if (settings.dnd_until && settings.dnd_until > Math.floor(now / 1000)) return { channels: INTERRUPTING, heldBy: 'dnd' };
+  if (urgency !== 'high' && settings.quiet_hours && isWithin(settings.quiet_hours, now)) return { channels: INTERRUPTING, heldBy: 'quiet_hours' };
+  if (urgency !== 'high' && settings.whatsapp_quiet_hours && isWithin(settings.whatsapp_quiet_hours, now)) return { channels: ['whatsapp'], heldBy: 'quiet_hours' };
+  return { channels: [], heldBy: null };
+}
+
+// A reminder close to the start can't wait; a new plan from WhatsApp can
+export function notificationUrgency(kind: NotificationKind, event: { event_time?: number | null }, offsetMinutes?: number, now = Date.now()): NotificationUrgency {
+  if (kind === 'discovery') return 'low';
+  if (kind !== 'reminder') return 'normal';
+  if (offsetMinutes !== undefined) return offsetMinutes <= 15 ? 'high' : 'normal';
+  const startsIn = event.event_time ? event.event_time - Math.floor(now / 1000) : Infinity;
+  return startsIn <= 30 * 60 ? 'high' : 'normal';
+}
+
+// "22:30-07:00" in the owner's timezone; the range may wrap past midnight
+function isWithin(range: string, now: number): boolean {
+  const [start, end] = range.split('-').map(toMinuteOfDay);
+  const parts = getZonedParts(new Date(now), getUserTimezone());
+  const minute = parts.hour * 60 + parts.minute;
+  return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+function toMinuteOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// ============ DELIVERY ============
+
+// The scheduler's popup types → the WebSocket message type the extension handles
+const SCHEDULER_MESSAGE_TYPES: Record<string, string> = {
+  event_reminder: 'trigger',
+  snooze_reminder: 'notification',
+  context_reminder: 'context_reminder',
+};
+
+export function schedulerMessageType(popupType: string): string {
+  return SCHEDULER_MESSAGE_TYPES[popupType] ?? 'notification';
+}
+
+interface NotificationTransport {
+  broadcast: (data: object) => number; // Returns how many clients it reached
+  connectedClients: () => number;
+}
+
+let transport: NotificationTransport | null = null;
+let digestInterval: NodeJS.Timeout | null = null;
+
+export interface NotificationEvent {
+  id: number;
+  title: string;
+  event_time?: number | null;
+  location?: string | null;
+  event_type?: string | null;
+}
+
+export interface Notification {
+  kind: NotificationKind;
+  event: NotificationEvent;
+  type: string;                             // WebSocket message type of the overlay
+  offsetMinutes?: number;                   // Reminder offset that fired
+  text?: string;                            // WhatsApp/digest text, defaults to one built from the event
+  overlay: () => Promise<object> | object;  // The overlay message — only built when it's sent
+}
+
+export interface DeliveryResult extends RouteDecision {
+  urgency: NotificationUrgency;
+  reached: number;  // WebSocket clients that got the overlay
+  push: PushResult | null;
+  whatsapp: WhatsAppResult | null;
+}
+
+export function initNotifications(opts: NotificationTransport): void {
+  transport = opts;
+}
+
+export async function deliverNotification(notification: Notification, now = Date.now()): Promise<DeliveryResult> {
+  const { kind, event } = notification;
+  const connected = (transport?.connectedClients() ?? 0) > 0;
+  const urgency = notificationUrgency(kind, event, notification.offsetMinutes, now);
+  const decision = routeNotification({ kind, eventType: event.event_type, urgency }, connected, now);
+  const result: DeliveryResult = { ...decision, urgency, reached: 0, push: null, whatsapp: null };
+  const text = notification.text ?? notificationText(kind, event, now);
+
+  if (decision.channels.includes('overlay') && transport) {
+    result.reached = transport.broadcast(await notification.overlay());
+  }
+  if (decision.channels.includes('badge') && transport) {
+    transport.broadcast({ type: 'badge', kind, eventId: event.id, title: event.title });
+  }
+  if (decision.channels.includes('push')) {
+    // With Chrome closed nobody gets the overlay — Web Push still reaches the browser
+    result.push = await deliverPush(reminderPushPayload(notification.type, event), result.reached);
+  }
+  if (decision.channels.includes('whatsapp')) {
+    result.whatsapp = await notifyWhatsApp(text, event.id, now);
+  }
+  if (decision.channels.includes('digest')) {
+    insertDigestItem(kind, event.id, text);
+  }
+
+  const held = decision.heldBy ? ` (${decision.held.join(', ')} held: ${decision.heldBy})` : '';
+  console.log(`🔀 [NOTIFY] ${kind} "${event.title}" → ${decision.channels.join(', ') || 'nowhere'}${held} [${decision.rule?.name ?? 'no rule'}]`);
+  return result;
+}
+
+const KIND_ICONS: Record<NotificationKind, string> = {
+  reminder: '⏰', snoozed: '💤', discovery: '📌', conflict: '⚠️', confirmation: '⏸️',
+};
+
+// "⏰ Dinner with Rahul at Toit in 1 hour", "📌 Pay rent — Thu, Dec 5, 10:00 AM"
+export function notificationText(kind: NotificationKind, event: NotificationEvent, now = Date.now()): string {
+  if (kind === 'reminder') return reminderWhatsAppText(event, now);
+  const details = [event.event_time ? formatEventTime(event.event_time) : null, event.location].filter(Boolean);
+  return `${KIND_ICONS[kind]} ${event.title}${details.length > 0 ? ` — ${details.join(', ')}` : ''}`;
+}
+
+// ============ DAILY DIGEST ============
+
+export interface DigestResult {
+  items: number;
+  delivered: boolean; // Whether any channel got it out — if not, the items stay pending
+  heldBy: RouteDecision['heldBy'];
+  reached: number;
+  push: PushResult | null;
+  whatsapp: WhatsAppResult | null;
+}
+
+// Everything held back since the last digest, as one message — null when there's nothing
+export async function sendDigest(now = Date.now()): Promise<DigestResult | null> {
+  const items = getPendingDigestItems();
+  if (items.length === 0) return null;
+
+  // Do-not-disturb and quiet hours hold the digest too; it goes out once they're over
+  const hold = currentHold('normal', now);
+  if (hold.channels.includes('overlay')) {
+    console.log(`🗞️ [NOTIFY] Digest of ${items.length} held (${hold.heldBy})`);
+    return { items: items.length, delivered: false, heldBy: hold.heldBy, reached: 0, push: null, whatsapp: null };
+  }
+
+  const text = `*🗞️ Argus digest* (${items.length})\n${items.map(item => `• ${item.text}`).join('\n')}`;
+  const reached = transport?.broadcast({ type: 'digest', items }) ?? 0;
+  const push = await deliverPush({
+    type: 'digest',
+    title: 'Argus digest',
+    body: `${items.length} notification${items.length === 1 ? '' : 's'} while you were away`,
+    tag: 'argus-digest',
+  }, reached);
+  const whatsapp = hold.channels.includes('whatsapp') ? null : await notifyWhatsApp(text, null, now);
+  const delivered = reached > 0 || (push?.sent ?? 0) > 0 || (whatsapp?.sent ?? 0) > 0;
+
+  // Nothing got through — keep the items for the next attempt rather than losing them
+  if (delivered) markDigestItemsSent(items.map(item => item.id), Math.floor(now / 1000));
+  console.log(`🗞️ [NOTIFY] Digest of ${items.length} ${delivered ? 'sent' : 'not delivered'} (${reached} clients, push: ${push?.sent ?? 0}, WhatsApp: ${whatsapp?.sent ?? 0})`);
+  return { items: items.length, delivered, heldBy: hold.heldBy, reached, push, whatsapp };
+}
+
+// The digest goes out once a day, the first check after digest_time that gets it delivered
+export async function checkDigest(now = Date.now()): Promise<DigestResult | null> {
+  const parts = getZonedParts(new Date(now), getUserTimezone());
+  const today = `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+  if (getSetting(DIGEST_SENT_ON_SETTING) === today) return null;
+  if (parts.hour * 60 + parts.minute < toMinuteOfDay(getNotificationSettings().digest_time)) return null;
+
+  const result = await sendDigest(now);
+  if (!result || result.delivered) setSetting(DIGEST_SENT_ON_SETTING, today);
+  return result;
+}
+
+export function startDigest(intervalMs = 60000): void {
+  digestInterval = setInterval(() => {
+    checkDigest().catch(err => console.error('⚠️ [NOTIFY] Digest failed:', err));
+  }, intervalMs);
+}
+
+export function stopDigest(): void {
+  if (digestInterval) {
+    clearInterval(digestInterval);
+    digestInterval = null;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Web Push Delivery
+ * Reminders reach the extension over WebSocket, which only works while Chrome is open.
+ * Browsers that subscribed (POST /api/push/subscriptions) also get them as Web Push
+ * notifications — when no WebSocket client is connected (PUSH_DELIVERY=fallback, the
+ * default) or always alongside the broadcast (PUSH_DELIVERY=always).
+ *
+ * The VAPID key pair identifies this server to the push services. It comes from
+ * VAPID_PUBLIC_KEY/VAPID_PRIVATE_KEY, or is generated on first start and kept in the
+ * settings table so subscriptions stay valid across restarts. Every delivery attempt is
+ * recorded on its subscription; one the push service reports as gone (404/410) is pruned.
+ */
+
+import webpush from 'web-push';
+import { getSetting, setSetting, getPushSubscriptions, deletePushSubscription, recordPushSuccess, recordPushFailure } from './db.js';
+import { formatEventTime } from './timezone.js';
+import type { PushDelivery, PushSubscriptionRecord } from './types.js';
+
+export const VAPID_PUBLIC_SETTING = 'vapid_public_key';
+export const VAPID_PRIVATE_SETTING = 'vapid_private_key';
+
+// Push services answer these for subscriptions that expired or were revoked
+const GONE_STATUS_CODES = [404, 410];
+// A reminder that couldn't be delivered within the hour isn't worth showing anymore
+const PUSH_TTL_SECONDS = 60 * 60;
+
+// What the extension's service worker shows (see the push listener in background.js)
+export interface PushPayload {
+  type: string;
+  title: string;
+  body: string;
+  eventId?: number;
+  tag?: string; // Notifications with the same tag replace each other
+}
+
+export interface PushResult {
+  sent: number;
+  failed: number;
+  pruned: number;
+}
+
+// How a notification reaches a push service — web-push unless a test swaps it
+export type PushSender = (subscription: webpush.PushSubscription, payload: string, options: webpush.RequestOptions) => Promise<unknown>;
+
+interface PushOptions {
+  mode: PushDelivery;
+  subject: string; // mailto: or https: contact for the push services
+  publicKey?: string;
+  privateKey?: string;
+  sender?: PushSender;
+}
+
+let push: { mode: PushDelivery; vapid: webpush.VapidKeys & { subject: string }; sender: PushSender } | null = null;
+
+// Returns the public key browsers subscribe with
+export function initPush(opts: PushOptions): string {
+  let keys: webpush.VapidKeys;
+  if (opts.publicKey && opts.privateKey) {
+    keys = { publicKey: opts.publicKey, privateKey: opts.privateKey };
+  } else {
+    const storedPublic = getSetting(VAPID_PUBLIC_SETTING);
+    const storedPrivate = getSetting(VAPID_PRIVATE_SETTING);
+    if (storedPublic && storedPrivate) {
+      keys = { publicKey: storedPublic, privateKey: storedPrivate };
+    } else {
+      keys = webpush.generateVAPIDKeys();
+      setSetting(VAPID_PUBLIC_SETTING, keys.publicKey);
+      setSetting(VAPID_PRIVATE_SETTING, keys.privateKey);
+      console.log('🔑 [PUSH] Generated a VAPID key pair');
+    }
+  }
+
+  push = {
+    mode: opts.mode,
+    vapid: { ...keys, subject: opts.subject },
+    sender: opts.sender ?? ((subscription, payload, options) => webpush.sendNotification(subscription, payload, options)),
+  };
+  return keys.publicKey;
+}
+
+export function getVapidPublicKey(): string | null {
+  return push?.vapid.publicKey ?? null;
+}
+
+// Whether a notification that reached `connectedClients` WebSocket clients also goes out as a push
+export function shouldPush(connectedClients: number): boolean {
+  if (!push || push.mode === 'off') return false;
+  return push.mode === 'always' || connectedClients === 0;
+}
+
+// Send to every subscription — failures are recorded, gone subscriptions pruned
+export async function sendPush(payload: PushPayload): Promise<PushResult> {
+  const result: PushResult = { sent: 0, failed: 0, pruned: 0 };
+  if (!push) return result;
+
+  const body = JSON.stringify(payload);
+  for (const subscription of getPushSubscriptions()) {
+    try {
+      await push.sender(toWebPushSubscription(subscription), body, {
+        TTL: PUSH_TTL_SECONDS,
+        vapidDetails: push.vapid,
+      });
+      recordPushSuccess(subscription.id);
+      result.sent++;
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode && GONE_STATUS_CODES.includes(statusCode)) {
+        deletePushSubscription(subscription.endpoint);
+        result.pruned++;
+        console.log(`🗑️ [PUSH] Subscription #${subscription.id} is gone (${statusCode}) — removed`);
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        recordPushFailure(subscription.id, statusCode ? `${statusCode}: ${message}` : message);
+        result.failed++;
+        console.warn(`⚠️ [PUSH] Delivery to subscription #${subscription.id} failed: ${message}`);
+      }
+    }
+  }
+  return result;
+}
+
+// The scheduler's delivery path — null when the notification isn't pushed
+export async function deliverPush(payload: PushPayload, connectedClients: number): Promise<PushResult | null> {
+  if (!shouldPush(connectedClients)) return null;
+  const result = await sendPush(payload);
+  if (result.sent + result.failed + result.pruned > 0) {
+    console.log(`📲 [PUSH] "${payload.title}": ${result.sent} sent, ${result.failed} failed, ${result.pruned} pruned`);
+  }
+  return result;
+}
+
+// A reminder as a push notification: the event title, with when and where as the body
+export function reminderPushPayload(type: string, event: { id: number; title: string; event_time?: number | null; location?: string | null }): PushPayload {
+  const details = [event.event_time ? formatEventTime(event.event_time) : null, event.location].filter(Boolean);
+  return {
+    type,
+    title: event.title,
+    body: details.length > 0 ? details.join(' · ') : 'Reminder',
+    eventId: event.id,
+    tag: `argus-event-${event.id}`,
+  };
+}
+
+function toWebPushSubscription(subscription: PushSubscriptionRecord): webpush.PushSubscription {
+  return { endpoint: subscription.endpoint, keys: JSON.parse(subscription.keys) };
+}
@@ -0,0 +1,146 @@
+/**
+ * Durable Ingestion Queue
+ * Webhooks are acknowledged immediately and their processing is stored in the
+ * ingestion_jobs table. Workers drain it with bounded concurrency; failed jobs
+ * are retried with exponential backoff and dead-lettered after max_attempts.
+ * Grouped jobs (one group per chat) run in order, one at a time, and payloads that
+ * arrive within the debounce window are coalesced into a single job.
+ */
+
+import {
+  insertJob,
+  enqueueGroupedJob,
+  insertGroupJobs,
+  claimNextJob,
+  markJobDone,
+  markJobFailed,
+  requeueStaleJobs,
+} from './db.js';
+import type { IngestionJob } from './types.js';
+
+type JobHandler = (payload: unknown, job: IngestionJob) => Promise<void>;
+
+interface QueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  pollIntervalMs?: number;
+  backoffBaseSeconds?: number;
+  backoffMaxSeconds?: number;
+}
+
+const handlers = new Map<string, JobHandler>();
+
+let options: Required<QueueOptions> | null = null;
+let pollInterval: NodeJS.Timeout | null = null;
+let activeJobs = 0;
+
+export function registerJobHandler(kind: string, handler: JobHandler): void {
+  handlers.set(kind, handler);
+}
+
+export function startQueue(opts: QueueOptions): void {
+  options = {
+    pollIntervalMs: 2000,
+    backoffBaseSeconds: 5,
+    backoffMaxSeconds: 15 * 60,
+    ...opts,
+  };
+
+  const requeued = requeueStaleJobs();
+  if (requeued > 0) {
+    console.log(`♻️ [QUEUE] Re-queued ${requeued} job(s) interrupted by a restart`);
+  }
+
+  pollInterval = setInterval(drainQueue, options.pollIntervalMs);
+  drainQueue();
+
+  console.log(`📬 Ingestion queue started (concurrency ${options.concurrency}, max attempts ${options.maxAttempts})`);
+}
+
+export function stopQueue(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+  options = null;
+  console.log('📬 Ingestion queue stopped');
+}
+
+// Store a job and wake the workers — returns the job ID
+export function enqueueJob(kind: string, payload: unknown): number {
+  const id = insertJob(kind, payload, options?.maxAttempts ?? 5);
+  setImmediate(drainQueue);
+  return id;
+}
+
+// Store a payload for an ordered group, merging it into the group's not-yet-started job.
+// The handler receives an array of payloads (oldest first).
+export function enqueueDebouncedJob(
+  kind: string,
+  groupKey: string,
+  payload: unknown,
+  window: { debounceSeconds: number; maxWaitSeconds: number }
+): { id: number; coalesced: boolean } {
+  const result = enqueueGroupedJob(kind, groupKey, payload, {
+    maxAttempts: options?.maxAttempts ?? 5,
+    ...window,
+  });
+  // Wake the workers once the window closes rather than waiting for the next poll
+  setTimeout(drainQueue, window.debounceSeconds * 1000 + 50);
+  return result;
+}
+
+// Store payloads for an ordered group as one job each, due spacingSeconds apart. Nothing is
+// coalesced — the handler receives a single payload. Returns the job IDs in order.
+export function enqueueJobSequence(kind: string, groupKey: string, payloads: unknown[], spacingSeconds = 0): number[] {
+  const ids = insertGroupJobs(kind, groupKey, payloads, {
+    maxAttempts: options?.maxAttempts ?? 5,
+    spacingSeconds,
+  });
+  setImmediate(drainQueue);
+  return ids;
+}
+
+// Delay before the next attempt: base * 2^(attempt-1), capped
+export function getBackoffSeconds(attempt: number, baseSeconds = 5, maxSeconds = 15 * 60): number {
+  return Math.min(maxSeconds, baseSeconds * Math.pow(2, Math.max(0, attempt - 1)));
+}
+
+function drainQueue(): void {
+  if (!options) return;
+
+  while (activeJobs < options.concurrency) {
+    const job = claimNextJob();
+    if (!job) return;
+
+    activeJobs++;
+    runJob(job).finally(() => {
+      activeJobs--;
+      setImmediate(drainQueue);
+    });
+  }
+}
+
+async function runJob(job: IngestionJob): Promise<void> {
+  const handler = handlers.get(job.kind);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job kind "${job.kind}"`);
+    }
+    await handler(JSON.parse(job.payload), job);
+    markJobDone(job.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= job.max_attempts) {
+      markJobFailed(job.id, message, null);
+      console.error(`☠️ [QUEUE] Job #${job.id} (${job.kind}) dead after ${job.attempts} attempt(s): ${message}`);
+      return;
+    }
+
+    const delay = getBackoffSeconds(job.attempts, options?.backoffBaseSeconds, options?.backoffMaxSeconds);
+    markJobFailed(job.id, message, Math.floor(Date.now() / 1000) + delay);
+    console.warn(`🔁 [QUEUE] Job #${job.id} (${job.kind}) failed attempt ${job.attempts}/${job.max_attempts}, retrying in ${delay}s: ${message}`);
+  }
+}
@@ -13,6 +13,8 @@
  *   3. detectEventEdges()        → cross-event relationship detection
  */
 
+import type { EventAttendance } from './types.js';
+
 // ============ TYPES ============
 
 export interface EventEdge {
@@ -47,6 +49,7 @@ export interface CompressibleEvent {
   sender_name?: string | null;
   context_url?: string | null;
   created_at?: number;
+  attendance?: EventAttendance | null;
 }
 
 // ============ STATUS / TYPE MARKERS (inspired by QuickSave kanji) ============
@@ -124,9 +127,21 @@ export function filterBySignal(
 
 // ============ EVENT COMPRESSION ============
 // Compress event list into a dense text block for Gemini prompts.
-// Uses abbreviated format: #ID|TYPE|STATUS|"Title"|time|loc|sender|keywords
+// Uses abbreviated format: #ID|TYPE|STATUS|"Title"|time|loc|sender|keywords[|attendance]
 // ~40-55% fewer tokens vs the old verbose format.
 
+// Who's coming, only when someone answered: "in:Rahul,you out:Priya maybe:Neha"
+export function compressAttendance(attendance: CompressibleEvent['attendance']): string | null {
+  if (!attendance) return null;
+  const groups = [
+    ['in', attendance.accepted],
+    ['out', attendance.declined],
+    ['maybe', attendance.tentative],
+  ] as const;
+  const parts = groups.filter(([, names]) => names.length > 0).map(([label, names]) => `${label}:${names.join(',')}`);
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
 export function compressEventsForPrompt(
   events: CompressibleEvent[],
   maxEvents: number = 60
@@ -166,7 +181,7 @@ export function compressEventsForPrompt(
       if (isPast) timeStr += ' [PAST]';
     }
 
-    // Dense format: #ID|TYPE|STATUS|"Title"|time|loc|sender|keywords
+    // Dense format: #ID|TYPE|STATUS|"Title"|time|loc|sender|keywords[|attendance]
     // Omit description in the compressed line — title + keywords carry enough signal
     const parts = [
       `#${e.id}`,
@@ -178,6 +193,8 @@ export function compressEventsForPrompt(
       e.sender_name || '?',
       e.keywords,
     ];
+    const attendance = compressAttendance(e.attendance);
+    if (attendance) parts.push(attendance);
 
     return parts.join('|');
   });
@@ -0,0 +1,303 @@
+/**
+ * Recurring Events
+ * Events carry an iCalendar RRULE subset ("FREQ=WEEKLY;BYDAY=MO,TH") anchored at
+ * recurrence_start. Occurrences are expanded in wall-clock time of the series'
+ * timezone, so "standup daily at 10" stays at 10:00 across DST changes.
+ *
+ * Supported parts: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (with an
+ * ordinal for MONTHLY, e.g. 1MO or -1FR), BYMONTHDAY (negative = from month end),
+ * BYMONTH, COUNT and UNTIL.
+ */
+
+import { getZonedParts, zonedTimeToUnix } from './timezone.js';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: Array<{ weekday: number; ordinal: number | null }>; // weekday 0 = Sunday
+  byMonthDay: number[];
+  byMonth: number[];
+  count: number | null;
+  until: number | null; // Unix timestamp
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY = 24 * 3600;
+
+// Upper bound on expanded periods — a daily rule anchored years ago still resolves,
+// a malformed rule can't spin forever
+const MAX_PERIODS = 5000;
+
+function parseIntList(value: string, min: number, max: number, key: string): number[] {
+  return value.split(',').map(part => {
+    const n = parseInt(part, 10);
+    if (isNaN(n) || n === 0 || n < min || n > max) {
+      throw new Error(`Invalid ${key} value: ${part}`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string): number {
+  // RFC 5545 form (20261231 / 20261231T235959Z) or ISO
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  const ms = compact
+    ? Date.UTC(+compact[1], +compact[2] - 1, +compact[3], compact[4] ? +compact[4] : 23, compact[5] ? +compact[5] : 59, compact[6] ? +compact[6] : 59)
+    : new Date(value).getTime();
+  if (isNaN(ms)) throw new Error(`Invalid UNTIL value: ${value}`);
+  return Math.floor(ms / 1000);
+}
+
+// Parse "FREQ=WEEKLY;BYDAY=MO,TH" (an "RRULE:" prefix is accepted). Throws on anything unsupported.
+export function parseRRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || !value) throw new Error(`Invalid RRULE part: ${part}`);
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(`RRULE needs FREQ=${FREQUENCIES.join('|')}`);
+  }
+
+  const result: RecurrenceRule = { freq, interval: 1, byDay: [], byMonthDay: [], byMonth: [], count: null, until: null };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        result.interval = parseIntList(value, 1, 1000, key)[0];
+        break;
+      case 'BYDAY':
+        result.byDay = value.split(',').map(code => {
+          const match = code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) throw new Error(`Invalid BYDAY value: ${code}`);
+          const ordinal = match[1] ? parseInt(match[1], 10) : null;
+          if (ordinal !== null && (freq !== 'MONTHLY' || ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new Error(`BYDAY ordinals are only supported with FREQ=MONTHLY: ${code}`);
+          }
+          return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        result.byMonthDay = parseIntList(value, -31, 31, key);
+        break;
+      case 'BYMONTH':
+        result.byMonth = parseIntList(value, 1, 12, key);
+        break;
+      case 'COUNT':
+        result.count = parseIntList(value, 1, 10000, key)[0];
+        break;
+      case 'UNTIL':
+        result.until = parseUntil(value);
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part: ${key}`);
+    }
+  }
+
+  // Expansion would ignore these, giving a different schedule than the one written
+  if (result.byMonthDay.length > 0 && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    throw new Error('BYMONTHDAY is only supported with FREQ=MONTHLY or FREQ=YEARLY');
+  }
+  if (result.byDay.length > 0 && freq === 'YEARLY') {
+    throw new Error('BYDAY is not supported with FREQ=YEARLY');
+  }
+
+  return result;
+}
+
+export function isValidRRule(rule: string): boolean {
+  try {
+    parseRRule(rule);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Canonical form for storage: upper-case, no "RRULE:" prefix
+export function normalizeRRule(rule: string): string {
+  parseRRule(rule);
+  return rule.trim().replace(/^RRULE:/i, '').toUpperCase();
+}
+
+// ============ EXPANSION ============
+
+interface LocalDate { year: number; month: number; day: number }
+
+function fromUtcDate(d: Date): LocalDate {
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+// Candidate dates of one period (a day, week, month or year after the anchor), in order
+function expandPeriod(rule: RecurrenceRule, start: LocalDate & { weekday: number }, period: number): LocalDate[] {
+  const step = period * rule.interval;
+  let dates: LocalDate[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      dates = [fromUtcDate(new Date(Date.UTC(start.year, start.month - 1, start.day + step)))];
+      break;
+
+    case 'WEEKLY': {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const mondayOffset = (start.weekday + 6) % 7;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [start.weekday];
+      dates = [...new Set(weekdays)]
+        .map(wd => (wd + 6) % 7)
+        .sort((a, b) => a - b)
+        .map(offset => fromUtcDate(new Date(Date.UTC(start.year, start.month - 1, start.day - mondayOffset + step * 7 + offset))));
+      break;
+    }
+
+    case 'MONTHLY': {
+      const first = new Date(Date.UTC(start.year, start.month - 1 + step, 1));
+      const year = first.getUTCFullYear();
+      const month = first.getUTCMonth() + 1;
+      const length = daysInMonth(year, month);
+      const monthDays = new Set<number>();
+      const weekDays = new Set<number>();
+
+      for (const d of rule.byMonthDay) {
+        const day = d > 0 ? d : length + d + 1;
+        if (day >= 1 && day <= length) monthDays.add(day); // the 31st skips short months
+      }
+      for (const { weekday, ordinal } of rule.byDay) {
+        const matching: number[] = [];
+        for (let day = 1; day <= length; day++) {
+          if (weekdayOf({ year, month, day }) === weekday) matching.push(day);
+        }
+        if (ordinal === null) matching.forEach(day => weekDays.add(day));
+        else {
+          const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+          if (day) weekDays.add(day);
+        }
+      }
+
+      // Both given means both must hold: BYDAY=FR;BYMONTHDAY=13 is Friday the 13th
+      let days: Set<number>;
+      if (rule.byMonthDay.length > 0 && rule.byDay.length > 0) days = new Set([...monthDays].filter(day => weekDays.has(day)));
+      else if (rule.byMonthDay.length > 0) days = monthDays;
+      else if (rule.byDay.length > 0) days = weekDays;
+      else days = new Set(start.day <= length ? [start.day] : []);
+
+      dates = [...days].sort((a, b) => a - b).map(day => ({ year, month, day }));
+      break;
+    }
+
+    case 'YEARLY': {
+      const year = start.year + step;
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [start.month];
+      const monthDays = rule.byMonthDay.length > 0 ? rule.byMonthDay : [start.day];
+      dates = [];
+      for (const month of [...months].sort((a, b) => a - b)) {
+        const length = daysInMonth(year, month);
+        for (const d of [...monthDays].sort((a, b) => a - b)) {
+          const day = d > 0 ? d : length + d + 1;
+          if (day >= 1 && day <= length) dates.push({ year, month, day }); // Feb 29 skips non-leap years
+        }
+      }
+      break;
+    }
+  }
+
+  // BYDAY / BYMONTH narrow the frequencies that don't expand them
+  if (rule.freq === 'DAILY' && rule.byDay.length > 0) {
+    dates = dates.filter(d => rule.byDay.some(b => b.weekday === weekdayOf(d)));
+  }
+  if (rule.byMonth.length > 0 && rule.freq !== 'YEARLY') {
+    dates = dates.filter(d => rule.byMonth.includes(d.month));
+  }
+  return dates;
+}
+
+// Walk the series from its anchor, calling visit for each occurrence (unix, in order)
+// until visit returns false or the series ends (COUNT / UNTIL)
+function walkOccurrences(
+  rule: RecurrenceRule,
+  start: number,
+  timezone: string,
+  visit: (occurrence: number) => boolean
+): void {
+  const anchor = getZonedParts(new Date(start * 1000), timezone);
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of expandPeriod(rule, anchor, period)) {
+      const occurrence = zonedTimeToUnix({ ...date, hour: anchor.hour, minute: anchor.minute, second: anchor.second }, timezone);
+      if (occurrence < start) continue;
+      if (rule.until !== null && occurrence > rule.until) return;
+      emitted++;
+      if (!visit(occurrence)) return;
+      if (rule.count !== null && emitted >= rule.count) return;
+    }
+  }
+}
+
+// First occurrence strictly after `after`, or null when the series has ended.
+// `skip` holds occurrence timestamps that were skipped or completed individually.
+export function getNextOccurrence(
+  rule: string | RecurrenceRule,
+  start: number,
+  after: number,
+  timezone: string,
+  skip: Set<number> = new Set()
+): number | null {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  let next: number | null = null;
+  walkOccurrences(parsed, start, timezone, occurrence => {
+    if (occurrence <= after || skip.has(occurrence)) return true;
+    next = occurrence;
+    return false;
+  });
+  return next;
+}
+
+// Up to `limit` occurrences in [from, to]
+export function getOccurrences(
+  rule: string | RecurrenceRule,
+  start: number,
+  timezone: string,
+  range: { from: number; to?: number; limit?: number }
+): number[] {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  const { from, to = from + 366 * DAY, limit = 10 } = range;
+  const result: number[] = [];
+  walkOccurrences(parsed, start, timezone, occurrence => {
+    if (occurrence > to) return false;
+    if (occurrence >= from) result.push(occurrence);
+    return result.length < limit;
+  });
+  return result;
+}
+
+// Short human description for logs and prompts: "every 2 weeks on Mon, Thu"
+export function describeRRule(rule: string | RecurrenceRule): string {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[parsed.freq];
+  const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  let text = parsed.interval === 1 ? `every ${unit}` : `every ${parsed.interval} ${unit}s`;
+  if (parsed.byDay.length > 0) {
+    text += ` on ${parsed.byDay.map(d => (d.ordinal !== null ? `#${d.ordinal} ` : '') + names[d.weekday]).join(', ')}`;
+  }
+  if (parsed.byMonthDay.length > 0) text += ` on day ${parsed.byMonthDay.join(', ')}`;
+  if (parsed.count !== null) text += `, ${parsed.count} times`;
+  if (parsed.until !== null) text += `, until ${new Date(parsed.until * 1000).toISOString().slice(0, 10)}`;
+  return text;
+}
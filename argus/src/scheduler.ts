@@ -7,8 +7,18 @@ import {
   markEventReminded,
   getContextEventsForUrl,
   checkEventConflicts,
-  getDueSnoozedEvents
+  getDueSnoozedEvents,
+  getDueRecurringEvents,
+  expirePendingActions,
+  getEventsToExpire,
+  purgeFinishedEvents,
+  purgeOldMessages,
+  optimizeSearchIndex,
+  insertMaintenanceRun,
+  getLastMaintenanceRun
 } from './db.js';
+import { advanceRecurringEvent, parseTriggerTime } from './triggers.js';
+import type { MaintenanceRun } from './types.js';
 
 // Extended notification with popup type
 interface NotificationPayload {
@@ -20,30 +30,53 @@ interface NotificationPayload {
   event_type?: string;
   triggerType: string;
   popupType: 'event_discovery' | 'event_reminder' | 'context_reminder' | 'conflict_warning' | 'insight_card' | 'snooze_reminder';
+  matchedPattern?: string; // Context URL pattern that fired (url triggers only)
+  offsetMinutes?: number; // Reminder offset that fired (time triggers only)
   conflictingEvents?: Array<{ id: number; title: string; event_time: number | null }>;
 }
 
 type NotifyCallback = (event: NotificationPayload) => void | Promise<void>;
 
+// Daily maintenance settings (EXPIRE_GRACE_HOURS, EVENT_RETENTION_DAYS, MESSAGE_RETENTION_DAYS)
+export interface MaintenanceOptions {
+  expireGraceHours: number;
+  eventRetentionDays: number;   // 0 = keep finished events forever
+  messageRetentionDays: number; // 0 = keep messages forever
+}
+
+const MAINTENANCE_PERIOD_SECONDS = 24 * 60 * 60;
+const MAINTENANCE_CHECK_MS = 60 * 60 * 1000;
+
 let schedulerInterval: NodeJS.Timeout | null = null;
 let reminderInterval: NodeJS.Timeout | null = null;
 let snoozeInterval: NodeJS.Timeout | null = null;
+let maintenanceInterval: NodeJS.Timeout | null = null;
 let notifyCallback: NotifyCallback | null = null;
 
-export function startScheduler(callback: NotifyCallback, intervalMs = 60000): void {
+// Maintenance only runs when its options are given — it's due a day after the last run
+// (recorded in the database, so restarts neither skip nor repeat it)
+export function startScheduler(callback: NotifyCallback, intervalMs = 60000, maintenance?: MaintenanceOptions): void {
   notifyCallback = callback;
   
   // Run immediately
   checkTimeTriggers();
+  checkRecurringEvents();
+  checkPendingActions();
   checkDueReminders();
   checkSnoozedEvents();
+  if (maintenance) checkMaintenance(maintenance);
   
   // Then run periodically
-  schedulerInterval = setInterval(checkTimeTriggers, intervalMs);
+  schedulerInterval = setInterval(() => {
+    checkTimeTriggers();
+    checkRecurringEvents();
+    checkPendingActions();
+  }, intervalMs);
   reminderInterval = setInterval(checkDueReminders, 30000); // Check reminders every 30 seconds
   snoozeInterval = setInterval(checkSnoozedEvents, 30000); // Check snoozed events every 30 seconds
+  if (maintenance) maintenanceInterval = setInterval(() => checkMaintenance(maintenance), MAINTENANCE_CHECK_MS);
   
-  console.log('⏰ Scheduler started (triggers every', intervalMs / 1000, 's, reminders/snooze every 30s)');
+  console.log('⏰ Scheduler started (triggers every', intervalMs / 1000, 's, reminders/snooze every 30s' + (maintenance ? ', maintenance daily)' : ')'));
 }
 
 export function stopScheduler(): void {
@@ -59,9 +92,24 @@ export function stopScheduler(): void {
     clearInterval(snoozeInterval);
     snoozeInterval = null;
   }
+  if (maintenanceInterval) {
+    clearInterval(maintenanceInterval);
+    maintenanceInterval = null;
+  }
   console.log('⏰ Scheduler stopped');
 }
 
+// Delivery (routing, Web Push, WhatsApp) finishes in the background — a failed send is
+// logged rather than left as an unhandled rejection that would take the server down
+function notify(payload: NotificationPayload): void {
+  try {
+    const delivery = notifyCallback?.(payload);
+    if (delivery) delivery.catch(error => console.error(`⚠️ Delivering "${payload.title}" failed:`, error));
+  } catch (error) {
+    console.error(`⚠️ Delivering "${payload.title}" failed:`, error);
+  }
+}
+
 // Check for snoozed events that are due
 function checkSnoozedEvents(): void {
   const dueEvents = getDueSnoozedEvents();
@@ -69,7 +117,7 @@ function checkSnoozedEvents(): void {
   for (const event of dueEvents) {
     if (notifyCallback && event.id) {
       // Re-show the event discovery popup
-      notifyCallback({
+      notify({
         id: event.id,
         title: event.title,
         description: event.description,
@@ -95,7 +143,7 @@ function checkDueReminders(): void {
   for (const event of dueReminders) {
     if (notifyCallback && event.id) {
       // Broadcast to ALL clients so popup shows on any tab/window
-      notifyCallback({
+      notify({
         id: event.id,
         title: event.title,
         description: event.description,
@@ -125,7 +173,7 @@ export function checkContextTriggers(url: string): NotificationPayload[] {
   
   for (const event of events) {
     if (event.id) {
-      console.log(`[Scheduler] Context match: Event #${event.id} "${event.title}" (context_url: ${event.context_url})`);
+      console.log(`[Scheduler] Context match: Event #${event.id} "${event.title}" (pattern: ${event.matched_pattern})`);
       notifications.push({
         id: event.id,
         title: event.title,
@@ -135,6 +183,7 @@ export function checkContextTriggers(url: string): NotificationPayload[] {
         event_type: event.event_type,
         triggerType: 'url',
         popupType: 'context_reminder',
+        matchedPattern: event.matched_pattern,
       });
     }
   }
@@ -184,16 +233,22 @@ function checkTimeTriggers(): void {
   
   for (const trigger of triggers) {
     try {
-      const triggerTime = new Date(trigger.trigger_value).getTime();
+      // ISO string, or unix seconds for older reminder_* rows
+      const triggerTime = parseTriggerTime(trigger.trigger_value);
+      if (triggerTime === null) {
+        console.warn(`⚠️ Trigger ${trigger.id} has an unreadable time "${trigger.trigger_value}" — skipping`);
+        markTriggerFired(trigger.id!);
+        continue;
+      }
       
       // Check if trigger time has passed (with 5 min buffer)
-      if (triggerTime <= now + 5 * 60 * 1000) {
+      if (triggerTime * 1000 <= now + 5 * 60 * 1000) {
         const event = getEventById(trigger.event_id);
         
         if (event && (event.status === 'pending' || event.status === 'scheduled' || event.status === 'discovered' || event.status === 'reminded')) {
           // Fire notification
           if (notifyCallback) {
-            notifyCallback({
+            notify({
               id: event.id!,
               title: event.title,
               description: event.description,
@@ -202,6 +257,7 @@ function checkTimeTriggers(): void {
               event_type: event.event_type,
               triggerType: 'time',
               popupType: 'event_reminder',
+              offsetMinutes: trigger.offset_minutes ?? undefined,
             });
           }
           
@@ -216,6 +272,26 @@ function checkTimeTriggers(): void {
   }
 }
 
+// Move recurring events whose occurrence has started on to the next one
+// (new time triggers are created for it; a finished series expires)
+export function checkRecurringEvents(): number {
+  const due = getDueRecurringEvents();
+  for (const event of due) {
+    try {
+      advanceRecurringEvent(event);
+    } catch (error) {
+      console.error(`Failed to advance recurring event ${event.id}:`, error);
+    }
+  }
+  return due.length;
+}
+
+// Pending actions nobody answered in time are dropped
+function checkPendingActions(): void {
+  const expired = expirePendingActions();
+  if (expired > 0) console.log(`⌛ ${expired} pending action(s) expired without confirmation`);
+}
+
 // Mark event as completed
 export function completeEvent(eventId: number): void {
   updateEventStatus(eventId, 'completed');
@@ -228,12 +304,54 @@ export function expireEvent(eventId: number): void {
   console.log(`⏳ Event ${eventId} marked as expired`);
 }
 
-// Cleanup old events (run daily)
-export function cleanupOldEvents(_daysOld = 90): number {
-  // const cutoff = Math.floor(Date.now() / 1000) - _daysOld * 24 * 60 * 60;
-  
-  // This would need a new db function, but for simplicity we'll skip
-  // In production, you'd want to archive or delete old events
-  
-  return 0;
+// Purge finished events (completed, expired, ignored, deleted) untouched for daysOld days
+export function cleanupOldEvents(daysOld = 365, now = Math.floor(Date.now() / 1000)): number {
+  if (daysOld <= 0) return 0;
+  return purgeFinishedEvents(now - daysOld * 24 * 60 * 60);
+}
+
+// ============ DAILY MAINTENANCE ============
+// Timed events nobody acted on expire once their grace period is over, so they stop showing
+// up in getActiveEvents (and every Gemini prompt). Finished events and old messages are
+// purged after their retention, then the search index is optimized. Every run is recorded
+// (the latest one is reported by /api/stats).
+
+export function runMaintenance(options: MaintenanceOptions, now = Math.floor(Date.now() / 1000)): MaintenanceRun {
+  const startedMs = Date.now();
+  const run: Omit<MaintenanceRun, 'id'> = {
+    started_at: now,
+    finished_at: now,
+    expired_events: 0,
+    purged_events: 0,
+    purged_messages: 0,
+    index_optimized: false,
+    error: null,
+  };
+
+  try {
+    for (const event of getEventsToExpire(now - Math.round(options.expireGraceHours * 60 * 60))) {
+      expireEvent(event.id!);
+      run.expired_events++;
+    }
+    run.purged_events = cleanupOldEvents(options.eventRetentionDays, now);
+    if (options.messageRetentionDays > 0) {
+      run.purged_messages = purgeOldMessages(now - options.messageRetentionDays * 24 * 60 * 60);
+    }
+    optimizeSearchIndex();
+    run.index_optimized = true;
+  } catch (error) {
+    run.error = error instanceof Error ? error.message : String(error);
+    console.error('❌ Maintenance failed:', error);
+  }
+
+  run.finished_at = now + Math.round((Date.now() - startedMs) / 1000);
+  console.log(`🧹 Maintenance: ${run.expired_events} expired, ${run.purged_events} events and ${run.purged_messages} messages purged`);
+  return insertMaintenanceRun(run);
+}
+
+function checkMaintenance(options: MaintenanceOptions): void {
+  const last = getLastMaintenanceRun();
+  const now = Math.floor(Date.now() / 1000);
+  if (last && now - last.started_at < MAINTENANCE_PERIOD_SECONDS) return;
+  runMaintenance(options, now);
 }
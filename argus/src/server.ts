@@ -6,12 +6,29 @@ import { createServer } from 'http';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
-import { initDb, getStats, getEventById, closeDb, getAllMessages, getAllEvents, deleteEvent, scheduleEventReminder, dismissContextEvent, setEventContextUrl, getEventsByStatus, snoozeEvent, ignoreEvent, completeEvent as dbCompleteEvent, getEventsForDay, updateEvent, searchEventsByKeywords } from './db.js';
+import { initDb, getStats, getEventById, closeDb, getAllMessages, getAllEvents, deleteEvent, scheduleEventReminder, dismissContextEvent, setEventContextUrl, removeEventContextUrl, getEventContextUrls, getEventsByStatus, snoozeEvent, ignoreEvent, completeEvent as dbCompleteEvent, getEventsForDay, updateEvent, searchEventsByKeywords, getJobs, getJobById, getJobStats, retryJob, retryDeadJobs, purgeJobs, getContextRules, getContextRuleById, insertContextRule, updateContextRule, deleteContextRule, getSetting, setSetting, getAllSettings, setContactTimezone, getEventOccurrences, setOccurrenceStatus, getReminderPolicies, setReminderPolicy, deleteReminderPolicy, getTriggersForEvent, withChangeSource, getEventHistory, undoLastEventChange, getPendingActions, getActionPolicies, setActionPolicy, deleteActionPolicy, getContactById, getEventsByChat, getEventsByContact, getChatPolicies, getChatPolicy, setChatPolicy, deleteChatPolicy, getBackfillJobs, getBackfillJobById, getEventRsvps, getEventAttendance, getLastMaintenanceRun, getPushSubscriptions, upsertPushSubscription, deletePushSubscription, getOutboundMessages, getNotificationRules, getNotificationRuleById, insertNotificationRule, updateNotificationRule, deleteNotificationRule, getPendingDigestItems } from './db.js';
 import { initGemini, chatWithContext, generatePopupBlueprint } from './gemini.js';
-import { processWebhook } from './ingestion.js';
+import { processWebhook, processWebhookBurst, getChatMode, getMessageChange, processMessageChange } from './ingestion.js';
+import type { IngestionResult, MessageChange } from './ingestion.js';
+import { startQueue, stopQueue, enqueueJob, enqueueDebouncedJob, registerJobHandler } from './queue.js';
+import { createProviderFromConfig } from './llm.js';
 import { matchContext, extractContextFromUrl } from './matcher.js';
+import { seedContextRules } from './context-rules.js';
+import { setUserTimezone, getUserTimezone, isValidTimezone } from './timezone.js';
+import { isValidRRule, normalizeRRule, getOccurrences, describeRRule } from './recurrence.js';
+import { advanceRecurringEvent, startTriggerMaintenance, resyncTimeTriggers, getReminderOffsets, DEFAULT_REMINDER_OFFSETS } from './triggers.js';
+import { confirmPendingAction, rejectPendingAction, getEffectiveActionPolicy, DEFAULT_ACTION_POLICIES } from './actions.js';
+import type { PendingActionOutcome } from './actions.js';
 import { startScheduler, stopScheduler, checkContextTriggers } from './scheduler.js';
-import { parseConfig, WhatsAppWebhookSchema, ContextCheckRequestSchema } from './types.js';
+import { parseChatExport, isZipArchive, extractChatText, chatNameFromFileName, getExportChatId, importChatExport, processChatImportJob, CHAT_IMPORT_JOB } from './chat-export.js';
+import type { DateOrder } from './chat-export.js';
+import { startBackfillRunner, stopBackfillRunner, startBackfill, pauseBackfill, resumeBackfill } from './backfill.js';
+import { initPush, getVapidPublicKey, VAPID_PRIVATE_SETTING } from './push.js';
+import { initWhatsApp } from './whatsapp.js';
+import { seedNotificationRules, migrateWhatsAppQuietHours, initNotifications, deliverNotification, schedulerMessageType, routeNotification, notificationUrgency, getNotificationSettings, setNotificationSettings, sendDigest, startDigest, stopDigest } from './notifications.js';
+import { buildChatContext } from './commands.js';
+import { parseConfig, WhatsAppWebhookSchema, ContextCheckRequestSchema, JobStatusEnum, ContextRuleSchema, EventTypeEnum, ReminderOffsetsSchema, EventActionEnum, ActionPolicySchema, PendingActionStatusEnum, ChatModeEnum, BackfillRequestSchema, PushSubscriptionRequestSchema, NotificationRuleSchema, NotificationSettingsSchema, NotificationPreviewRequestSchema } from './types.js';
+import type { WhatsAppWebhook, ChangeSource } from './types.js';
 import { 
   initEvolutionDb, 
   testEvolutionConnection, 
@@ -20,11 +37,17 @@ import {
   getEvolutionInstances,
   getEvolutionContacts,
   getEvolutionChats,
+  getEvolutionChatName,
   searchEvolutionMessages,
   closeEvolutionDb,
   getInstanceIdByName
 } from './evolution-db.js';
 
+// Queue job kinds for incoming WhatsApp messages, and for edits/deletes of earlier ones
+const WEBHOOK_JOB = 'whatsapp_webhook';
+const MESSAGE_CHANGE_JOB = 'whatsapp_message_change';
+const REACTION_JOB = 'whatsapp_reaction';
+
 // ESM __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -37,11 +60,37 @@ const config = parseConfig();
 
 // Initialize services
 initDb(config.dbPath);
+startTriggerMaintenance();
+seedContextRules();
+seedNotificationRules();
+migrateWhatsAppQuietHours(config.whatsappQuietHours);
+// A timezone saved through /api/settings outlives the TIMEZONE env default
+setUserTimezone(getSetting('timezone') || config.timezone);
+console.log(`🕐 Timezone: ${getUserTimezone()}`);
 initGemini({
   apiKey: config.geminiApiKey,
   model: config.geminiModel,
   apiUrl: config.geminiApiUrl,
+  provider: createProviderFromConfig(config),
+});
+initPush({
+  mode: config.pushDelivery,
+  subject: config.vapidSubject,
+  publicKey: config.vapidPublicKey,
+  privateKey: config.vapidPrivateKey,
 });
+if (initWhatsApp({
+  apiUrl: config.evolutionApiUrl,
+  apiKey: config.evolutionApiKey,
+  instanceName: config.evolutionInstanceName,
+  targets: config.whatsappNotifyJids,
+  maxPerHour: config.whatsappMaxPerHour,
+})) {
+  console.log(`📱 WhatsApp reminders → ${config.whatsappNotifyJids.join(', ')}`);
+}
+if (config.whatsappControlChat) {
+  console.log(`💬 WhatsApp commands from ${config.whatsappControlChat}`);
+}
 
 // Initialize Evolution PostgreSQL if configured
 let evolutionDbReady = false;
@@ -62,6 +111,18 @@ if (config.evolutionPg) {
       } else {
         console.log('⚠️ No instance name configured, will query all');
       }
+      // Historical backfills read from Evolution — resume any that a restart interrupted
+      startBackfillRunner({
+        webhookOptions: {
+          processOwnMessages: config.processOwnMessages,
+          skipGroupMessages: config.skipGroupMessages,
+          ownerJid: config.ownerJid,
+        },
+        messagesPerMinute: config.backfillMessagesPerMinute,
+        instanceId: resolvedInstanceId || undefined,
+        instanceName: config.evolutionInstanceName,
+        onProgress: (job) => broadcast({ type: 'backfill_progress', job }),
+      });
     } else {
       console.log('⚠️ Evolution PostgreSQL not available');
     }
@@ -117,6 +178,8 @@ async function autoSetupEvolution(): Promise<void> {
               events: [
                 'MESSAGES_UPSERT',
                 'MESSAGES_UPDATE',
+                'MESSAGES_EDITED',
+                'MESSAGES_DELETE',
                 'CONNECTION_UPDATE',
               ],
             },
@@ -152,6 +215,8 @@ async function autoSetupEvolution(): Promise<void> {
               events: [
                 'MESSAGES_UPSERT',
                 'MESSAGES_UPDATE',
+                'MESSAGES_EDITED',
+                'MESSAGES_DELETE',
                 'CONNECTION_UPDATE',
               ],
             },
@@ -208,35 +273,59 @@ wss.on('connection', (ws) => {
   });
 });
 
-function broadcast(data: object): void {
+// Returns how many clients it reached
+function broadcast(data: object): number {
   const message = JSON.stringify(data);
   const type = 'type' in data ? (data as { type: string }).type : 'unknown';
   console.log(`📢 Broadcasting to ${clients.size} clients:`, type);
+  let sent = 0;
   for (const client of clients) {
     if (client.readyState === WebSocket.OPEN) {
       client.send(message);
+      sent++;
       console.log('   ✅ Sent to client');
     }
   }
+  return sent;
+}
+
+function connectedClients(): number {
+  let open = 0;
+  for (const client of clients) {
+    if (client.readyState === WebSocket.OPEN) open++;
+  }
+  return open;
 }
 
-// Start scheduler - broadcasts reminders/triggers with Gemini-generated popup blueprints
+// Notification rules decide which of these (and push, WhatsApp, the digest) a notification reaches
+initNotifications({ broadcast, connectedClients });
+startDigest();
+
+// Start scheduler - routes reminders/triggers, overlays get Gemini-generated popup blueprints
 startScheduler(async (event) => {
   const popupType = event.popupType || 'event_reminder';
-  const type = popupType === 'event_reminder' ? 'trigger' : 
-               popupType === 'snooze_reminder' ? 'notification' :
-               popupType === 'context_reminder' ? 'context_reminder' :
-               'notification';
-  
-  // Generate popup blueprint via Gemini — extension just renders whatever we send
-  let popup;
-  try {
-    popup = await generatePopupBlueprint(event, {}, popupType);
-  } catch (err) {
-    console.error('⚠️ Popup blueprint generation failed (scheduler), using server defaults:', err);
-  }
-  
-  broadcast({ type, event, popupType, popup });
+  const type = schedulerMessageType(popupType);
+
+  await deliverNotification({
+    kind: event.triggerType === 'snooze' || popupType === 'snooze_reminder' ? 'snoozed' : 'reminder',
+    event,
+    type,
+    offsetMinutes: event.offsetMinutes,
+    overlay: async () => {
+      // Generate popup blueprint via Gemini — extension just renders whatever we send
+      let popup;
+      try {
+        popup = await generatePopupBlueprint(event, {}, popupType);
+      } catch (err) {
+        console.error('⚠️ Popup blueprint generation failed (scheduler), using server defaults:', err);
+      }
+      return { type, event, popupType, popup };
+    },
+  });
+}, 60000, {
+  expireGraceHours: config.expireGraceHours,
+  eventRetentionDays: config.eventRetentionDays,
+  messageRetentionDays: config.messageRetentionDays,
 });
 
 // ============ API Routes ============
@@ -248,6 +337,7 @@ app.get('/api/health', async (_req: Request, res: Response) => {
     status: 'ok', 
     timestamp: new Date().toISOString(),
     model: config.geminiModel,
+    llmProvider: config.llmProvider,
     version: '2.6.1',
     evolutionDb: evolutionOk ? 'connected' : 'disconnected',
   });
@@ -264,6 +354,7 @@ app.get('/api/stats', async (_req: Request, res: Response) => {
   
   res.json({
     ...argusStats,
+    maintenance: getLastMaintenanceRun(),
     evolution: evolutionStats,
   });
 });
@@ -276,9 +367,18 @@ app.get('/api/events', (req: Request, res: Response) => {
   
   // Use EventStatus type for proper status filtering
   const events = getAllEvents({ limit, offset, status: status as any });
-  res.json(events);
+  const attendance = getEventAttendance(events.map(e => e.id!));
+  res.json(events.map(e => ({ ...e, attendance: attendance.get(e.id!) ?? null })));
 });
 
+// Event mutations are recorded in event_history as coming from the extension (it calls
+// the API from a chrome-extension:// origin, or sends X-Argus-Source from content scripts)
+// or from the API otherwise
+function requestSource(req: Request): ChangeSource {
+  const origin = req.get('origin') || '';
+  return origin.startsWith('chrome-extension://') || req.get('x-argus-source') === 'extension' ? 'extension' : 'api';
+}
+
 // Get single event
 app.get('/api/events/:id', (req: Request, res: Response) => {
   const id = parseInt(req.params.id as string);
@@ -287,7 +387,7 @@ app.get('/api/events/:id', (req: Request, res: Response) => {
     res.status(404).json({ error: 'Event not found' });
     return;
   }
-  res.json(event);
+  res.json({ ...event, attendance: getEventAttendance([id]).get(id) ?? null });
 });
 
 // ============ Event Actions ============
@@ -296,7 +396,7 @@ app.get('/api/events/:id', (req: Request, res: Response) => {
 app.post('/api/events/:id/complete', (req: Request, res: Response) => {
   const id = parseInt(req.params.id as string);
   console.log(`✅ [COMPLETE] Event ${id} marked as done`);
-  dbCompleteEvent(id);
+  withChangeSource(requestSource(req), () => dbCompleteEvent(id));
   broadcast({ type: 'event_completed', eventId: id });
   res.json({ success: true, message: 'Event completed' });
 });
@@ -313,7 +413,7 @@ app.post('/api/events/:id/set-reminder', (req: Request, res: Response) => {
   }
   
   console.log(`📅 [SCHEDULE] Event ${id}: "${event.title}" → scheduled`);
-  scheduleEventReminder(id);
+  withChangeSource(requestSource(req), () => scheduleEventReminder(id, getReminderOffsets(event).offsets));
   broadcast({ type: 'event_scheduled', eventId: id });
   res.json({ success: true, message: 'Event scheduled for reminders' });
 });
@@ -325,7 +425,7 @@ app.post('/api/events/:id/snooze', (req: Request, res: Response) => {
   const snoozeMinutes = minutes || 30;
   
   console.log(`💤 [SNOOZE] Event ${id} snoozed for ${snoozeMinutes} minutes`);
-  snoozeEvent(id, snoozeMinutes);
+  withChangeSource(requestSource(req), () => snoozeEvent(id, snoozeMinutes));
   broadcast({ type: 'event_snoozed', eventId: id, snoozeMinutes });
   res.json({ success: true, message: `Event snoozed for ${snoozeMinutes} minutes` });
 });
@@ -334,7 +434,7 @@ app.post('/api/events/:id/snooze', (req: Request, res: Response) => {
 app.post('/api/events/:id/ignore', (req: Request, res: Response) => {
   const id = parseInt(req.params.id as string);
   console.log(`🚫 [IGNORE] Event ${id} ignored by user`);
-  ignoreEvent(id);
+  withChangeSource(requestSource(req), () => ignoreEvent(id));
   broadcast({ type: 'event_ignored', eventId: id });
   res.json({ success: true, message: 'Event ignored' });
 });
@@ -350,11 +450,11 @@ app.post('/api/events/:id/dismiss', (req: Request, res: Response) => {
   res.json({ success: true });
 });
 
-// Delete event (permanent removal)
+// Delete event (soft delete — POST /api/events/:id/undo brings it back)
 app.delete('/api/events/:id', (req: Request, res: Response) => {
   const id = parseInt(req.params.id as string);
-  console.log(`🗑️ [DELETE] Event ${id} permanently deleted`);
-  deleteEvent(id);
+  console.log(`🗑️ [DELETE] Event ${id} deleted`);
+  withChangeSource(requestSource(req), () => deleteEvent(id));
   broadcast({ type: 'event_deleted', eventId: id });
   res.json({ success: true, message: 'Event deleted' });
 });
@@ -369,7 +469,7 @@ app.patch('/api/events/:id', (req: Request, res: Response) => {
     return;
   }
   
-  const { title, description, event_time, location, keywords, context_url, event_type, participants, status, sender_name } = req.body;
+  const { title, description, event_time, location, keywords, context_url, event_type, participants, status, sender_name, recurrence } = req.body;
   
   const fields: Record<string, any> = {};
   if (title !== undefined) fields.title = title;
@@ -382,13 +482,23 @@ app.patch('/api/events/:id', (req: Request, res: Response) => {
   if (participants !== undefined) fields.participants = participants;
   if (status !== undefined) fields.status = status;
   if (sender_name !== undefined) fields.sender_name = sender_name;
+  if (recurrence !== undefined) {
+    // null makes the event one-off again; a new rule is anchored at the (new) event_time
+    if (recurrence !== null && (typeof recurrence !== 'string' || !isValidRRule(recurrence))) {
+      res.status(400).json({ error: 'recurrence must be an RRULE like FREQ=WEEKLY;BYDAY=MO,TH, or null' });
+      return;
+    }
+    fields.recurrence = recurrence === null ? null : normalizeRRule(recurrence);
+    fields.recurrence_start = recurrence === null ? null : (event_time ?? event.event_time ?? null);
+    fields.recurrence_tz = recurrence === null ? null : (event.recurrence_tz || getUserTimezone());
+  }
   
   if (Object.keys(fields).length === 0) {
     res.status(400).json({ error: 'No fields to update' });
     return;
   }
   
-  const updated = updateEvent(id, fields);
+  const updated = withChangeSource(requestSource(req), () => updateEvent(id, fields));
   if (updated) {
     console.log(`📝 [PATCH] Event ${id}: "${event.title}" updated [${Object.keys(fields).join(', ')}]`);
     broadcast({ type: 'event_updated', eventId: id, fields: Object.keys(fields) });
@@ -399,7 +509,9 @@ app.patch('/api/events/:id', (req: Request, res: Response) => {
   }
 });
 
-// Confirm a pending modify action (user clicked "Yes, update" in popup)
+// ============ Legacy Endpoints (for backwards compat) ============
+
+// Apply modify changes directly — superseded by POST /api/pending-actions/:id/confirm
 app.post('/api/events/:id/confirm-update', (req: Request, res: Response) => {
   const id = parseInt(req.params.id as string);
   const event = getEventById(id);
@@ -414,7 +526,7 @@ app.post('/api/events/:id/confirm-update', (req: Request, res: Response) => {
     return;
   }
 
-  const updated = updateEvent(id, changes);
+  const updated = withChangeSource(requestSource(req), () => updateEvent(id, changes));
   if (updated) {
     const changedStr = Object.keys(changes).join(', ');
     console.log(`✅ [CONFIRM-UPDATE] Event #${id} "${event.title}" updated: [${changedStr}]`);
@@ -432,8 +544,6 @@ app.post('/api/events/:id/confirm-update', (req: Request, res: Response) => {
   }
 });
 
-// ============ Legacy Endpoints (for backwards compat) ============
-
 // Acknowledge reminder (user saw 1-hour reminder)
 app.post('/api/events/:id/acknowledge', (req: Request, res: Response) => {
   const id = parseInt(req.params.id as string);
@@ -444,23 +554,373 @@ app.post('/api/events/:id/acknowledge', (req: Request, res: Response) => {
 // Done is same as complete
 app.post('/api/events/:id/done', (req: Request, res: Response) => {
   const id = parseInt(req.params.id as string);
-  dbCompleteEvent(id);
+  withChangeSource(requestSource(req), () => dbCompleteEvent(id));
   broadcast({ type: 'event_completed', eventId: id });
   res.json({ success: true, message: 'Event marked as done' });
 });
 
-// Set context URL for an event (for URL-based triggers like Netflix)
+// ============ Event RSVPs ============
+
+// Answers to the event from replies and reactions to its message, oldest first
+app.get('/api/events/:id/rsvps', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!getEventById(id)) {
+    res.status(404).json({ error: 'Event not found' });
+    return;
+  }
+  res.json({ eventId: id, rsvps: getEventRsvps(id) });
+});
+
+// ============ Event History ============
+
+// Every recorded change to an event, newest first
+app.get('/api/events/:id/history', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!getEventById(id)) {
+    res.status(404).json({ error: 'Event not found' });
+    return;
+  }
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+  res.json({ eventId: id, history: getEventHistory(id, limit) });
+});
+
+// Revert the latest change (a delete, status change or edit — from WhatsApp, the API or the extension)
+app.post('/api/events/:id/undo', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!getEventById(id)) {
+    res.status(404).json({ error: 'Event not found' });
+    return;
+  }
+
+  const undone = withChangeSource(requestSource(req), () => undoLastEventChange(id));
+  if (!undone) {
+    res.status(409).json({ error: 'Nothing to undo' });
+    return;
+  }
+
+  console.log(`↩️ [UNDO] Event ${id}: reverted ${undone.action} from ${undone.source}`);
+  broadcast({ type: 'event_updated', eventId: id, fields: undone.before ? Object.keys(undone.before) : ['status'] });
+  res.json({ success: true, undone, event: getEventById(id) });
+});
+
+// ============ Event Context URLs ============
+// An event can resurface on several sites — patterns are host/path globs or bare keywords
+
+// List an event's context URL patterns
+app.get('/api/events/:id/context-url', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!getEventById(id)) {
+    res.status(404).json({ error: 'Event not found' });
+    return;
+  }
+  res.json({ eventId: id, patterns: getEventContextUrls(id) });
+});
+
+// Add context URL pattern(s) — body { url } or { urls: [...] }
 app.post('/api/events/:id/context-url', (req: Request, res: Response) => {
   const id = parseInt(req.params.id as string);
-  const { url } = req.body;
+  const { url, urls } = req.body;
+  const patterns: string[] = Array.isArray(urls) ? urls : url ? [url] : [];
   
-  if (!url) {
+  if (patterns.length === 0 || patterns.some(p => typeof p !== 'string')) {
     res.status(400).json({ error: 'URL required' });
     return;
   }
+  if (!getEventById(id)) {
+    res.status(404).json({ error: 'Event not found' });
+    return;
+  }
   
-  setEventContextUrl(id, url);
-  res.json({ success: true, message: 'Context URL set' });
+  const added = setEventContextUrl(id, patterns);
+  res.json({ success: true, message: 'Context URL set', added, patterns: getEventContextUrls(id) });
+});
+
+// Remove a context URL pattern — body { url } or ?url=
+app.delete('/api/events/:id/context-url', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  const url = (req.body?.url || req.query.url) as string | undefined;
+  if (!url) {
+    res.status(400).json({ error: 'URL required' });
+    return;
+  }
+  if (!removeEventContextUrl(id, url)) {
+    res.status(404).json({ error: 'Context URL not found for this event' });
+    return;
+  }
+  res.json({ success: true, patterns: getEventContextUrls(id) });
+});
+
+// ============ Recurring Event Occurrences ============
+// A recurring event's event_time is its current occurrence; skipping or completing it
+// records an exception and moves the event on to the next occurrence
+
+// Upcoming occurrences plus recorded exceptions
+app.get('/api/events/:id/occurrences', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  const event = getEventById(id);
+  if (!event) {
+    res.status(404).json({ error: 'Event not found' });
+    return;
+  }
+  if (!event.recurrence) {
+    res.status(400).json({ error: 'Event is not recurring' });
+    return;
+  }
+
+  const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
+  const start = event.recurrence_start ?? event.event_time ?? Math.floor(Date.now() / 1000);
+  const exceptions = getEventOccurrences(id);
+  const statusByTime = new Map(exceptions.map(o => [o.occurrence_time, o.status]));
+  const upcoming = getOccurrences(event.recurrence, start, event.recurrence_tz || getUserTimezone(), {
+    from: event.event_time ?? Math.floor(Date.now() / 1000),
+    limit,
+  });
+
+  res.json({
+    eventId: id,
+    recurrence: event.recurrence,
+    description: describeRRule(event.recurrence),
+    occurrences: upcoming.map(time => ({ occurrence_time: time, status: statusByTime.get(time) ?? 'upcoming' })),
+    exceptions,
+  });
+});
+
+// Skip or complete one occurrence — body { occurrence_time } (default: the current one)
+function handleOccurrenceAction(status: 'skipped' | 'completed') {
+  return (req: Request, res: Response) => {
+    const id = parseInt(req.params.id as string);
+    const event = getEventById(id);
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    if (!event.recurrence || !event.event_time) {
+      res.status(400).json({ error: 'Event is not recurring' });
+      return;
+    }
+
+    const occurrenceTime = req.body?.occurrence_time !== undefined ? Number(req.body.occurrence_time) : event.event_time;
+    if (!Number.isInteger(occurrenceTime)) {
+      res.status(400).json({ error: 'occurrence_time must be a unix timestamp' });
+      return;
+    }
+
+    setOccurrenceStatus(id, occurrenceTime, status);
+    // Skipping/completing the current occurrence moves the event straight to the next one
+    const nextOccurrence = occurrenceTime === event.event_time
+      ? withChangeSource(requestSource(req), () => advanceRecurringEvent(event, occurrenceTime))
+      : event.event_time;
+
+    console.log(`🔁 [RECUR] Event ${id} occurrence ${occurrenceTime} ${status}`);
+    broadcast({ type: 'event_updated', eventId: id, fields: ['event_time'] });
+    res.json({ success: true, eventId: id, occurrence_time: occurrenceTime, status, nextOccurrence });
+  };
+}
+
+app.post('/api/events/:id/occurrences/skip', handleOccurrenceAction('skipped'));
+app.post('/api/events/:id/occurrences/complete', handleOccurrenceAction('completed'));
+
+// ============ Reminder Offsets ============
+// Minutes-before offsets for time triggers: per event override → per type policy → built-in default
+
+// Effective offsets and pending time triggers for one event
+app.get('/api/events/:id/reminders', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  const event = getEventById(id);
+  if (!event) {
+    res.status(404).json({ error: 'Event not found' });
+    return;
+  }
+  const triggers = getTriggersForEvent(id).filter(t => t.trigger_type !== 'url' && t.trigger_type !== 'keyword' && !t.is_fired);
+  res.json({ eventId: id, ...getReminderOffsets(event), triggers });
+});
+
+// Override the offsets for one event — body { offsets: [minutes...] }, or { offsets: null } to follow the type policy
+app.put('/api/events/:id/reminders', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  const event = getEventById(id);
+  if (!event) {
+    res.status(404).json({ error: 'Event not found' });
+    return;
+  }
+
+  const { offsets } = req.body || {};
+  const parsed = offsets === null ? null : ReminderOffsetsSchema.safeParse(offsets);
+  if (parsed && !parsed.success) {
+    res.status(400).json({ error: 'offsets must be an array of minutes before the event (max 10), or null', details: parsed.error.issues });
+    return;
+  }
+
+  // Trigger maintenance rebuilds the time triggers
+  withChangeSource(requestSource(req), () => updateEvent(id, { reminder_offsets: parsed ? JSON.stringify(parsed.data) : null }));
+  console.log(`⏰ [REMINDERS] Event ${id} offsets → ${parsed ? parsed.data.join(', ') + ' min' : 'type policy'}`);
+  res.json({ success: true, eventId: id, ...getReminderOffsets(getEventById(id)!) });
+});
+
+// Policy for every event type (configured or default)
+app.get('/api/reminder-policies', (_req: Request, res: Response) => {
+  const configured = new Map(getReminderPolicies().map(p => [p.event_type, p]));
+  res.json(EventTypeEnum.options.map(type => ({
+    event_type: type,
+    offsets: configured.get(type)?.offsets ?? DEFAULT_REMINDER_OFFSETS,
+    is_default: !configured.has(type),
+  })));
+});
+
+// Set the policy for an event type — body { offsets: [minutes...] }; upcoming events of that type are resynced
+app.put('/api/reminder-policies/:eventType', (req: Request, res: Response) => {
+  const type = EventTypeEnum.safeParse(req.params.eventType);
+  if (!type.success) {
+    res.status(400).json({ error: `Unknown event type. Use one of: ${EventTypeEnum.options.join(', ')}` });
+    return;
+  }
+  const offsets = ReminderOffsetsSchema.safeParse(req.body?.offsets);
+  if (!offsets.success) {
+    res.status(400).json({ error: 'offsets must be an array of minutes before the event (max 10)', details: offsets.error.issues });
+    return;
+  }
+
+  setReminderPolicy(type.data, offsets.data);
+  const resynced = resyncTimeTriggers(type.data);
+  console.log(`⏰ [REMINDERS] Policy for ${type.data} → ${offsets.data.join(', ')} min (${resynced} event(s) resynced)`);
+  res.json({ success: true, event_type: type.data, offsets: offsets.data, resynced });
+});
+
+// Reset an event type to the built-in default
+app.delete('/api/reminder-policies/:eventType', (req: Request, res: Response) => {
+  const type = EventTypeEnum.safeParse(req.params.eventType);
+  if (!type.success || !deleteReminderPolicy(type.data)) {
+    res.status(404).json({ error: 'No reminder policy configured for this event type' });
+    return;
+  }
+  const resynced = resyncTimeTriggers(type.data);
+  console.log(`⏰ [REMINDERS] Policy for ${type.data} reset to default (${resynced} event(s) resynced)`);
+  res.json({ success: true, event_type: type.data, offsets: DEFAULT_REMINDER_OFFSETS, resynced });
+});
+
+// ============ Pending Actions ============
+// Actions from WhatsApp messages the action policy held back for confirmation
+
+const PENDING_ACTION_ERRORS: Record<Exclude<PendingActionOutcome, { ok: true }>['error'], [number, string]> = {
+  not_found: [404, 'Pending action not found'],
+  resolved: [409, 'Pending action was already answered'],
+  expired: [410, 'Pending action expired'],
+  event_missing: [409, 'The event no longer exists'],
+};
+
+function sendPendingActionOutcome(res: Response, outcome: PendingActionOutcome): void {
+  if (!outcome.ok) {
+    const [status, error] = PENDING_ACTION_ERRORS[outcome.error];
+    res.status(status).json({ error, pendingAction: outcome.pendingAction });
+    return;
+  }
+  res.json({ success: true, message: outcome.message, pendingAction: outcome.pendingAction, event: getEventById(outcome.pendingAction.event_id) });
+}
+
+// List pending actions (?status=pending|confirmed|rejected|expired, default pending)
+app.get('/api/pending-actions', (req: Request, res: Response) => {
+  const status = PendingActionStatusEnum.safeParse(req.query.status ?? 'pending');
+  if (!status.success) {
+    res.status(400).json({ error: `status must be one of: ${PendingActionStatusEnum.options.join(', ')}` });
+    return;
+  }
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+  res.json(getPendingActions({ status: status.data, limit }));
+});
+
+app.post('/api/pending-actions/:id/confirm', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  const outcome = confirmPendingAction(id, requestSource(req));
+  if (outcome.ok) {
+    const pa = outcome.pendingAction;
+    console.log(`✅ [PENDING] #${id} confirmed: ${pa.description}`);
+    broadcast({
+      type: 'action_performed',
+      action: pa.action,
+      eventId: pa.event_id,
+      eventTitle: getEventById(pa.event_id)?.title,
+      message: outcome.message,
+      undoable: true, // POST /api/events/:id/undo
+    });
+  }
+  sendPendingActionOutcome(res, outcome);
+});
+
+app.post('/api/pending-actions/:id/reject', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  const outcome = rejectPendingAction(id);
+  if (outcome.ok) {
+    broadcast({ type: 'pending_action_rejected', pendingActionId: id, eventId: outcome.pendingAction.event_id });
+  }
+  sendPendingActionOutcome(res, outcome);
+});
+
+// ============ Action Policies ============
+// When a detected action needs confirmation: confirm = never | below_threshold | always,
+// plus confirm_fallback for targets guessed from the most recent event
+
+app.get('/api/action-policies', (_req: Request, res: Response) => {
+  const configured = new Set(getActionPolicies().map(p => p.action));
+  res.json(EventActionEnum.options.map(action => ({ ...getEffectiveActionPolicy(action), is_default: !configured.has(action) })));
+});
+
+// Body { confirm, threshold?, confirm_fallback? }
+app.put('/api/action-policies/:action', (req: Request, res: Response) => {
+  const parsed = ActionPolicySchema.safeParse({ ...req.body, action: req.params.action });
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid action policy', details: parsed.error.issues });
+    return;
+  }
+  setActionPolicy(parsed.data);
+  console.log(`🛡️ [ACTIONS] Policy for ${parsed.data.action} → confirm ${parsed.data.confirm} (threshold ${parsed.data.threshold}, fallback ${parsed.data.confirm_fallback})`);
+  res.json({ success: true, policy: getEffectiveActionPolicy(parsed.data.action) });
+});
+
+// Reset an action to the built-in default
+app.delete('/api/action-policies/:action', (req: Request, res: Response) => {
+  const action = EventActionEnum.safeParse(req.params.action);
+  if (!action.success || !deleteActionPolicy(action.data)) {
+    res.status(404).json({ error: 'No action policy configured for this action' });
+    return;
+  }
+  res.json({ success: true, policy: { action: action.data, ...DEFAULT_ACTION_POLICIES[action.data] } });
+});
+
+// ============ Chat Policies ============
+// Which messages of a chat are read: enabled | mention_only | own_only | muted.
+// Chats without a policy are enabled (groups are muted when SKIP_GROUP_MESSAGES=true)
+
+app.get('/api/chat-policies', async (_req: Request, res: Response) => {
+  const policies = getChatPolicies();
+  res.json(await Promise.all(policies.map(async p => ({ ...p, name: await resolveChatName(p.chat_id) }))));
+});
+
+app.get('/api/chat-policies/:chatId', async (req: Request, res: Response) => {
+  const chatId = req.params.chatId as string;
+  const { mode, source } = getChatMode(chatId, config.skipGroupMessages);
+  res.json({ chat_id: chatId, name: await resolveChatName(chatId), mode, is_default: source === 'default' });
+});
+
+app.put('/api/chat-policies/:chatId', (req: Request, res: Response) => {
+  const mode = ChatModeEnum.safeParse(req.body?.mode);
+  if (!mode.success) {
+    res.status(400).json({ error: `mode must be one of: ${ChatModeEnum.options.join(', ')}` });
+    return;
+  }
+  const chatId = req.params.chatId as string;
+  setChatPolicy(chatId, mode.data);
+  console.log(`💬 [CHATS] ${chatId} → ${mode.data}`);
+  res.json({ success: true, policy: getChatPolicy(chatId) });
+});
+
+// Back to the global default
+app.delete('/api/chat-policies/:chatId', (req: Request, res: Response) => {
+  const chatId = req.params.chatId as string;
+  if (!deleteChatPolicy(chatId)) {
+    res.status(404).json({ error: 'No chat policy configured for this chat' });
+    return;
+  }
+  res.json({ success: true, chat_id: chatId, mode: getChatMode(chatId, config.skipGroupMessages).mode });
 });
 
 // Get all events for a specific day (used by conflict reschedule popup)
@@ -490,6 +950,53 @@ app.get('/api/events/status/:status', (req: Request, res: Response) => {
   res.json(events);
 });
 
+// ============ Web Push ============
+// Browsers subscribe with the VAPID public key; reminders are pushed to them when no
+// WebSocket client is connected (or always, with PUSH_DELIVERY=always)
+
+app.get('/api/push/vapid-public-key', (_req: Request, res: Response) => {
+  res.json({ publicKey: getVapidPublicKey(), delivery: config.pushDelivery });
+});
+
+// Subscriptions with their delivery record — keys aren't returned
+app.get('/api/push/subscriptions', (_req: Request, res: Response) => {
+  res.json(getPushSubscriptions().map(({ keys: _keys, ...subscription }) => subscription));
+});
+
+// Body: the browser's PushSubscription.toJSON() — subscribing again refreshes the keys
+app.post('/api/push/subscriptions', (req: Request, res: Response) => {
+  const parsed = PushSubscriptionRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid push subscription', details: parsed.error.errors });
+    return;
+  }
+  const { keys: _keys, ...subscription } = upsertPushSubscription(parsed.data.endpoint, parsed.data.keys);
+  console.log(`📲 [PUSH] Subscription #${subscription.id} registered`);
+  res.status(201).json(subscription);
+});
+
+// Body: { endpoint }
+app.delete('/api/push/subscriptions', (req: Request, res: Response) => {
+  const endpoint = req.body?.endpoint;
+  if (typeof endpoint !== 'string' || !endpoint) {
+    res.status(400).json({ error: 'endpoint is required' });
+    return;
+  }
+  if (!deletePushSubscription(endpoint)) {
+    res.status(404).json({ error: 'Push subscription not found' });
+    return;
+  }
+  res.json({ success: true });
+});
+
+// ============ Outbound WhatsApp ============
+// Reminders sent to WHATSAPP_NOTIFY_JIDS and answers to control chat commands — newest first,
+// with failed sends and their errors
+app.get('/api/whatsapp/outbound', (req: Request, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+  res.json({ targets: config.whatsappNotifyJids, controlChat: config.whatsappControlChat ?? null, messages: getOutboundMessages(limit) });
+});
+
 // ============ Messages API (Argus local DB) ============
 app.get('/api/messages', (req: Request, res: Response) => {
   const limit = parseInt(req.query.limit as string) || 50;
@@ -591,6 +1098,119 @@ app.get('/api/whatsapp/stats', async (_req: Request, res: Response) => {
   res.json(stats);
 });
 
+// ============ History Backfill ============
+// Reads past messages from Evolution through the ingestion pipeline; progress is
+// broadcast as backfill_progress
+
+// Start a backfill — body: { chatIds?: string[], since?: unix, until?: unix }
+app.post('/api/backfill', (req: Request, res: Response) => {
+  if (!evolutionDbReady) {
+    res.status(503).json({ error: 'Evolution DB not connected' });
+    return;
+  }
+  const parsed = BackfillRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid backfill request', details: parsed.error.errors });
+    return;
+  }
+  res.status(202).json(startBackfill(parsed.data));
+});
+
+app.get('/api/backfill', (req: Request, res: Response) => {
+  const limit = parseInt(req.query.limit as string) || 20;
+  res.json(getBackfillJobs(limit));
+});
+
+app.get('/api/backfill/:id', (req: Request, res: Response) => {
+  const job = getBackfillJobById(parseInt(req.params.id as string));
+  if (!job) {
+    res.status(404).json({ error: 'Backfill not found' });
+    return;
+  }
+  res.json(job);
+});
+
+app.post('/api/backfill/:id/pause', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!pauseBackfill(id)) {
+    res.status(409).json({ error: 'Backfill is not queued or running' });
+    return;
+  }
+  res.json({ success: true });
+});
+
+// Continue a paused or failed backfill from its checkpoint
+app.post('/api/backfill/:id/resume', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!resumeBackfill(id)) {
+    res.status(409).json({ error: 'Backfill is not paused or failed' });
+    return;
+  }
+  res.json({ success: true });
+});
+
+// ============ Chat Export Import ============
+// Upload the .txt or .zip from WhatsApp's "Export chat" as the raw request body.
+// Query: ?filename= (names the chat), chatName, chatId (attach to an existing chat),
+// owner (your name in the export), dateOrder=dmy|mdy (when auto-detection can't tell).
+// Parsing is immediate; the messages go to the ingestion queue, reported as chat_import_progress.
+app.post('/api/import/whatsapp-export', express.raw({ type: () => true, limit: '100mb' }), (req: Request, res: Response) => {
+  const body = req.body;
+  if (!Buffer.isBuffer(body) || body.length === 0) {
+    res.status(400).json({ error: 'Upload the exported .txt or .zip as the request body' });
+    return;
+  }
+  const dateOrder = req.query.dateOrder as string | undefined;
+  if (dateOrder && dateOrder !== 'dmy' && dateOrder !== 'mdy') {
+    res.status(400).json({ error: 'dateOrder must be dmy or mdy' });
+    return;
+  }
+
+  let fileName = req.query.filename as string | undefined;
+  let parsed;
+  try {
+    let text = body.toString('utf8');
+    if (isZipArchive(body)) {
+      const extracted = extractChatText(body);
+      text = extracted.text;
+      fileName = chatNameFromFileName(fileName) ? fileName : extracted.fileName;
+    }
+    parsed = parseChatExport(text, { dateOrder: dateOrder as DateOrder | undefined });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Could not read the export' });
+    return;
+  }
+  if (parsed.messages.length === 0) {
+    res.status(400).json({ error: 'No messages found — is this a WhatsApp chat export?' });
+    return;
+  }
+
+  const chatName = (req.query.chatName as string | undefined) || chatNameFromFileName(fileName) || 'WhatsApp export';
+  const chatId = (req.query.chatId as string | undefined) || getExportChatId(chatName);
+  console.log(`📦 [IMPORT] "${chatName}": ${parsed.messages.length} messages (${parsed.format}, ${parsed.dateOrder})`);
+
+  const summary = importChatExport(parsed, {
+    chatName,
+    chatId,
+    ownerName: req.query.owner as string | undefined,
+    messagesPerMinute: config.backfillMessagesPerMinute,
+  });
+  console.log(`📦 [IMPORT] "${chatName}": ${summary.queued} queued, ${summary.alreadyStored} already stored`);
+
+  res.status(202).json({
+    ...summary,
+    chatName,
+    format: parsed.format,
+    dateOrder: parsed.dateOrder,
+    isGroup: parsed.isGroup,
+    authors: parsed.authors,
+    messages: parsed.messages.length,
+    systemMessages: parsed.systemMessages,
+    mediaOmitted: parsed.mediaOmitted,
+    deleted: parsed.deleted,
+  });
+});
+
 // ============ AI Chat API (for Chrome Extension sidebar) ============
 app.post('/api/chat', async (req: Request, res: Response) => {
   try {
@@ -602,18 +1222,7 @@ app.post('/api/chat', async (req: Request, res: Response) => {
 
     // Get all active events for context
     const allEvents = getAllEvents({ limit: 100, offset: 0, status: 'all' });
-    const eventsForContext = allEvents.map((e: any) => ({
-      id: e.id,
-      title: e.title,
-      description: e.description,
-      event_type: e.event_type,
-      event_time: e.event_time,
-      location: e.location,
-      status: e.status,
-      keywords: e.keywords,
-      sender_name: e.sender_name,
-      context_url: e.context_url,
-    }));
+    const eventsForContext = buildChatContext(allEvents);
 
     console.log(`💬 [CHAT] Query: "${query}" (${eventsForContext.length} events in context)`);
 
@@ -636,13 +1245,206 @@ app.post('/api/chat', async (req: Request, res: Response) => {
   }
 });
 
-// WhatsApp webhook
-app.post('/api/webhook/whatsapp', async (req: Request, res: Response) => {
+// ============ Ingestion Result Broadcasting ============
+// Runs inside the queue worker once a webhook job has been processed
+async function announceIngestionResult(result: IngestionResult): Promise<void> {
+  // ============ Handle ACTION results (cancel, done, postpone, etc.) ============
+  // One per target — "cancel both meetings" performs two
+  for (const performed of result.actionsPerformed ?? []) {
+    if (performed.action === 'none') continue;
+    console.log(`🎯 [WEBHOOK] Action performed: ${performed.action} on "${performed.targetEventTitle}" (id: ${performed.targetEventId})`);
+    
+    // Broadcast the action to all clients so they update their UI
+    broadcast({
+      type: 'action_performed',
+      action: performed.action,
+      eventId: performed.targetEventId,
+      eventTitle: performed.targetEventTitle,
+      message: performed.message,
+      undoable: true, // POST /api/events/:id/undo
+    });
+  }
+
+  // ============ Handle AMBIGUOUS ACTIONS (user picks which event was meant) ============
+  if (result.ambiguousAction) {
+    const choice = result.ambiguousAction;
+    console.log(`🤔 [WEBHOOK] ${choice.action} matches ${choice.choices.length} events: ${choice.choices.map(c => `"${c.eventTitle}"`).join(', ')}`);
+
+    broadcast({
+      type: 'action_choice',
+      action: choice.action,
+      question: choice.question,
+      choices: choice.choices, // confirm one via /api/pending-actions/:id/confirm, the rest are rejected
+    });
+  }
+
+  // ============ Handle PENDING ACTIONS (need user confirmation) ============
+  for (const pa of result.pendingActions ?? []) {
+    console.log(`📋 [WEBHOOK] ${pa.action} needs confirmation: "${pa.targetEventTitle}" → ${pa.description} (${pa.reason})`);
+
+    const existingEvent = getEventById(pa.targetEventId);
+    await deliverNotification({
+      kind: 'confirmation',
+      event: existingEvent ? { ...existingEvent, id: pa.targetEventId } : { id: pa.targetEventId, title: pa.targetEventTitle },
+      type: 'update_confirm',
+      text: `⏸️ ${pa.targetEventTitle}: ${pa.description} — confirm in the Argus extension`,
+      overlay: async () => {
+        // Generate a confirmation popup via Gemini
+        let popup;
+        try {
+          popup = await generatePopupBlueprint(
+            existingEvent || { title: pa.targetEventTitle },
+            { conflictingEvents: [] },
+            'update_confirm'
+          );
+        } catch (err) {
+          console.error('⚠️ Popup blueprint generation failed (update_confirm):', err);
+        }
+        return {
+          type: 'update_confirm',
+          pendingActionId: pa.id,
+          action: pa.action,
+          eventId: pa.targetEventId,
+          eventTitle: pa.targetEventTitle,
+          changes: pa.changes,
+          description: pa.description,
+          reason: pa.reason,
+          popup,
+        };
+      },
+    });
+  }
+
+  // ============ Handle RSVPs (a reply or reaction answered an event's message) ============
+  if (result.rsvp) {
+    broadcast({ type: 'rsvp', ...result.rsvp });
+  }
+
+  // ============ Handle attendance (the message said who's coming) ============
+  for (const answered of result.attendance ?? []) {
+    broadcast({ type: 'attendance', ...answered, attendance: getEventAttendance([answered.eventId]).get(answered.eventId) ?? null });
+  }
+
+  // ============ Handle NEW events ============
+  // Route each event through the notification rules — overlays get a Gemini popup blueprint,
+  // the extension just renders whatever we send
+  if (result.eventsCreated > 0 && result.events) {
+    console.log(`✨ [WEBHOOK] Created ${result.eventsCreated} event(s) from message`);
+    for (const event of result.events) {
+      console.log(`   └─ Event #${event.id}: "${event.title}" (type: ${event.event_type}, status: discovered, context_url: ${event.context_url || 'none'}, sender: ${event.sender_name || 'unknown'})`);
+      
+      const hasConflicts = event.conflicts && event.conflicts.length > 0;
+      const popupType = hasConflicts ? 'conflict_warning' : 'event_discovery';
+      const type = hasConflicts ? 'conflict_warning' : 'notification';
+
+      await deliverNotification({
+        kind: hasConflicts ? 'conflict' : 'discovery',
+        event,
+        type,
+        overlay: async () => {
+          let popup;
+          try {
+            popup = await generatePopupBlueprint(
+              event,
+              { conflictingEvents: event.conflicts },
+              popupType
+            );
+          } catch (err) {
+            console.error('⚠️ Popup blueprint generation failed (webhook), using defaults:', err);
+          }
+          return hasConflicts
+            ? { type, event, conflictingEvents: event.conflicts, popupType, popup }
+            : { type, event, popup };
+        },
+      });
+    }
+  }
+}
+
+// Popups, pushes and WhatsApp replies for a result that's already stored. A failure here is
+// logged, not thrown — retrying the job would extract and act on the messages again.
+async function announceAfterIngestion(result: IngestionResult): Promise<void> {
+  try {
+    await announceIngestionResult(result);
+  } catch (error) {
+    console.error(`⚠️ [WEBHOOK] Announcing the result for message ${result.messageId} failed:`, error);
+  }
+}
+
+// Queue worker: the slow part of the webhook (Gemini extraction + popup blueprints)
+// Payloads are the chat's coalesced burst (older single-payload jobs are still accepted)
+registerJobHandler(WEBHOOK_JOB, async (payload) => {
+  const payloads = (Array.isArray(payload) ? payload : [payload]) as WhatsAppWebhook[];
+  const result = await processWebhookBurst(payloads, {
+    processOwnMessages: config.processOwnMessages,
+    skipGroupMessages: config.skipGroupMessages,
+    ownerJid: config.ownerJid,
+    controlChat: config.whatsappControlChat,
+  });
+  await announceAfterIngestion(result);
+});
+
+// Queue worker for edits and deletes — proposes or applies the changes to the message's events
+registerJobHandler(MESSAGE_CHANGE_JOB, async (payload) => {
+  const changes = (Array.isArray(payload) ? payload : [payload]) as MessageChange[];
+  for (const change of changes) {
+    const result = await processMessageChange(change);
+    if (result.skipped) {
+      console.log(`⏭️ [WEBHOOK] ${change.kind} of message ${change.messageId} skipped: ${result.skipReason}`);
+      continue;
+    }
+    await announceAfterIngestion(result);
+  }
+});
+
+// Queue worker for reactions — never coalesced into a burst, they answer the message they're on
+registerJobHandler(REACTION_JOB, async (payload) => {
+  const options = {
+    processOwnMessages: config.processOwnMessages,
+    skipGroupMessages: config.skipGroupMessages,
+    ownerJid: config.ownerJid,
+  };
+  for (const reaction of (Array.isArray(payload) ? payload : [payload]) as WhatsAppWebhook[]) {
+    const result = await processWebhook(reaction, options);
+    if (!result.skipped) await announceAfterIngestion(result);
+  }
+});
+
+// Queue worker for "Export chat" imports, one message per job
+registerJobHandler(CHAT_IMPORT_JOB, async (payload) => {
+  const progress = await processChatImportJob(payload as WhatsAppWebhook, {
+    processOwnMessages: config.processOwnMessages,
+    skipGroupMessages: config.skipGroupMessages,
+    ownerJid: config.ownerJid,
+  });
+  broadcast({ type: 'chat_import_progress', done: progress.remaining === 0, ...progress });
+});
+
+// Start ingestion workers (after handlers are registered, so re-queued jobs find theirs)
+startQueue({
+  concurrency: config.queueConcurrency,
+  maxAttempts: config.queueMaxAttempts,
+});
+
+// WhatsApp webhook — validates, enqueues and acknowledges immediately
+app.post('/api/webhook/whatsapp', (req: Request, res: Response) => {
   try {
     console.log(`📩 [WEBHOOK] Received event: ${req.body.event} from instance: ${req.body.instance}`);
     
-    // Only process messages.upsert events (new messages)
-    // Ignore messages.update (read receipts, status updates)
+    // Edits and deletes-for-everyone of earlier messages. They join the chat's ordered queue,
+    // so one arriving right after its message waits until that message has been processed.
+    const change = getMessageChange(req.body);
+    if (change) {
+      const jobId = change.chatId
+        ? enqueueDebouncedJob(MESSAGE_CHANGE_JOB, change.chatId, change, { debounceSeconds: 0, maxWaitSeconds: 0 }).id
+        : enqueueJob(MESSAGE_CHANGE_JOB, [change]);
+      console.log(`📬 [WEBHOOK] ${change.kind} of message ${change.messageId} queued as job #${jobId}`);
+      res.status(202).json({ queued: true, jobId, change: change.kind, messageId: change.messageId });
+      return;
+    }
+
+    // Otherwise only messages.upsert events (new messages) are processed —
+    // read receipts and other status updates are ignored
     if (req.body.event !== 'messages.upsert') {
       res.json({ skipped: true, reason: 'event_type_ignored', event: req.body.event });
       return;
@@ -654,97 +1456,80 @@ app.post('/api/webhook/whatsapp', async (req: Request, res: Response) => {
       return;
     }
 
-    const result = await processWebhook(parsed.data, {
-      processOwnMessages: config.processOwnMessages,
-      skipGroupMessages: config.skipGroupMessages,
+    // Reactions keep the chat's order but skip the debounce window
+    const { key } = parsed.data.data;
+    if (parsed.data.data.message?.reactionMessage) {
+      const { id: jobId } = enqueueDebouncedJob(REACTION_JOB, key.remoteJid, parsed.data, { debounceSeconds: 0, maxWaitSeconds: 0 });
+      console.log(`📬 [WEBHOOK] Reaction ${key.id} queued as job #${jobId}`);
+      res.status(202).json({ queued: true, jobId, coalesced: false, messageId: key.id });
+      return;
+    }
+
+    // One ordered queue per chat — quick follow-ups within the debounce window join the same job
+    const { id: jobId, coalesced } = enqueueDebouncedJob(WEBHOOK_JOB, parsed.data.data.key.remoteJid, parsed.data, {
+      debounceSeconds: config.ingestDebounceSeconds,
+      maxWaitSeconds: config.ingestDebounceMaxSeconds,
     });
+    console.log(`📬 [WEBHOOK] Message ${parsed.data.data.key.id} ${coalesced ? 'added to' : 'queued as'} job #${jobId}`);
+    res.status(202).json({ queued: true, jobId, coalesced, messageId: parsed.data.data.key.id });
+  } catch (error) {
+    console.error('Webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // ============ Handle ACTION results (cancel, done, postpone, etc.) ============
-    if (result.actionPerformed && result.actionPerformed.action !== 'none') {
-      console.log(`🎯 [WEBHOOK] Action performed: ${result.actionPerformed.action} on "${result.actionPerformed.targetEventTitle}" (id: ${result.actionPerformed.targetEventId})`);
-      
-      // Broadcast the action to all clients so they update their UI
-      broadcast({
-        type: 'action_performed',
-        action: result.actionPerformed.action,
-        eventId: result.actionPerformed.targetEventId,
-        eventTitle: result.actionPerformed.targetEventTitle,
-        message: result.actionPerformed.message,
-      });
-    }
+// ============ Ingestion Queue API ============
 
-    // ============ Handle PENDING MODIFY (needs user confirmation) ============
-    if (result.pendingAction) {
-      const pa = result.pendingAction;
-      console.log(`📋 [WEBHOOK] Modify needs confirmation: "${pa.targetEventTitle}" → ${pa.description}`);
+// Queue counts by status
+app.get('/api/queue/stats', (_req: Request, res: Response) => {
+  res.json(getJobStats());
+});
 
-      // Generate a confirmation popup via Gemini
-      const existingEvent = getEventById(pa.targetEventId);
-      let popup;
-      try {
-        popup = await generatePopupBlueprint(
-          existingEvent || { title: pa.targetEventTitle },
-          { conflictingEvents: [] },
-          'update_confirm'
-        );
-      } catch (err) {
-        console.error('⚠️ Popup blueprint generation failed (update_confirm):', err);
-      }
+// List jobs (filter by ?status=pending|running|done|dead)
+app.get('/api/queue/jobs', (req: Request, res: Response) => {
+  const limit = parseInt(req.query.limit as string) || 50;
+  const offset = parseInt(req.query.offset as string) || 0;
+  const status = req.query.status ? JobStatusEnum.safeParse(req.query.status) : null;
+  if (status && !status.success) {
+    res.status(400).json({ error: 'Invalid status' });
+    return;
+  }
+  res.json(getJobs({ status: status?.data, limit, offset }));
+});
 
-      broadcast({
-        type: 'update_confirm',
-        eventId: pa.targetEventId,
-        eventTitle: pa.targetEventTitle,
-        changes: pa.changes,
-        description: pa.description,
-        popup,
-      });
-    }
+// Retry every dead-lettered job
+app.post('/api/queue/jobs/retry', (_req: Request, res: Response) => {
+  const retried = retryDeadJobs();
+  console.log(`🔁 [QUEUE] Retrying ${retried} dead job(s)`);
+  res.json({ success: true, retried });
+});
 
-    // ============ Handle NEW events ============
-    // Broadcast each event to WebSocket clients for overlay notifications
-    // Generate popup blueprint via Gemini — extension just renders whatever we send
-    if (result.eventsCreated > 0 && result.events) {
-      console.log(`✨ [WEBHOOK] Created ${result.eventsCreated} event(s) from message`);
-      for (const event of result.events) {
-        console.log(`   └─ Event #${event.id}: "${event.title}" (type: ${event.event_type}, status: discovered, context_url: ${event.context_url || 'none'}, sender: ${event.sender_name || 'unknown'})`);
-        
-        const hasConflicts = event.conflicts && event.conflicts.length > 0;
-        const popupType = hasConflicts ? 'conflict_warning' : 'event_discovery';
-        
-        // Generate popup blueprint via Gemini
-        let popup;
-        try {
-          popup = await generatePopupBlueprint(
-            event,
-            { conflictingEvents: event.conflicts },
-            popupType
-          );
-        } catch (err) {
-          console.error('⚠️ Popup blueprint generation failed (webhook), using defaults:', err);
-        }
-        
-        if (hasConflicts) {
-          broadcast({ 
-            type: 'conflict_warning', 
-            event,
-            conflictingEvents: event.conflicts,
-            popupType,
-            popup
-          });
-          console.log(`📡 [WEBHOOK] Broadcasted CONFLICT warning for event #${event.id} (conflicts with ${event.conflicts!.length} events)`);
-        } else {
-          broadcast({ type: 'notification', event, popup });
-          console.log(`📡 [WEBHOOK] Broadcasted discovery notification for event #${event.id}`);
-        }
-      }
-    }
+// Retry a single dead job, or run a failed one without waiting out its backoff
+app.post('/api/queue/jobs/:id/retry', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  const job = getJobById(id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+  if (!retryJob(id)) {
+    res.status(409).json({ error: `Job is ${job.status}, only dead or failed jobs can be retried` });
+    return;
+  }
+  console.log(`🔁 [QUEUE] Job #${id} re-queued by user`);
+  res.json({ success: true, job: getJobById(id) });
+});
 
-    res.json(result);
-  } catch (error) {
-    console.error('Webhook error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+// Purge dead (default) or done jobs
+app.delete('/api/queue/jobs', (req: Request, res: Response) => {
+  const status = (req.query.status as string) || 'dead';
+  if (status !== 'dead' && status !== 'done') {
+    res.status(400).json({ error: 'Only dead or done jobs can be purged' });
+    return;
   }
+  const purged = purgeJobs(status);
+  console.log(`🧹 [QUEUE] Purged ${purged} ${status} job(s)`);
+  res.json({ success: true, purged });
 });
 
 // Context check (from Chrome extension)
@@ -762,7 +1547,7 @@ app.post('/api/context-check', async (req: Request, res: Response) => {
     console.log(`📊 [CONTEXT-CHECK] Found ${contextTriggers.length} context trigger(s) for URL`);
     if (contextTriggers.length > 0) {
       contextTriggers.forEach(t => {
-        console.log(`   └─ Event #${t.id}: "${t.title}" (type: ${t.event_type}, context_url: ${t.location})`);
+        console.log(`   └─ Event #${t.id}: "${t.title}" (type: ${t.event_type}, matched: ${t.matchedPattern})`);
       });
     }
     
@@ -843,6 +1628,240 @@ app.post('/api/extract-context', (req: Request, res: Response) => {
   }
 });
 
+// ============ Context Rules API ============
+// Keyword/event-type/recipient → URL pattern rules used by ingestion and extractContextFromUrl
+
+// List rules (optionally only those used by ?applies_to=ingestion|browsing)
+app.get('/api/context-rules', (req: Request, res: Response) => {
+  const appliesTo = req.query.applies_to as string | undefined;
+  if (appliesTo && appliesTo !== 'ingestion' && appliesTo !== 'browsing') {
+    res.status(400).json({ error: 'applies_to must be ingestion or browsing' });
+    return;
+  }
+  res.json(getContextRules({ appliesTo: appliesTo as 'ingestion' | 'browsing' | undefined }));
+});
+
+app.get('/api/context-rules/:id', (req: Request, res: Response) => {
+  const rule = getContextRuleById(parseInt(req.params.id as string));
+  if (!rule) {
+    res.status(404).json({ error: 'Context rule not found' });
+    return;
+  }
+  res.json(rule);
+});
+
+app.post('/api/context-rules', (req: Request, res: Response) => {
+  const parsed = ContextRuleSchema.omit({ id: true, created_at: true, updated_at: true }).safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid context rule', details: parsed.error.errors });
+    return;
+  }
+  const id = insertContextRule(parsed.data);
+  console.log(`🧭 [RULES] Created context rule #${id}: "${parsed.data.name}" → ${parsed.data.url_patterns.join(', ')}`);
+  res.status(201).json(getContextRuleById(id));
+});
+
+app.patch('/api/context-rules/:id', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!getContextRuleById(id)) {
+    res.status(404).json({ error: 'Context rule not found' });
+    return;
+  }
+  const parsed = ContextRuleSchema.omit({ id: true, created_at: true, updated_at: true }).partial().safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid context rule', details: parsed.error.errors });
+    return;
+  }
+  if (!updateContextRule(id, parsed.data)) {
+    res.status(400).json({ error: 'No fields to update' });
+    return;
+  }
+  console.log(`🧭 [RULES] Updated context rule #${id} [${Object.keys(parsed.data).join(', ')}]`);
+  res.json(getContextRuleById(id));
+});
+
+app.delete('/api/context-rules/:id', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!deleteContextRule(id)) {
+    res.status(404).json({ error: 'Context rule not found' });
+    return;
+  }
+  console.log(`🧭 [RULES] Deleted context rule #${id}`);
+  res.json({ success: true });
+});
+
+// ============ Notification Routing API ============
+// Kind/event type/urgency/connection → channel rules, quiet hours, do-not-disturb and the digest
+
+// All rules, highest priority first — the first enabled match wins
+app.get('/api/notification-rules', (_req: Request, res: Response) => {
+  res.json(getNotificationRules());
+});
+
+// Where a notification would go — the matching rule, and what quiet hours/DND hold back
+app.post('/api/notification-rules/preview', (req: Request, res: Response) => {
+  const parsed = NotificationPreviewRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid preview request', details: parsed.error.errors });
+    return;
+  }
+  const { kind, event_type, connected, at } = parsed.data;
+  const urgency = parsed.data.urgency ?? notificationUrgency(kind, {});
+  const now = at ? at * 1000 : Date.now();
+  res.json({ urgency, ...routeNotification({ kind, eventType: event_type, urgency }, connected, now) });
+});
+
+app.get('/api/notification-rules/:id', (req: Request, res: Response) => {
+  const rule = getNotificationRuleById(parseInt(req.params.id as string));
+  if (!rule) {
+    res.status(404).json({ error: 'Notification rule not found' });
+    return;
+  }
+  res.json(rule);
+});
+
+app.post('/api/notification-rules', (req: Request, res: Response) => {
+  const parsed = NotificationRuleSchema.omit({ id: true, created_at: true, updated_at: true }).safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid notification rule', details: parsed.error.errors });
+    return;
+  }
+  const id = insertNotificationRule(parsed.data);
+  console.log(`🔀 [RULES] Created notification rule #${id}: "${parsed.data.name}" → ${parsed.data.channels.join(', ') || 'nowhere'}`);
+  res.status(201).json(getNotificationRuleById(id));
+});
+
+app.patch('/api/notification-rules/:id', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!getNotificationRuleById(id)) {
+    res.status(404).json({ error: 'Notification rule not found' });
+    return;
+  }
+  const parsed = NotificationRuleSchema.omit({ id: true, created_at: true, updated_at: true }).partial().safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid notification rule', details: parsed.error.errors });
+    return;
+  }
+  if (!updateNotificationRule(id, parsed.data)) {
+    res.status(400).json({ error: 'No fields to update' });
+    return;
+  }
+  console.log(`🔀 [RULES] Updated notification rule #${id} [${Object.keys(parsed.data).join(', ')}]`);
+  res.json(getNotificationRuleById(id));
+});
+
+app.delete('/api/notification-rules/:id', (req: Request, res: Response) => {
+  const id = parseInt(req.params.id as string);
+  if (!deleteNotificationRule(id)) {
+    res.status(404).json({ error: 'Notification rule not found' });
+    return;
+  }
+  console.log(`🔀 [RULES] Deleted notification rule #${id}`);
+  res.json({ success: true });
+});
+
+app.get('/api/notification-settings', (_req: Request, res: Response) => {
+  res.json(getNotificationSettings());
+});
+
+// Partial updates — { "dnd_until": null } ends do-not-disturb, { "quiet_hours": null } turns quiet hours off
+app.put('/api/notification-settings', (req: Request, res: Response) => {
+  const parsed = NotificationSettingsSchema.partial().safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid notification settings', details: parsed.error.errors });
+    return;
+  }
+  const settings = setNotificationSettings(parsed.data);
+  console.log(`🔀 [NOTIFY] Settings: quiet hours ${settings.quiet_hours ?? 'off'} (WhatsApp ${settings.whatsapp_quiet_hours ?? 'off'}), DND ${settings.dnd_until ? `until ${new Date(settings.dnd_until * 1000).toISOString()}` : 'off'}, digest at ${settings.digest_time}`);
+  res.json(settings);
+});
+
+// What the next digest will contain
+app.get('/api/notifications/digest', (_req: Request, res: Response) => {
+  res.json({ digestTime: getNotificationSettings().digest_time, items: getPendingDigestItems() });
+});
+
+// Send the digest now instead of waiting for digest_time
+app.post('/api/notifications/digest/send', async (_req: Request, res: Response) => {
+  const result = await sendDigest();
+  res.json(result ?? { items: 0 });
+});
+
+// ============ SETTINGS / TIMEZONE ============
+
+app.get('/api/settings', (_req: Request, res: Response) => {
+  // The generated VAPID private key lives in settings but is never handed out
+  const settings = getAllSettings();
+  delete settings[VAPID_PRIVATE_SETTING];
+  res.json({ ...settings, timezone: getUserTimezone() });
+});
+
+// Owner's timezone — used to read times in own messages and for contacts without one
+app.put('/api/settings/timezone', (req: Request, res: Response) => {
+  const { timezone } = req.body || {};
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    res.status(400).json({ error: 'timezone must be a valid IANA timezone (e.g. Asia/Kolkata)' });
+    return;
+  }
+  setSetting('timezone', timezone);
+  setUserTimezone(timezone);
+  console.log(`🕐 [SETTINGS] Timezone set to ${timezone}`);
+  res.json({ success: true, timezone });
+});
+
+// Per-contact timezone — null falls back to the owner's timezone
+app.put('/api/contacts/:id/timezone', (req: Request, res: Response) => {
+  const { timezone } = req.body || {};
+  if (timezone !== null && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+    res.status(400).json({ error: 'timezone must be a valid IANA timezone or null' });
+    return;
+  }
+  if (!setContactTimezone(req.params.id as string, timezone)) {
+    res.status(404).json({ error: 'Contact not found' });
+    return;
+  }
+  console.log(`🕐 [SETTINGS] Contact ${req.params.id} timezone → ${timezone ?? 'owner default'}`);
+  res.json({ success: true, contactId: req.params.id, timezone });
+});
+
+// ============ Chat & Contact Views ============
+// Events are linked to the chat they came from (events.chat_id) and to everyone they
+// involve (event_participants — the sender plus mentioned names resolved to contacts)
+
+// Display name for a chat: the Evolution chat name, else the contact name for 1:1 chats
+async function resolveChatName(chatId: string): Promise<string | null> {
+  if (evolutionDbReady) {
+    const name = await getEvolutionChatName(chatId, resolvedInstanceId || undefined);
+    if (name) return name;
+  }
+  return chatId.endsWith('@g.us') ? null : getContactById(chatId.split('@')[0])?.name ?? null;
+}
+
+function viewStatus(req: Request): 'all' | 'active' {
+  return req.query.status === 'active' ? 'active' : 'all';
+}
+
+// Events from one chat (?status=active|all, default all)
+app.get('/api/chats/:chatId/events', async (req: Request, res: Response) => {
+  const chatId = req.params.chatId as string;
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+  const offset = parseInt(req.query.offset as string) || 0;
+  const events = getEventsByChat(chatId, { status: viewStatus(req), limit, offset });
+  res.json({ chat: { id: chatId, name: await resolveChatName(chatId) }, events });
+});
+
+// Events a contact sent or was mentioned in (?status=active|all, default all)
+app.get('/api/contacts/:id/events', (req: Request, res: Response) => {
+  const contact = getContactById(req.params.id as string);
+  if (!contact) {
+    res.status(404).json({ error: 'Contact not found' });
+    return;
+  }
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+  const offset = parseInt(req.query.offset as string) || 0;
+  res.json({ contact, events: getEventsByContact(contact.id, { status: viewStatus(req), limit, offset }) });
+});
+
 // Form field mismatch check (Insurance Accuracy scenario)
 // Checks if user-entered car model matches WhatsApp chat memory
 app.post('/api/form-check', (req: Request, res: Response) => {
@@ -940,6 +1959,9 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 process.on('SIGINT', async () => {
   console.log('\n🛑 Shutting down...');
   stopScheduler();
+  stopDigest();
+  stopQueue();
+  await stopBackfillRunner();
   closeDb();
   await closeEvolutionDb();
   server.close(() => {
@@ -951,6 +1973,9 @@ process.on('SIGINT', async () => {
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Received SIGTERM...');
   stopScheduler();
+  stopDigest();
+  stopQueue();
+  await stopBackfillRunner();
   closeDb();
   await closeEvolutionDb();
   server.close(() => process.exit(0));
@@ -0,0 +1,168 @@
+/**
+ * Timezone Handling
+ * Gemini returns event times as local wall-clock time ("2026-03-12T17:00") in the
+ * sender's timezone; everything here converts between that and unix timestamps
+ * with Intl, so "call at 5pm" means 5pm where the person lives — not on the server.
+ */
+
+import type { TimeReference } from './types.js';
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+export interface ResolvedTime {
+  time: number;           // Unix timestamp
+  isPast: boolean;        // Still before the message time after resolution
+  adjustment: string | null;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOUR = 3600;
+
+// Owner's timezone — set at startup from settings / TIMEZONE, changeable at runtime
+let userTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function setUserTimezone(timezone: string): void {
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone: ${timezone}`);
+  }
+  userTimezone = timezone;
+}
+
+export function getUserTimezone(): string {
+  return userTimezone;
+}
+
+// Wall-clock fields of an instant in a timezone
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '0';
+  return {
+    year: parseInt(get('year')),
+    month: parseInt(get('month')),
+    day: parseInt(get('day')),
+    hour: parseInt(get('hour')),
+    minute: parseInt(get('minute')),
+    second: parseInt(get('second')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+// Minutes the timezone is ahead of UTC at that instant (IST = 330)
+export function getOffsetMinutes(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// Wall-clock time in a timezone → unix timestamp. Out-of-range fields roll over
+// (day 32 → next month), which is how calendar arithmetic is done below.
+export function zonedTimeToUnix(
+  parts: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+  timezone: string
+): number {
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour ?? 0, parts.minute ?? 0, parts.second ?? 0);
+  // Guess with the offset at that moment, then correct once for DST transitions
+  let offset = getOffsetMinutes(new Date(asUtc), timezone);
+  const guess = asUtc - offset * 60000;
+  const corrected = getOffsetMinutes(new Date(guess), timezone);
+  if (corrected !== offset) offset = corrected;
+  return Math.floor((asUtc - offset * 60000) / 1000);
+}
+
+// Parse Gemini's event_time. An explicit offset ("Z", "+05:30") is respected;
+// a bare "YYYY-MM-DD[THH:mm[:ss]]" is wall-clock time in the given timezone.
+export function parseZonedDateTime(value: string, timezone: string): number | null {
+  const trimmed = value.trim();
+  const local = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/);
+  if (local) {
+    const [, y, mo, d, h, mi, s] = local;
+    return zonedTimeToUnix({
+      year: parseInt(y), month: parseInt(mo), day: parseInt(d),
+      hour: h ? parseInt(h) : 0, minute: mi ? parseInt(mi) : 0, second: s ? parseInt(s) : 0,
+    }, timezone);
+  }
+
+  const ms = new Date(trimmed).getTime();
+  return isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+// Same wall-clock time, N calendar days later (DST-safe)
+export function addZonedDays(unix: number, days: number, timezone: string): number {
+  const p = getZonedParts(new Date(unix * 1000), timezone);
+  return zonedTimeToUnix({ ...p, day: p.day + days }, timezone);
+}
+
+export function formatZoned(unix: number, timezone: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(unix * 1000).toLocaleString('en-US', { ...options, timeZone: timezone });
+}
+
+// "Thu, Mar 12, 5:00 PM"
+export function formatEventTime(unix: number, timezone: string = userTimezone): string {
+  return formatZoned(unix, timezone, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+// Turn Gemini's event_time into a timestamp relative to when the message was sent.
+// Instead of pushing any past date forward week by week, each kind of reference gets
+// one explicit correction when it resolved to before the message:
+// - time_only ("at 5pm" sent at 6pm)          → next day
+// - weekday ("Thursday" resolved to last one) → +7 days
+// - date_without_year ("15th March")          → next year
+// - absolute / relative / explicitly past      → kept, recorded as past
+export function resolveEventTime(
+  raw: string,
+  opts: { timezone: string; referenceTime: number; timeReference?: TimeReference | null; isPast?: boolean | null }
+): ResolvedTime | null {
+  let time = parseZonedDateTime(raw, opts.timezone);
+  if (time === null) return null;
+
+  // Small grace period: "at 5pm" sent at 5:10pm is still today's 5pm
+  const cutoff = opts.referenceTime - HOUR;
+  let adjustment: string | null = null;
+
+  if (!opts.isPast && time < cutoff) {
+    switch (opts.timeReference) {
+      case 'time_only':
+        time = addZonedDays(time, 1, opts.timezone);
+        adjustment = 'time already passed that day → next day';
+        break;
+      case 'weekday':
+        time = addZonedDays(time, 7, opts.timezone);
+        adjustment = 'weekday resolved to the past → next week';
+        break;
+      case 'date_without_year': {
+        const p = getZonedParts(new Date(time * 1000), opts.timezone);
+        time = zonedTimeToUnix({ ...p, year: p.year + 1 }, opts.timezone);
+        adjustment = 'date already passed this year → next year';
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return { time, isPast: time < cutoff, adjustment };
+}
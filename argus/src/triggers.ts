@@ -0,0 +1,170 @@
+/**
+ * Time Triggers
+ * Reminder triggers fire a number of minutes before an event's (current) occurrence.
+ * The offsets come from the event's own override, else the reminder policy for its
+ * event type, else the built-in defaults below.
+ *
+ * Trigger maintenance listens to event changes from db.ts and, inside the same
+ * transaction, rebuilds time triggers when an event's time, offsets or status change
+ * and cancels pending triggers once the event is completed, ignored, expired or deleted.
+ * Recurring events are moved on to their next occurrence once the current one is over.
+ */
+
+import {
+  getEventById,
+  insertTrigger,
+  getEventOccurrences,
+  deleteUnfiredTimeTriggers,
+  moveToNextOccurrence,
+  updateEventStatus,
+  getReminderPolicy,
+  getUpcomingTimedEvents,
+  deleteUnfiredTriggers,
+  getTriggersForEvent,
+  onEventChange,
+} from './db.js';
+import type { EventChange } from './db.js';
+import { getNextOccurrence } from './recurrence.js';
+import { getUserTimezone, formatEventTime } from './timezone.js';
+import type { Event, EventType } from './types.js';
+
+// Minutes before the event (24h, 1h, 15min) — every type uses these until a policy is saved for it
+export const DEFAULT_REMINDER_OFFSETS = [24 * 60, 60, 15];
+
+const INACTIVE_STATUSES = ['completed', 'ignored', 'expired', 'dismissed', 'deleted'];
+const TERMINAL_STATUSES = ['completed', 'ignored', 'expired', 'deleted'];
+
+// Columns whose change invalidates an event's time triggers
+const TIMING_FIELDS = ['event_time', 'event_type', 'reminder_offsets', 'recurrence', 'recurrence_start'];
+
+let stopMaintenance: (() => void) | null = null;
+
+// Effective reminder offsets (minutes) for an event and where they came from
+export function getReminderOffsets(event: Event): { offsets: number[]; source: 'event' | 'policy' | 'default' } {
+  if (event.reminder_offsets) {
+    try {
+      return { offsets: JSON.parse(event.reminder_offsets) as number[], source: 'event' };
+    } catch {
+      // Corrupt override — fall through to the type policy
+    }
+  }
+  const policy = getReminderPolicy(event.event_type);
+  if (policy) return { offsets: policy, source: 'policy' };
+  return { offsets: DEFAULT_REMINDER_OFFSETS, source: 'default' };
+}
+
+// trigger_value is an ISO string, or unix seconds for rows written by older versions
+export function parseTriggerTime(value: string): number | null {
+  if (/^\d+$/.test(value.trim())) return parseInt(value, 10);
+  const ms = new Date(value).getTime();
+  return isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+// Replace an event's unfired time triggers with one per reminder offset that is still
+// in the future. Idempotent: a reminder that already fired (the scheduler fires up to
+// 5 minutes early) isn't recreated. Returns how many were created.
+export function syncTimeTriggers(eventId: number): number {
+  deleteUnfiredTimeTriggers(eventId);
+
+  const event = getEventById(eventId);
+  if (!event || !event.event_time || INACTIVE_STATUSES.includes(event.status)) return 0;
+
+  const fired = new Set(getTriggersForEvent(eventId).filter(t => t.is_fired).map(t => t.trigger_value));
+  const now = Math.floor(Date.now() / 1000);
+  let created = 0;
+  for (const offset of getReminderOffsets(event).offsets) {
+    const triggerTime = event.event_time - offset * 60;
+    const triggerValue = new Date(triggerTime * 1000).toISOString();
+    if (triggerTime > now && !fired.has(triggerValue)) {
+      insertTrigger({
+        event_id: eventId,
+        trigger_type: 'time',
+        trigger_value: triggerValue,
+        is_fired: false,
+        offset_minutes: offset,
+      });
+      created++;
+    }
+  }
+  return created;
+}
+
+// Regenerate triggers for every upcoming event a policy change affects — returns how many events
+export function resyncTimeTriggers(eventType?: EventType): number {
+  const events = getUpcomingTimedEvents(eventType).filter(e => !e.reminder_offsets);
+  for (const event of events) syncTimeTriggers(event.id!);
+  return events.length;
+}
+
+// ============ TRIGGER MAINTENANCE ============
+
+// Keep an event's triggers in line with one change (runs inside the change's transaction)
+export function handleEventChange(change: EventChange): void {
+  const event = getEventById(change.eventId);
+  if (!event) return;
+
+  if (TERMINAL_STATUSES.includes(event.status)) {
+    const cancelled = deleteUnfiredTriggers(change.eventId);
+    if (cancelled > 0) {
+      console.log(`🧹 [TRIGGERS] Cancelled ${cancelled} pending trigger(s) for event #${change.eventId} (${event.status})`);
+    }
+    return;
+  }
+
+  const statusChanged = change.fields.includes('status') && change.previous.status !== event.status;
+  const timingChanged = change.fields.some(f => TIMING_FIELDS.includes(f));
+  // Snoozing or marking reminded keeps the triggers; leaving/re-entering an inactive status doesn't
+  const activityChanged = statusChanged &&
+    (INACTIVE_STATUSES.includes(event.status) || INACTIVE_STATUSES.includes(change.previous.status));
+
+  if (timingChanged || activityChanged) {
+    const created = syncTimeTriggers(change.eventId);
+    console.log(`🔧 [TRIGGERS] Rebuilt time triggers for event #${change.eventId}: ${created} pending`);
+  }
+}
+
+export function startTriggerMaintenance(): void {
+  if (stopMaintenance) return;
+  stopMaintenance = onEventChange(handleEventChange);
+  console.log('🔧 Trigger maintenance started');
+}
+
+export function stopTriggerMaintenance(): void {
+  if (stopMaintenance) {
+    stopMaintenance();
+    stopMaintenance = null;
+  }
+}
+
+// ============ RECURRENCE ============
+
+// Next occurrence of a recurring event after `after`, skipping occurrences that were
+// individually skipped or completed. null when the series has ended.
+export function getNextEventOccurrence(event: Event, after: number): number | null {
+  if (!event.recurrence || !event.id) return null;
+  const start = event.recurrence_start ?? event.event_time;
+  if (!start) return null;
+
+  const exceptions = new Set(getEventOccurrences(event.id).map(o => o.occurrence_time));
+  return getNextOccurrence(event.recurrence, start, after, event.recurrence_tz || getUserTimezone(), exceptions);
+}
+
+// Move a recurring event past `after` (default: now) and regenerate its time triggers.
+// A series with no further occurrences expires. Returns the new event_time.
+export function advanceRecurringEvent(event: Event, after = Math.floor(Date.now() / 1000)): number | null {
+  if (!event.id || !event.recurrence) return null;
+
+  const next = getNextEventOccurrence(event, after);
+
+  if (next === null) {
+    deleteUnfiredTimeTriggers(event.id);
+    updateEventStatus(event.id, 'expired');
+    console.log(`🔁 [RECUR] "${event.title}" has no further occurrences — expired`);
+    return null;
+  }
+
+  moveToNextOccurrence(event.id, next);
+  const triggers = syncTimeTriggers(event.id);
+  console.log(`🔁 [RECUR] "${event.title}" → next occurrence ${formatEventTime(next, event.recurrence_tz || getUserTimezone())} (${triggers} trigger(s))`);
+  return next;
+}
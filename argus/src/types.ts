@@ -1,12 +1,22 @@
 import { z } from 'zod';
+import { isValidTimezone } from './timezone.js';
 
 // ============ Message Schemas ============
+export const MediaTypeEnum = z.enum(['image', 'video', 'document', 'audio']);
+export type MediaType = z.infer<typeof MediaTypeEnum>;
+
 export const MessageSchema = z.object({
   id: z.string(),
   chat_id: z.string(),
   sender: z.string(),
+  sender_jid: z.string().nullable().optional(),    // Full JID of a sender (…@s.whatsapp.net or …@lid), null for the owner's own
   content: z.string(),
   timestamp: z.number(),
+  media_type: MediaTypeEnum.nullable().optional(), // Set for image/video/document/audio messages
+  media_ref: z.string().nullable().optional(),     // Evolution mediaUrl, or the WhatsApp CDN url as fallback
+  edited_at: z.number().nullable().optional(),     // Sender edited the message (content holds the edited text)
+  deleted_at: z.number().nullable().optional(),    // Sender deleted it for everyone — kept, but left out of Gemini's context
+  processed_at: z.number().nullable().optional(),  // Ingestion finished with it — a retried job or re-delivered webhook skips it
   created_at: z.number().optional(),
 });
 export type Message = z.infer<typeof MessageSchema>;
@@ -22,7 +32,8 @@ export type EventType = z.infer<typeof EventTypeEnum>;
 // - completed: User marked as done
 // - dismissed: User dismissed (for context events, can reappear)
 // - expired: Event time has passed
-export const EventStatusEnum = z.enum(['discovered', 'scheduled', 'snoozed', 'ignored', 'reminded', 'completed', 'dismissed', 'expired', 'pending']);
+// - deleted: Soft-deleted — hidden everywhere, restorable via undo
+export const EventStatusEnum = z.enum(['discovered', 'scheduled', 'snoozed', 'ignored', 'reminded', 'completed', 'dismissed', 'expired', 'pending', 'deleted']);
 export type EventStatus = z.infer<typeof EventStatusEnum>;
 
 export const EventSchema = z.object({
@@ -41,10 +52,138 @@ export const EventSchema = z.object({
   context_url: z.string().nullable().optional(), // URL pattern that triggers this event (e.g., netflix.com)
   dismiss_count: z.number().default(0).optional(), // How many times dismissed (for persistent reminders)
   sender_name: z.string().nullable().optional(), // Who sent the original message (e.g., "Rahul")
+  recurrence: z.string().nullable().optional(), // RRULE subset (e.g., "FREQ=WEEKLY;BYDAY=MO,TH"); event_time is the next occurrence
+  recurrence_start: z.number().nullable().optional(), // Unix timestamp of the series' first occurrence (RRULE anchor)
+  recurrence_tz: z.string().nullable().optional(), // Timezone occurrences are expanded in (null = owner's)
+  reminder_offsets: z.string().nullable().optional(), // JSON array of minutes before event_time (null = policy for event_type)
+  deleted_at: z.number().nullable().optional(), // Unix timestamp of the soft delete
+  chat_id: z.string().nullable().optional(), // WhatsApp chat (remoteJid) the event came from
+  sender_jid: z.string().nullable().optional(), // Who wrote the source message — null for the owner's own messages
   created_at: z.number().optional(),
 });
 export type Event = z.infer<typeof EventSchema>;
 
+// People an event involves: whoever sent the source message, and everyone it mentions.
+// contact_id links to contacts when the name resolves to exactly one contact.
+export const EventParticipantRoleEnum = z.enum(['sender', 'mentioned']);
+export type EventParticipantRole = z.infer<typeof EventParticipantRoleEnum>;
+
+export const EventParticipantSchema = z.object({
+  event_id: z.number(),
+  name: z.string(),
+  contact_id: z.string().nullable(),
+  role: EventParticipantRoleEnum,
+});
+export type EventParticipant = z.infer<typeof EventParticipantSchema>;
+
+// Answers to a plan, from a reply to its message ("can't make it"), a reaction on it (👍) or
+// said anywhere in the chat and read by Gemini ("Rahul's in, Priya can't come").
+// One per person and event — the latest answer wins. responder is a contact ID, 'self' for the
+// owner, or the lower-cased name of someone mentioned who isn't a known contact.
+export const RsvpResponseEnum = z.enum(['accepted', 'declined', 'tentative']);
+export type RsvpResponse = z.infer<typeof RsvpResponseEnum>;
+
+export const RsvpViaEnum = z.enum(['reply', 'reaction', 'mention']);
+export type RsvpVia = z.infer<typeof RsvpViaEnum>;
+
+export const EventRsvpSchema = z.object({
+  event_id: z.number(),
+  responder: z.string(),
+  name: z.string().nullable(),
+  response: RsvpResponseEnum,
+  via: RsvpViaEnum,
+  message_id: z.string(), // The reply, the reaction's own message, or the message that mentioned it
+  updated_at: z.number(),
+});
+export type EventRsvp = z.infer<typeof EventRsvpSchema>;
+
+// Who's coming to a meeting or trip, grouped by answer (names, 'you' for the owner)
+export const EventAttendanceSchema = z.object({
+  accepted: z.array(z.string()),
+  declined: z.array(z.string()),
+  tentative: z.array(z.string()),
+});
+export type EventAttendance = z.infer<typeof EventAttendanceSchema>;
+
+// ============ Event History Schemas ============
+// Every event mutation is recorded with where it came from and the values it replaced
+export const ChangeSourceEnum = z.enum(['webhook', 'api', 'extension', 'system']);
+export type ChangeSource = z.infer<typeof ChangeSourceEnum>;
+
+export const HistoryActionEnum = z.enum(['create', 'update', 'status', 'delete', 'restore', 'undo']);
+export type HistoryAction = z.infer<typeof HistoryActionEnum>;
+
+export const EventHistoryEntrySchema = z.object({
+  id: z.number(),
+  event_id: z.number(),
+  action: HistoryActionEnum,
+  source: ChangeSourceEnum,
+  before: z.record(z.unknown()).nullable(), // Changed columns before the mutation (null for create)
+  after: z.record(z.unknown()).nullable(),
+  undone_at: z.number().nullable(), // Set once an undo reverted this entry
+  created_at: z.number(),
+});
+export type EventHistoryEntry = z.infer<typeof EventHistoryEntrySchema>;
+
+// ============ Action Confirmation Schemas ============
+// Actions detected in WhatsApp messages ("cancel it", "done", "move it to 5") are applied
+// right away or held as a pending action until the user confirms, depending on the policy
+export const EventActionEnum = z.enum(['cancel', 'delete', 'complete', 'ignore', 'snooze', 'postpone', 'modify']);
+export type EventAction = z.infer<typeof EventActionEnum>;
+
+// never: always apply, always: always ask, below_threshold: ask when confidence < threshold
+export const ConfirmModeEnum = z.enum(['never', 'below_threshold', 'always']);
+export type ConfirmMode = z.infer<typeof ConfirmModeEnum>;
+
+export const ActionPolicySchema = z.object({
+  action: EventActionEnum,
+  confirm: ConfirmModeEnum,
+  threshold: z.number().min(0).max(1).default(0.85),
+  confirm_fallback: z.boolean().default(true), // Ask when the target was guessed (most recent event) rather than matched
+  updated_at: z.number().optional(),
+});
+export type ActionPolicy = z.infer<typeof ActionPolicySchema>;
+
+export const PendingActionStatusEnum = z.enum(['pending', 'confirmed', 'rejected', 'expired']);
+export type PendingActionStatus = z.infer<typeof PendingActionStatusEnum>;
+
+// candidates: picked from the numbered event list shown to Gemini, keywords: matched by
+// keyword search, fallback: guessed (most recent active event, preferring the same chat),
+// message: extracted from the message that was edited or deleted
+export const TargetResolutionEnum = z.enum(['candidates', 'keywords', 'fallback', 'message']);
+export type TargetResolution = z.infer<typeof TargetResolutionEnum>;
+
+export const PendingActionRecordSchema = z.object({
+  id: z.number(),
+  event_id: z.number(),
+  action: EventActionEnum,
+  changes: z.record(z.unknown()), // modify: the new field values, snooze/postpone: { snooze_minutes }
+  description: z.string(), // Human-readable summary, e.g. delete "Dentist"
+  confidence: z.number(),
+  resolved_via: TargetResolutionEnum, // How the target event was found
+  reason: z.string(), // Why confirmation is needed
+  message_id: z.string().nullable(),
+  choice_group: z.string().nullable(), // Options of one "which event did you mean?" question — picking one rejects the rest
+  status: PendingActionStatusEnum,
+  expires_at: z.number(),
+  resolved_at: z.number().nullable(),
+  created_at: z.number(),
+});
+export type PendingActionRecord = z.infer<typeof PendingActionRecordSchema>;
+
+// Per-occurrence exceptions for recurring events — the series itself keeps going
+export const OccurrenceStatusEnum = z.enum(['skipped', 'completed']);
+export type OccurrenceStatus = z.infer<typeof OccurrenceStatusEnum>;
+
+export const EventOccurrenceSchema = z.object({
+  id: z.number().optional(),
+  event_id: z.number(),
+  occurrence_time: z.number(), // Unix timestamp of the occurrence
+  status: OccurrenceStatusEnum,
+  created_at: z.number().optional(),
+});
+export type EventOccurrence = z.infer<typeof EventOccurrenceSchema>;
+
 // ============ Trigger Schemas ============
 export const TriggerTypeEnum = z.enum(['time', 'time_24h', 'time_1h', 'time_15m', 'url', 'keyword', 'reminder_24h', 'reminder_1hr', 'reminder_15m']);
 export type TriggerType = z.infer<typeof TriggerTypeEnum>;
@@ -56,10 +195,243 @@ export const TriggerSchema = z.object({
   trigger_value: z.string(),
   is_fired: z.boolean().default(false),
   fire_count: z.number().default(0).optional(), // For URL triggers that can fire multiple times
+  offset_minutes: z.number().nullable().optional(), // 'time' triggers: how long before event_time this fires
   created_at: z.number().optional(),
 });
 export type Trigger = z.infer<typeof TriggerSchema>;
 
+// ============ Reminder Policy Schemas ============
+// Minutes before event_time at which time triggers fire (e.g., [1440, 180] = 1 day and 3 hours ahead)
+export const ReminderOffsetsSchema = z.array(z.number().int().min(1).max(366 * 24 * 60)).max(10)
+  .transform(offsets => [...new Set(offsets)].sort((a, b) => b - a));
+
+export const ReminderPolicySchema = z.object({
+  event_type: EventTypeEnum,
+  offsets: ReminderOffsetsSchema,
+  updated_at: z.number().optional(),
+});
+export type ReminderPolicy = z.infer<typeof ReminderPolicySchema>;
+
+// ============ Ingestion Job Schemas ============
+// Job Status Flow:
+// - pending: Waiting to run (new, or scheduled for a retry after backoff)
+// - running: Claimed by a worker
+// - done: Handler finished successfully
+// - dead: Gave up after max_attempts — needs a manual retry or purge
+export const JobStatusEnum = z.enum(['pending', 'running', 'done', 'dead']);
+export type JobStatus = z.infer<typeof JobStatusEnum>;
+
+export const IngestionJobSchema = z.object({
+  id: z.number(),
+  kind: z.string(),            // Handler name, e.g. "whatsapp_webhook"
+  group_key: z.string().nullable(), // Jobs with the same key run in order, one at a time (chat_id for webhooks)
+  payload: z.string(),         // JSON-encoded handler input
+  status: JobStatusEnum,
+  attempts: z.number(),
+  max_attempts: z.number(),
+  run_at: z.number(),          // Unix timestamp — not claimed before this
+  last_error: z.string().nullable(),
+  created_at: z.number(),
+  updated_at: z.number(),
+});
+export type IngestionJob = z.infer<typeof IngestionJobSchema>;
+
+// ============ Backfill Schemas ============
+// Historical messages read from the Evolution database, oldest first.
+// Backfill Status Flow:
+// - queued: Waiting for the runner (one backfill runs at a time)
+// - running: Reading and analyzing messages — the checkpoint moves after every message
+// - paused: Stopped on request, resumes from the checkpoint
+// - done: Every message in range has been read
+// - failed: A message could not be processed — resuming retries it
+export const BackfillStatusEnum = z.enum(['queued', 'running', 'paused', 'done', 'failed']);
+export type BackfillStatus = z.infer<typeof BackfillStatusEnum>;
+
+export const BackfillRequestSchema = z.object({
+  chatIds: z.array(z.string().min(1)).default([]), // Empty = every chat
+  since: z.number().int().nullable().default(null), // Unix timestamp, inclusive
+  until: z.number().int().nullable().default(null), // Unix timestamp, exclusive
+}).refine(r => r.since === null || r.until === null || r.since < r.until, {
+  message: 'since must be before until',
+  path: ['since'],
+});
+export type BackfillRequest = z.infer<typeof BackfillRequestSchema>;
+
+export const BackfillJobSchema = z.object({
+  id: z.number(),
+  status: BackfillStatusEnum,
+  chat_ids: z.string(),                     // JSON array — empty = every chat
+  since: z.number().nullable(),
+  until: z.number().nullable(),
+  total: z.number().nullable(),             // Messages in range when the backfill started
+  scanned: z.number(),                      // Messages read so far
+  processed: z.number(),                    // Sent through ingestion (not already stored)
+  already_stored: z.number(),               // Skipped — Argus already had the message ID
+  events_created: z.number(),
+  checkpoint_ts: z.number().nullable(),     // Cursor: timestamp + Evolution row ID of the last finished message
+  checkpoint_id: z.string().nullable(),
+  current_message_id: z.string().nullable(), // Message being processed — re-run on resume even though it's stored
+  last_error: z.string().nullable(),
+  created_at: z.number(),
+  updated_at: z.number(),
+  finished_at: z.number().nullable(),
+});
+export type BackfillJob = z.infer<typeof BackfillJobSchema>;
+
+// ============ Maintenance Schemas ============
+// One row per daily maintenance run (see runMaintenance in scheduler.ts)
+export const MaintenanceRunSchema = z.object({
+  id: z.number(),
+  started_at: z.number(),
+  finished_at: z.number(),
+  expired_events: z.number(),   // Timed events past their grace period → 'expired'
+  purged_events: z.number(),    // Finished events older than the event retention
+  purged_messages: z.number(),  // Messages older than the message retention no kept event came from
+  index_optimized: z.boolean(), // Full-text search index merged and query planner stats refreshed
+  error: z.string().nullable(),
+});
+export type MaintenanceRun = z.infer<typeof MaintenanceRunSchema>;
+
+// ============ Web Push Schemas ============
+// The browser's PushSubscription.toJSON() — POST /api/push/subscriptions
+export const PushSubscriptionRequestSchema = z.object({
+  endpoint: z.string().url(),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+export type PushSubscriptionRequest = z.infer<typeof PushSubscriptionRequestSchema>;
+
+export const PushSubscriptionRecordSchema = z.object({
+  id: z.number(),
+  endpoint: z.string(),
+  keys: z.string(),                       // JSON { p256dh, auth }
+  failure_count: z.number(),              // Failed deliveries since the last one that worked
+  last_error: z.string().nullable(),
+  last_failure_at: z.number().nullable(),
+  last_success_at: z.number().nullable(),
+  created_at: z.number(),
+});
+export type PushSubscriptionRecord = z.infer<typeof PushSubscriptionRecordSchema>;
+
+// fallback: push only when no WebSocket client is connected; always: push too; off: never
+export const PushDeliveryEnum = z.enum(['fallback', 'always', 'off']);
+export type PushDelivery = z.infer<typeof PushDeliveryEnum>;
+
+// ============ Outbound WhatsApp Schemas ============
+// Messages Argus sends through Evolution. They come back through the webhook as our
+// own messages, so they are recorded before sending and skipped on the way in.
+export const OutboundKindEnum = z.enum(['notification', 'reply']); // Reminders, answers to control chat commands
+export type OutboundKind = z.infer<typeof OutboundKindEnum>;
+
+export const OutboundStatusEnum = z.enum(['pending', 'sent', 'failed']);
+export type OutboundStatus = z.infer<typeof OutboundStatusEnum>;
+
+export const OutboundMessageSchema = z.object({
+  id: z.number(),
+  message_id: z.string().nullable(),      // WhatsApp message ID, once Evolution returns it
+  chat_id: z.string(),
+  content: z.string(),
+  kind: OutboundKindEnum,
+  event_id: z.number().nullable(),
+  status: OutboundStatusEnum,
+  error: z.string().nullable(),
+  created_at: z.number(),
+});
+export type OutboundMessage = z.infer<typeof OutboundMessageSchema>;
+
+// ============ Notification Routing Schemas ============
+// Where a notification goes: the page overlay, the extension's badge count, Web Push,
+// a WhatsApp message, or tomorrow morning's digest
+export const NotificationChannelEnum = z.enum(['overlay', 'badge', 'push', 'whatsapp', 'digest']);
+export type NotificationChannel = z.infer<typeof NotificationChannelEnum>;
+
+// reminder: a reminder offset fired; snoozed: a snoozed event is back; discovery: a new event
+// from WhatsApp; conflict: a new event clashes with another; confirmation: an action waits for a yes
+export const NotificationKindEnum = z.enum(['reminder', 'snoozed', 'discovery', 'conflict', 'confirmation']);
+export type NotificationKind = z.infer<typeof NotificationKindEnum>;
+
+export const NotificationUrgencyEnum = z.enum(['high', 'normal', 'low']);
+export type NotificationUrgency = z.infer<typeof NotificationUrgencyEnum>;
+
+export const ConnectionConditionEnum = z.enum(['any', 'connected', 'disconnected']);
+export type ConnectionCondition = z.infer<typeof ConnectionConditionEnum>;
+
+// The first enabled rule that matches (highest priority) picks the channels
+export const NotificationRuleSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().min(1),
+  kinds: z.array(NotificationKindEnum).default([]),         // Empty = any kind
+  event_types: z.array(EventTypeEnum).default([]),          // Empty = any event type
+  urgencies: z.array(NotificationUrgencyEnum).default([]),  // Empty = any urgency
+  when_connected: ConnectionConditionEnum.default('any'),   // Whether an extension is on the WebSocket
+  channels: z.array(NotificationChannelEnum).default([]),   // Empty = drop the notification
+  priority: z.number().int().default(0),                    // Higher wins
+  enabled: z.boolean().default(true),
+  created_at: z.number().optional(),
+  updated_at: z.number().optional(),
+});
+export type NotificationRule = z.infer<typeof NotificationRuleSchema>;
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'must be HH:MM');
+
+// Quiet hours hold back everything but high urgency; do-not-disturb holds back everything.
+// What's held back goes to the digest (the badge still counts it).
+export const NotificationSettingsSchema = z.object({
+  quiet_hours: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/, 'quiet_hours must look like 22:30-07:00').nullable(),
+  whatsapp_quiet_hours: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/, 'whatsapp_quiet_hours must look like 22:30-07:00').nullable(), // Hold back WhatsApp only
+  dnd_until: z.number().nullable(),  // Unix seconds
+  digest_time: TimeOfDaySchema,      // When the daily digest goes out, owner's timezone
+});
+export type NotificationSettings = z.infer<typeof NotificationSettingsSchema>;
+
+// POST /api/notification-rules/preview — where a notification would go right now (or at `at`)
+export const NotificationPreviewRequestSchema = z.object({
+  kind: NotificationKindEnum,
+  event_type: EventTypeEnum.optional(),
+  urgency: NotificationUrgencyEnum.optional(), // Defaults to the kind's usual urgency
+  connected: z.boolean().default(true),
+  at: z.number().optional(),                   // Unix seconds
+});
+
+export const DigestItemSchema = z.object({
+  id: z.number(),
+  kind: NotificationKindEnum,
+  event_id: z.number().nullable(),
+  text: z.string(),
+  created_at: z.number(),
+  sent_at: z.number().nullable(),
+});
+export type DigestItem = z.infer<typeof DigestItemSchema>;
+
+// ============ Context Rule Schemas ============
+// Rules map what an event is about (keywords, event type, who it's for) to the
+// URL/domain patterns where it should resurface, and a visited URL back to an
+// activity + search keywords. applies_to picks which side(s) a rule feeds:
+// - ingestion: sets context_url on newly extracted events
+// - browsing: used by extractContextFromUrl for context checks
+export const ContextRuleScopeEnum = z.enum(['ingestion', 'browsing', 'both']);
+export type ContextRuleScope = z.infer<typeof ContextRuleScopeEnum>;
+
+export const ContextRuleSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().min(1),
+  keywords: z.array(z.string()).default([]),       // Any one must appear in the event text (empty = no keyword condition)
+  event_types: z.array(EventTypeEnum).default([]), // Empty = any event type
+  recipients: z.array(z.string()).default([]),     // Who it's for ("sis", "mom") — any one must appear as a word
+  url_patterns: z.array(z.string()).min(1),        // "nykaa.com", "makemytrip.com/flight*", bare "netflix", or "{keyword}"
+  activity: z.string().nullable().default(null),   // Browsing activity label, e.g. "beauty_shopping"
+  query_param: z.string().nullable().default(null), // Browsing: search keyword comes from this query param (?k=, ?q=)
+  applies_to: ContextRuleScopeEnum.default('both'),
+  priority: z.number().int().default(0),           // Higher wins
+  enabled: z.boolean().default(true),
+  created_at: z.number().optional(),
+  updated_at: z.number().optional(),
+});
+export type ContextRule = z.infer<typeof ContextRuleSchema>;
+
 // ============ Popup Types ============
 // Used by extension to determine modal appearance and behavior
 export const PopupTypeEnum = z.enum([
@@ -81,31 +453,159 @@ export const ContactSchema = z.object({
   first_seen: z.number(),
   last_seen: z.number(),
   message_count: z.number().default(0),
+  timezone: z.string().nullable().optional(), // IANA zone the contact writes times in — null = owner's timezone
 });
 export type Contact = z.infer<typeof ContactSchema>;
 
+// ============ Chat Policy Schemas ============
+// Which messages of a chat Argus reads. Chats without a policy are enabled, except
+// groups when SKIP_GROUP_MESSAGES is set.
+//   enabled: everything, mention_only: messages that mention or reply to the owner (plus
+//   the owner's own), own_only: only the owner's own messages, muted: nothing
+export const ChatModeEnum = z.enum(['enabled', 'mention_only', 'own_only', 'muted']);
+export type ChatMode = z.infer<typeof ChatModeEnum>;
+
+export const ChatPolicySchema = z.object({
+  chat_id: z.string(), // remoteJid, e.g. 120363...@g.us
+  mode: ChatModeEnum,
+  updated_at: z.number().optional(),
+});
+export type ChatPolicy = z.infer<typeof ChatPolicySchema>;
+
 // ============ Webhook Schemas ============
+// Mentions and the quoted message of a reply — only the fields Argus reads
+const WhatsAppContextInfoSchema = z.object({
+  mentionedJid: z.array(z.string()).optional(),
+  participant: z.string().optional(), // Author of the quoted message
+  stanzaId: z.string().optional(),    // Id of the quoted message
+  quotedMessage: z.object({
+    conversation: z.string().optional(),
+    extendedTextMessage: z.object({ text: z.string() }).optional(),
+  }).nullable().optional(),
+});
+export type WhatsAppContextInfo = z.infer<typeof WhatsAppContextInfoSchema>;
+
+// Shared shape of imageMessage / videoMessage / documentMessage / audioMessage.
+// Only the fields Argus reads are modelled — zod strips the rest (jpegThumbnail, mediaKey, ...)
+const WhatsAppMediaSchema = z.object({
+  url: z.string().optional(),
+  directPath: z.string().optional(),
+  mimetype: z.string().optional(),
+  caption: z.string().optional(),
+  fileName: z.string().optional(),
+  title: z.string().optional(),
+  seconds: z.number().optional(),
+  ptt: z.boolean().optional(),
+  contextInfo: WhatsAppContextInfoSchema.optional(),
+});
+
+// Points at another message — the one edited, deleted or reacted to
+const WhatsAppMessageKeySchema = z.object({
+  remoteJid: z.string().optional(),
+  fromMe: z.boolean().optional(),
+  id: z.string(),
+  participant: z.string().nullable().optional(),
+});
+
+const WhatsAppMessageContentSchema = z.object({
+  conversation: z.string().optional(),
+  extendedTextMessage: z.object({
+    text: z.string(),
+    contextInfo: WhatsAppContextInfoSchema.optional(),
+  }).optional(),
+  imageMessage: WhatsAppMediaSchema.optional(),
+  videoMessage: WhatsAppMediaSchema.optional(),
+  documentMessage: WhatsAppMediaSchema.optional(),
+  // Documents sent with a caption arrive wrapped one level deeper
+  documentWithCaptionMessage: z.object({
+    message: z.object({
+      documentMessage: WhatsAppMediaSchema.optional(),
+    }).optional(),
+  }).optional(),
+  audioMessage: WhatsAppMediaSchema.optional(),
+  // Added by Evolution API when OpenAI speech-to-text is enabled ("[audio] transcript")
+  speechToText: z.string().optional(),
+  // Added by Evolution API when S3/MinIO media storage is enabled
+  mediaUrl: z.string().optional(),
+  // An emoji reaction on another message — text is empty when the reaction was taken back
+  reactionMessage: z.object({
+    key: WhatsAppMessageKeySchema,
+    text: z.string().optional(),
+  }).optional(),
+});
+
+// Edits and deletes-for-everyone arrive as a protocolMessage pointing at the original message's key
+const WhatsAppProtocolMessageSchema = z.object({
+  key: WhatsAppMessageKeySchema,
+  type: z.union([z.string(), z.number()]).optional(), // REVOKE (0) or MESSAGE_EDIT (14) — by name or number
+  editedMessage: WhatsAppMessageContentSchema.optional(),
+});
+export type WhatsAppProtocolMessage = z.infer<typeof WhatsAppProtocolMessageSchema>;
+
+export const WhatsAppMessageSchema = WhatsAppMessageContentSchema.extend({
+  protocolMessage: WhatsAppProtocolMessageSchema.optional(),
+  // Newer clients wrap edits as editedMessage.message.protocolMessage; messages.update carries the new content here
+  editedMessage: z.object({
+    message: WhatsAppMessageContentSchema.extend({
+      protocolMessage: WhatsAppProtocolMessageSchema.optional(),
+    }).optional(),
+  }).optional(),
+});
+export type WhatsAppMessage = z.infer<typeof WhatsAppMessageSchema>;
+
 export const WhatsAppWebhookSchema = z.object({
   event: z.string(),
   instance: z.string(),
+  sender: z.string().optional(), // JID of the connected WhatsApp account (the owner)
   data: z.object({
     key: z.object({
       remoteJid: z.string(),
       fromMe: z.boolean(),
       id: z.string(),
+      participant: z.string().optional(), // Sender JID in group chats (remoteJid is the group)
     }),
     pushName: z.string().optional(),
-    message: z.object({
-      conversation: z.string().optional(),
-      extendedTextMessage: z.object({
-        text: z.string(),
-      }).optional(),
-    }).optional(),
+    message: WhatsAppMessageSchema.optional(),
+    messageType: z.string().optional(),
     messageTimestamp: z.union([z.string(), z.number()]),
+    contextInfo: WhatsAppContextInfoSchema.nullable().optional(), // Evolution v2 copies the message's contextInfo here
   }),
 });
 export type WhatsAppWebhook = z.infer<typeof WhatsAppWebhookSchema>;
 
+// messages.update — status changes (delivered, read) and, with message set, edits
+export const WhatsAppMessageUpdateSchema = z.object({
+  event: z.string(),
+  instance: z.string(),
+  data: z.object({
+    keyId: z.string(), // The original message's id (Evolution maps an edit's own id back to it)
+    remoteJid: z.string(),
+    fromMe: z.boolean().optional(),
+    participant: z.string().nullable().optional(),
+    status: z.string().optional(),
+    message: WhatsAppMessageSchema.nullable().optional(),
+  }),
+});
+
+// messages.delete — the deleted message's key
+export const WhatsAppMessageDeleteSchema = z.object({
+  event: z.string(),
+  instance: z.string(),
+  data: z.object({
+    id: z.string(),
+    remoteJid: z.string(),
+    fromMe: z.boolean().optional(),
+    participant: z.string().nullable().optional(),
+  }),
+});
+
+// messages.edited — the protocolMessage itself (Evolution sends revokes this way too)
+export const WhatsAppMessageEditedSchema = z.object({
+  event: z.string(),
+  instance: z.string(),
+  data: WhatsAppProtocolMessageSchema,
+});
+
 // ============ Context Check Schemas ============
 export const ContextCheckRequestSchema = z.object({
   url: z.string().url(),
@@ -122,18 +622,28 @@ export const ContextCheckResponseSchema = z.object({
 export type ContextCheckResponse = z.infer<typeof ContextCheckResponseSchema>;
 
 // ============ Gemini Extraction Schemas ============
+// How the message expressed the event time — decides how a date that resolved to before
+// the message is corrected (see resolveEventTime in timezone.ts)
+export const TimeReferenceEnum = z.enum(['absolute', 'relative', 'weekday', 'time_only', 'date_without_year']);
+export type TimeReference = z.infer<typeof TimeReferenceEnum>;
+
 export const GeminiExtractionSchema = z.object({
   events: z.array(z.object({
     type: EventTypeEnum,
     title: z.string(),
     description: z.string().nullable(),
-    event_time: z.string().nullable(),
+    event_time: z.string().nullable(), // Local wall-clock time in the sender's timezone ("2026-03-12T17:00")
+    time_reference: TimeReferenceEnum.nullable().optional(),
+    is_past: z.boolean().nullable().optional(), // Message talks about something that already happened
+    recurrence: z.string().nullable().optional(), // RRULE for repeating events ("FREQ=MONTHLY;BYMONTHDAY=1")
     location: z.string().nullable(),
     participants: z.array(z.string()),
     keywords: z.array(z.string()),
     confidence: z.number().min(0).max(1),
     event_action: z.enum(['create', 'update', 'merge']).nullable().optional(),
     target_event_id: z.number().nullable().optional(),
+    // Meeting/travel answers read from the chat; name is 'SENDER' for the message's author
+    attendance: z.array(z.object({ name: z.string(), response: RsvpResponseEnum })).nullable().optional(),
   })),
 });
 export type GeminiExtraction = z.infer<typeof GeminiExtractionSchema>;
@@ -145,11 +655,18 @@ export const GeminiValidationSchema = z.object({
 export type GeminiValidation = z.infer<typeof GeminiValidationSchema>;
 
 // ============ Config Schema ============
+export const LLMProviderEnum = z.enum(['openai', 'ollama', 'fixture']);
+export type LLMProviderName = z.infer<typeof LLMProviderEnum>;
+
 export const ConfigSchema = z.object({
   port: z.number().default(3000),
-  geminiApiKey: z.string(),
+  llmProvider: LLMProviderEnum.default('openai'),
+  geminiApiKey: z.string().default(''),
   geminiModel: z.string().default('gemini-3-flash-preview'),
   geminiApiUrl: z.string().default('https://generativelanguage.googleapis.com/v1beta/openai'),
+  ollamaUrl: z.string().default('http://localhost:11434'),
+  ollamaModel: z.string().default('llama3.1'),
+  llmFixturesPath: z.string().optional(),
   dbPath: z.string().default('./data/events.db'),
   evolutionApiUrl: z.string().optional(),
   evolutionApiKey: z.string().optional(),
@@ -163,12 +680,34 @@ export const ConfigSchema = z.object({
     schema: z.string().optional(),
   }).optional(),
   processOwnMessages: z.boolean().default(true),
-  skipGroupMessages: z.boolean().default(false),
+  skipGroupMessages: z.boolean().default(false), // Default for groups without a chat policy
+  ownerJid: z.string().optional(), // Owner's WhatsApp JID, for mention_only chats when the webhook doesn't send it
   hotWindowDays: z.number().default(90),
+  timezone: z.string().refine(isValidTimezone, 'TIMEZONE must be an IANA timezone like Asia/Kolkata'),
+  queueConcurrency: z.number().min(1).default(2),
+  queueMaxAttempts: z.number().min(1).default(5),
+  ingestDebounceSeconds: z.number().min(0).default(4),
+  ingestDebounceMaxSeconds: z.number().min(0).default(20),
+  backfillMessagesPerMinute: z.number().min(0).default(20), // Messages analyzed per minute (0 = unlimited)
+  expireGraceHours: z.number().min(0).default(6),      // Timed events expire this long after their time
+  eventRetentionDays: z.number().min(0).default(365),  // Finished events are purged after this (0 = keep forever)
+  messageRetentionDays: z.number().min(0).default(180), // Messages are purged after this (0 = keep forever)
+  pushDelivery: PushDeliveryEnum.default('fallback'),
+  vapidPublicKey: z.string().optional(),  // Generated and stored on first start when not set
+  vapidPrivateKey: z.string().optional(),
+  vapidSubject: z.string().regex(/^(mailto:|https:)/, 'VAPID_SUBJECT must be a mailto: or https: URL').default('mailto:argus@localhost'),
+  whatsappNotifyJids: z.array(z.string().min(1)).default([]), // Chats reminders are sent to over WhatsApp (empty = off)
+  whatsappQuietHours: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/, 'WHATSAPP_QUIET_HOURS must look like 22:30-07:00').optional(), // Legacy: seeds the notification quiet hours
+  whatsappMaxPerHour: z.number().min(0).default(10), // Per chat (0 = no limit)
+  whatsappControlChat: z.string().optional(), // Own messages in this chat are commands ("Message yourself")
+}).refine(cfg => cfg.llmProvider !== 'openai' || cfg.geminiApiKey.length > 0, {
+  message: 'GEMINI_API_KEY is required when LLM_PROVIDER=openai',
+  path: ['geminiApiKey'],
 });
 export type Config = z.infer<typeof ConfigSchema>;
 
 // ============ Helper Functions ============
+
 export function parseConfig(): Config {
   const evolutionPg = process.env.EVOLUTION_PG_HOST ? {
     host: process.env.EVOLUTION_PG_HOST,
@@ -181,9 +720,13 @@ export function parseConfig(): Config {
 
   return ConfigSchema.parse({
     port: parseInt(process.env.PORT || '3000'),
+    llmProvider: process.env.LLM_PROVIDER || 'openai',
     geminiApiKey: process.env.GEMINI_API_KEY,
     geminiModel: process.env.GEMINI_MODEL || 'gemini-3-flash-preview',
     geminiApiUrl: process.env.GEMINI_API_URL,
+    ollamaUrl: process.env.OLLAMA_URL,
+    ollamaModel: process.env.OLLAMA_MODEL,
+    llmFixturesPath: process.env.LLM_FIXTURES_PATH,
     dbPath: process.env.DATABASE_PATH || './data/events.db',
     evolutionApiUrl: process.env.EVOLUTION_API_URL,
     evolutionApiKey: process.env.EVOLUTION_API_KEY,
@@ -191,6 +734,24 @@ export function parseConfig(): Config {
     evolutionPg,
     processOwnMessages: process.env.PROCESS_OWN_MESSAGES !== 'false',
     skipGroupMessages: process.env.SKIP_GROUP_MESSAGES === 'true',
+    ownerJid: process.env.OWNER_JID,
     hotWindowDays: parseInt(process.env.HOT_WINDOW_DAYS || '90'),
+    timezone: process.env.TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    queueConcurrency: parseInt(process.env.QUEUE_CONCURRENCY || '2'),
+    queueMaxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '5'),
+    ingestDebounceSeconds: parseInt(process.env.INGEST_DEBOUNCE_SECONDS || '4'),
+    ingestDebounceMaxSeconds: parseInt(process.env.INGEST_DEBOUNCE_MAX_SECONDS || '20'),
+    backfillMessagesPerMinute: parseInt(process.env.BACKFILL_MESSAGES_PER_MINUTE || '20'),
+    expireGraceHours: parseFloat(process.env.EXPIRE_GRACE_HOURS || '6'),
+    eventRetentionDays: parseInt(process.env.EVENT_RETENTION_DAYS || '365'),
+    messageRetentionDays: parseInt(process.env.MESSAGE_RETENTION_DAYS || '180'),
+    pushDelivery: process.env.PUSH_DELIVERY || 'fallback',
+    vapidPublicKey: process.env.VAPID_PUBLIC_KEY,
+    vapidPrivateKey: process.env.VAPID_PRIVATE_KEY,
+    vapidSubject: process.env.VAPID_SUBJECT || 'mailto:argus@localhost',
+    whatsappNotifyJids: (process.env.WHATSAPP_NOTIFY_JIDS || '').split(',').map(jid => jid.trim()).filter(Boolean),
+    whatsappQuietHours: process.env.WHATSAPP_QUIET_HOURS || undefined,
+    whatsappMaxPerHour: parseInt(process.env.WHATSAPP_MAX_PER_HOUR || '10'),
+    whatsappControlChat: process.env.WHATSAPP_CONTROL_CHAT || undefined,
   });
 }
@@ -0,0 +1,40 @@
+/**
+ * URL Pattern Matching
+ * Shared by context rules (browsing side) and per-event context URLs.
+ */
+
+// Does a URL match a context pattern?
+// - "nykaa.com"              host or any subdomain, any path
+// - "makemytrip.com/flight*" host + path glob over the whole pathname ("*" = anything)
+// - "*.google.com"           "*" also works in the host
+// - "netflix"                bare keyword (no dot or slash) — substring of the URL, the legacy behaviour
+export function matchUrlPattern(pattern: string, url: string | URL): boolean {
+  const p = pattern.trim().toLowerCase().replace(/^[a-z]+:\/\//, '');
+  if (!p) return false;
+
+  const href = typeof url === 'string' ? url.toLowerCase() : url.href.toLowerCase();
+  if (!p.includes('.') && !p.includes('/')) {
+    return href.includes(p);
+  }
+
+  let urlObj: URL;
+  try {
+    urlObj = typeof url === 'string' ? new URL(url) : url;
+  } catch {
+    return false;
+  }
+
+  const slash = p.indexOf('/');
+  const hostGlob = slash === -1 ? p : p.slice(0, slash);
+  const pathGlob = slash === -1 ? null : p.slice(slash);
+
+  const hostRegex = new RegExp(`^(?:[^.]+\\.)*${globToRegex(hostGlob)}$`);
+  if (!hostRegex.test(urlObj.hostname.toLowerCase())) return false;
+  if (pathGlob === null) return true;
+
+  return new RegExp(`^${globToRegex(pathGlob)}$`).test(urlObj.pathname.toLowerCase());
+}
+
+function globToRegex(glob: string): string {
+  return glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+}
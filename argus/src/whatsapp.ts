@@ -0,0 +1,144 @@
+/**
+ * Outbound WhatsApp
+ * Argus reads WhatsApp through the Evolution webhook; this is the way back out, through
+ * Evolution's /message/sendText/{instance}. Reminders go to the chats in
+ * WHATSAPP_NOTIFY_JIDS (usually your own number — "Message yourself"), at most
+ * WHATSAPP_MAX_PER_HOUR per chat. Whether one goes out at all (quiet hours included) is up
+ * to the notification rules.
+ *
+ * Everything sent comes straight back through the webhook as one of our own messages,
+ * which PROCESS_OWN_MESSAGES would analyze like anything else we type. So every send is
+ * recorded first (outbound_messages) and ingestion skips the echo — matched by WhatsApp
+ * message ID, or by chat and text while Evolution hasn't answered with the ID yet.
+ */
+
+import { insertOutboundMessage, markOutboundSent, markOutboundFailed, isOutboundMessage, countOutboundMessages } from './db.js';
+import { formatEventTime } from './timezone.js';
+import type { OutboundKind } from './types.js';
+
+// An echo matched by text has to arrive within this long of the send
+const ECHO_WINDOW_SECONDS = 10 * 60;
+const RATE_WINDOW_SECONDS = 60 * 60;
+// A hung Evolution would otherwise hold up the scheduler tick that is sending
+const SEND_TIMEOUT_MS = 15_000;
+
+// Sends one text message and returns its WhatsApp message ID — Evolution unless a test swaps it
+export type WhatsAppSender = (chatId: string, text: string) => Promise<string | null>;
+
+export interface WhatsAppResult {
+  sent: number;
+  failed: number;
+  rateLimited: number;
+}
+
+interface WhatsAppOptions {
+  apiUrl?: string;
+  apiKey?: string;
+  instanceName?: string;
+  targets: string[];    // Chats reminders are sent to
+  maxPerHour: number;   // Per chat, 0 = no limit
+  sender?: WhatsAppSender;
+}
+
+let whatsapp: { sender: WhatsAppSender | null; targets: string[]; maxPerHour: number } | null = null;
+
+// Returns whether reminders will be sent over WhatsApp
+export function initWhatsApp(opts: WhatsAppOptions): boolean {
+  const sender = opts.sender ?? (opts.apiUrl && opts.apiKey && opts.instanceName
+    ? evolutionSender(opts.apiUrl, opts.apiKey, opts.instanceName)
+    : null);
+
+  whatsapp = {
+    sender,
+    targets: opts.targets.map(toChatId),
+    maxPerHour: opts.maxPerHour,
+  };
+
+  if (whatsapp.targets.length > 0 && !sender) {
+    console.log('⚠️ [WHATSAPP] WHATSAPP_NOTIFY_JIDS is set but Evolution API is not configured — not sending reminders');
+  }
+  return sender !== null && whatsapp.targets.length > 0;
+}
+
+// Send one message and record it, so its echo isn't ingested. Throws when the send fails.
+export async function sendWhatsAppText(chatId: string, text: string, kind: OutboundKind, eventId: number | null = null): Promise<string | null> {
+  if (!whatsapp?.sender) throw new Error('Evolution API is not configured');
+
+  const target = toChatId(chatId);
+  const id = insertOutboundMessage(target, text, kind, eventId);
+  try {
+    const messageId = await whatsapp.sender(target, text);
+    markOutboundSent(id, messageId);
+    return messageId;
+  } catch (error) {
+    markOutboundFailed(id, error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// Whether an own message from the webhook is one Argus sent
+export function isArgusMessage(messageId: string, chatId: string, content: string, now = Date.now()): boolean {
+  return isOutboundMessage(messageId, chatId, content, Math.floor(now / 1000) - ECHO_WINDOW_SECONDS);
+}
+
+// The notification router's WhatsApp channel — null when it isn't configured
+export async function notifyWhatsApp(text: string, eventId: number | null = null, now = Date.now()): Promise<WhatsAppResult | null> {
+  if (!whatsapp?.sender || whatsapp.targets.length === 0) return null;
+
+  const result: WhatsAppResult = { sent: 0, failed: 0, rateLimited: 0 };
+  const since = Math.floor(now / 1000) - RATE_WINDOW_SECONDS;
+  for (const target of whatsapp.targets) {
+    if (whatsapp.maxPerHour > 0 && countOutboundMessages(target, 'notification', since) >= whatsapp.maxPerHour) {
+      result.rateLimited++;
+      console.log(`⏳ [WHATSAPP] ${whatsapp.maxPerHour} reminders sent to ${target} in the last hour — skipping`);
+      continue;
+    }
+    try {
+      await sendWhatsAppText(target, text, 'notification', eventId);
+      result.sent++;
+    } catch (error) {
+      result.failed++;
+      console.warn(`⚠️ [WHATSAPP] Sending to ${target} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return result;
+}
+
+// "⏰ Dinner with Rahul at Toit in 1 hour"
+export function reminderWhatsAppText(event: { title: string; event_time?: number | null; location?: string | null }, now = Date.now()): string {
+  const where = event.location && !event.title.toLowerCase().includes(event.location.toLowerCase()) ? ` at ${event.location}` : '';
+  const when = event.event_time ? ` ${describeStartsIn(event.event_time, Math.floor(now / 1000))}` : '';
+  return `⏰ ${event.title}${where}${when}`;
+}
+
+function describeStartsIn(eventTime: number, nowSeconds: number): string {
+  const minutes = Math.round((eventTime - nowSeconds) / 60);
+  if (minutes < -60) return `(was ${formatEventTime(eventTime)})`;
+  if (minutes <= 1) return 'now';
+  if (minutes < 55) return `in ${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 20) return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+  return `on ${formatEventTime(eventTime)}`;
+}
+
+// A bare number means a person's chat
+function toChatId(jid: string): string {
+  return jid.includes('@') ? jid : `${jid.replace(/\D/g, '')}@s.whatsapp.net`;
+}
+
+function evolutionSender(apiUrl: string, apiKey: string, instanceName: string): WhatsAppSender {
+  return async (chatId, text) => {
+    const response = await fetch(`${apiUrl}/message/sendText/${instanceName}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', apikey: apiKey },
+      // Evolution takes the phone number for people and the full JID for groups
+      body: JSON.stringify({ number: chatId.endsWith('@g.us') ? chatId : chatId.split('@')[0], text }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Evolution sendText failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
+    }
+    const body = await response.json() as { key?: { id?: string } };
+    return body.key?.id ?? null;
+  };
+}
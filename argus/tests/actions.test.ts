@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { getDb, insertEvent, insertMessage, getActiveEvents, getEventById, getEventHistory, getPendingActions, getPendingActionById, setActionPolicy, deleteActionPolicy, expirePendingActions } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import type { LLMFixture } from '../src/llm.js';
+import { processWebhook } from '../src/ingestion.js';
+import { getConfirmationReason, confirmPendingAction, rejectPendingAction, rankActionTargets, PENDING_ACTION_TTL_SECONDS } from '../src/actions.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const now = () => Math.floor(Date.now() / 1000);
+let messageCounter = 0;
+const RAHUL_CHAT = '919876543210@s.whatsapp.net';
+
+// An event, optionally extracted from a message in the given chat
+function createEvent(title: string, keywords: string, chatId?: string): number {
+  let messageId: string | null = null;
+  if (chatId) {
+    messageId = `source-msg-${++messageCounter}`;
+    insertMessage({ id: messageId, chat_id: chatId, sender: chatId.split('@')[0], content: title, timestamp: now() });
+  }
+  return insertEvent({
+    message_id: messageId,
+    event_type: 'meeting',
+    title,
+    description: null,
+    event_time: now() + 30 * 3600,
+    location: null,
+    participants: null,
+    keywords,
+    confidence: 0.9,
+    status: 'scheduled',
+  });
+}
+
+// Send one WhatsApp message that the fixture LLM reads as the given action
+async function sendAction(text: string, action: Record<string, unknown>, chatId = RAHUL_CHAT, id = `action-msg-${++messageCounter}`) {
+  const fixtures: LLMFixture[] = [{
+    task: 'action',
+    match: text,
+    response: { isAction: true, targetDescription: text, targetKeywords: [], ...action },
+  }];
+  initGemini({ apiKey: '', model: 'fixture', apiUrl: '', provider: createFixtureProvider(fixtures) });
+
+  return processWebhook({
+    event: 'messages.upsert',
+    instance: 'test',
+    data: {
+      key: { remoteJid: chatId, fromMe: false, id },
+      pushName: 'Rahul',
+      message: { conversation: text },
+      messageTimestamp: now(),
+    },
+  }, { processOwnMessages: true, skipGroupMessages: false });
+}
+
+describe('Action Confirmation Policies', () => {
+  beforeAll(() => {
+    openTestDb('actions');
+  });
+
+  afterAll(() => {
+    closeTestDb('actions');
+  });
+
+  beforeEach(() => {
+    for (const action of ['delete', 'cancel', 'snooze']) deleteActionPolicy(action);
+  });
+
+  it('should decide by action, confidence band and how the target was found', () => {
+    expect(getConfirmationReason('delete', 0.9, 'keywords')).toBeNull();
+    expect(getConfirmationReason('delete', 0.8, 'keywords')).toMatch(/below 0.85/);
+    expect(getConfirmationReason('delete', 0.95, 'fallback')).toMatch(/guessed/);
+    expect(getConfirmationReason('snooze', 0.6, 'fallback')).toBeNull();
+    expect(getConfirmationReason('modify', 1, 'keywords')).toMatch(/always/);
+
+    setActionPolicy({ action: 'delete', confirm: 'always', threshold: 0.85, confirm_fallback: true });
+    expect(getConfirmationReason('delete', 0.99, 'keywords')).toMatch(/always/);
+    setActionPolicy({ action: 'snooze', confirm: 'below_threshold', threshold: 0.7, confirm_fallback: true });
+    expect(getConfirmationReason('snooze', 0.9, 'fallback')).toMatch(/guessed/);
+  });
+
+  it('should hold a low-confidence delete until it is confirmed', async () => {
+    const gym = createEvent('Gym session', 'gym');
+    const result = await sendAction('skip gym', { action: 'cancel', targetKeywords: ['gym'], confidence: 0.7 });
+
+    expect(result.actionPerformed).toBeUndefined();
+    expect(result.pendingAction).toMatchObject({ action: 'cancel', targetEventId: gym, description: 'Delete "Gym session"' });
+    expect(getEventById(gym)!.status).toBe('scheduled');
+
+    const pending = getPendingActionById(result.pendingAction!.id)!;
+    expect(pending).toMatchObject({ status: 'pending', resolved_via: 'keywords', confidence: 0.7 });
+    expect(pending.expires_at - now()).toBeGreaterThan(PENDING_ACTION_TTL_SECONDS - 60);
+
+    const outcome = confirmPendingAction(pending.id, 'extension');
+    expect(outcome).toMatchObject({ ok: true, pendingAction: { status: 'confirmed' } });
+    expect(getEventById(gym)!.status).toBe('deleted');
+    expect(getEventHistory(gym)[0]).toMatchObject({ action: 'delete', source: 'extension' });
+
+    // Answering twice is refused
+    expect(confirmPendingAction(pending.id, 'extension')).toMatchObject({ ok: false, error: 'resolved' });
+  });
+
+  it('should ask before acting on a guessed target and keep the event on reject', async () => {
+    createEvent('Dentist', 'dentist');
+    const latest = createEvent('Pay rent', 'rent');
+    const result = await sendAction('cancel that', { action: 'delete', confidence: 0.95 });
+
+    expect(result.pendingAction).toMatchObject({ targetEventId: latest, reason: expect.stringMatching(/guessed/) });
+    expect(rejectPendingAction(result.pendingAction!.id)).toMatchObject({ ok: true, pendingAction: { status: 'rejected' } });
+    expect(getEventById(latest)!.status).toBe('scheduled');
+  });
+
+  it('should apply confident and harmless actions right away', async () => {
+    const call = createEvent('Call with Lena', 'lena call');
+    const snoozed = await sendAction('remind me about it later', { action: 'snooze', snoozeMinutes: 60, confidence: 0.65 });
+    expect(snoozed.pendingAction).toBeUndefined();
+    expect(snoozed.actionPerformed).toMatchObject({ action: 'snooze', targetEventId: call });
+    expect(getEventById(call)!.status).toBe('snoozed');
+
+    const deleted = await sendAction('call with lena is off', { action: 'cancel', targetKeywords: ['lena'], confidence: 0.9 });
+    expect(deleted.actionPerformed?.message).toMatch(/Deleted: "Call with Lena"/);
+    expect(getEventById(call)!.status).toBe('deleted');
+  });
+
+  it('should not act on a message again when its job is retried', async () => {
+    const yoga = createEvent('Yoga class', 'yoga');
+    const snooze = { action: 'snooze', targetKeywords: ['yoga'], snoozeMinutes: 60, confidence: 0.9 };
+    const first = await sendAction('push yoga by an hour', snooze, RAHUL_CHAT, 'retried-msg');
+    expect(first.actionPerformed).toMatchObject({ action: 'snooze', targetEventId: yoga });
+    const history = getEventHistory(yoga);
+
+    // Announcing the result failed and the queue runs the job again
+    expect(await sendAction('push yoga by an hour', snooze, RAHUL_CHAT, 'retried-msg')).toMatchObject({ skipped: true, skipReason: 'already_processed' });
+    expect(getEventHistory(yoga)).toEqual(history);
+  });
+
+  it('should apply confirmed modify changes and expire unanswered actions', async () => {
+    const lunch = createEvent('Lunch', 'lunch');
+    const result = await sendAction('lunch is at Toit now', { action: 'modify', targetKeywords: ['lunch'], newLocation: 'Toit', confidence: 0.9 });
+    expect(result.pendingAction).toMatchObject({ action: 'modify', changes: { location: 'Toit' } });
+
+    expect(confirmPendingAction(result.pendingAction!.id, 'api').ok).toBe(true);
+    expect(getEventById(lunch)!.location).toBe('Toit');
+
+    const again = await sendAction('lunch moved to Social', { action: 'modify', targetKeywords: ['lunch'], newLocation: 'Social', confidence: 0.9 });
+    const id = again.pendingAction!.id;
+    getDb().prepare('UPDATE pending_actions SET expires_at = ? WHERE id = ?').run(now() - 1, id);
+    expect(confirmPendingAction(id, 'api')).toMatchObject({ ok: false, error: 'expired' });
+    expect(getEventById(lunch)!.location).toBe('Toit');
+
+    await sendAction('lunch moved to Olive', { action: 'modify', targetKeywords: ['lunch'], newLocation: 'Olive', confidence: 0.9 });
+    expect(expirePendingActions(now() + PENDING_ACTION_TTL_SECONDS + 1)).toBe(1);
+    expect(getPendingActions({ status: 'pending' })).toHaveLength(0);
+  });
+
+  describe('Target Resolution', () => {
+    const origin = { chatId: RAHUL_CHAT, sender: '919876543210' };
+
+    it('should rank candidates and prefer events from the same chat', async () => {
+      const ours = createEvent('Meeting with Rahul', 'meeting', RAHUL_CHAT);
+      const theirs = createEvent('Meeting with Priya', 'meeting', '918888888888@s.whatsapp.net');
+
+      const ranked = rankActionTargets({ candidates: [{ eventId: theirs, score: 0.7 }, { eventId: ours, score: 0.7 }, { eventId: 99999, score: 1 }], targetKeywords: [] }, getActiveEvents(), origin);
+      expect(ranked.map(t => [t.event.id, t.score, t.via])).toEqual([[ours, 0.85, 'candidates'], [theirs, 0.7, 'candidates']]);
+
+      const result = await sendAction('the meeting is done', {
+        action: 'complete',
+        candidates: [{ eventId: theirs, score: 0.7 }, { eventId: ours, score: 0.7 }],
+        confidence: 0.9,
+      });
+      expect(result.actionPerformed).toMatchObject({ action: 'complete', targetEventId: ours });
+      expect(getEventById(theirs)!.status).toBe('scheduled');
+    });
+
+    it('should ask which event was meant when candidates are too close to call', async () => {
+      const yoga = createEvent('Yoga class', 'yoga class');
+      const pottery = createEvent('Pottery class', 'pottery class');
+      const result = await sendAction('cancel the class', {
+        action: 'cancel',
+        targetKeywords: ['class'],
+        candidates: [{ eventId: yoga, score: 0.8 }, { eventId: pottery, score: 0.75 }],
+        confidence: 0.95,
+      });
+
+      expect(result.actionPerformed).toBeUndefined();
+      expect(result.ambiguousAction).toMatchObject({ action: 'cancel', question: expect.stringMatching(/which one/) });
+      const choices = result.ambiguousAction!.choices;
+      expect(choices.map(c => c.eventId)).toEqual([yoga, pottery]);
+      expect(getEventById(yoga)!.status).toBe('scheduled');
+
+      // Picking pottery applies it and settles the other choice
+      expect(confirmPendingAction(choices[1].pendingActionId, 'extension').ok).toBe(true);
+      expect(getEventById(pottery)!.status).toBe('deleted');
+      expect(getPendingActionById(choices[0].pendingActionId)!.status).toBe('rejected');
+      expect(getEventById(yoga)!.status).toBe('scheduled');
+    });
+
+    it('should act on every likely event for "cancel both"', async () => {
+      const standup = createEvent('Standup meeting', 'standup meeting');
+      const review = createEvent('Design review meeting', 'review meeting');
+      const offsite = createEvent('Offsite meeting', 'offsite meeting');
+      const result = await sendAction('cancel both meetings', {
+        action: 'cancel',
+        multiTarget: true,
+        candidates: [{ eventId: standup, score: 0.9 }, { eventId: review, score: 0.8 }, { eventId: offsite, score: 0.3 }],
+        confidence: 0.9,
+      });
+
+      expect(result.actionsPerformed!.map(a => a.targetEventId)).toEqual([standup, review]);
+      expect(result.actionPerformed!.targetEventId).toBe(standup);
+      expect(getEventById(review)!.status).toBe('deleted');
+      expect(getEventById(offsite)!.status).toBe('scheduled');
+    });
+
+    it('should check the policy per target when acting on several events', async () => {
+      setActionPolicy({ action: 'complete', confirm: 'always', threshold: 0.85, confirm_fallback: true });
+      try {
+        const first = createEvent('Pay electricity bill', 'bill');
+        const second = createEvent('Pay water bill', 'bill');
+        const result = await sendAction('paid both bills', { action: 'complete', multiTarget: true, targetKeywords: ['bill'], confidence: 0.9 });
+
+        expect(result.actionsPerformed).toBeUndefined();
+        expect(result.pendingActions!.map(p => p.targetEventId).sort()).toEqual([first, second]);
+        expect(result.pendingActions!.every(p => p.reason.includes('always'))).toBe(true);
+      } finally {
+        deleteActionPolicy('complete');
+      }
+    });
+  });
+});
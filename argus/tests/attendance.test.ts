@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { upsertContact, getEventsByChat, getEventRsvps, getEventAttendance } from '../src/db.js';
+import { initGemini, chatWithContext } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import type { LLMFixture, LLMProvider } from '../src/llm.js';
+import { processWebhook } from '../src/ingestion.js';
+import { compressAttendance, compressEventsForPrompt } from '../src/quicksave.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const FRIENDS_GROUP = '120363000000002@g.us';
+const NEHA = '919811111111@s.whatsapp.net';
+const WEBHOOK_OPTIONS = { processOwnMessages: true, skipGroupMessages: false };
+let messageCounter = 0;
+
+const analyzing = (text: string) => `Message to analyze:\n"${text}"`;
+
+const event = (type: string, title: string, extra: object = {}) => ({
+  type, title, description: null, event_time: '2030-12-05T20:00', location: null, participants: [], keywords: title.toLowerCase().split(' '), confidence: 0.9, ...extra,
+});
+
+// Merge fixtures are added once the event they target exists
+const fixtures: LLMFixture[] = [
+  {
+    task: 'analyze',
+    match: analyzing("dinner thursday 8pm — Rahul's in, Priya can't come"),
+    response: { events: [event('meeting', 'Dinner Thursday', { attendance: [{ name: 'Rahul', response: 'accepted' }, { name: 'Priya', response: 'declined' }] })] },
+  },
+  {
+    task: 'analyze',
+    match: analyzing('pay rent, Rahul is in'),
+    response: { events: [event('task', 'Pay rent', { attendance: [{ name: 'Rahul', response: 'accepted' }] })] },
+  },
+];
+const prompts: string[] = [];
+const fixtureProvider = createFixtureProvider(fixtures);
+const provider: LLMProvider = { name: 'recording', complete: request => { prompts.push(request.prompt); return fixtureProvider.complete(request); } };
+
+async function send(text: string, from: string) {
+  return processWebhook({
+    event: 'messages.upsert',
+    instance: 'test',
+    data: {
+      key: { remoteJid: FRIENDS_GROUP, fromMe: from === 'self', id: `msg-${++messageCounter}`, ...(from !== 'self' && { participant: from }) },
+      pushName: from === 'self' ? 'Me' : 'Neha',
+      message: { conversation: text },
+      messageTimestamp: Math.floor(Date.now() / 1000),
+    },
+  }, WEBHOOK_OPTIONS);
+}
+
+describe('Attendance Tracking', () => {
+  beforeAll(() => {
+    openTestDb('attendance');
+    initGemini({ apiKey: '', model: 'fixture', apiUrl: '', provider });
+    upsertContact({ id: '919822222222', name: 'Rahul Mehta', first_seen: 0, last_seen: 0, message_count: 1 });
+  });
+
+  afterAll(() => {
+    closeTestDb('attendance');
+  });
+
+  it('should record who\'s coming to a new meeting, resolving names to contacts', async () => {
+    const result = await send("dinner thursday 8pm — Rahul's in, Priya can't come", NEHA);
+    const [dinner] = getEventsByChat(FRIENDS_GROUP);
+
+    expect(result.attendance).toEqual([{
+      eventId: dinner.id,
+      eventTitle: 'Dinner Thursday',
+      answers: [
+        { responder: '919822222222', name: 'Rahul', response: 'accepted' },
+        { responder: 'priya', name: 'Priya', response: 'declined' },
+      ],
+    }]);
+    expect(getEventRsvps(dinner.id!).every(r => r.via === 'mention')).toBe(true);
+    // Attendance never moves the event
+    expect(dinner.status).toBe('discovered');
+  });
+
+  it('should merge answers into an existing meeting, with SENDER as the author', async () => {
+    const [dinner] = getEventsByChat(FRIENDS_GROUP);
+    fixtures.push({
+      task: 'analyze',
+      match: analyzing("count me in, Priya might make it after all"),
+      response: { events: [event('meeting', 'Dinner Thursday', {
+        event_action: 'merge',
+        target_event_id: dinner.id,
+        attendance: [{ name: 'SENDER', response: 'accepted' }, { name: 'Priya', response: 'tentative' }, { name: 'Arjun', response: 'maybe' }],
+      })] },
+    });
+
+    const result = await send('count me in, Priya might make it after all', 'self');
+    expect(result.eventsCreated).toBe(0);
+    expect(result.attendance?.[0].answers).toEqual([
+      { responder: 'self', name: 'Me', response: 'accepted' },
+      { responder: 'priya', name: 'Priya', response: 'tentative' },
+    ]);
+    expect(getEventAttendance([dinner.id!]).get(dinner.id!)).toEqual({ accepted: ['Rahul', 'you'], declined: [], tentative: ['Priya'] });
+  });
+
+  it('should only track attendance for meetings and trips', async () => {
+    const result = await send('pay rent, Rahul is in', NEHA);
+    const rent = getEventsByChat(FRIENDS_GROUP).find(e => e.title === 'Pay rent')!;
+    expect(result.attendance).toBeUndefined();
+    expect(getEventRsvps(rent.id!)).toEqual([]);
+    expect(getEventAttendance([rent.id!]).has(rent.id!)).toBe(false);
+  });
+
+  it('should put attendance in the compressed line chat answers from', async () => {
+    expect(compressAttendance({ accepted: ['Rahul', 'you'], declined: ['Priya'], tentative: [] })).toBe('in:Rahul,you out:Priya');
+    expect(compressAttendance({ accepted: [], declined: [], tentative: [] })).toBeNull();
+    expect(compressAttendance(null)).toBeNull();
+
+    const dinner = getEventsByChat(FRIENDS_GROUP).find(e => e.title === 'Dinner Thursday')!;
+    const attendance = getEventAttendance([dinner.id!]).get(dinner.id!);
+    const line = compressEventsForPrompt([{ ...dinner, id: dinner.id!, keywords: dinner.keywords!, attendance }]).events;
+    expect(line).toMatch(/\|dinner,thursday\|in:Rahul,you maybe:Priya$/);
+    expect(compressEventsForPrompt([{ ...dinner, id: dinner.id!, keywords: dinner.keywords! }]).events).toMatch(/\|dinner,thursday$/);
+
+    prompts.length = 0;
+    await chatWithContext("who's coming thursday?", [{ ...dinner, id: dinner.id!, keywords: dinner.keywords!, attendance }]);
+    expect(prompts[0]).toContain('in:Rahul,you maybe:Priya');
+  });
+});
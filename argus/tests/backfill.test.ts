@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getBackfillJobById, getMessageById, getEventsByChat, insertMessage, getActiveEvents } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import type { LLMProvider } from '../src/llm.js';
+import { batchImportMessages } from '../src/ingestion.js';
+import { startBackfillRunner, stopBackfillRunner, startBackfill, pauseBackfill, resumeBackfill, waitForBackfills } from '../src/backfill.js';
+import type { BackfillSource } from '../src/backfill.js';
+import type { EvolutionRawMessage } from '../src/evolution-db.js';
+import type { BackfillJob } from '../src/types.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const RAHUL_CHAT = '919876543210@s.whatsapp.net';
+const FAMILY_GROUP = '120363000000009@g.us';
+const DAY = 24 * 3600;
+const start = Math.floor(Date.now() / 1000) - 90 * DAY;
+
+// A fake Evolution Message table, paged the same way as getEvolutionMessagesAfter
+const history: EvolutionRawMessage[] = [];
+let failNextFetch = false;
+
+function addHistory(chatId: string, text: string, dayOffset: number): string {
+  const id = `HIST${history.length + 1}`;
+  history.push({
+    rowId: `row${String(history.length + 1).padStart(3, '0')}`,
+    key: { remoteJid: chatId, fromMe: false, id, participant: chatId.endsWith('@g.us') ? '919811111111@s.whatsapp.net' : null },
+    pushName: 'Rahul',
+    message: { conversation: text },
+    messageTimestamp: start + dayOffset * DAY,
+  });
+  return id;
+}
+
+const source: BackfillSource = {
+  async count(query) {
+    return history.filter(m => inRange(m, query)).length;
+  },
+  async fetchAfter(query) {
+    if (failNextFetch) {
+      failNextFetch = false;
+      throw new Error('connection terminated');
+    }
+    return history
+      .filter(m => inRange(m, query))
+      .filter(m => !query.after || m.messageTimestamp > query.after.timestamp ||
+        (m.messageTimestamp === query.after.timestamp && m.rowId > query.after.rowId))
+      .sort((a, b) => a.messageTimestamp - b.messageTimestamp || a.rowId.localeCompare(b.rowId))
+      .slice(0, query.limit);
+  },
+};
+
+function inRange(m: EvolutionRawMessage, query: { chatIds?: string[]; since?: number | null; until?: number | null }): boolean {
+  return (!query.chatIds?.length || query.chatIds.includes(m.key.remoteJid!)) &&
+    (query.since == null || m.messageTimestamp >= query.since) &&
+    (query.until == null || m.messageTimestamp < query.until);
+}
+
+// Fixture LLM that finds one event per "plan:" message and can fail a message's analysis once
+const analyzed: string[] = [];
+let failOnce: string | null = null;
+const fixtures = createFixtureProvider([{
+  task: 'action',
+  match: 'cancel the goa trip',
+  response: { isAction: true, action: 'cancel', targetDescription: 'goa trip', targetKeywords: ['goa'], confidence: 0.95 },
+}]);
+const provider: LLMProvider = {
+  name: 'backfill-fixture',
+  async complete(request) {
+    if (request.task !== 'analyze') return fixtures.complete(request);
+    // Only the message being analyzed — earlier ones are in the prompt as context
+    const plan = request.prompt.match(/Message to analyze:\n"plan: ([a-z ]+)"/)?.[1];
+    if (!plan) return JSON.stringify({ events: [] });
+    if (failOnce && plan === failOnce) {
+      failOnce = null;
+      throw new Error('Gemini API error: 503');
+    }
+    analyzed.push(plan);
+    return JSON.stringify({
+      events: [{
+        type: 'meeting', title: plan, description: null, event_time: null, location: null,
+        participants: [], keywords: plan.split(' '), confidence: 0.9,
+      }],
+    });
+  },
+};
+
+const progressUpdates: BackfillJob[] = [];
+const job = (id: number) => getBackfillJobById(id)!;
+
+describe('History Backfill', () => {
+  beforeAll(() => {
+    openTestDb('backfill');
+    initGemini({ apiKey: '', model: 'fixture', apiUrl: '', provider });
+    startBackfillRunner({
+      webhookOptions: { processOwnMessages: true, skipGroupMessages: false },
+      messagesPerMinute: 0,
+      source,
+      onProgress: (update) => progressUpdates.push(update),
+    });
+  });
+
+  afterAll(async () => {
+    await stopBackfillRunner();
+    closeTestDb('backfill');
+  });
+
+  it('should ingest the chosen chats and date range oldest first', async () => {
+    addHistory(RAHUL_CHAT, 'plan: pottery class', 1);
+    addHistory(RAHUL_CHAT, 'ok', 2);
+    const groupPlan = addHistory(FAMILY_GROUP, 'plan: family dinner', 3);
+    addHistory(RAHUL_CHAT, 'plan: goa trip', 5);
+    addHistory(RAHUL_CHAT, 'plan: too late', 40);
+
+    const { id } = startBackfill({ chatIds: [RAHUL_CHAT, FAMILY_GROUP], since: start, until: start + 30 * DAY });
+    await waitForBackfills();
+
+    expect(job(id)).toMatchObject({ status: 'done', total: 4, scanned: 4, processed: 4, already_stored: 0, events_created: 3 });
+    expect(analyzed).toEqual(['pottery class', 'family dinner', 'goa trip']);
+    expect(getMessageById(groupPlan)).toMatchObject({ chat_id: FAMILY_GROUP, sender: '919811111111', timestamp: start + 3 * DAY });
+    expect(getEventsByChat(RAHUL_CHAT).map(e => e.title).sort()).toEqual(['goa trip', 'pottery class']);
+    expect(progressUpdates.some(p => p.id === id && p.status === 'running')).toBe(true);
+    expect(progressUpdates.at(-1)).toMatchObject({ id, status: 'done' });
+  });
+
+  it('should skip messages Argus already has when a range is backfilled again', async () => {
+    analyzed.length = 0;
+    const { id } = startBackfill({ chatIds: [RAHUL_CHAT], since: null, until: null });
+    await waitForBackfills();
+
+    // Only the message outside the first range is new
+    expect(job(id)).toMatchObject({ status: 'done', total: 4, already_stored: 3, processed: 1, events_created: 1 });
+    expect(analyzed).toEqual(['too late']);
+  });
+
+  it('should resume a failed backfill from its checkpoint and retry the unfinished message', async () => {
+    analyzed.length = 0;
+    const chat = '918888888888@s.whatsapp.net';
+    addHistory(chat, 'plan: dentist', 10);
+    const flaky = addHistory(chat, 'plan: car service', 11);
+    addHistory(chat, 'plan: school meeting', 12);
+
+    failOnce = 'car service';
+    const { id } = startBackfill({ chatIds: [chat], since: null, until: null });
+    await waitForBackfills();
+
+    // The failing message was stored before analysis broke — it isn't treated as done
+    expect(job(id)).toMatchObject({ status: 'failed', scanned: 1, processed: 1, current_message_id: flaky, last_error: expect.stringMatching(/503/) });
+    expect(getMessageById(flaky)).toBeDefined();
+
+    expect(resumeBackfill(id)).toBe(true);
+    await waitForBackfills();
+    expect(job(id)).toMatchObject({ status: 'done', scanned: 3, processed: 3, already_stored: 0, events_created: 3, last_error: null });
+    expect(analyzed).toEqual(['dentist', 'car service', 'school meeting']);
+
+    // A failed read from Evolution fails the backfill too, and resumes the same way
+    const again = startBackfill({ chatIds: [chat], since: null, until: null });
+    failNextFetch = true;
+    await waitForBackfills();
+    expect(job(again.id)).toMatchObject({ status: 'failed', scanned: 0, last_error: 'connection terminated' });
+    resumeBackfill(again.id);
+    await waitForBackfills();
+    expect(job(again.id)).toMatchObject({ status: 'done', already_stored: 3 });
+  });
+
+  it('should pause queued and running backfills and continue them on resume', async () => {
+    const chat = '917777777777@s.whatsapp.net';
+    for (let day = 20; day < 26; day++) addHistory(chat, `note ${day}`, day);
+
+    const first = startBackfill({ chatIds: [chat], since: null, until: null });
+    const second = startBackfill({ chatIds: [RAHUL_CHAT], since: null, until: null });
+    expect(pauseBackfill(second.id)).toBe(true);
+    expect(pauseBackfill(first.id)).toBe(true); // running — stops before its next message
+    await waitForBackfills();
+
+    const paused = job(first.id);
+    expect(paused.status).toBe('paused');
+    expect(paused.scanned).toBeLessThan(6);
+    expect(job(second.id).status).toBe('paused');
+    expect(pauseBackfill(first.id)).toBe(false);
+
+    resumeBackfill(first.id);
+    await waitForBackfills();
+    expect(job(first.id)).toMatchObject({ status: 'done', scanned: 6 });
+    expect(job(second.id).status).toBe('paused');
+  });
+
+  it('should give batch imports stable IDs so importing twice is a no-op', async () => {
+    insertMessage({ id: 'live-1', chat_id: RAHUL_CHAT, sender: '919876543210', content: 'plan: brunch', timestamp: start });
+    const batch = [
+      { content: 'plan: movie night', sender: '919876543210', chatId: RAHUL_CHAT, timestamp: start + DAY },
+      { id: 'live-1', content: 'plan: brunch', sender: '919876543210', chatId: RAHUL_CHAT, timestamp: start },
+    ];
+
+    expect(await batchImportMessages(batch)).toMatchObject({ total: 2, processed: 1, duplicates: 1 });
+    expect(await batchImportMessages(batch)).toMatchObject({ total: 2, processed: 0, events: 0, duplicates: 2 });
+  });
+
+  it('should only extract events from old messages, never act on current ones', async () => {
+    const goa = () => getEventsByChat(RAHUL_CHAT).find(e => e.title === 'goa trip')!;
+    const before = goa();
+    expect(getActiveEvents().some(e => e.id === before.id)).toBe(true);
+
+    addHistory(RAHUL_CHAT, 'cancel the goa trip', 6);
+    const { id } = startBackfill({ chatIds: [RAHUL_CHAT], since: start + 6 * DAY, until: start + 7 * DAY });
+    await waitForBackfills();
+
+    expect(job(id)).toMatchObject({ status: 'done', processed: 1, events_created: 0 });
+    expect(goa()).toMatchObject({ id: before.id, status: before.status });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import { upsertContact, getRecentMessages, getEventsByChat, countOpenJobs } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import { parseChatExport, extractChatText, isZipArchive, chatNameFromFileName, importChatExport, getExportChatId, resolveExportSender, processChatImportJob, getImportGroupKey, CHAT_IMPORT_JOB } from '../src/chat-export.js';
+import type { ChatImportProgress } from '../src/chat-export.js';
+import { startQueue, stopQueue, registerJobHandler } from '../src/queue.js';
+import { zonedTimeToUnix } from '../src/timezone.js';
+import type { WhatsAppWebhook } from '../src/types.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const SAMPLE_EXPORT = '../aidata/WhatsApp Chat with Argus.zip';
+const TZ = 'Asia/Kolkata';
+
+const webhookOptions = { processOwnMessages: true, skipGroupMessages: false };
+const progress: ChatImportProgress[] = [];
+
+// Queue the export and wait until every message has been ingested (or dead-lettered)
+async function runImport(...args: Parameters<typeof importChatExport>) {
+  const summary = importChatExport(...args);
+  await vi.waitFor(() => expect(countOpenJobs(getImportGroupKey(summary.chatId))).toBe(0));
+  return summary;
+}
+
+const at = (year: number, month: number, day: number, hour: number, minute: number, second = 0) =>
+  zonedTimeToUnix({ year, month, day, hour, minute, second }, TZ);
+
+const ANDROID_EXPORT = [
+  '2/2/26, 9:46 PM - Messages and calls are end-to-end encrypted. Only people in this chat can read, listen to, or share them. Learn more.',
+  '2/2/26, 9:46 PM - Priya created group "Goa"',
+  '2/2/26, 9:50 PM - Priya: dinner thursday?',
+  'at Toit, 8pm',
+  '',
+  'bring the tickets',
+  '2/2/26, 9:51 PM - +91 98111 11111: <Media omitted>',
+  '2/2/26, 9:52 PM - +91 98111 11111: sure: see you there <This message was edited>',
+  '2/2/26, 10:03 AM - Arjun: This message was deleted',
+  '2/3/26, 12:05 AM - Arjun: IMG-20260203-WA0001.jpg (file attached)',
+  'the venue',
+].join('\n');
+
+const IOS_EXPORT = [
+  '‎[14/03/2025, 18:20:05] College Gang: ‎Messages and calls are end-to-end encrypted.',
+  '[14/03/2025, 18:21:40] Neha Rao: reunion on the 22nd?',
+  '‎[14/03/2025, 18:22:00] Neha Rao: ‎<attached: 00000012-Itinerary.pdf>',
+  '[14/03/2025, 18:22:10] Neha Rao: ‎image omitted',
+  '[15/03/2025, 09:00:00] Me: count me in',
+].join('\n');
+
+describe('WhatsApp Chat Export Import', () => {
+  beforeAll(() => {
+    openTestDb('chat-export');
+    upsertContact({ id: '919822222222', name: 'Arjun', first_seen: 0, last_seen: 0, message_count: 1 });
+    registerJobHandler(CHAT_IMPORT_JOB, async (payload) => {
+      progress.push(await processChatImportJob(payload as WhatsAppWebhook, webhookOptions));
+    });
+    startQueue({ concurrency: 2, maxAttempts: 2, pollIntervalMs: 20, backoffBaseSeconds: 0 });
+  });
+
+  afterAll(() => {
+    stopQueue();
+    closeTestDb('chat-export');
+  });
+
+  it('should parse Android exports with 12h clocks, multi-line messages and placeholders', () => {
+    const parsed = parseChatExport(ANDROID_EXPORT, { timezone: TZ });
+
+    expect(parsed).toMatchObject({ format: 'android', dateOrder: 'mdy', isGroup: true, systemMessages: 2, mediaOmitted: 1, deleted: 1 });
+    expect(parsed.authors).toEqual(['Priya', '+91 98111 11111', 'Arjun']);
+    expect(parsed.messages).toEqual([
+      { timestamp: at(2026, 2, 2, 21, 50), author: 'Priya', text: 'dinner thursday?\nat Toit, 8pm\n\nbring the tickets', attachment: null, mediaType: null },
+      { timestamp: at(2026, 2, 2, 21, 52), author: '+91 98111 11111', text: 'sure: see you there', attachment: null, mediaType: null },
+      { timestamp: at(2026, 2, 3, 0, 5), author: 'Arjun', text: 'the venue', attachment: 'IMG-20260203-WA0001.jpg', mediaType: 'image' },
+    ]);
+  });
+
+  it('should parse iOS exports with seconds, 24h clocks and attachments', () => {
+    const parsed = parseChatExport(IOS_EXPORT, { timezone: TZ });
+
+    expect(parsed).toMatchObject({ format: 'ios', dateOrder: 'dmy', systemMessages: 1, mediaOmitted: 1, isGroup: false });
+    expect(parsed.messages.map(m => [m.timestamp, m.author, m.text, m.mediaType])).toEqual([
+      [at(2025, 3, 14, 18, 21, 40), 'Neha Rao', 'reunion on the 22nd?', null],
+      [at(2025, 3, 14, 18, 22), 'Neha Rao', null, 'document'],
+      [at(2025, 3, 15, 9, 0), 'Me', 'count me in', null],
+    ]);
+  });
+
+  it('should tell day-first from month-first dates by keeping messages in order', () => {
+    const export_ = ['12/1/24, 10:00 - A: one', '1/2/24, 10:00 - A: two', '1/3/24, 10:00 - A: three'].join('\n');
+    const parsed = parseChatExport(export_, { timezone: TZ });
+    expect(parsed.dateOrder).toBe('dmy');
+    expect(parsed.messages[1].timestamp).toBe(at(2024, 2, 1, 10, 0));
+    expect(parseChatExport(export_, { timezone: TZ, dateOrder: 'mdy' }).messages[0].timestamp).toBe(at(2024, 12, 1, 10, 0));
+  });
+
+  it('should read the chat out of a shared export zip', () => {
+    const zip = fs.readFileSync(SAMPLE_EXPORT);
+    expect(isZipArchive(zip)).toBe(true);
+    const { fileName, text } = extractChatText(zip);
+    expect(chatNameFromFileName(fileName)).toBe('Argus');
+    expect(chatNameFromFileName('_chat.txt')).toBeNull();
+    expect(() => extractChatText(zip, 1024)).toThrow('too large');
+
+    const parsed = parseChatExport(text, { timezone: TZ });
+    expect(parsed).toMatchObject({ format: 'android', isGroup: true, mediaOmitted: 9 });
+    expect(parsed.messages[0]).toMatchObject({ author: 'NSheth.in', text: 'heyy', timestamp: at(2026, 2, 2, 21, 46) });
+    expect(parsed.messages.every((m, i) => i === 0 || m.timestamp >= parsed.messages[i - 1].timestamp)).toBe(true);
+
+    // Stored entries are found as well as deflated ones
+    const stored = Buffer.from(text);
+    const name = Buffer.from('_chat.txt');
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt16LE(name.length, 28);
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(1, 10);
+    eocd.writeUInt32LE(30 + name.length + stored.length, 16);
+    const archive = Buffer.concat([local, name, stored, central, name, eocd]);
+    expect(extractChatText(archive)).toEqual({ fileName: '_chat.txt', text });
+  });
+
+  it('should ingest an export with attributed senders and skip it on re-import', async () => {
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: createFixtureProvider([{
+        task: 'analyze',
+        match: 'dinner thursday',
+        response: {
+          events: [{ type: 'meeting', title: 'Dinner at Toit', description: null, event_time: null, location: 'Toit', participants: [], keywords: ['dinner'], confidence: 0.9 }],
+        },
+      }]),
+    });
+
+    const parsed = parseChatExport(`${ANDROID_EXPORT}\n2/3/26, 12:06 AM - Priya: ok\n2/3/26, 12:06 AM - Priya: ok`, { timezone: TZ });
+    const options = { chatName: 'Goa', ownerName: 'priya' };
+    const first = await runImport(parsed, options);
+
+    const chatId = getExportChatId('Goa');
+    expect(chatId).toBe('goa@export');
+    expect(first).toEqual({ chatId, total: 5, queued: 5, alreadyStored: 0 });
+    expect(progress.map(p => p.eventsCreated)).toEqual([1, 0, 0, 0, 0]);
+    expect(progress[4]).toMatchObject({ chatId, remaining: 0 });
+
+    const [dinner] = getEventsByChat(chatId);
+    expect(dinner).toMatchObject({ title: 'Dinner at Toit', sender_jid: null });
+
+    // The owner is 'self', phone numbers become contact IDs, known names resolve to their contact
+    const messages = getRecentMessages(chatId, 10).reverse();
+    expect(messages.map(m => [m.sender, m.content])).toEqual([
+      ['self', 'dinner thursday?\nat Toit, 8pm\n\nbring the tickets'],
+      ['919811111111', 'sure: see you there'],
+      ['919822222222', '[Image] the venue'],
+      ['self', 'ok'],
+      ['self', 'ok'],
+    ]);
+    expect(messages[2]).toMatchObject({ media_type: 'image', media_ref: 'IMG-20260203-WA0001.jpg' });
+    expect(new Set(messages.map(m => m.id)).size).toBe(5);
+    expect(resolveExportSender('Someone New')).toBe('export-someone-new');
+
+    const again = await runImport(parsed, options);
+    expect(again).toMatchObject({ queued: 0, alreadyStored: 5 });
+    expect(getEventsByChat(chatId)).toHaveLength(1);
+  });
+
+  it('should queue a message again on re-import when its extraction failed', async () => {
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: { name: 'down', async complete() { throw new Error('LLM API error: 503'); } },
+    });
+    const parsed = parseChatExport('2/5/26, 1:00 PM - Someone New: lunch friday?', { timezone: TZ });
+    const chatId = getExportChatId('Lunch');
+
+    expect(await runImport(parsed, { chatName: 'Lunch' })).toMatchObject({ queued: 1, alreadyStored: 0 });
+    expect(getEventsByChat(chatId)).toHaveLength(0);
+    // Stored without being processed — and with no made-up phone number JID for the sender
+    const [stored] = getRecentMessages(chatId, 1);
+    expect(stored).toMatchObject({ sender: 'export-someone-new', sender_jid: 'export-someone-new@export', processed_at: null });
+
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: createFixtureProvider([{
+        task: 'analyze',
+        match: 'lunch friday',
+        response: {
+          events: [{ type: 'meeting', title: 'Lunch', description: null, event_time: null, location: null, participants: [], keywords: ['lunch'], confidence: 0.9 }],
+        },
+      }]),
+    });
+    expect(await runImport(parsed, { chatName: 'Lunch' })).toMatchObject({ queued: 1, alreadyStored: 0 });
+    expect(getEventsByChat(chatId)).toMatchObject([{ title: 'Lunch', sender_jid: 'export-someone-new@export' }]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { getMessageById, setChatPolicy, deleteChatPolicy, getChatPolicies } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import { processWebhook, getChatMode } from '../src/ingestion.js';
+import type { WhatsAppWebhook } from '../src/types.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const FAMILY_GROUP = '120363000000001@g.us';
+const ALUMNI_GROUP = '120363000000002@g.us';
+const OWNER = '919999999999@s.whatsapp.net';
+const options = { processOwnMessages: true, skipGroupMessages: false };
+
+let messageCounter = 0;
+
+function groupMessage(chatId: string, extra: { fromMe?: boolean; text?: string; contextInfo?: Record<string, unknown>; sender?: string } = {}): WhatsAppWebhook {
+  const text = extra.text ?? 'lunch on sunday?';
+  return {
+    event: 'messages.upsert',
+    instance: 'test',
+    sender: extra.sender,
+    data: {
+      key: { remoteJid: chatId, fromMe: extra.fromMe ?? false, id: `policy-msg-${++messageCounter}`, participant: '919811111111@s.whatsapp.net' },
+      pushName: 'Priya',
+      message: extra.contextInfo ? { extendedTextMessage: { text, contextInfo: extra.contextInfo } } : { conversation: text },
+      messageTimestamp: Math.floor(Date.now() / 1000),
+    },
+  };
+}
+
+describe('Chat Policies', () => {
+  beforeAll(() => {
+    openTestDb('chat-policies');
+    initGemini({ apiKey: '', model: 'fixture', apiUrl: '', provider: createFixtureProvider([]) });
+  });
+
+  afterAll(() => {
+    closeTestDb('chat-policies');
+  });
+
+  beforeEach(() => {
+    for (const policy of getChatPolicies()) deleteChatPolicy(policy.chat_id);
+  });
+
+  it('should fall back to the global group setting for chats without a policy', async () => {
+    expect(getChatMode(FAMILY_GROUP, false)).toEqual({ mode: 'enabled', source: 'default' });
+    expect(getChatMode(FAMILY_GROUP, true)).toEqual({ mode: 'muted', source: 'default' });
+    expect(getChatMode('919811111111@s.whatsapp.net', true).mode).toBe('enabled');
+
+    const skipped = await processWebhook(groupMessage(FAMILY_GROUP), { ...options, skipGroupMessages: true });
+    expect(skipped.skipReason).toBe('group_message');
+
+    // A policy wins over the global switch
+    setChatPolicy(FAMILY_GROUP, 'enabled');
+    const read = await processWebhook(groupMessage(FAMILY_GROUP), { ...options, skipGroupMessages: true });
+    expect(read.skipped).toBe(false);
+    // Group messages are attributed to the member who wrote them
+    expect(getMessageById(read.messageId)!.sender).toBe('919811111111');
+  });
+
+  it('should drop everything from a muted chat without storing it', async () => {
+    setChatPolicy(ALUMNI_GROUP, 'muted');
+    const result = await processWebhook(groupMessage(ALUMNI_GROUP), options);
+    expect(result).toMatchObject({ skipped: true, skipReason: 'chat_muted' });
+    expect(getMessageById(result.messageId)).toBeUndefined();
+  });
+
+  it('should only read messages that mention or reply to the owner in mention-only chats', async () => {
+    setChatPolicy(ALUMNI_GROUP, 'mention_only');
+
+    expect((await processWebhook(groupMessage(ALUMNI_GROUP, { sender: OWNER }), options)).skipReason).toBe('not_mentioned');
+    // Someone else mentioned
+    expect((await processWebhook(groupMessage(ALUMNI_GROUP, {
+      sender: OWNER,
+      contextInfo: { mentionedJid: ['919822222222@s.whatsapp.net'] },
+    }), options)).skipReason).toBe('not_mentioned');
+
+    const mentioned = await processWebhook(groupMessage(ALUMNI_GROUP, {
+      sender: OWNER,
+      contextInfo: { mentionedJid: ['919999999999@s.whatsapp.net'] },
+    }), options);
+    expect(mentioned.skipped).toBe(false);
+
+    // A reply quoting the owner; the JID comes from config when the webhook has none
+    const reply = await processWebhook(groupMessage(ALUMNI_GROUP, {
+      contextInfo: { participant: '919999999999:7@s.whatsapp.net', stanzaId: 'ABC123' },
+    }), { ...options, ownerJid: OWNER });
+    expect(reply.skipped).toBe(false);
+
+    // The owner's own messages are always read
+    expect((await processWebhook(groupMessage(ALUMNI_GROUP, { fromMe: true }), options)).skipped).toBe(false);
+  });
+
+  it('should only read the owner\'s messages in own-only chats', async () => {
+    setChatPolicy(FAMILY_GROUP, 'own_only');
+    expect((await processWebhook(groupMessage(FAMILY_GROUP), options)).skipReason).toBe('not_own_message');
+    expect((await processWebhook(groupMessage(FAMILY_GROUP, { fromMe: true }), options)).skipped).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { insertEvent, getEventById, getEventsByChat } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import type { LLMProvider, LLMTask } from '../src/llm.js';
+import { processWebhook } from '../src/ingestion.js';
+import type { WebhookOptions } from '../src/ingestion.js';
+import { initWhatsApp } from '../src/whatsapp.js';
+import { setUserTimezone } from '../src/timezone.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const OWN_CHAT = '919876543210@s.whatsapp.net';
+const OPTIONS: WebhookOptions = { processOwnMessages: true, skipGroupMessages: false, controlChat: '919876543210' };
+const now = () => Math.floor(Date.now() / 1000);
+let messageCounter = 0;
+
+const fixtures = createFixtureProvider([
+  {
+    task: 'action',
+    match: 'Message: "snooze the dentist thing to friday"',
+    response: { isAction: true, action: 'snooze', snoozeMinutes: 2880, targetKeywords: ['dentist'], targetDescription: 'dentist', candidates: [], confidence: 0.9 },
+  },
+  {
+    task: 'analyze',
+    match: 'Message to analyze:\n"pay rent on the 5th"',
+    response: { events: [{ type: 'task', title: 'Pay rent', description: null, event_time: '2030-12-05T10:00', location: null, participants: [], keywords: ['rent'], confidence: 0.9 }] },
+  },
+  {
+    task: 'chat',
+    match: 'User\'s question: "what\'s on tomorrow?"',
+    response: { response: '**Tomorrow** you have:\n- Dentist appointment at 5 PM', relevantEventIds: [1] },
+  },
+]);
+const calls: LLMTask[] = [];
+const provider: LLMProvider = { name: 'recording', complete: request => { calls.push(request.task); return fixtures.complete(request); } };
+
+// Evolution's side: what was sent where, with the message IDs it handed out
+const sent: Array<{ chatId: string; text: string; id: string }> = [];
+
+function send(text: string, options = OPTIONS, fromMe = true, id = `cmd-${++messageCounter}`) {
+  return processWebhook({
+    event: 'messages.upsert',
+    instance: 'test',
+    data: { key: { remoteJid: OWN_CHAT, fromMe, id }, pushName: 'Me', message: { conversation: text }, messageTimestamp: now() },
+  }, options);
+}
+
+function lastReply(): string {
+  return sent[sent.length - 1].text;
+}
+
+describe('WhatsApp Commands', () => {
+  let dentist: number;
+
+  beforeAll(() => {
+    openTestDb('commands');
+    setUserTimezone('Asia/Kolkata');
+    initGemini({ apiKey: '', model: 'fixture', apiUrl: '', provider });
+    initWhatsApp({
+      targets: [],
+      maxPerHour: 0,
+      sender: async (chatId, text) => {
+        const id = `argus-${sent.length + 1}`;
+        sent.push({ chatId, text, id });
+        return id;
+      },
+    });
+
+    const event = { message_id: null, description: null, location: null, participants: null, confidence: 0.9, status: 'scheduled' as const };
+    dentist = insertEvent({ ...event, event_type: 'meeting', title: 'Dentist appointment', event_time: 1922700600, keywords: 'dentist,teeth' });
+    insertEvent({ ...event, event_type: 'subscription', title: 'Netflix renewal', event_time: null, keywords: 'netflix' });
+  });
+
+  afterAll(() => {
+    closeTestDb('commands');
+  });
+
+  it('should answer help and list commands from the database', async () => {
+    expect((await send('help')).command).toMatchObject({ kind: 'help', replied: true });
+    expect(lastReply()).toContain('list subscriptions');
+
+    const list = await send('List subscriptions');
+    expect(list.command).toMatchObject({ kind: 'list', reply: '*💳 Subscriptions* (1)\n• Netflix renewal', replied: true });
+    expect(sent[sent.length - 1].chatId).toBe(OWN_CHAT);
+    expect((await send('show my meetings')).command!.reply).toBe('*📅 Meetings* (1)\n• Dentist appointment — Thu, Dec 5, 5:00 PM');
+    expect(calls).toEqual([]);
+  });
+
+  it('should run actions on existing events and save new plans', async () => {
+    const snoozed = await send('snooze the dentist thing to Friday');
+    expect(snoozed.command).toMatchObject({ kind: 'action', reply: '✅ Snoozed: "Dentist appointment" → will remind tomorrow' });
+    expect(snoozed.actionsPerformed).toEqual([expect.objectContaining({ action: 'snooze', targetEventId: dentist })]);
+    expect(getEventById(dentist)!.status).toBe('snoozed');
+
+    const saved = await send('pay rent on the 5th');
+    expect(saved.eventsCreated).toBe(1);
+    expect(saved.command).toMatchObject({ kind: 'event', reply: '📌 Saved: Pay rent — Thu, Dec 5, 10:00 AM' });
+  });
+
+  it('should answer everything else with chat, formatted for WhatsApp', async () => {
+    calls.length = 0;
+    const answer = await send("what's on tomorrow?");
+    expect(calls).toEqual(['action', 'analyze', 'chat']);
+    expect(answer.command).toMatchObject({ kind: 'chat', reply: '*Tomorrow* you have:\n• Dentist appointment at 5 PM' });
+  });
+
+  it('should not read its own replies, or anyone else\'s messages, as commands', async () => {
+    const reply = sent[sent.length - 1];
+    expect(await send(reply.text, OPTIONS, true, reply.id)).toMatchObject({ skipped: true, skipReason: 'argus_message' });
+
+    // Commands work with PROCESS_OWN_MESSAGES off — without a control chat that skips every own message
+    expect((await send('help', { ...OPTIONS, processOwnMessages: false })).command?.kind).toBe('help');
+    expect(await send('help', { ...OPTIONS, controlChat: undefined, processOwnMessages: false })).toMatchObject({ skipped: true, skipReason: 'own_message' });
+    const incoming = await send('help', OPTIONS, false);
+    expect(incoming.command).toBeUndefined();
+
+    expect(getEventsByChat(OWN_CHAT).map(e => e.title)).toEqual(['Pay rent']);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { insertContextRule, updateContextRule, getContextRules, insertEvent, setEventContextUrl, removeEventContextUrl, getEventContextUrls, getEventById, getTriggersForEvent } from '../src/db.js';
+import { seedContextRules, resolveContextUrls, DEFAULT_CONTEXT_RULES } from '../src/context-rules.js';
+import { extractContextFromUrl } from '../src/matcher.js';
+import { matchUrlPattern } from '../src/url-patterns.js';
+import { checkContextTriggers } from '../src/scheduler.js';
+import { ContextRuleSchema } from '../src/types.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+function event(fields: Partial<Parameters<typeof resolveContextUrls>[0]>) {
+  return { type: 'other' as const, title: '', description: null, location: null, keywords: [], ...fields };
+}
+
+describe('URL Pattern Matching', () => {
+  it('should match a domain and its subdomains', () => {
+    expect(matchUrlPattern('nykaa.com', 'https://www.nykaa.com/makeup/lipstick')).toBe(true);
+    expect(matchUrlPattern('nykaa.com', 'https://notnykaa.com/')).toBe(false);
+  });
+
+  it('should match path globs against the whole path', () => {
+    expect(matchUrlPattern('makemytrip.com/flight*', 'https://www.makemytrip.com/flights/goa-mumbai')).toBe(true);
+    expect(matchUrlPattern('makemytrip.com/flight*', 'https://www.makemytrip.com/holidays/goa')).toBe(false);
+    expect(matchUrlPattern('amazon.in/s', 'https://www.amazon.in/s?k=lipstick')).toBe(true);
+  });
+
+  it('should allow wildcards in the host', () => {
+    expect(matchUrlPattern('amazon.*', 'https://www.amazon.co.in/gp/cart')).toBe(true);
+    expect(matchUrlPattern('airbnb.*', 'https://www.booking.com/airbnb')).toBe(false);
+  });
+
+  it('should treat bare keywords as substrings of the URL', () => {
+    expect(matchUrlPattern('goa', 'https://www.makemytrip.com/hotels/goa-beach-resorts')).toBe(true);
+    expect(matchUrlPattern('netflix', 'https://www.netflix.com/browse')).toBe(true);
+  });
+});
+
+describe('Context Rules', () => {
+  beforeAll(() => {
+    openTestDb('context-rules');
+  });
+
+  afterAll(() => {
+    closeTestDb('context-rules');
+  });
+
+  it('should seed the default rules only into an empty table', () => {
+    expect(seedContextRules()).toBe(DEFAULT_CONTEXT_RULES.length);
+    expect(seedContextRules()).toBe(0);
+  });
+
+  it('should map events to the URL patterns of the best rule', () => {
+    expect(resolveContextUrls(event({ type: 'subscription', title: 'Cancel Netflix', keywords: ['netflix'] }))?.urls).toEqual(['netflix']);
+    expect(resolveContextUrls(event({ type: 'travel', title: 'Goa trip', keywords: ['goa', 'hotel'] }))?.urls)
+      .toEqual(['goa', 'makemytrip.com', 'goibibo.com', 'airbnb.*', 'booking.com']);
+    expect(resolveContextUrls(event({ type: 'recommendation', title: 'Buy makeup for sis', keywords: ['makeup'] }))?.urls)
+      .toEqual(['nykaa.com', 'myntra.com', 'amazon.*', 'sephora.*']);
+    expect(resolveContextUrls(event({ type: 'recommendation', title: 'Birthday present for Rahul', keywords: ['birthday'] }))?.urls)
+      .toEqual(['amazon.*', 'flipkart.com']);
+    expect(resolveContextUrls(event({ type: 'meeting', title: 'Standup', keywords: ['standup'] }))).toBeNull();
+  });
+
+  it('should reproduce the old URL patterns for browsing', () => {
+    expect(extractContextFromUrl('https://www.makemytrip.com/flights/goa-mumbai')).toEqual({
+      activity: 'travel_booking',
+      keywords: ['flights', 'goa', 'mumbai'],
+    });
+    expect(extractContextFromUrl('https://www.amazon.in/s?k=red+lipstick').keywords[0]).toBe('red lipstick');
+    expect(extractContextFromUrl('https://www.amazon.in/gp/cart').activity).toBe('shopping');
+    expect(extractContextFromUrl('https://example.com/some/path').activity).toBe('browsing');
+  });
+
+  it('should let one new rule drive both ingestion and browsing', () => {
+    const id = insertContextRule(ContextRuleSchema.parse({
+      name: 'Sephora',
+      keywords: ['sephora', 'perfume'],
+      recipients: ['sis', 'sister'],
+      url_patterns: ['sephora.in'],
+      activity: 'beauty_shopping',
+      priority: 500,
+    }));
+
+    expect(resolveContextUrls(event({ type: 'recommendation', title: 'Perfume for sis' }))?.rule.id).toBe(id);
+    // Recipient hints match whole words only
+    expect(resolveContextUrls(event({ type: 'recommendation', title: 'Perfume analysis' }))?.rule.id).not.toBe(id);
+    expect(extractContextFromUrl('https://www.sephora.in/brands').activity).toBe('beauty_shopping');
+
+    updateContextRule(id, { enabled: false });
+    expect(getContextRules({ appliesTo: 'browsing', enabledOnly: true }).some(r => r.id === id)).toBe(false);
+    expect(extractContextFromUrl('https://www.sephora.in/brands').activity).toBe('browsing');
+  });
+});
+
+describe('Event Context URLs', () => {
+  beforeAll(() => {
+    openTestDb('context-rules');
+  });
+
+  afterAll(() => {
+    closeTestDb('context-rules');
+  });
+
+  function scheduledEvent(title: string, contextUrl: string | null, location: string | null = null): number {
+    return insertEvent({
+      message_id: null,
+      event_type: 'recommendation',
+      title,
+      description: null,
+      event_time: null,
+      location,
+      participants: '[]',
+      keywords: '',
+      confidence: 0.9,
+      status: 'scheduled',
+      context_url: contextUrl,
+    });
+  }
+
+  it('should fire on any of an event\'s patterns and report which one matched', () => {
+    const id = scheduledEvent('Makeup for sis', 'nykaa.com');
+    setEventContextUrl(id, ['myntra.com', 'amazon.*', 'sephora.*']);
+    expect(getEventContextUrls(id)).toEqual(['nykaa.com', 'myntra.com', 'amazon.*', 'sephora.*']);
+
+    const onSephora = checkContextTriggers('https://www.sephora.in/brands/huda');
+    expect(onSephora.map(n => n.id)).toEqual([id]);
+    expect(onSephora[0].matchedPattern).toBe('sephora.*');
+    expect(checkContextTriggers('https://www.nykaa.com/lipstick')[0].matchedPattern).toBe('nykaa.com');
+    expect(checkContextTriggers('https://www.netflix.com/browse')).toEqual([]);
+  });
+
+  it('should keep context_url on the first remaining pattern', () => {
+    const id = scheduledEvent('Goa trip', null);
+    setEventContextUrl(id, 'goa');
+    setEventContextUrl(id, 'makemytrip.com/hotel*');
+    expect(checkContextTriggers('https://www.makemytrip.com/hotels/candolim')[0].matchedPattern).toBe('makemytrip.com/hotel*');
+
+    const urlTriggers = () => getTriggersForEvent(id).filter(t => t.trigger_type === 'url').map(t => t.trigger_value);
+    expect(urlTriggers()).toContain('goa');
+
+    expect(removeEventContextUrl(id, 'goa')).toBe(true);
+    expect(getEventById(id)?.context_url).toBe('makemytrip.com/hotel*');
+    expect(urlTriggers()).toEqual(['makemytrip.com/hotel*']);
+    expect(checkContextTriggers('https://www.google.com/search?q=goa').some(n => n.id === id)).toBe(false);
+  });
+
+  it('should fall back to the location for events without patterns', () => {
+    const id = scheduledEvent('Renew design plan', null, 'canva');
+    const matches = checkContextTriggers('https://www.canva.com/design');
+    expect(matches.find(n => n.id === id)?.matchedPattern).toBe('canva');
+  });
+});
@@ -0,0 +1,25 @@
+import fs from 'fs';
+import { initDb, closeDb } from '../../src/db.js';
+
+// Every test file works on its own SQLite file: ./data/test-<name>.db
+export function testDbPath(name: string): string {
+  return `./data/test-${name}.db`;
+}
+
+function removeTestDb(name: string): void {
+  const dbPath = testDbPath(name);
+  for (const suffix of ['', '-wal', '-shm']) {
+    if (fs.existsSync(dbPath + suffix)) fs.unlinkSync(dbPath + suffix);
+  }
+}
+
+// A fresh database, whatever an earlier (crashed) run left behind
+export function openTestDb(name: string): void {
+  removeTestDb(name);
+  initDb(testDbPath(name));
+}
+
+export function closeTestDb(name: string): void {
+  closeDb();
+  removeTestDb(name);
+}
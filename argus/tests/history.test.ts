@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { insertEvent, getEventById, getAllEvents, getActiveEvents, updateEvent, snoozeEvent, deleteEvent, getTriggersForEvent, getEventHistory, undoLastEventChange, withChangeSource } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import { processWebhook } from '../src/ingestion.js';
+import { syncTimeTriggers, startTriggerMaintenance, stopTriggerMaintenance } from '../src/triggers.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function createMeeting(title: string, keywords: string): number {
+  const id = insertEvent({
+    message_id: null,
+    event_type: 'meeting',
+    title,
+    description: null,
+    event_time: now() + 30 * 3600,
+    location: null,
+    participants: null,
+    keywords,
+    confidence: 0.9,
+    status: 'scheduled',
+  });
+  syncTimeTriggers(id);
+  return id;
+}
+
+const pendingTriggers = (eventId: number) => getTriggersForEvent(eventId).filter(t => !t.is_fired).length;
+
+describe('Event History and Undo', () => {
+  beforeAll(() => {
+    openTestDb('history');
+    startTriggerMaintenance();
+  });
+
+  afterAll(() => {
+    stopTriggerMaintenance();
+    closeTestDb('history');
+  });
+
+  it('should soft-delete an event from a WhatsApp action and restore it on undo', async () => {
+    const dentist = createMeeting('Dentist appointment', 'dentist');
+    expect(pendingTriggers(dentist)).toBe(3);
+
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: createFixtureProvider([{
+        task: 'action',
+        match: 'cancel it',
+        response: { isAction: true, action: 'cancel', targetKeywords: ['dentist'], targetDescription: 'dentist', confidence: 0.9 },
+      }]),
+    });
+
+    const result = await processWebhook({
+      event: 'messages.upsert',
+      instance: 'test',
+      data: {
+        key: { remoteJid: '919876543210@s.whatsapp.net', fromMe: false, id: 'undo-msg-1' },
+        pushName: 'Rahul',
+        message: { conversation: 'cancel it' },
+        messageTimestamp: now(),
+      },
+    }, { processOwnMessages: true, skipGroupMessages: false });
+    expect(result.actionPerformed?.targetEventId).toBe(dentist);
+
+    // Hidden everywhere, but still on disk
+    expect(getEventById(dentist)!.status).toBe('deleted');
+    expect(getEventById(dentist)!.deleted_at).toBeTypeOf('number');
+    expect(getAllEvents({}).map(e => e.id)).not.toContain(dentist);
+    expect(getActiveEvents().map(e => e.id)).not.toContain(dentist);
+    expect(pendingTriggers(dentist)).toBe(0);
+
+    const [latest] = getEventHistory(dentist);
+    expect(latest).toMatchObject({ action: 'delete', source: 'webhook', before: { status: 'scheduled', deleted_at: null } });
+
+    const undone = undoLastEventChange(dentist)!;
+    expect(undone.id).toBe(latest.id);
+    expect(getEventById(dentist)).toMatchObject({ status: 'scheduled', deleted_at: null });
+    expect(pendingTriggers(dentist)).toBe(3);
+    expect(getEventHistory(dentist)[0]).toMatchObject({ action: 'undo', before: { status: 'deleted' }, after: { status: 'scheduled' } });
+  });
+
+  it('should record the source and before/after values of every change', () => {
+    const standup = createMeeting('Standup', 'standup');
+    withChangeSource('api', () => updateEvent(standup, { title: 'Daily standup', location: 'Room 4' }));
+    withChangeSource('extension', () => snoozeEvent(standup, 60));
+
+    const [snooze, update, create] = getEventHistory(standup);
+    expect(create).toMatchObject({ action: 'create', source: 'system', before: null, after: { title: 'Standup', status: 'scheduled' } });
+    expect(update).toMatchObject({
+      action: 'update',
+      source: 'api',
+      before: { title: 'Standup', location: null },
+      after: { title: 'Daily standup', location: 'Room 4' },
+    });
+    expect(snooze).toMatchObject({ action: 'status', source: 'extension', before: { status: 'scheduled' }, after: { status: 'snoozed' } });
+  });
+
+  it('should walk back through changes and skip no-op writes', () => {
+    const lunch = createMeeting('Lunch', 'lunch');
+    updateEvent(lunch, { title: 'Team lunch' });
+    updateEvent(lunch, { title: 'Team lunch' }); // unchanged — not history
+    deleteEvent(lunch);
+    expect(getEventHistory(lunch).map(h => h.action)).toEqual(['delete', 'update', 'create']);
+
+    undoLastEventChange(lunch);
+    expect(getEventById(lunch)!.status).toBe('scheduled');
+    undoLastEventChange(lunch);
+    expect(getEventById(lunch)!.title).toBe('Lunch');
+
+    // Undoing the creation deletes the event, after that there is nothing left
+    undoLastEventChange(lunch);
+    expect(getEventById(lunch)!.status).toBe('deleted');
+    expect(undoLastEventChange(lunch)).toBeNull();
+    expect(getEventHistory(lunch).every(h => h.action === 'undo' || h.undone_at !== null)).toBe(true);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { extractMessageContent } from '../src/ingestion.js';
 
 describe('Message Ingestion', () => {
   it('should extract message content from webhook', () => {
@@ -133,3 +134,53 @@ describe('Trigger Creation', () => {
     expect(trigger.trigger_value).toBe('goa');
   });
 });
+
+describe('Media Message Extraction', () => {
+  it('should use image captions as content', () => {
+    const result = extractMessageContent({
+      imageMessage: { url: 'https://mmg.whatsapp.net/abc', caption: 'Concert tickets for Saturday 7pm' },
+    });
+    expect(result.content).toBe('[Image] Concert tickets for Saturday 7pm');
+    expect(result.mediaType).toBe('image');
+    expect(result.mediaRef).toBe('https://mmg.whatsapp.net/abc');
+  });
+
+  it('should prefer the Evolution media URL as reference', () => {
+    const result = extractMessageContent({
+      mediaUrl: 'https://s3.local/evolution/doc.pdf',
+      documentMessage: { url: 'https://mmg.whatsapp.net/xyz', fileName: 'Flight_BLR_GOI_12Feb.pdf' },
+    });
+    expect(result.content).toBe('[Document: Flight_BLR_GOI_12Feb.pdf]');
+    expect(result.mediaRef).toBe('https://s3.local/evolution/doc.pdf');
+  });
+
+  it('should unwrap documents sent with a caption', () => {
+    const result = extractMessageContent({
+      documentWithCaptionMessage: {
+        message: { documentMessage: { fileName: 'invite.pdf', caption: 'wedding on 14th!' } },
+      },
+    });
+    expect(result.content).toBe('[Document: invite.pdf] wedding on 14th!');
+    expect(result.mediaType).toBe('document');
+  });
+
+  it('should use voice note transcripts when available', () => {
+    const result = extractMessageContent({
+      audioMessage: { ptt: true, seconds: 6 },
+      speechToText: '[audio] call the dentist tomorrow at 11',
+    });
+    expect(result.content).toBe('[Voice note] call the dentist tomorrow at 11');
+    expect(result.mediaType).toBe('audio');
+  });
+
+  it('should keep media type for media without text', () => {
+    const result = extractMessageContent({ imageMessage: { url: 'https://mmg.whatsapp.net/img' } });
+    expect(result.content).toBeNull();
+    expect(result.mediaType).toBe('image');
+  });
+
+  it('should return plain text unchanged', () => {
+    const result = extractMessageContent({ conversation: 'dinner at 8?' });
+    expect(result).toEqual({ content: 'dinner at 8?', mediaType: null, mediaRef: null });
+  });
+});
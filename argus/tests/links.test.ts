@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { initDb, closeDb, getDb, insertEvent, insertMessage, upsertContact, getEventById, updateEvent, undoLastEventChange, getEventParticipants, getEventsByChat, getEventsByContact, resolveContactIdByName, getMessageById } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import { processWebhook } from '../src/ingestion.js';
+import { openTestDb, closeTestDb, testDbPath } from './helpers/db.js';
+
+const now = () => Math.floor(Date.now() / 1000);
+const COLLEGE_GROUP = '120363123456789@g.us';
+
+function addContact(id: string, name: string): void {
+  upsertContact({ id, name, first_seen: now(), last_seen: now(), message_count: 1 });
+}
+
+const participantRows = (eventId: number) => getEventParticipants(eventId).map(p => [p.role, p.name, p.contact_id]);
+
+describe('Event Chat and Participant Links', () => {
+  beforeAll(() => {
+    openTestDb('links');
+    addContact('919811111111', 'Priya Sharma');
+    addContact('919822222222', 'Arjun');
+    addContact('919833333333', 'Neha Rao');
+    addContact('919844444444', 'Neha Kapoor');
+  });
+
+  afterAll(() => {
+    closeTestDb('links');
+  });
+
+  it('should link an event from a group chat to its chat, sender and mentioned contacts', async () => {
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: createFixtureProvider([{
+        task: 'analyze',
+        match: 'reunion',
+        response: {
+          events: [{
+            type: 'meeting',
+            title: 'College reunion',
+            description: null,
+            event_time: new Date((now() + 5 * 24 * 3600) * 1000).toISOString(),
+            location: null,
+            participants: ['Priya', 'Neha', 'mom'],
+            keywords: ['reunion'],
+            confidence: 0.9,
+          }],
+        },
+      }]),
+    });
+
+    const result = await processWebhook({
+      event: 'messages.upsert',
+      instance: 'test',
+      data: {
+        key: { remoteJid: COLLEGE_GROUP, fromMe: false, id: 'links-msg-1', participant: '919822222222@s.whatsapp.net' },
+        pushName: 'Arjun',
+        message: { conversation: 'reunion next week with Priya and Neha, mom is hosting' },
+        messageTimestamp: now(),
+      },
+    }, { processOwnMessages: true, skipGroupMessages: false });
+    const reunion = result.events![0].id;
+
+    expect(getEventById(reunion)).toMatchObject({ chat_id: COLLEGE_GROUP, sender_jid: '919822222222@s.whatsapp.net' });
+    // Two Nehas and no "mom" contact — those stay unlinked
+    expect(participantRows(reunion)).toEqual([
+      ['sender', 'Arjun', '919822222222'],
+      ['mentioned', 'Neha', null],
+      ['mentioned', 'Priya', '919811111111'],
+      ['mentioned', 'mom', null],
+    ]);
+
+    expect(getEventsByChat(COLLEGE_GROUP).map(e => e.id)).toEqual([reunion]);
+    expect(getEventsByContact('919811111111')).toMatchObject([{ id: reunion, participant_roles: 'mentioned' }]);
+    expect(getEventsByContact('919822222222')).toMatchObject([{ id: reunion, participant_roles: 'sender' }]);
+  });
+
+  it('should keep the real JID of a group sender that WhatsApp only identifies by @lid', async () => {
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: createFixtureProvider([{
+        task: 'analyze',
+        match: 'potluck',
+        response: {
+          events: [{ type: 'meeting', title: 'Potluck', description: null, event_time: new Date((now() + 3 * 24 * 3600) * 1000).toISOString(), location: null, participants: [], keywords: ['potluck'], confidence: 0.9 }],
+        },
+      }]),
+    });
+
+    const result = await processWebhook({
+      event: 'messages.upsert',
+      instance: 'test',
+      data: {
+        key: { remoteJid: COLLEGE_GROUP, fromMe: false, id: 'links-msg-lid', participant: '104857600123456@lid' },
+        pushName: 'Kabir',
+        message: { conversation: 'potluck at mine on saturday' },
+        messageTimestamp: now(),
+      },
+    }, { processOwnMessages: true, skipGroupMessages: false });
+    const potluck = result.events![0].id;
+
+    expect(getMessageById('links-msg-lid')).toMatchObject({ sender: '104857600123456', sender_jid: '104857600123456@lid' });
+    expect(getEventById(potluck)).toMatchObject({ sender_jid: '104857600123456@lid' });
+    expect(participantRows(potluck)).toEqual([['sender', 'Kabir', '104857600123456']]);
+  });
+
+  it('should resolve names to a single contact only', () => {
+    expect(resolveContactIdByName('priya sharma')).toBe('919811111111');
+    expect(resolveContactIdByName('Priya')).toBe('919811111111');
+    expect(resolveContactIdByName('Neha')).toBeNull();
+    expect(resolveContactIdByName('Neha Rao')).toBe('919833333333');
+    expect(resolveContactIdByName('Priy')).toBeNull();
+  });
+
+  it('should rebuild mentioned participants when they change and on undo', () => {
+    const trip = insertEvent({
+      message_id: null,
+      event_type: 'travel',
+      title: 'Goa trip',
+      description: null,
+      event_time: now() + 10 * 24 * 3600,
+      location: 'Goa',
+      participants: JSON.stringify(['Arjun']),
+      keywords: 'goa,trip',
+      confidence: 0.9,
+      status: 'scheduled',
+    });
+    expect(participantRows(trip)).toEqual([['mentioned', 'Arjun', '919822222222']]);
+
+    updateEvent(trip, { participants: JSON.stringify(['Arjun', 'Neha Rao']) });
+    expect(getEventsByContact('919833333333').map(e => e.id)).toContain(trip);
+
+    undoLastEventChange(trip);
+    expect(getEventsByContact('919833333333').map(e => e.id)).not.toContain(trip);
+    expect(participantRows(trip)).toEqual([['mentioned', 'Arjun', '919822222222']]);
+  });
+
+  it('should backfill chat, sender and participants for events from before the migration', () => {
+    insertMessage({ id: 'legacy-msg-1', chat_id: '919811111111@s.whatsapp.net', sender: '919811111111', content: 'lunch friday?', timestamp: now() });
+    const lunch = insertEvent({
+      message_id: 'legacy-msg-1',
+      event_type: 'meeting',
+      title: 'Lunch with Priya',
+      description: null,
+      event_time: now() + 3 * 24 * 3600,
+      location: null,
+      participants: JSON.stringify(['Arjun']),
+      keywords: 'lunch',
+      confidence: 0.9,
+      status: 'scheduled',
+    });
+
+    // Roll the schema back to before chat_id/sender_jid existed
+    const conn = getDb();
+    conn.exec('DROP INDEX idx_events_chat');
+    conn.exec('ALTER TABLE events DROP COLUMN chat_id');
+    conn.exec('ALTER TABLE events DROP COLUMN sender_jid');
+    conn.exec('DELETE FROM event_participants');
+    closeDb();
+    initDb(testDbPath('links'));
+
+    expect(getEventById(lunch)).toMatchObject({ chat_id: '919811111111@s.whatsapp.net', sender_jid: '919811111111@s.whatsapp.net' });
+    expect(getEventsByContact('919811111111').map(e => e.id)).toContain(lunch);
+    expect(participantRows(lunch)).toEqual([
+      ['sender', 'Priya Sharma', '919811111111'],
+      ['mentioned', 'Arjun', '919822222222'],
+    ]);
+    // The group event's sender isn't known from the message row alone
+    expect(getEventsByChat(COLLEGE_GROUP)[0].sender_jid).toBeNull();
+  });
+});
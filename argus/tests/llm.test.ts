@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getAllEvents, getEventMessageIds } from '../src/db.js';
+import { initGemini, analyzeMessage, detectAction, chatWithContext } from '../src/gemini.js';
+import { createFixtureProvider, loadFixtures } from '../src/llm.js';
+import type { LLMTask } from '../src/llm.js';
+import { processWebhook, processWebhookBurst } from '../src/ingestion.js';
+import { startScheduler, stopScheduler } from '../src/scheduler.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+function webhook(id: string, text: string) {
+  return {
+    event: 'messages.upsert',
+    instance: 'test',
+    data: {
+      key: { remoteJid: '919876543210@s.whatsapp.net', fromMe: false, id },
+      pushName: 'Rahul',
+      message: { conversation: text },
+      messageTimestamp: Math.floor(Date.now() / 1000),
+    },
+  };
+}
+
+describe('Fixture LLM Provider', () => {
+  it('should replay the first matching fixture', async () => {
+    initGemini({ apiKey: '', model: 'fixture', apiUrl: '', provider: createFixtureProvider(loadFixtures('./tests/fixtures/llm.json')) });
+
+    const extraction = await analyzeMessage('I want to cancel my Netflix this month');
+    expect(extraction.events).toHaveLength(1);
+    expect(extraction.events[0].title).toBe('Cancel Netflix');
+
+    const action = await detectAction('cancel the netflix reminder');
+    expect(action.action).toBe('cancel');
+
+    const chat = await chatWithContext('what about netflix?', []);
+    expect(chat.response).toBe('You planned to cancel Netflix.');
+  });
+
+  it('should fall back to neutral responses when nothing matches', async () => {
+    initGemini({ apiKey: '', model: 'fixture', apiUrl: '', provider: createFixtureProvider([]) });
+
+    const extraction = await analyzeMessage('haha that was fun');
+    expect(extraction.events).toEqual([]);
+
+    const action = await detectAction('haha that was fun');
+    expect(action.isAction).toBe(false);
+  });
+});
+
+describe('Offline Pipeline (ingestion → scheduler)', () => {
+  beforeAll(() => {
+    openTestDb('llm');
+  });
+
+  afterAll(() => {
+    stopScheduler();
+    closeTestDb('llm');
+  });
+
+  it('should extract an event and fire its reminder without a Gemini key', async () => {
+    const eventTime = new Date(Date.now() + 20 * 60 * 1000).toISOString();
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: createFixtureProvider([
+        {
+          task: 'analyze',
+          match: 'dentist',
+          response: {
+            events: [{
+              type: 'meeting',
+              title: 'Dentist appointment',
+              description: null,
+              event_time: eventTime,
+              location: null,
+              participants: [],
+              keywords: ['dentist'],
+              confidence: 0.9,
+            }],
+          },
+        },
+      ]),
+    });
+
+    const result = await processWebhook(webhook('fixture-msg-1', 'dentist in 20 minutes, dont forget'), {
+      processOwnMessages: true,
+      skipGroupMessages: false,
+    });
+    expect(result.eventsCreated).toBe(1);
+    expect(result.triggersCreated).toBeGreaterThan(0);
+    expect(getAllEvents({ limit: 10 })[0].title).toBe('Dentist appointment');
+
+    // The 15-minute trigger is within the scheduler's 5-minute lookahead, so it fires on start
+    const fired: string[] = [];
+    startScheduler(event => { fired.push(event.title); }, 60000);
+    expect(fired).toContain('Dentist appointment');
+  });
+
+  it('should extract one event from a burst of messages', async () => {
+    const fixtures = createFixtureProvider([
+      {
+        task: 'analyze',
+        match: 'dinner thursday?\n8pm\nat toit',
+        response: {
+          events: [{
+            type: 'meeting',
+            title: 'Dinner at Toit',
+            description: null,
+            event_time: new Date(Date.now() + 3 * 24 * 3600 * 1000).toISOString(),
+            location: 'Toit',
+            participants: ['Rahul'],
+            keywords: ['dinner', 'toit'],
+            confidence: 0.9,
+          }],
+        },
+      },
+    ]);
+    const calls: LLMTask[] = [];
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: { name: 'recording', complete: request => { calls.push(request.task); return fixtures.complete(request); } },
+    });
+
+    const result = await processWebhookBurst(
+      [webhook('burst-1', 'dinner thursday?'), webhook('burst-2', '8pm'), webhook('burst-3', 'at Toit')],
+      { processOwnMessages: true, skipGroupMessages: false }
+    );
+
+    expect(calls.filter(t => t === 'analyze')).toHaveLength(1);
+    expect(calls.filter(t => t === 'action')).toHaveLength(1);
+    expect(result.eventsCreated).toBe(1);
+    expect(result.messageIds).toEqual(['burst-1', 'burst-2', 'burst-3']);
+    expect(getEventMessageIds(result.events![0].id).sort()).toEqual(['burst-1', 'burst-2', 'burst-3']);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getDb, insertEvent, insertMessage, insertTrigger, linkEventMessages, completeEvent, getEventById, getMessageById, getActiveEvents, getEventHistory, getTriggersForEvent, getLastMaintenanceRun } from '../src/db.js';
+import { startScheduler, stopScheduler, runMaintenance } from '../src/scheduler.js';
+import type { Event } from '../src/types.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+const now = () => Math.floor(Date.now() / 1000);
+const OPTIONS = { expireGraceHours: 6, eventRetentionDays: 365, messageRetentionDays: 180 };
+
+function createEvent(title: string, eventTime: number | null, extra: Partial<Event> = {}): number {
+  return insertEvent({
+    message_id: null,
+    event_type: 'meeting',
+    title,
+    description: null,
+    event_time: eventTime,
+    location: null,
+    participants: null,
+    keywords: title.toLowerCase(),
+    confidence: 0.9,
+    status: 'scheduled',
+    ...extra,
+  });
+}
+
+function storeMessage(id: string, timestamp: number): void {
+  insertMessage({ id, chat_id: 'rahul@s.whatsapp.net', sender: 'rahul', content: id, timestamp });
+}
+
+describe('Daily Maintenance', () => {
+  beforeAll(() => {
+    openTestDb('maintenance');
+  });
+
+  afterAll(() => {
+    stopScheduler();
+    closeTestDb('maintenance');
+  });
+
+  it('should expire one-off timed events once their grace period is over', () => {
+    const standup = createEvent('Standup', now() - 8 * HOUR);
+    const lunch = createEvent('Lunch', now() - 2 * HOUR, { status: 'discovered' });
+    const gym = createEvent('Gym', now() - 8 * HOUR, { recurrence: 'FREQ=WEEKLY;BYDAY=MO', recurrence_start: now() - 8 * HOUR });
+    const done = createEvent('Review', now() - 8 * HOUR, { status: 'completed' });
+    const someday = createEvent('Visit Goa', null);
+
+    const run = runMaintenance(OPTIONS);
+    expect(run).toMatchObject({ expired_events: 1, index_optimized: true, error: null });
+    expect(getEventById(standup)!.status).toBe('expired');
+    expect(getEventHistory(standup)[0]).toMatchObject({ source: 'system' });
+    expect(getActiveEvents().map(e => e.id)).not.toContain(standup);
+
+    // Within the grace period, recurring, finished and undated events are left alone
+    expect(getEventById(lunch)!.status).toBe('discovered');
+    expect(getEventById(gym)!.status).toBe('scheduled');
+    expect(getEventById(done)!.status).toBe('completed');
+    expect(getEventById(someday)!.status).toBe('scheduled');
+  });
+
+  it('should purge finished events and old messages after their retention', () => {
+    storeMessage('old-chatter', now() - 10 * DAY);
+    storeMessage('old-plan', now() - 10 * DAY);
+    storeMessage('finished-plan', now() - 10 * DAY);
+    const plan = createEvent('Wedding', now() + 500 * DAY, { message_id: 'old-plan' });
+    const finished = createEvent('Old dinner', now() + 5 * DAY, { message_id: 'finished-plan' });
+    linkEventMessages(finished, ['finished-plan']);
+    insertTrigger({ event_id: finished, trigger_type: 'keyword', trigger_value: 'dinner', is_fired: false });
+    completeEvent(finished);
+
+    // Nothing is old enough yet, and a retention of 0 keeps everything
+    expect(runMaintenance(OPTIONS)).toMatchObject({ purged_events: 0, purged_messages: 0 });
+    const later = now() + 400 * DAY;
+    expect(runMaintenance({ ...OPTIONS, eventRetentionDays: 0, messageRetentionDays: 0 }, later)).toMatchObject({ purged_events: 0, purged_messages: 0 });
+
+    const run = runMaintenance(OPTIONS, later);
+    expect(run.purged_events).toBeGreaterThanOrEqual(1);
+    expect(getEventById(finished)).toBeUndefined();
+    expect(getEventHistory(finished)).toEqual([]);
+    expect(getTriggersForEvent(finished)).toEqual([]);
+    expect(getMessageById('finished-plan')).toBeUndefined();
+    expect(getMessageById('old-chatter')).toBeUndefined();
+
+    // The message a kept event came from stays with it
+    expect(getEventById(plan)!.status).toBe('scheduled');
+    expect(getMessageById('old-plan')).toBeDefined();
+
+    // The full-text index follows the purge
+    expect(() => getDb().exec(`INSERT INTO events_fts(events_fts) VALUES ('integrity-check')`)).not.toThrow();
+    expect(getLastMaintenanceRun()).toEqual(run);
+  });
+
+  it('should run once a day from the scheduler', () => {
+    getDb().exec('DELETE FROM maintenance_runs');
+    startScheduler(() => {}, 60000, OPTIONS);
+    const first = getLastMaintenanceRun();
+    expect(first).not.toBeNull();
+    stopScheduler();
+
+    // A restart within the day doesn't run it again
+    startScheduler(() => {}, 60000, OPTIONS);
+    expect(getLastMaintenanceRun()!.id).toBe(first!.id);
+    stopScheduler();
+  });
+});
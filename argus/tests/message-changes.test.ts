@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getEventById, getEventsByChat, getMessageById, getRecentMessages, setActionPolicy, deleteActionPolicy } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import { processWebhook, getMessageChange, processMessageChange } from '../src/ingestion.js';
+import { confirmPendingAction } from '../src/actions.js';
+import type { MessageChange } from '../src/ingestion.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const RAHUL_CHAT = '919876543210@s.whatsapp.net';
+const WEBHOOK_OPTIONS = { processOwnMessages: true, skipGroupMessages: false };
+let messageCounter = 0;
+
+const dinner = (time: string, location = 'Toit') => ({
+  events: [{ type: 'meeting', title: 'Dinner with Rahul', description: null, event_time: time, location, participants: ['Rahul'], keywords: ['dinner'], confidence: 0.9 }],
+});
+
+const analyzing = (text: string) => `Message to analyze:\n"${text}"`;
+
+// Fixtures match the message being analyzed — earlier ones are in the prompt as context
+initGemini({
+  apiKey: '',
+  model: 'fixture',
+  apiUrl: '',
+  provider: createFixtureProvider([
+    { task: 'analyze', match: analyzing('dinner at Toit on Dec 4 at 8pm'), response: dinner('2030-12-04T20:00') },
+    { task: 'analyze', match: analyzing('dinner at Toit on Dec 4 at 9pm'), response: dinner('2030-12-04T21:00') },
+    { task: 'analyze', match: analyzing('drinks at Bob\'s on Dec 6'), response: { events: [{ ...dinner('2030-12-06T19:00', 'Bob\'s').events[0], title: 'Drinks at Bob\'s', keywords: ['drinks'] }] } },
+    { task: 'analyze', match: analyzing('Lunch at the office on Dec 5'), response: { events: [{ ...dinner('2030-12-05T13:00', 'Office').events[0], title: 'Team lunch', keywords: ['lunch'] }] } },
+  ]),
+});
+
+async function send(text: string): Promise<string> {
+  const id = `msg-${++messageCounter}`;
+  await processWebhook({
+    event: 'messages.upsert',
+    instance: 'test',
+    data: {
+      key: { remoteJid: RAHUL_CHAT, fromMe: false, id },
+      pushName: 'Rahul',
+      message: { conversation: text },
+      messageTimestamp: Math.floor(Date.now() / 1000),
+    },
+  }, WEBHOOK_OPTIONS);
+  return id;
+}
+
+// Evolution's messages.edited body: the protocolMessage pointing at the original
+function edited(id: string, text: string) {
+  return {
+    event: 'messages.edited',
+    instance: 'test',
+    data: { key: { remoteJid: RAHUL_CHAT, fromMe: false, id }, type: 14, editedMessage: { conversation: text }, timestampMs: '1764000000000' },
+  };
+}
+
+function deleted(id: string) {
+  return { event: 'messages.delete', instance: 'test', data: { remoteJid: RAHUL_CHAT, fromMe: false, id, status: 'DELETED' } };
+}
+
+const change = (body: unknown) => processMessageChange(getMessageChange(body)!);
+
+describe('Message Edits and Deletes', () => {
+  beforeAll(() => {
+    openTestDb('message-changes');
+  });
+
+  afterAll(() => {
+    closeTestDb('message-changes');
+  });
+
+  it('should read edits and deletes out of every webhook shape Evolution sends', () => {
+    const edit: MessageChange = { kind: 'edit', messageId: 'A1', chatId: RAHUL_CHAT, message: { conversation: 'new text' } };
+    expect(getMessageChange(edited('A1', 'new text'))).toEqual(edit);
+    expect(getMessageChange({
+      event: 'messages.update',
+      instance: 'test',
+      data: { keyId: 'A1', remoteJid: RAHUL_CHAT, fromMe: false, status: 'SERVER_ACK', message: { editedMessage: { message: { conversation: 'new text' } } } },
+    })).toEqual(edit);
+    expect(getMessageChange({
+      event: 'messages.upsert',
+      instance: 'test',
+      data: {
+        key: { remoteJid: RAHUL_CHAT, fromMe: false, id: 'P1' },
+        message: { editedMessage: { message: { protocolMessage: { key: { remoteJid: RAHUL_CHAT, id: 'A1' }, type: 'MESSAGE_EDIT', editedMessage: { conversation: 'new text' } } } } },
+        messageTimestamp: 1764000000,
+      },
+    })).toEqual(edit);
+
+    const revoke: MessageChange = { kind: 'revoke', messageId: 'A1', chatId: RAHUL_CHAT };
+    expect(getMessageChange(deleted('A1'))).toEqual(revoke);
+    expect(getMessageChange({ event: 'messages.edited', instance: 'test', data: { key: { remoteJid: RAHUL_CHAT, id: 'A1' }, type: 0 } })).toEqual(revoke);
+
+    // Read receipts, new messages and other protocol messages aren't changes
+    expect(getMessageChange({ event: 'messages.update', instance: 'test', data: { keyId: 'A1', remoteJid: RAHUL_CHAT, status: 'READ' } })).toBeNull();
+    expect(getMessageChange({ event: 'messages.upsert', instance: 'test', data: { key: { remoteJid: RAHUL_CHAT, fromMe: false, id: 'B1' }, message: { conversation: 'hi' }, messageTimestamp: 1 } })).toBeNull();
+    expect(getMessageChange({ event: 'messages.edited', instance: 'test', data: { key: { id: 'A1' }, type: 3 } })).toBeNull();
+    expect(getMessageChange({ event: 'connection.update', instance: 'test', data: {} })).toBeNull();
+  });
+
+  it('should propose the new details when a message is edited, and only apply them on confirmation', async () => {
+    const id = await send('dinner at Toit on Dec 4 at 8pm');
+    const [event] = getEventsByChat(RAHUL_CHAT);
+    const originalTime = event.event_time!;
+
+    const result = await change(edited(id, 'dinner at Toit on Dec 4 at 9pm'));
+    expect(result.skipped).toBe(false);
+    expect(result.pendingActions).toHaveLength(1);
+    expect(result.pendingActions![0]).toMatchObject({
+      action: 'modify',
+      targetEventId: event.id,
+      changes: { event_time: originalTime + 3600 },
+      reason: 'the message it came from was edited',
+    });
+    expect(getMessageById(id)).toMatchObject({ content: 'dinner at Toit on Dec 4 at 9pm', edited_at: expect.any(Number) });
+    expect(getEventById(event.id!)!.event_time).toBe(originalTime);
+
+    expect(confirmPendingAction(result.pendingActions![0].id, 'extension').ok).toBe(true);
+    expect(getEventById(event.id!)!.event_time).toBe(originalTime + 3600);
+
+    // Evolution sends the same edit again as messages.update
+    const again = await change({
+      event: 'messages.update',
+      instance: 'test',
+      data: { keyId: id, remoteJid: RAHUL_CHAT, message: { conversation: 'dinner at Toit on Dec 4 at 9pm' } },
+    });
+    expect(again).toMatchObject({ skipped: true, skipReason: 'unchanged' });
+  });
+
+  it('should propose removing an event the edited message no longer mentions', async () => {
+    const id = await send('drinks at Bob\'s on Dec 6');
+    const event = getEventsByChat(RAHUL_CHAT).find(e => e.message_id === id)!;
+
+    const result = await change(edited(id, 'sorry, wrong chat'));
+    expect(result.pendingActions?.[0]).toMatchObject({
+      action: 'delete',
+      targetEventId: event.id,
+      reason: 'the edited message no longer mentions it',
+    });
+    expect(getEventById(event.id!)!.status).not.toBe('deleted');
+  });
+
+  it('should analyze an edited message that produced nothing before like a new one', async () => {
+    const id = await send('see you at the usual place');
+    expect(getEventsByChat(RAHUL_CHAT).some(e => e.title === 'Team lunch')).toBe(false);
+
+    const result = await change(edited(id, 'Lunch at the office on Dec 5'));
+    expect(result).toMatchObject({ skipped: false, eventsCreated: 1 });
+    expect(getEventsByChat(RAHUL_CHAT).find(e => e.title === 'Team lunch')).toMatchObject({ message_id: id, location: 'Office' });
+  });
+
+  it('should retract the events of a deleted message as the delete policy says', async () => {
+    const lunch = getEventsByChat(RAHUL_CHAT).find(e => e.title === 'Team lunch')!;
+    const result = await change(deleted(lunch.message_id!));
+    expect(result.actionsPerformed).toEqual([expect.objectContaining({ action: 'delete', targetEventId: lunch.id })]);
+    expect(getEventById(lunch.id!)!.status).toBe('deleted');
+    expect(getRecentMessages(RAHUL_CHAT, 20).some(m => m.id === lunch.message_id)).toBe(false);
+    expect(getMessageById(lunch.message_id!)!.deleted_at).toEqual(expect.any(Number));
+
+    // The delete also arrives as a REVOKE protocol message — handled once
+    const duplicate = await change({ event: 'messages.edited', instance: 'test', data: { key: { remoteJid: RAHUL_CHAT, id: lunch.message_id }, type: 'REVOKE' } });
+    expect(duplicate).toMatchObject({ skipped: true, skipReason: 'message_deleted' });
+
+    // With deletes held for confirmation the event is only flagged
+    setActionPolicy({ action: 'delete', confirm: 'always', threshold: 0.85, confirm_fallback: true });
+    const id = await send('Lunch at the office on Dec 5');
+    const kept = getEventsByChat(RAHUL_CHAT).find(e => e.message_id === id)!;
+    const held = await change(deleted(id));
+    expect(held.pendingActions?.[0]).toMatchObject({ action: 'delete', targetEventId: kept.id, reason: expect.stringMatching(/^the message it came from was deleted/) });
+    expect(getEventById(kept.id!)!.status).not.toBe('deleted');
+    deleteActionPolicy('delete');
+
+    expect(await change(deleted('never-stored'))).toMatchObject({ skipped: true, skipReason: 'message_not_found' });
+  });
+});
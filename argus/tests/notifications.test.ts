@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getNotificationRules, updateNotificationRule, getPendingDigestItems } from '../src/db.js';
+import {
+  seedNotificationRules, routeNotification, notificationUrgency, setNotificationSettings, getNotificationSettings,
+  initNotifications, deliverNotification, checkDigest, sendDigest, schedulerMessageType, migrateWhatsAppQuietHours, DEFAULT_NOTIFICATION_RULES,
+} from '../src/notifications.js';
+import { initPush } from '../src/push.js';
+import { initWhatsApp } from '../src/whatsapp.js';
+import { setUserTimezone } from '../src/timezone.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+// Thu Dec 5 2030 in Asia/Kolkata: 19:00 and 23:00, then 06:30 and 08:30 on Friday
+const EVENING = Date.UTC(2030, 11, 5, 13, 30);
+const NIGHT = Date.UTC(2030, 11, 5, 17, 30);
+const DAWN = Date.UTC(2030, 11, 6, 1, 0);
+const MORNING = Date.UTC(2030, 11, 6, 3, 0);
+const dinner = { id: 1, title: 'Dinner with Rahul', event_time: EVENING / 1000 + 3600, location: 'Toit', event_type: 'meeting' };
+
+// What reached the extension, and what went out over WhatsApp
+let connected = 1;
+const broadcasts: Array<{ type: string }> = [];
+const whatsapp: string[] = [];
+let whatsappDown = false;
+
+async function sendWhatsApp(_chatId: string, text: string): Promise<string | null> {
+  if (whatsappDown) throw new Error('Evolution sendText failed: 502');
+  whatsapp.push(text);
+  return null;
+}
+
+describe('Notification Routing', () => {
+  beforeAll(() => {
+    openTestDb('notifications');
+    setUserTimezone('Asia/Kolkata');
+    initPush({ mode: 'off', subject: 'mailto:argus@localhost' });
+    initWhatsApp({ targets: ['919876543210'], maxPerHour: 0, sender: sendWhatsApp });
+    initNotifications({
+      broadcast: data => { broadcasts.push(data as { type: string }); return connected; },
+      connectedClients: () => connected,
+    });
+  });
+
+  afterAll(() => {
+    closeTestDb('notifications');
+  });
+
+  it('should seed the default rules once and pick the highest-priority match', () => {
+    expect(seedNotificationRules()).toBe(DEFAULT_NOTIFICATION_RULES.length);
+    expect(seedNotificationRules()).toBe(0);
+
+    expect(routeNotification({ kind: 'reminder', eventType: 'meeting', urgency: 'normal' }, true, EVENING))
+      .toMatchObject({ channels: ['overlay', 'push'], held: [], heldBy: null, rule: { name: 'Reminders' } });
+    expect(routeNotification({ kind: 'reminder', eventType: 'meeting', urgency: 'normal' }, false, EVENING))
+      .toMatchObject({ channels: ['push', 'whatsapp'], rule: { name: 'Reminders while away' } });
+    expect(routeNotification({ kind: 'discovery', urgency: 'low' }, true, EVENING).channels).toEqual(['overlay', 'badge']);
+    expect(routeNotification({ kind: 'discovery', urgency: 'low' }, false, EVENING).channels).toEqual(['digest']);
+
+    // Rules can be narrowed by event type; nothing matching means overlay only
+    const [reminders] = getNotificationRules();
+    updateNotificationRule(reminders.id!, { event_types: ['deadline'] });
+    expect(routeNotification({ kind: 'reminder', eventType: 'meeting', urgency: 'normal' }, true, EVENING)).toMatchObject({ channels: ['overlay'], rule: null });
+    updateNotificationRule(reminders.id!, { event_types: [] });
+
+    expect(schedulerMessageType('event_reminder')).toBe('trigger');
+    expect(schedulerMessageType('insight_card')).toBe('notification');
+  });
+
+  it('should hold back all but urgent notifications in quiet hours, and everything during DND', () => {
+    expect(notificationUrgency('reminder', dinner, 10)).toBe('high');
+    expect(notificationUrgency('reminder', dinner, undefined, EVENING)).toBe('normal');
+    expect(notificationUrgency('discovery', dinner)).toBe('low');
+
+    expect(getNotificationSettings()).toEqual({ quiet_hours: null, whatsapp_quiet_hours: null, dnd_until: null, digest_time: '08:00' });
+
+    // The old WHATSAPP_QUIET_HOURS carries over once, and still only holds back WhatsApp
+    expect(migrateWhatsAppQuietHours('23:00-07:00')).toBe(true);
+    expect(migrateWhatsAppQuietHours('22:00-06:00')).toBe(false);
+    expect(routeNotification({ kind: 'reminder', urgency: 'normal' }, false, NIGHT))
+      .toMatchObject({ channels: ['push'], held: ['whatsapp'], heldBy: 'quiet_hours' });
+    expect(routeNotification({ kind: 'reminder', urgency: 'high' }, false, NIGHT).channels).toEqual(['push', 'whatsapp']);
+
+    setNotificationSettings({ quiet_hours: '22:30-07:00' });
+    expect(routeNotification({ kind: 'reminder', urgency: 'normal' }, true, NIGHT))
+      .toMatchObject({ channels: ['digest'], held: ['overlay', 'push'], heldBy: 'quiet_hours' });
+    expect(routeNotification({ kind: 'reminder', urgency: 'high' }, true, NIGHT).channels).toEqual(['overlay', 'push']);
+    expect(routeNotification({ kind: 'conflict', urgency: 'normal' }, true, NIGHT).channels).toEqual(['badge', 'digest']);
+
+    setNotificationSettings({ dnd_until: EVENING / 1000 + 3600 });
+    expect(routeNotification({ kind: 'reminder', urgency: 'high' }, true, EVENING)).toMatchObject({ channels: ['digest'], heldBy: 'dnd' });
+    expect(routeNotification({ kind: 'reminder', urgency: 'high' }, true, EVENING + 2 * 3600 * 1000).heldBy).toBeNull();
+    expect(setNotificationSettings({ dnd_until: null }))
+      .toEqual({ quiet_hours: '22:30-07:00', whatsapp_quiet_hours: '23:00-07:00', dnd_until: null, digest_time: '08:00' });
+  });
+
+  it('should deliver on the routed channels and only build the overlay when it is shown', async () => {
+    let built = 0;
+    const overlay = () => { built++; return { type: 'trigger', event: dinner }; };
+
+    const reminder = await deliverNotification({ kind: 'reminder', event: dinner, type: 'trigger', offsetMinutes: 60, overlay }, EVENING);
+    expect(reminder).toMatchObject({ urgency: 'normal', reached: 1, push: null, whatsapp: null });
+    expect(broadcasts.map(b => b.type)).toEqual(['trigger']);
+    expect(whatsapp).toEqual([]);
+
+    // With the extension gone, reminders go out over WhatsApp instead
+    connected = 0;
+    const away = await deliverNotification({ kind: 'reminder', event: dinner, type: 'trigger', offsetMinutes: 60, overlay }, EVENING);
+    expect(away).toMatchObject({ channels: ['push', 'whatsapp'], reached: 0, whatsapp: { sent: 1, failed: 0, rateLimited: 0 } });
+    expect(whatsapp).toEqual(['⏰ Dinner with Rahul at Toit in 1 hour']);
+
+    const discovery = await deliverNotification({ kind: 'discovery', event: { id: 2, title: 'Pay rent', event_time: null }, type: 'notification', overlay }, NIGHT);
+    expect(discovery).toMatchObject({ channels: ['digest'], heldBy: null });
+    expect(broadcasts.map(b => b.type)).toEqual(['trigger']);
+
+    await deliverNotification({ kind: 'reminder', event: dinner, type: 'trigger', offsetMinutes: 60, overlay }, NIGHT);
+    expect(built).toBe(1);
+    expect(whatsapp).toHaveLength(1);
+
+    // Quiet hours are decided here only — what they let through isn't stopped again by WhatsApp
+    const urgent = await deliverNotification({ kind: 'reminder', event: dinner, type: 'trigger', offsetMinutes: 10, overlay }, NIGHT);
+    expect(urgent).toMatchObject({ urgency: 'high', whatsapp: { sent: 1 } });
+    expect(whatsapp).toHaveLength(2);
+    expect(getPendingDigestItems().map(item => item.text)).toEqual(['📌 Pay rent', '⏰ Dinner with Rahul at Toit (was Thu, Dec 5, 8:00 PM)']);
+  });
+
+  it('should send the digest once a day after digest_time', async () => {
+    expect(await checkDigest(DAWN)).toBeNull();
+    expect(await sendDigest(NIGHT)).toMatchObject({ items: 2, delivered: false, heldBy: 'quiet_hours', whatsapp: null });
+
+    // Do-not-disturb holds it past digest_time, until it's over
+    setNotificationSettings({ dnd_until: MORNING / 1000 + 600 });
+    expect(await checkDigest(MORNING)).toMatchObject({ items: 2, delivered: false, heldBy: 'dnd' });
+    setNotificationSettings({ dnd_until: null });
+    expect(getPendingDigestItems()).toHaveLength(2);
+
+    // Nobody connected and WhatsApp down: the items wait for the next check
+    whatsappDown = true;
+    expect(await checkDigest(MORNING)).toMatchObject({ items: 2, delivered: false, reached: 0, whatsapp: { sent: 0, failed: 1 } });
+    expect(getPendingDigestItems()).toHaveLength(2);
+    whatsappDown = false;
+
+    expect(await checkDigest(MORNING)).toMatchObject({ items: 2, delivered: true, reached: 0, whatsapp: { sent: 1 } });
+    expect(whatsapp[whatsapp.length - 1]).toBe('*🗞️ Argus digest* (2)\n• 📌 Pay rent\n• ⏰ Dinner with Rahul at Toit (was Thu, Dec 5, 8:00 PM)');
+    expect(getPendingDigestItems()).toEqual([]);
+    expect(await checkDigest(MORNING + 3600 * 1000)).toBeNull();
+  });
+});
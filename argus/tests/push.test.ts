@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getSetting, upsertPushSubscription, getPushSubscriptions } from '../src/db.js';
+import { initPush, getVapidPublicKey, shouldPush, sendPush, deliverPush, reminderPushPayload, VAPID_PUBLIC_SETTING } from '../src/push.js';
+import type { PushSender } from '../src/push.js';
+import { setUserTimezone } from '../src/timezone.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const SUBJECT = 'mailto:argus@localhost';
+const keys = { p256dh: 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM', auth: 'tBHItJI5svbpez7KI4CCXg' };
+
+// Push services answer per endpoint: ok, gone, or broken
+const sent: Array<{ endpoint: string; payload: string; ttl?: number }> = [];
+const sender: PushSender = async (subscription, payload, options) => {
+  if (subscription.endpoint.includes('gone')) throw Object.assign(new Error('Received unexpected response code'), { statusCode: 410 });
+  if (subscription.endpoint.includes('broken')) throw Object.assign(new Error('Internal Server Error'), { statusCode: 500 });
+  sent.push({ endpoint: subscription.endpoint, payload, ttl: options.TTL });
+};
+
+describe('Web Push Delivery', () => {
+  beforeAll(() => {
+    openTestDb('push');
+    setUserTimezone('Asia/Kolkata');
+  });
+
+  afterAll(() => {
+    closeTestDb('push');
+  });
+
+  it('should generate a VAPID key pair once and keep it across restarts', () => {
+    const generated = initPush({ mode: 'fallback', subject: SUBJECT, sender });
+    expect(generated).toMatch(/^[A-Za-z0-9_-]{80,}$/);
+    expect(getSetting(VAPID_PUBLIC_SETTING)).toBe(generated);
+    expect(initPush({ mode: 'fallback', subject: SUBJECT, sender })).toBe(generated);
+
+    // Keys from the environment win over stored ones
+    expect(initPush({ mode: 'fallback', subject: SUBJECT, publicKey: 'env-public', privateKey: 'env-private', sender })).toBe('env-public');
+    expect(getVapidPublicKey()).toBe('env-public');
+    initPush({ mode: 'fallback', subject: SUBJECT, sender });
+  });
+
+  it('should push only when no WebSocket client got the broadcast, unless told to always push', async () => {
+    expect(shouldPush(0)).toBe(true);
+    expect(shouldPush(1)).toBe(false);
+    initPush({ mode: 'always', subject: SUBJECT, sender });
+    expect(shouldPush(2)).toBe(true);
+    initPush({ mode: 'off', subject: SUBJECT, sender });
+    expect(shouldPush(0)).toBe(false);
+
+    initPush({ mode: 'fallback', subject: SUBJECT, sender });
+    upsertPushSubscription('https://push.example.com/ok', keys);
+    expect(await deliverPush(reminderPushPayload('trigger', { id: 1, title: 'Dentist' }), 1)).toBeNull();
+    expect(sent).toEqual([]);
+  });
+
+  it('should record failures and prune subscriptions that are gone', async () => {
+    upsertPushSubscription('https://push.example.com/gone', keys);
+    upsertPushSubscription('https://push.example.com/broken', keys);
+
+    const payload = reminderPushPayload('trigger', { id: 7, title: 'Dinner at Toit', event_time: 1764945000, location: 'Toit' });
+    expect(payload).toEqual({ type: 'trigger', title: 'Dinner at Toit', body: 'Fri, Dec 5, 8:00 PM · Toit', eventId: 7, tag: 'argus-event-7' });
+
+    expect(await deliverPush(payload, 0)).toEqual({ sent: 1, failed: 1, pruned: 1 });
+    expect(sent).toEqual([{ endpoint: 'https://push.example.com/ok', payload: JSON.stringify(payload), ttl: 3600 }]);
+    expect(await sendPush(payload)).toEqual({ sent: 1, failed: 1, pruned: 0 });
+
+    const subscriptions = getPushSubscriptions();
+    expect(subscriptions.map(s => s.endpoint)).toEqual(['https://push.example.com/ok', 'https://push.example.com/broken']);
+    expect(subscriptions[0]).toMatchObject({ failure_count: 0, last_success_at: expect.any(Number) });
+    expect(subscriptions[1]).toMatchObject({ failure_count: 2, last_error: '500: Internal Server Error', last_success_at: null });
+
+    // Subscribing again refreshes the keys and starts over
+    expect(upsertPushSubscription('https://push.example.com/broken', keys)).toMatchObject({ failure_count: 0, last_error: null });
+  });
+});
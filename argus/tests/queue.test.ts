@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getJobById, getJobStats, retryJob, purgeJobs } from '../src/db.js';
+import { startQueue, stopQueue, enqueueJob, enqueueDebouncedJob, registerJobHandler, getBackoffSeconds } from '../src/queue.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+describe('Ingestion Queue', () => {
+  beforeEach(() => {
+    openTestDb('queue');
+  });
+
+  afterEach(() => {
+    stopQueue();
+    closeTestDb('queue');
+  });
+
+  it('should grow backoff exponentially up to the cap', () => {
+    expect(getBackoffSeconds(1)).toBe(5);
+    expect(getBackoffSeconds(2)).toBe(10);
+    expect(getBackoffSeconds(4)).toBe(40);
+    expect(getBackoffSeconds(20)).toBe(15 * 60);
+  });
+
+  it('should run a job and mark it done', async () => {
+    const seen: unknown[] = [];
+    registerJobHandler('test_ok', async payload => { seen.push(payload); });
+    startQueue({ concurrency: 1, maxAttempts: 3, pollIntervalMs: 20 });
+
+    const id = enqueueJob('test_ok', { text: 'dinner at 8' });
+    await vi.waitFor(() => expect(getJobById(id)?.status).toBe('done'));
+    expect(seen).toEqual([{ text: 'dinner at 8' }]);
+  });
+
+  it('should retry failed jobs until they succeed', async () => {
+    let calls = 0;
+    registerJobHandler('test_flaky', async () => {
+      calls++;
+      if (calls < 3) throw new Error('Gemini API error: 503');
+    });
+    startQueue({ concurrency: 1, maxAttempts: 5, pollIntervalMs: 20, backoffBaseSeconds: 0 });
+
+    const id = enqueueJob('test_flaky', {});
+    await vi.waitFor(() => expect(getJobById(id)?.status).toBe('done'));
+    expect(getJobById(id)?.attempts).toBe(3);
+    // Retrying would process it twice
+    expect(retryJob(id)).toBe(false);
+  });
+
+  it('should dead-letter jobs after max attempts and allow a manual retry', async () => {
+    registerJobHandler('test_broken', async () => { throw new Error('still down'); });
+    startQueue({ concurrency: 2, maxAttempts: 2, pollIntervalMs: 20, backoffBaseSeconds: 0 });
+
+    const id = enqueueJob('test_broken', {});
+    await vi.waitFor(() => expect(getJobById(id)?.status).toBe('dead'));
+    expect(getJobById(id)?.last_error).toBe('still down');
+    expect(getJobStats().dead).toBe(1);
+
+    stopQueue();
+    expect(retryJob(id)).toBe(true);
+    expect(getJobById(id)?.status).toBe('pending');
+    expect(getJobById(id)?.attempts).toBe(0);
+  });
+
+  it('should run a failed job now instead of after its backoff', async () => {
+    registerJobHandler('test_backoff', async () => { throw new Error('Gemini API error: 503'); });
+    startQueue({ concurrency: 1, maxAttempts: 5, pollIntervalMs: 20, backoffBaseSeconds: 3600 });
+
+    const id = enqueueJob('test_backoff', {});
+    await vi.waitFor(() => expect(getJobById(id)?.last_error).toBe('Gemini API error: 503'));
+    stopQueue();
+
+    expect(getJobById(id)!.run_at).toBeGreaterThan(Date.now() / 1000 + 60);
+    expect(retryJob(id)).toBe(true);
+    expect(getJobById(id)).toMatchObject({ status: 'pending', attempts: 1, run_at: expect.any(Number) });
+    expect(getJobById(id)!.run_at).toBeLessThanOrEqual(Date.now() / 1000);
+  });
+
+  it('should purge dead jobs', async () => {
+    registerJobHandler('test_purge', async () => { throw new Error('nope'); });
+    startQueue({ concurrency: 1, maxAttempts: 1, pollIntervalMs: 20 });
+
+    const id = enqueueJob('test_purge', {});
+    await vi.waitFor(() => expect(getJobById(id)?.status).toBe('dead'));
+    expect(purgeJobs('dead')).toBe(1);
+    expect(getJobById(id)).toBeUndefined();
+  });
+
+  it('should coalesce payloads for a group into one job', async () => {
+    const batches: unknown[] = [];
+    registerJobHandler('test_burst', async payload => { batches.push(payload); });
+    startQueue({ concurrency: 1, maxAttempts: 3, pollIntervalMs: 20 });
+
+    const window = { debounceSeconds: 0, maxWaitSeconds: 10 };
+    const first = enqueueDebouncedJob('test_burst', 'chat-a', 'dinner thursday?', window);
+    const second = enqueueDebouncedJob('test_burst', 'chat-a', '8pm', window);
+    const third = enqueueDebouncedJob('test_burst', 'chat-a', 'at Toit', window);
+    expect(first.coalesced).toBe(false);
+    expect(second).toEqual({ id: first.id, coalesced: true });
+    expect(third).toEqual({ id: first.id, coalesced: true });
+
+    await vi.waitFor(() => expect(getJobById(first.id)?.status).toBe('done'));
+    expect(batches).toEqual([['dinner thursday?', '8pm', 'at Toit']]);
+  });
+
+  it('should run jobs of the same group one at a time, in order', async () => {
+    const log: string[] = [];
+    let releaseFirst!: () => void;
+    const firstBlocked = new Promise<void>(resolve => { releaseFirst = resolve; });
+    registerJobHandler('test_chat', async payload => {
+      const [text] = payload as string[];
+      log.push(`start ${text}`);
+      if (text === 'first') await firstBlocked;
+      log.push(`end ${text}`);
+    });
+    startQueue({ concurrency: 2, maxAttempts: 3, pollIntervalMs: 20 });
+
+    const window = { debounceSeconds: 0, maxWaitSeconds: 0 };
+    const first = enqueueDebouncedJob('test_chat', 'chat-a', 'first', window);
+    await vi.waitFor(() => expect(log).toContain('start first'));
+
+    // The first job is already running, so these can't join it
+    const second = enqueueDebouncedJob('test_chat', 'chat-a', 'second', window);
+    const other = enqueueDebouncedJob('test_chat', 'chat-b', 'other', window);
+    expect(second.id).not.toBe(first.id);
+
+    await vi.waitFor(() => expect(getJobById(other.id)?.status).toBe('done'));
+    expect(log).not.toContain('start second');
+
+    releaseFirst();
+    await vi.waitFor(() => expect(getJobById(second.id)?.status).toBe('done'));
+    expect(log).toEqual(['start first', 'start other', 'end other', 'end first', 'start second', 'end second']);
+  });
+
+  it('should hold a group back while an earlier job waits out its backoff, until it is dead', async () => {
+    const done: string[] = [];
+    registerJobHandler('test_flaky_chat', async payload => {
+      const [text] = payload as string[];
+      if (text === 'flaky') throw new Error('Gemini API error: 503');
+      done.push(text);
+    });
+    startQueue({ concurrency: 1, maxAttempts: 2, pollIntervalMs: 20, backoffBaseSeconds: 3600 });
+
+    const window = { debounceSeconds: 0, maxWaitSeconds: 0 };
+    const flaky = enqueueDebouncedJob('test_flaky_chat', 'chat-a', 'flaky', window);
+    await vi.waitFor(() => expect(getJobById(flaky.id)?.last_error).toBe('Gemini API error: 503'));
+
+    const next = enqueueDebouncedJob('test_flaky_chat', 'chat-a', 'next', window);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(getJobById(next.id)?.status).toBe('pending');
+    expect(done).toEqual([]);
+
+    // Its last attempt fails and dead-letters it — only then does the chat move on
+    expect(retryJob(flaky.id)).toBe(true);
+    await vi.waitFor(() => expect(getJobById(next.id)?.status).toBe('done'));
+    expect(getJobById(flaky.id)?.status).toBe('dead');
+    expect(done).toEqual(['next']);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { insertEvent, insertMessage, getEventById, getAllEvents, getUnfiredTriggersByType, setOccurrenceStatus } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import { processMessage } from '../src/ingestion.js';
+import { parseRRule, isValidRRule, getNextOccurrence, getOccurrences, describeRRule } from '../src/recurrence.js';
+import { advanceRecurringEvent } from '../src/triggers.js';
+import { checkRecurringEvents } from '../src/scheduler.js';
+import { parseZonedDateTime, setUserTimezone } from '../src/timezone.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const tz = 'Asia/Kolkata';
+const local = (value: string, timezone = tz) => parseZonedDateTime(value, timezone)!;
+
+describe('RRULE Parsing', () => {
+  it('should parse the supported subset', () => {
+    const rule = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10');
+    expect(rule.freq).toBe('WEEKLY');
+    expect(rule.interval).toBe(2);
+    expect(rule.byDay.map(d => d.weekday)).toEqual([1, 4]);
+    expect(rule.count).toBe(10);
+    expect(describeRRule(rule)).toBe('every 2 weeks on Mon, Thu, 10 times');
+  });
+
+  it('should reject unsupported or malformed rules', () => {
+    expect(isValidRRule('FREQ=HOURLY')).toBe(false);
+    expect(isValidRRule('FREQ=WEEKLY;BYDAY=XX')).toBe(false);
+    expect(isValidRRule('FREQ=WEEKLY;BYSETPOS=1')).toBe(false);
+    expect(isValidRRule('FREQ=WEEKLY;BYDAY=1MO')).toBe(false);
+    expect(() => parseRRule('FREQ=YEARLY;BYMONTH=11;BYDAY=TH')).toThrow('BYDAY is not supported with FREQ=YEARLY');
+    expect(() => parseRRule('FREQ=WEEKLY;BYMONTHDAY=15')).toThrow('BYMONTHDAY is only supported with FREQ=MONTHLY or FREQ=YEARLY');
+    expect(isValidRRule('FREQ=DAILY;BYMONTHDAY=1')).toBe(false);
+    expect(isValidRRule('every monday')).toBe(false);
+  });
+});
+
+describe('Occurrence Expansion', () => {
+  it('should expand weekly rules on several weekdays', () => {
+    // Anchor: Monday 2026-03-02 07:00
+    const start = local('2026-03-02T07:00');
+    const occurrences = getOccurrences('FREQ=WEEKLY;BYDAY=MO,TH', start, tz, { from: start, limit: 4 });
+    expect(occurrences).toEqual([
+      local('2026-03-02T07:00'), local('2026-03-05T07:00'), local('2026-03-09T07:00'), local('2026-03-12T07:00'),
+    ]);
+  });
+
+  it('should expand monthly rules by month day, from the end and by ordinal weekday', () => {
+    const start = local('2026-01-15T09:00');
+    expect(getOccurrences('FREQ=MONTHLY;BYMONTHDAY=1', start, tz, { from: start, limit: 2 }))
+      .toEqual([local('2026-02-01T09:00'), local('2026-03-01T09:00')]);
+    expect(getOccurrences('FREQ=MONTHLY;BYMONTHDAY=-1', start, tz, { from: start, limit: 2 }))
+      .toEqual([local('2026-01-31T09:00'), local('2026-02-28T09:00')]);
+    expect(getOccurrences('FREQ=MONTHLY;BYDAY=1MO', start, tz, { from: start, limit: 2 }))
+      .toEqual([local('2026-02-02T09:00'), local('2026-03-02T09:00')]);
+    // Both parts have to hold — Friday the 13th
+    expect(getOccurrences('FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13', start, tz, { from: start, limit: 3 }))
+      .toEqual([local('2026-02-13T09:00'), local('2026-03-13T09:00'), local('2026-11-13T09:00')]);
+  });
+
+  it('should stop at COUNT and UNTIL', () => {
+    const start = local('2026-03-01T10:00');
+    expect(getOccurrences('FREQ=DAILY;COUNT=3', start, tz, { from: start, limit: 10 })).toHaveLength(3);
+    expect(getNextOccurrence('FREQ=DAILY;COUNT=3', start, local('2026-03-03T10:00'), tz)).toBeNull();
+    expect(getOccurrences('FREQ=DAILY;UNTIL=20260304', start, tz, { from: start, limit: 10 })).toHaveLength(4);
+  });
+
+  it('should keep the wall-clock time across DST changes', () => {
+    const start = local('2026-03-27T10:00', 'Europe/Berlin');
+    const occurrences = getOccurrences('FREQ=DAILY', start, 'Europe/Berlin', { from: start, limit: 4 });
+    expect(occurrences[3]).toBe(local('2026-03-30T10:00', 'Europe/Berlin'));
+    expect(occurrences[3] - occurrences[2]).toBe(24 * 3600);
+    expect(occurrences[2] - occurrences[1]).toBe(23 * 3600); // the night clocks go forward
+  });
+
+  it('should skip excepted occurrences', () => {
+    const start = local('2026-03-02T07:00');
+    const skip = new Set([local('2026-03-05T07:00')]);
+    expect(getNextOccurrence('FREQ=WEEKLY;BYDAY=MO,TH', start, start, tz, skip)).toBe(local('2026-03-09T07:00'));
+  });
+});
+
+describe('Recurring Events in the Scheduler', () => {
+  beforeAll(() => {
+    openTestDb('recurrence');
+  });
+
+  afterAll(() => {
+    closeTestDb('recurrence');
+  });
+
+  function insertRecurring(title: string, recurrence: string, eventTime: number): number {
+    return insertEvent({
+      message_id: null,
+      event_type: 'reminder',
+      title,
+      description: null,
+      event_time: eventTime,
+      location: null,
+      participants: null,
+      keywords: 'gym',
+      confidence: 0.9,
+      status: 'scheduled',
+      recurrence,
+      recurrence_tz: tz,
+    });
+  }
+
+  it('should advance a passed occurrence and create triggers for the next one', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const start = now - 3600; // started an hour ago, repeats daily
+    const id = insertRecurring('Standup', 'FREQ=DAILY', start);
+
+    expect(checkRecurringEvents()).toBeGreaterThanOrEqual(1);
+
+    const event = getEventById(id)!;
+    expect(event.event_time).toBe(start + 24 * 3600);
+    expect(event.recurrence_start).toBe(start);
+    expect(event.status).toBe('scheduled');
+
+    // The next occurrence is less than a day away, so only the 1h and 15min reminders are left
+    const triggers = getUnfiredTriggersByType('time').filter(t => t.event_id === id);
+    expect(triggers.map(t => t.offset_minutes)).toEqual([60, 15]);
+  });
+
+  it('should skip a single occurrence and expire a finished series', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const first = now + 3600;
+    const id = insertRecurring('Rent', 'FREQ=DAILY;COUNT=3', first);
+
+    setOccurrenceStatus(id, first, 'skipped');
+    expect(advanceRecurringEvent(getEventById(id)!, first)).toBe(first + 24 * 3600);
+
+    setOccurrenceStatus(id, first + 24 * 3600, 'completed');
+    expect(advanceRecurringEvent(getEventById(id)!, first + 24 * 3600)).toBe(first + 48 * 3600);
+
+    expect(advanceRecurringEvent(getEventById(id)!, first + 48 * 3600)).toBeNull();
+    expect(getEventById(id)!.status).toBe('expired');
+  });
+
+  it('should store the recurrence Gemini extracts, starting at the next occurrence', async () => {
+    setUserTimezone(tz);
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: createFixtureProvider([{
+        task: 'analyze',
+        match: 'gym every',
+        response: { events: [{
+          type: 'reminder', title: 'Gym', description: null, event_time: null, time_reference: null, is_past: false,
+          recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1', location: null, participants: [], keywords: ['gym'], confidence: 0.9,
+        }] },
+      }]),
+    });
+
+    const sentAt = local('2026-03-12T18:00');
+    const message = { id: 'recur_1', chat_id: 'self@s.whatsapp.net', sender: 'self', content: 'gym every 1st of the month', timestamp: sentAt };
+    insertMessage(message);
+    await processMessage(message);
+
+    const gym = getAllEvents({}).find(e => e.title === 'Gym')!;
+    expect(gym.recurrence).toBe('FREQ=MONTHLY;BYMONTHDAY=1');
+    expect(gym.recurrence_tz).toBe(tz);
+    expect(gym.recurrence_start).toBe(local('2026-03-12T09:00'));
+    expect(gym.event_time).toBe(local('2026-04-01T09:00'));
+  });
+});
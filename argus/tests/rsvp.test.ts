@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getEventById, getEventsByChat, getEventRsvps } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import type { LLMProvider, LLMTask } from '../src/llm.js';
+import { processWebhook, getReactionResponse } from '../src/ingestion.js';
+import type { WhatsAppWebhook } from '../src/types.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const RAHUL_CHAT = '919876543210@s.whatsapp.net';
+const FRIENDS_GROUP = '120363000000001@g.us';
+const NEHA = '919811111111@s.whatsapp.net';
+const WEBHOOK_OPTIONS = { processOwnMessages: true, skipGroupMessages: false };
+let messageCounter = 0;
+
+const plan = (title: string) => ({
+  events: [{ type: 'meeting', title, description: null, event_time: '2030-12-05T20:00', location: null, participants: [], keywords: title.toLowerCase().split(' '), confidence: 0.9 }],
+});
+
+const fixtures = createFixtureProvider([
+  { task: 'analyze', match: 'Message to analyze:\n"dinner thursday 8pm?"', response: plan('Dinner Thursday') },
+  { task: 'analyze', match: 'Message to analyze:\n"movie on saturday?"', response: plan('Saturday movie') },
+  { task: 'analyze', match: 'Message to analyze:\n"badminton friday?"', response: plan('Badminton') },
+  { task: 'rsvp', match: 'Reply: "can\'t make it"', response: { response: 'declined', confidence: 0.9 } },
+  { task: 'rsvp', match: 'Reply: "probably not, sorry"', response: { response: 'declined', confidence: 0.7 } },
+]);
+const calls: LLMTask[] = [];
+const provider: LLMProvider = { name: 'recording', complete: request => { calls.push(request.task); return fixtures.complete(request); } };
+
+function payload(chatId: string, data: Partial<WhatsAppWebhook['data']> & { from?: string }): WhatsAppWebhook {
+  const { from, ...rest } = data;
+  return {
+    event: 'messages.upsert',
+    instance: 'test',
+    data: {
+      key: { remoteJid: chatId, fromMe: from === 'self', id: `msg-${++messageCounter}`, ...(chatId.endsWith('@g.us') && from !== 'self' && { participant: from }) },
+      pushName: from === 'self' ? 'Me' : 'Neha',
+      messageTimestamp: Math.floor(Date.now() / 1000),
+      ...rest,
+    },
+  };
+}
+
+async function send(chatId: string, text: string, from: string, quotedId?: string) {
+  const message = quotedId
+    ? { extendedTextMessage: { text, contextInfo: { stanzaId: quotedId, quotedMessage: { conversation: '...' } } } }
+    : { conversation: text };
+  const webhook = payload(chatId, { from, message });
+  return { id: webhook.data.key.id, result: await processWebhook(webhook, WEBHOOK_OPTIONS) };
+}
+
+function react(chatId: string, messageId: string, emoji: string, from: string) {
+  return processWebhook(payload(chatId, { from, message: { reactionMessage: { key: { remoteJid: chatId, id: messageId }, text: emoji } } }), WEBHOOK_OPTIONS);
+}
+
+describe('RSVPs from Replies and Reactions', () => {
+  beforeAll(() => {
+    openTestDb('rsvp');
+    initGemini({ apiKey: '', model: 'fixture', apiUrl: '', provider });
+  });
+
+  afterAll(() => {
+    closeTestDb('rsvp');
+  });
+
+  it('should read answers out of reactions, whatever the skin tone', () => {
+    expect(getReactionResponse('👍')).toBe('accepted');
+    expect(getReactionResponse('👍🏽')).toBe('accepted');
+    expect(getReactionResponse('❤')).toBe('accepted');
+    expect(getReactionResponse('👎🏻')).toBe('declined');
+    expect(getReactionResponse('🤔')).toBe('tentative');
+    expect(getReactionResponse('😂')).toBeNull();
+  });
+
+  it('should accept the plan of the message a reaction is on in a 1:1 chat', async () => {
+    const { id } = await send(RAHUL_CHAT, 'dinner thursday 8pm?', 'self');
+    const [dinner] = getEventsByChat(RAHUL_CHAT);
+    expect(dinner.status).toBe('discovered');
+
+    const result = await react(RAHUL_CHAT, id, '👍🏽', RAHUL_CHAT);
+    expect(result.rsvp).toMatchObject({ responder: '919876543210', response: 'accepted', via: 'reaction', events: [{ eventId: dinner.id }] });
+    expect(result.actionsPerformed).toEqual([expect.objectContaining({ action: 'accept', targetEventId: dinner.id })]);
+    expect(getEventById(dinner.id!)!.status).toBe('scheduled');
+    expect(getEventRsvps(dinner.id!)).toEqual([expect.objectContaining({ responder: '919876543210', response: 'accepted', via: 'reaction' })]);
+
+    // Taking the reaction back drops the answer; other reactions and messages without events aren't answers
+    expect(await react(RAHUL_CHAT, id, '', RAHUL_CHAT)).toMatchObject({ skipped: true, skipReason: 'reaction_removed' });
+    expect(getEventRsvps(dinner.id!)).toEqual([]);
+    expect(await react(RAHUL_CHAT, id, '😂', RAHUL_CHAT)).toMatchObject({ skipped: true, skipReason: 'not_an_answer' });
+    const { id: chatter } = await send(RAHUL_CHAT, 'how was your day', RAHUL_CHAT);
+    expect(await react(RAHUL_CHAT, chatter, '👍', 'self')).toMatchObject({ skipped: true, skipReason: 'no_events' });
+  });
+
+  it('should record group members\' answers but only move events on the owner\'s', async () => {
+    const { id } = await send(FRIENDS_GROUP, 'movie on saturday?', NEHA);
+    const [movie] = getEventsByChat(FRIENDS_GROUP);
+    calls.length = 0;
+
+    const { result } = await send(FRIENDS_GROUP, "can't make it", '919822222222@s.whatsapp.net', id);
+    expect(result.rsvp).toMatchObject({ responder: '919822222222', response: 'declined', via: 'reply' });
+    expect(result.actionsPerformed).toBeUndefined();
+    expect(getEventById(movie.id!)!.status).toBe('discovered');
+    // The quoted message names the target — no action detection or keyword search
+    expect(calls).toEqual(['rsvp']);
+
+    const own = await send(FRIENDS_GROUP, "can't make it", 'self', id);
+    expect(own.result.actionsPerformed).toEqual([expect.objectContaining({ action: 'ignore', targetEventId: movie.id })]);
+    expect(getEventById(movie.id!)!.status).toBe('ignored');
+    expect(getEventRsvps(movie.id!).map(r => [r.responder, r.response])).toEqual([['919822222222', 'declined'], ['self', 'declined']]);
+  });
+
+  it('should hold a doubtful decline for confirmation and analyze replies that aren\'t answers as usual', async () => {
+    const { id } = await send(RAHUL_CHAT, 'badminton friday?', 'self');
+    const badminton = getEventsByChat(RAHUL_CHAT).find(e => e.title === 'Badminton')!;
+
+    const { result } = await send(RAHUL_CHAT, 'probably not, sorry', RAHUL_CHAT, id);
+    expect(result.pendingActions).toEqual([expect.objectContaining({ action: 'cancel', targetEventId: badminton.id, reason: expect.stringMatching(/^Neha declined \(confidence 0.7/) })]);
+    expect(getEventById(badminton.id!)!.status).toBe('discovered');
+
+    calls.length = 0;
+    const question = await send(RAHUL_CHAT, 'which court?', RAHUL_CHAT, id);
+    expect(question.result.rsvp).toBeUndefined();
+    expect(calls).toEqual(['rsvp', 'action', 'analyze']);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getAllEvents, insertMessage, upsertContact, setContactTimezone, getContactById } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import { processMessage } from '../src/ingestion.js';
+import { parseZonedDateTime, resolveEventTime, addZonedDays, getOffsetMinutes, setUserTimezone, getUserTimezone } from '../src/timezone.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const unix = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+describe('Zoned Date Parsing', () => {
+  it('should read bare local times in the given timezone', () => {
+    expect(parseZonedDateTime('2026-03-12T17:00', 'Asia/Kolkata')).toBe(unix('2026-03-12T11:30:00Z'));
+    expect(parseZonedDateTime('2026-03-12T17:00', 'Europe/Berlin')).toBe(unix('2026-03-12T16:00:00Z'));
+    expect(parseZonedDateTime('2026-03-12', 'Asia/Kolkata')).toBe(unix('2026-03-11T18:30:00Z'));
+  });
+
+  it('should respect an explicit offset', () => {
+    expect(parseZonedDateTime('2026-03-12T17:00:00Z', 'Asia/Kolkata')).toBe(unix('2026-03-12T17:00:00Z'));
+    expect(parseZonedDateTime('2026-03-12T17:00:00+01:00', 'Asia/Kolkata')).toBe(unix('2026-03-12T16:00:00Z'));
+    expect(parseZonedDateTime('next thursday', 'Asia/Kolkata')).toBeNull();
+  });
+
+  it('should handle DST transitions', () => {
+    // Berlin switches to CEST on 2026-03-29
+    expect(getOffsetMinutes(new Date('2026-03-28T12:00:00Z'), 'Europe/Berlin')).toBe(60);
+    expect(getOffsetMinutes(new Date('2026-03-30T12:00:00Z'), 'Europe/Berlin')).toBe(120);
+    expect(parseZonedDateTime('2026-03-30T09:00', 'Europe/Berlin')).toBe(unix('2026-03-30T07:00:00Z'));
+
+    // Same wall-clock time one day later, across the switch
+    const before = parseZonedDateTime('2026-03-28T09:00', 'Europe/Berlin')!;
+    expect(addZonedDays(before, 2, 'Europe/Berlin')).toBe(unix('2026-03-30T07:00:00Z'));
+  });
+
+  it('should reject invalid timezones', () => {
+    const previous = getUserTimezone();
+    expect(() => setUserTimezone('Mars/Olympus')).toThrow();
+    expect(getUserTimezone()).toBe(previous);
+  });
+});
+
+describe('Event Time Resolution', () => {
+  // Thursday 2026-03-12, 18:00 IST
+  const sentAt = unix('2026-03-12T12:30:00Z');
+  const tz = 'Asia/Kolkata';
+
+  it('should keep future times as they are', () => {
+    const resolved = resolveEventTime('2026-03-13T10:00', { timezone: tz, referenceTime: sentAt, timeReference: 'relative' });
+    expect(resolved).toEqual({ time: unix('2026-03-13T04:30:00Z'), isPast: false, adjustment: null });
+  });
+
+  it('should move a passed time-only reference to the next day', () => {
+    const resolved = resolveEventTime('2026-03-12T09:00', { timezone: tz, referenceTime: sentAt, timeReference: 'time_only' });
+    expect(resolved!.time).toBe(unix('2026-03-13T03:30:00Z'));
+    expect(resolved!.isPast).toBe(false);
+  });
+
+  it('should move a weekday that resolved to the past by one week only', () => {
+    const resolved = resolveEventTime('2026-03-10T17:00', { timezone: tz, referenceTime: sentAt, timeReference: 'weekday' });
+    expect(resolved!.time).toBe(unix('2026-03-17T11:30:00Z'));
+  });
+
+  it('should move a passed date without a year to next year', () => {
+    const resolved = resolveEventTime('2026-02-01', { timezone: tz, referenceTime: sentAt, timeReference: 'date_without_year' });
+    expect(resolved!.time).toBe(parseZonedDateTime('2027-02-01', tz));
+  });
+
+  it('should record past-tense events as past', () => {
+    const resolved = resolveEventTime('2026-03-06T20:00', { timezone: tz, referenceTime: sentAt, timeReference: 'weekday', isPast: true });
+    expect(resolved).toEqual({ time: parseZonedDateTime('2026-03-06T20:00', tz), isPast: true, adjustment: null });
+  });
+
+  it('should keep a grace period for times that just passed', () => {
+    const resolved = resolveEventTime('2026-03-12T17:30', { timezone: tz, referenceTime: sentAt, timeReference: 'time_only' });
+    expect(resolved!.time).toBe(unix('2026-03-12T12:00:00Z'));
+    expect(resolved!.adjustment).toBeNull();
+  });
+});
+
+describe('Timezone-aware Ingestion', () => {
+  beforeAll(() => {
+    openTestDb('timezone');
+    setUserTimezone('Asia/Kolkata');
+  });
+
+  afterAll(() => {
+    closeTestDb('timezone');
+  });
+
+  it('should read event times in the contact timezone and expire past events', async () => {
+    const sentAt = Math.floor(Date.now() / 1000);
+    upsertContact({ id: '4915112345678', name: 'Lena', first_seen: sentAt, last_seen: sentAt, message_count: 1 });
+    expect(setContactTimezone('4915112345678', 'Europe/Berlin')).toBe(true);
+    expect(getContactById('4915112345678')!.timezone).toBe('Europe/Berlin');
+
+    initGemini({
+      apiKey: '',
+      model: 'fixture',
+      apiUrl: '',
+      provider: createFixtureProvider([
+        {
+          task: 'analyze',
+          match: 'call tomorrow',
+          response: { events: [{
+            type: 'meeting', title: 'Call with Lena', description: null, event_time: '2099-06-01T17:00',
+            time_reference: 'relative', is_past: false, location: null, participants: ['Lena'], keywords: ['call'], confidence: 0.9,
+          }] },
+        },
+        {
+          task: 'analyze',
+          match: 'met at the cafe',
+          response: { events: [{
+            type: 'meeting', title: 'Cafe meetup', description: null, event_time: '2020-01-10T12:00',
+            time_reference: 'weekday', is_past: true, location: null, participants: ['Lena'], keywords: ['cafe'], confidence: 0.9,
+          }] },
+        },
+      ]),
+    });
+
+    for (const [id, content] of [['tz_1', 'call tomorrow at 5?'], ['tz_2', 'we met at the cafe last friday']]) {
+      const message = { id, chat_id: '4915112345678@s.whatsapp.net', sender: '4915112345678', content, timestamp: sentAt };
+      insertMessage(message);
+      await processMessage(message);
+    }
+
+    const events = getAllEvents({});
+    const call = events.find(e => e.title === 'Call with Lena')!;
+    expect(call.event_time).toBe(unix('2099-06-01T15:00:00Z'));
+
+    const cafe = events.find(e => e.title === 'Cafe meetup')!;
+    expect(cafe.event_time).toBe(unix('2020-01-10T11:00:00Z'));
+    expect(cafe.status).toBe('expired');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { insertEvent, insertTrigger, updateEvent, updateEventTime, updateEventStatus, completeEvent, ignoreEvent, snoozeEvent, deleteEvent, undoLastEventChange, onEventChange, getEventById, getTriggersForEvent, setReminderPolicy, deleteReminderPolicy } from '../src/db.js';
+import { syncTimeTriggers, resyncTimeTriggers, getReminderOffsets, parseTriggerTime, startTriggerMaintenance, stopTriggerMaintenance } from '../src/triggers.js';
+import { startScheduler, stopScheduler } from '../src/scheduler.js';
+import type { EventType } from '../src/types.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const HOUR = 3600;
+const now = () => Math.floor(Date.now() / 1000);
+
+function createEvent(eventType: EventType, eventTime: number): number {
+  return insertEvent({
+    message_id: null,
+    event_type: eventType,
+    title: `${eventType} event`,
+    description: null,
+    event_time: eventTime,
+    location: null,
+    participants: null,
+    keywords: eventType,
+    confidence: 0.9,
+    status: 'scheduled',
+  });
+}
+
+function pendingOffsets(eventId: number): Array<number | null | undefined> {
+  return getTriggersForEvent(eventId).filter(t => !t.is_fired).map(t => t.offset_minutes);
+}
+
+beforeAll(() => {
+  openTestDb('triggers');
+});
+
+afterAll(() => {
+  stopScheduler();
+  closeTestDb('triggers');
+});
+
+describe('Reminder Offsets', () => {
+  it('should use the default, then the saved policy, then the event override', () => {
+    const flight = createEvent('travel', now() + 48 * HOUR);
+    expect(getReminderOffsets(getEventById(flight)!)).toEqual({ offsets: [1440, 60, 15], source: 'default' });
+    expect(syncTimeTriggers(flight)).toBe(3);
+
+    setReminderPolicy('travel', [2880, 300]);
+    expect(resyncTimeTriggers('travel')).toBe(1);
+    expect(pendingOffsets(flight)).toEqual([300]); // 2 days ahead has already passed
+
+    updateEvent(flight, { reminder_offsets: JSON.stringify([10]) });
+    syncTimeTriggers(flight);
+    expect(getReminderOffsets(getEventById(flight)!).source).toBe('event');
+    expect(pendingOffsets(flight)).toEqual([10]);
+
+    // The policy no longer touches events with their own offsets
+    deleteReminderPolicy('travel');
+    resyncTimeTriggers('travel');
+    expect(pendingOffsets(flight)).toEqual([10]);
+  });
+
+  it('should replace stale triggers when the event time changes', () => {
+    const coffee = createEvent('meeting', now() + 30 * HOUR);
+    syncTimeTriggers(coffee);
+    expect(pendingOffsets(coffee)).toEqual([1440, 60, 15]);
+
+    updateEvent(coffee, { event_time: now() + 2 * HOUR });
+    syncTimeTriggers(coffee);
+    expect(pendingOffsets(coffee)).toEqual([60, 15]);
+
+    const values = getTriggersForEvent(coffee).map(t => parseTriggerTime(t.trigger_value)!);
+    expect(values).toEqual([getEventById(coffee)!.event_time! - 60 * 60, getEventById(coffee)!.event_time! - 15 * 60]);
+  });
+
+  it('should fire legacy triggers stored as unix seconds', () => {
+    expect(parseTriggerTime('1773316800')).toBe(1773316800);
+    expect(parseTriggerTime('2026-03-12T12:00:00.000Z')).toBe(1773316800);
+    expect(parseTriggerTime('soon')).toBeNull();
+
+    const dentist = createEvent('reminder', now() + 30 * 60);
+    insertTrigger({ event_id: dentist, trigger_type: 'reminder_1hr', trigger_value: String(now() - 60), is_fired: false });
+
+    const fired: number[] = [];
+    startScheduler(event => { fired.push(event.id); }, 60000);
+    expect(fired).toContain(dentist);
+  });
+
+  it('should log a failed delivery instead of leaving an unhandled rejection', async () => {
+    const gym = createEvent('reminder', now() + 30 * 60);
+    insertTrigger({ event_id: gym, trigger_type: 'time_1h', trigger_value: new Date((now() - 60) * 1000).toISOString(), is_fired: false });
+
+    const attempted: number[] = [];
+    stopScheduler();
+    startScheduler(async event => {
+      attempted.push(event.id);
+      throw new Error('Evolution sendText failed: 502');
+    }, 60000);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(attempted).toContain(gym);
+    expect(getTriggersForEvent(gym).every(t => t.is_fired)).toBe(true);
+  });
+});
+
+describe('Trigger Lifecycle', () => {
+  beforeAll(() => startTriggerMaintenance());
+  afterAll(() => stopTriggerMaintenance());
+
+  function scheduledMeeting(hoursAhead: number): number {
+    const id = createEvent('meeting', now() + hoursAhead * HOUR);
+    syncTimeTriggers(id);
+    return id;
+  }
+
+  it('should rebuild triggers when the event is rescheduled', () => {
+    const id = scheduledMeeting(30);
+    expect(pendingOffsets(id)).toEqual([1440, 60, 15]);
+
+    updateEvent(id, { event_time: now() + 2 * HOUR });
+    expect(pendingOffsets(id)).toEqual([60, 15]);
+
+    updateEventTime(id, now() + 30 * 60);
+    expect(pendingOffsets(id)).toEqual([15]);
+    expect(parseTriggerTime(getTriggersForEvent(id)[0].trigger_value)).toBe(getEventById(id)!.event_time! - 15 * 60);
+  });
+
+  it('should rebuild triggers when the reminder offsets change', () => {
+    const id = scheduledMeeting(30);
+    updateEvent(id, { reminder_offsets: JSON.stringify([120]) });
+    expect(pendingOffsets(id)).toEqual([120]);
+  });
+
+  it('should cancel pending triggers when the event is completed or ignored', () => {
+    const completed = scheduledMeeting(30);
+    completeEvent(completed);
+    expect(pendingOffsets(completed)).toEqual([]);
+
+    const ignored = scheduledMeeting(30);
+    ignoreEvent(ignored);
+    expect(pendingOffsets(ignored)).toEqual([]);
+  });
+
+  it('should rebuild triggers when a completed event is reopened', () => {
+    const id = scheduledMeeting(30);
+    completeEvent(id);
+    updateEventStatus(id, 'scheduled');
+    expect(pendingOffsets(id)).toEqual([1440, 60, 15]);
+  });
+
+  it('should keep triggers when the event is snoozed', () => {
+    const id = scheduledMeeting(30);
+    const before = getTriggersForEvent(id).map(t => t.id);
+    snoozeEvent(id, 30);
+    expect(getTriggersForEvent(id).map(t => t.id)).toEqual(before);
+  });
+
+  it('should cancel pending triggers when the event is deleted and rebuild them on undo', () => {
+    const id = scheduledMeeting(30);
+    deleteEvent(id);
+    expect(getEventById(id)!.status).toBe('deleted');
+    expect(pendingOffsets(id)).toEqual([]);
+
+    undoLastEventChange(id);
+    expect(pendingOffsets(id)).toEqual([1440, 60, 15]);
+  });
+
+  it('should roll the change back when a listener fails', () => {
+    const id = scheduledMeeting(30);
+    const originalTime = getEventById(id)!.event_time;
+    const unsubscribe = onEventChange(() => { throw new Error('listener failed'); });
+    try {
+      expect(() => updateEvent(id, { event_time: now() + 2 * HOUR })).toThrow('listener failed');
+    } finally {
+      unsubscribe();
+    }
+    expect(getEventById(id)!.event_time).toBe(originalTime);
+    expect(pendingOffsets(id)).toEqual([1440, 60, 15]);
+  });
+});
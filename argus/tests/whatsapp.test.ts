@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getOutboundMessages, getEventsByChat } from '../src/db.js';
+import { initGemini } from '../src/gemini.js';
+import { createFixtureProvider } from '../src/llm.js';
+import { processWebhook } from '../src/ingestion.js';
+import type { IngestionResult } from '../src/ingestion.js';
+import { initWhatsApp, notifyWhatsApp, sendWhatsAppText, reminderWhatsAppText } from '../src/whatsapp.js';
+import type { WhatsAppSender } from '../src/whatsapp.js';
+import { setUserTimezone } from '../src/timezone.js';
+import { openTestDb, closeTestDb } from './helpers/db.js';
+
+const OWN_CHAT = '919876543210@s.whatsapp.net';
+const WEBHOOK_OPTIONS = { processOwnMessages: true, skipGroupMessages: false };
+// Thu Dec 5 2030, 19:00 in Asia/Kolkata
+const EVENING = Date.UTC(2030, 11, 5, 13, 30);
+const MINUTE = 60;
+
+// Evolution hands out message IDs; the echo can come back through the webhook before the send returns
+let sentCounter = 0;
+let echoDuringSend = false;
+const echoes: IngestionResult[] = [];
+const sent: Array<{ chatId: string; text: string }> = [];
+const sender: WhatsAppSender = async (chatId, text) => {
+  sent.push({ chatId, text });
+  if (echoDuringSend) echoes.push(await ownMessage(text, `echo-${sentCounter + 1}`));
+  return `sent-${++sentCounter}`;
+};
+
+let ownCounter = 0;
+function ownMessage(text: string, id = `own-${++ownCounter}`) {
+  return processWebhook({
+    event: 'messages.upsert',
+    instance: 'test',
+    data: { key: { remoteJid: OWN_CHAT, fromMe: true, id }, pushName: 'Me', message: { conversation: text }, messageTimestamp: Math.floor(Date.now() / 1000) },
+  }, WEBHOOK_OPTIONS);
+}
+
+describe('WhatsApp Reminders', () => {
+  beforeAll(() => {
+    openTestDb('whatsapp');
+    setUserTimezone('Asia/Kolkata');
+    initGemini({
+      apiKey: '', model: 'fixture', apiUrl: '',
+      provider: createFixtureProvider([{
+        task: 'analyze',
+        match: 'Message to analyze:\n"dinner with Rahul at Toit thursday 8pm"',
+        response: { events: [{ type: 'meeting', title: 'Dinner with Rahul', description: null, event_time: '2030-12-05T20:00', location: 'Toit', participants: ['Rahul'], keywords: ['dinner', 'rahul', 'toit'], confidence: 0.9 }] },
+      }]),
+    });
+  });
+
+  afterAll(() => {
+    closeTestDb('whatsapp');
+  });
+
+  it('should word reminders by how soon the event starts', () => {
+    const eventTime = EVENING / 1000 + 60 * MINUTE;
+    expect(reminderWhatsAppText({ title: 'Dinner with Rahul', event_time: eventTime, location: 'Toit' }, EVENING)).toBe('⏰ Dinner with Rahul at Toit in 1 hour');
+    expect(reminderWhatsAppText({ title: 'Dinner at Toit', event_time: eventTime, location: 'Toit' }, EVENING + 46 * MINUTE * 1000)).toBe('⏰ Dinner at Toit in 14 min');
+    expect(reminderWhatsAppText({ title: 'Dinner at Toit', event_time: eventTime, location: null }, EVENING - 23 * 60 * MINUTE * 1000)).toBe('⏰ Dinner at Toit on Thu, Dec 5, 8:00 PM');
+    expect(reminderWhatsAppText({ title: 'Pay rent' }, EVENING)).toBe('⏰ Pay rent');
+  });
+
+  it('should send to every target within the hourly limit', async () => {
+    expect(initWhatsApp({ targets: ['919876543210'], maxPerHour: 10 })).toBe(false);
+    expect(await notifyWhatsApp('⏰ Standup now', null, EVENING)).toBeNull();
+
+    expect(initWhatsApp({ targets: ['919876543210', '120363000000001@g.us'], maxPerHour: 2, sender })).toBe(true);
+    expect(await notifyWhatsApp('⏰ Standup now', 1, EVENING)).toEqual({ sent: 2, failed: 0, rateLimited: 0 });
+    expect(sent.map(s => s.chatId)).toEqual([OWN_CHAT, '120363000000001@g.us']);
+
+    await sendWhatsAppText(OWN_CHAT, 'Not a reminder', 'notification');
+    expect(await notifyWhatsApp('⏰ Gym now', 4, Date.now())).toEqual({ sent: 1, failed: 0, rateLimited: 1 });
+    expect(getOutboundMessages(1)[0]).toMatchObject({ chat_id: '120363000000001@g.us', content: '⏰ Gym now', event_id: 4, status: 'sent', message_id: 'sent-4' });
+  });
+
+  it('should record failed sends without counting them against the limit', async () => {
+    initWhatsApp({ targets: ['919811111111'], maxPerHour: 1, sender: async () => { throw new Error('Evolution sendText failed: 500'); } });
+    expect(await notifyWhatsApp('⏰ Dentist in 15 min', 5)).toEqual({ sent: 0, failed: 1, rateLimited: 0 });
+    expect(await notifyWhatsApp('⏰ Dentist in 15 min', 5)).toEqual({ sent: 0, failed: 1, rateLimited: 0 });
+    expect(getOutboundMessages(1)[0]).toMatchObject({ status: 'failed', error: 'Evolution sendText failed: 500', message_id: null });
+  });
+
+  it('should not ingest its own reminders when they come back through the webhook', async () => {
+    initWhatsApp({ targets: [OWN_CHAT], maxPerHour: 0, sender });
+    const reminder = '⏰ Dinner with Rahul at Toit thursday 8pm';
+
+    await notifyWhatsApp(reminder, null);
+    expect(await ownMessage(reminder, `sent-${sentCounter}`)).toMatchObject({ skipped: true, skipReason: 'argus_message' });
+
+    // Before Evolution answered with the ID, the echo is recognized by its text
+    echoDuringSend = true;
+    expect(await notifyWhatsApp('⏰ Dinner with Rahul at Toit in 1 hour', null)).toEqual({ sent: 1, failed: 0, rateLimited: 0 });
+    echoDuringSend = false;
+    expect(echoes).toEqual([expect.objectContaining({ skipped: true, skipReason: 'argus_message' })]);
+    expect(getEventsByChat(OWN_CHAT)).toEqual([]);
+
+    // What we type ourselves is still read
+    const typed = await ownMessage('dinner with Rahul at Toit thursday 8pm');
+    expect(typed.eventsCreated).toBe(1);
+  });
+});